@@ -12,15 +12,9 @@
  *   body: GetCascadeModelConfigsRequest { metadata: Metadata }
  *   resp: GetCascadeModelConfigsResponse { client_model_configs: ClientModelConfig[], ... }
  *
- *   ClientModelConfig (verified against extension.js):
- *     #1  label              string
- *     #2  model_or_alias     submessage   (carries the proto enum value)
- *     #22 model_uid          string       ← what the cloud accepts in /GetChatMessage
- *     #5  supports_images    bool         ← authoritative attachment flag
- *     #18 max_tokens         int32        ← per-model context/output limit
- *     #4  disabled           bool
- *     #7  is_premium         bool
- *     #9  is_beta            bool
+ *   The ClientModelConfig schema and decoder live in
+ *   src/cloud-direct/catalog.ts (`fetchModelCatalog`), shared with the
+ *   proxy's pre-flight, `/v1/models` and the CLI's `models` command.
  *
  * Usage:
  *
@@ -35,7 +29,7 @@
  *   bun run scripts/sync-models.ts --dump       # dump the raw catalog as JSON
  *                                                 to stdout (for inspection)
  *
- * Auth: reads credentials.json the same way the plugin does. Run after
+ * Auth: reads the active account from accounts.json the same way the plugin does. Run after
  * `opencode auth login` (or `npx opencode-windsurf-auth login`) so this
  * script has a usable api_key.
  *
@@ -46,11 +40,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as crypto from 'crypto';
 
-import { mintUserJwt } from '../src/cloud-direct/auth.js';
-import { buildMetadata } from '../src/cloud-direct/metadata.js';
-import { encodeMessage, iterFields } from '../src/cloud-direct/wire.js';
+import { fetchModelCatalog, type ModelCatalogEntry } from '../src/cloud-direct/catalog.js';
 import { loadCredentials } from '../src/oauth/storage.js';
 
 // ─── CLI args ──────────────────────────────────────────────────────────
@@ -65,19 +56,7 @@ const REPO_ROOT = process.cwd();
 const EXAMPLE_PATH = path.join(REPO_ROOT, 'opencode_config_example.json');
 
 // ─── Wire: fetch the catalog ───────────────────────────────────────────
-interface ClientModelConfig {
-  label?: string;
-  modelUid?: string;
-  supportsImages?: boolean;
-  maxTokens?: number;
-  disabled?: boolean;
-  isPremium?: boolean;
-  isBeta?: boolean;
-  isRecommended?: boolean;
-  modelEnum?: number;
-}
-
-async function fetchCatalog(): Promise<ClientModelConfig[]> {
+async function fetchCatalog(): Promise<ModelCatalogEntry[]> {
   const creds = loadCredentials();
   if (!creds) {
     throw new Error(
@@ -86,83 +65,40 @@ async function fetchCatalog(): Promise<ClientModelConfig[]> {
     );
   }
   const host = (creds.apiServerUrl ?? 'https://server.codeium.com').replace(/\/$/, '');
-  const jwt = await mintUserJwt(creds.apiKey, host);
-  const metadata = buildMetadata({
-    apiKey: creds.apiKey,
-    userJwt: jwt.jwt,
-    sessionId: crypto.randomUUID(),
-    requestId: BigInt(Date.now()),
-    triggerId: crypto.randomUUID(),
-  });
-  const reqBody = encodeMessage(1, metadata); // GetCascadeModelConfigsRequest{metadata: 1}
-
-  // Buffer/Uint8Array are accepted by fetch at runtime (Bun + undici both
-  // handle it), but TS's default BodyInit doesn't include Uint8Array.
-  // We cast through `unknown` to keep the script `bun run`-able without
-  // pulling in @types/bun (this file is excluded from the publish build).
-  const resp = await fetch(`${host}/exa.api_server_pb.ApiServerService/GetCascadeModelConfigs`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/proto', 'Connect-Protocol-Version': '1' },
-    body: reqBody as unknown as BodyInit,
-  });
-  if (!resp.ok) {
-    const text = await resp.text();
-    throw new Error(`GetCascadeModelConfigs HTTP ${resp.status}: ${text.slice(0, 300)}`);
-  }
-  const buf = Buffer.from(await resp.arrayBuffer());
-
-  const configs: ClientModelConfig[] = [];
-  for (const f of iterFields(buf)) {
-    if (f.num === 1 && f.wire === 2 && Buffer.isBuffer(f.value)) {
-      configs.push(parseClientModelConfig(f.value));
-    }
-  }
-  return configs;
-}
-
-function parseClientModelConfig(buf: Buffer): ClientModelConfig {
-  const c: ClientModelConfig = {};
-  for (const f of iterFields(buf)) {
-    if (f.num === 1 && f.wire === 2) c.label = (f.value as Buffer).toString('utf8');
-    else if (f.num === 22 && f.wire === 2) c.modelUid = (f.value as Buffer).toString('utf8');
-    else if (f.num === 5 && f.wire === 0) c.supportsImages = f.value === 1n;
-    else if (f.num === 4 && f.wire === 0) c.disabled = f.value === 1n;
-    else if (f.num === 7 && f.wire === 0) c.isPremium = f.value === 1n;
-    else if (f.num === 9 && f.wire === 0) c.isBeta = f.value === 1n;
-    else if (f.num === 11 && f.wire === 0) c.isRecommended = f.value === 1n;
-    else if (f.num === 18 && f.wire === 0) c.maxTokens = Number(f.value);
-    else if (f.num === 2 && f.wire === 2 && Buffer.isBuffer(f.value)) {
-      // model_or_alias submessage — first varint field is the proto enum
-      for (const sf of iterFields(f.value)) {
-        if (sf.wire === 0) {
-          c.modelEnum = Number(sf.value);
-          break;
-        }
-      }
-    }
-  }
-  return c;
+  return (await fetchModelCatalog(creds.apiKey, host)).entries;
 }
 
 // ─── Catalog → opencode config shape ───────────────────────────────────
 /**
- * Convert a ClientModelConfig into the per-model entry our
+ * Convert a ModelCatalogEntry into the per-model entry our
  * `opencode_config_example.json` uses. We're conservative on modalities:
  * even if the cloud advertises pdf/audio/video for a model, we only
  * declare ["text", "image"] because our cloud-direct wire encoder only
  * transports those two (ChatMessagePrompt field #10 → ImageData).
  */
-function toConfigEntry(c: ClientModelConfig) {
+function toConfigEntry(c: ModelCatalogEntry) {
   const entry: Record<string, unknown> = {
-    name: c.label ?? c.modelUid ?? 'Unknown',
+    name: c.label,
     limit: {
       context: c.maxTokens ?? 200000,
       output: Math.min(c.maxTokens ?? 200000, 128000),
     },
   };
+  return applyImageSupport(entry, c);
+}
+
+/**
+ * Set `attachment` / `modalities` from the catalog's `supports_images`.
+ * `attachment: false` is written explicitly: opencode then refuses image
+ * attachments in the UI, instead of the proxy rejecting them (or stripping
+ * them, per its image policy) after the fact.
+ */
+function applyImageSupport(entry: Record<string, unknown>, c: ModelCatalogEntry): Record<string, unknown> {
+  entry.attachment = c.supportsImages;
   if (c.supportsImages) {
-    entry.attachment = true;
     entry.modalities = { input: ['text', 'image'], output: ['text'] };
+  } else {
+    delete entry.modalities;
   }
   return entry;
 }
@@ -198,10 +134,9 @@ function loadExampleModels(): Record<string, Record<string, unknown>> {
   return cfg?.provider?.windsurf?.models ?? {};
 }
 
-function report(catalog: ClientModelConfig[], current: Record<string, Record<string, unknown>>): void {
-  const cloudByKey = new Map<string, ClientModelConfig>();
+function report(catalog: ModelCatalogEntry[], current: Record<string, Record<string, unknown>>): void {
+  const cloudByKey = new Map<string, ModelCatalogEntry>();
   for (const c of catalog) {
-    if (!c.modelUid) continue;
     if (c.disabled) continue;
     cloudByKey.set(cloudUidToConfigKey(c.modelUid), c);
   }
@@ -231,7 +166,7 @@ function report(catalog: ClientModelConfig[], current: Record<string, Record<str
         c.isBeta ? 'beta' : null,
         c.isRecommended ? 'recommended' : null,
       ].filter(Boolean).join(' ');
-      console.log(`  ${k.padEnd(35)} ${(c.label ?? '').padEnd(40)} ${flags}`);
+      console.log(`  ${k.padEnd(35)} ${c.label.padEnd(40)} ${flags}`);
     }
     if (onlyCloud.length > 50) console.log(`  … and ${onlyCloud.length - 50} more`);
     console.log();
@@ -264,12 +199,16 @@ function report(catalog: ClientModelConfig[], current: Record<string, Record<str
 }
 
 // ─── Optional write path ───────────────────────────────────────────────
-function writeFreshExampleConfig(catalog: ClientModelConfig[]): void {
+function writeFreshExampleConfig(catalog: ModelCatalogEntry[]): void {
   const cfg = JSON.parse(fs.readFileSync(EXAMPLE_PATH, 'utf8'));
-  const newModels: Record<string, ReturnType<typeof toConfigEntry>> = {};
+  const current = loadExampleModels();
+  const newModels: Record<string, Record<string, unknown>> = {};
   for (const c of catalog) {
-    if (!c.modelUid || c.disabled) continue;
-    newModels[cloudUidToConfigKey(c.modelUid)] = toConfigEntry(c);
+    if (c.disabled) continue;
+    const key = cloudUidToConfigKey(c.modelUid);
+    // Keep hand-curated entries (variants, limits) and only refresh the
+    // image flag, which the catalog is authoritative for.
+    newModels[key] = current[key] ? applyImageSupport({ ...current[key] }, c) : toConfigEntry(c);
   }
   cfg.provider.windsurf.models = newModels;
   fs.copyFileSync(EXAMPLE_PATH, EXAMPLE_PATH + '.bak');
@@ -277,10 +216,9 @@ function writeFreshExampleConfig(catalog: ClientModelConfig[]): void {
   console.log(`wrote ${Object.keys(newModels).length} models to ${EXAMPLE_PATH}`);
   console.log(`backup at ${EXAMPLE_PATH}.bak`);
   console.log();
-  console.log('IMPORTANT: review the diff before committing. This sketch does NOT yet preserve');
-  console.log('  - the variants[] subtree on our base-model entries');
-  console.log('  - hand-curated context/output limits that differ from the cloud snapshot');
-  console.log('  - the provider-level name/npm/options fields (they should round-trip OK)');
+  console.log('IMPORTANT: review the diff before committing. Existing entries keep their');
+  console.log('variants[] and limits (only attachment/modalities are refreshed), but models');
+  console.log('whose cloud uid differs from our config key are written as new entries.');
 }
 
 // ─── Main ──────────────────────────────────────────────────────────────
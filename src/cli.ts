@@ -3,11 +3,20 @@
  * opencode-windsurf-auth CLI entry point.
  *
  * Subcommands:
- *   login [--manual] [--signup] [--email <addr>] [--portal-url <https://...>]
+ *   login [--manual] [--signup] [--email <addr>] [--portal-url <https://...>] [--add [--label <name>]]
  *       Browser-based OAuth flow. Defaults to the loopback callback strategy.
  *       Falls back to manual paste if --manual is set or the loopback bind fails.
+ *       `--add` keeps the accounts already signed in and adds this one.
  *   logout
- *       Delete the persisted credentials file.
+ *       Sign out of the active account.
+ *   accounts [list] | use <ref> | rename <ref> <label> | remove <ref>
+ *       Manage signed-in accounts. <ref> is the number shown by `list`,
+ *       the account label, or its id.
+ *   accounts strategy [sticky|round-robin|least-used]
+ *       Show or set how the proxy spreads requests across accounts.
+ *   models [--json]
+ *       List the active account's live model catalog (enabled/disabled,
+ *       context window, image support, premium/beta flags).
  *   whoami
  *       Print the account name + apiServerUrl + credential path for the
  *       currently logged-in session.
@@ -21,9 +30,23 @@
  */
 
 import { login, type LoginOptions } from './oauth/login.js';
-import { deleteCredentials, getCredentialsPath, loadCredentials } from './oauth/storage.js';
+import {
+  AccountNotFoundError,
+  deleteCredentials,
+  getActiveAccount,
+  getCredentialsPath,
+  loadAccounts,
+  loadAccountState,
+  loadCredentials,
+  removeAccount,
+  renameAccount,
+  selectAccount,
+  setAccountStrategy,
+} from './oauth/storage.js';
+import type { AccountStrategy } from './oauth/types.js';
 import { DEFAULT_REGION, type WindsurfRegion } from './oauth/types.js';
 import { WindsurfRegistrationError } from './oauth/register-user.js';
+import { fetchModelCatalog, type ModelCatalogEntry } from './cloud-direct/catalog.js';
 
 interface ParsedArgs {
   subcommand: string;
@@ -31,6 +54,13 @@ interface ParsedArgs {
   signup: boolean;
   email?: string;
   portalUrl?: string;
+  /** `login --add`: keep existing accounts. */
+  add: boolean;
+  label?: string;
+  /** `models --json`: raw catalog entries instead of a table. */
+  json: boolean;
+  /** Non-flag arguments after the subcommand (`accounts use team`). */
+  positionals: string[];
   help: boolean;
 }
 
@@ -42,6 +72,9 @@ function parseArgs(argv: string[]): ParsedArgs {
     subcommand: isHelpLeading ? 'help' : first,
     manual: false,
     signup: false,
+    add: false,
+    json: false,
+    positionals: [],
     help: isHelpLeading,
   };
   for (let i = 1; i < argv.length; i++) {
@@ -64,11 +97,23 @@ function parseArgs(argv: string[]): ParsedArgs {
       case '--portal-url':
         out.portalUrl = argv[++i];
         break;
+      case '--json':
+        out.json = true;
+        break;
+      case '--add':
+        out.add = true;
+        break;
+      case '--label':
+        out.label = argv[++i];
+        break;
       default:
         if (a.startsWith('--email=')) out.email = a.slice('--email='.length);
         else if (a.startsWith('--portal-url=')) out.portalUrl = a.slice('--portal-url='.length);
-        else if (a === '--' || !a.startsWith('-')) {
-          // Positional args ignored; we don't have any commands that take them.
+        else if (a.startsWith('--label=')) out.label = a.slice('--label='.length);
+        else if (a === '--') {
+          // Separator; nothing to do.
+        } else if (!a.startsWith('-')) {
+          out.positionals.push(a);
         } else {
           throw new Error(`Unknown flag: ${a}`);
         }
@@ -116,16 +161,30 @@ function usage(): string {
 opencode-windsurf-auth — Windsurf OAuth login for the opencode plugin
 
 Usage:
-  opencode-windsurf-auth login [--manual] [--signup] [--email <addr>] [--portal-url <url>]
+  opencode-windsurf-auth login [--manual] [--signup] [--email <addr>] [--portal-url <url>] [--add [--label <name>]]
   opencode-windsurf-auth logout
   opencode-windsurf-auth whoami
   opencode-windsurf-auth status
+  opencode-windsurf-auth models [--json]
+  opencode-windsurf-auth accounts [list]
+  opencode-windsurf-auth accounts use <ref>
+  opencode-windsurf-auth accounts rename <ref> <label>
+  opencode-windsurf-auth accounts remove <ref>
+  opencode-windsurf-auth accounts strategy [sticky|round-robin|least-used]
 
 Login options:
   --manual              Force manual-paste flow (no localhost callback).
   --signup              Send the user to /windsurf/signup instead of /signin.
   --email <addr>        Pre-fill the sign-in email field.
   --portal-url <url>    Custom enterprise portal (e.g. https://your-co.windsurf.com).
+  --add                 Add another account instead of replacing the active one.
+  --label <name>        Label for the account added with --add (default: account name).
+
+Accounts:
+  <ref> is the number shown by \`accounts list\`, the account label, or its id.
+  The proxy uses the active account (\`accounts use\` switches it) and, when
+  one is rate limited, fails over to the others. \`accounts strategy\`
+  round-robin / least-used spreads every request across all accounts.
 
 Credentials are stored at:
   ${getCredentialsPath()}
@@ -139,6 +198,8 @@ async function cmdLogin(args: ParsedArgs): Promise<number> {
     manualPaste: args.manual,
     signUp: args.signup,
     loginHint: args.email,
+    addAccount: args.add,
+    accountLabel: args.label,
     onUrl: (url) => {
       // Print the URL even when the loopback path opens the browser
       // automatically — useful for SSH sessions where openBrowser is a no-op.
@@ -152,7 +213,9 @@ async function cmdLogin(args: ParsedArgs): Promise<number> {
 
   try {
     const result = await login(opts);
+    const active = loadCredentials();
     console.log(`\nSigned in as: ${result.name}`);
+    if (active) console.log(`Account      : ${active.label} (${active.id}, active)`);
     console.log(`API server   : ${result.apiServerUrl}`);
     console.log(`Credentials  : ${getCredentialsPath()}`);
     return 0;
@@ -168,13 +231,16 @@ async function cmdLogin(args: ParsedArgs): Promise<number> {
   }
 }
 
-function cmdLogout(): number {
-  const removed = deleteCredentials();
-  if (removed) {
-    console.log(`Removed credentials at ${getCredentialsPath()}`);
+async function cmdLogout(): Promise<number> {
+  const active = loadCredentials();
+  const removed = await deleteCredentials();
+  if (removed && active) {
+    console.log(`Signed out of ${active.label} (${active.id}).`);
+    const next = loadCredentials();
+    if (next) console.log(`Active account is now ${next.label} (${next.id}).`);
     return 0;
   }
-  console.log('Already logged out — no credentials file found.');
+  console.log('Already logged out — no credentials found.');
   return 0;
 }
 
@@ -184,6 +250,7 @@ function cmdWhoami(): number {
     console.error('Not logged in. Run `opencode-windsurf-auth login`.');
     return 1;
   }
+  console.log(`Account    : ${creds.label} (${creds.id})`);
   console.log(`Name       : ${creds.name}`);
   console.log(`API server : ${creds.apiServerUrl}`);
   console.log(`Issued at  : ${creds.issuedAt}`);
@@ -206,6 +273,7 @@ function cmdStatus(): number {
     return 0;
   }
   console.log(`Status     : logged in`);
+  console.log(`Account    : ${creds.label} (${creds.id})`);
   console.log(`Name       : ${creds.name}`);
   console.log(`API server : ${creds.apiServerUrl}`);
   console.log(`Issued at  : ${creds.issuedAt}`);
@@ -213,6 +281,118 @@ function cmdStatus(): number {
   return 0;
 }
 
+async function cmdModels(args: ParsedArgs): Promise<number> {
+  const creds = loadCredentials();
+  if (!creds) {
+    console.error('Not logged in. Run `opencode-windsurf-auth login`.');
+    return 1;
+  }
+  const host = (creds.apiServerUrl ?? 'https://server.codeium.com').replace(/\/$/, '');
+  let entries: ModelCatalogEntry[];
+  try {
+    entries = (await fetchModelCatalog(creds.apiKey, host)).entries;
+  } catch (err) {
+    console.error(`Could not fetch the model catalog: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+  if (args.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return 0;
+  }
+  for (const e of entries) {
+    const flags = [
+      e.disabled ? 'disabled' : 'enabled',
+      e.maxTokens ? `${Math.round(e.maxTokens / 1000)}K ctx` : null,
+      e.creditMultiplier !== undefined ? `${e.creditMultiplier}x credits` : null,
+      e.supportsImages ? 'images' : null,
+      e.isPremium ? 'premium' : null,
+      e.isBeta ? 'beta' : null,
+      e.isRecommended ? 'recommended' : null,
+    ].filter(Boolean).join(', ');
+    console.log(`${e.disabled ? ' ' : '+'} ${e.modelUid.padEnd(36)} ${e.label.padEnd(36)} ${flags}`);
+  }
+  const enabled = entries.filter((e) => !e.disabled).length;
+  console.log(`\n${enabled} of ${entries.length} models enabled for ${creds.label}.`);
+  return 0;
+}
+
+function cmdAccountsList(): number {
+  const store = loadAccounts();
+  if (store.accounts.length === 0) {
+    console.log('No accounts. Run `opencode-windsurf-auth login` to add one.');
+    return 0;
+  }
+  const active = getActiveAccount(store);
+  const state = loadAccountState();
+  const now = Date.now();
+  store.accounts.forEach((a, i) => {
+    const marker = a.id === active?.id ? '*' : ' ';
+    const rl = state.accounts[a.id]?.rateLimit;
+    const limited = rl?.isLimited && (rl.resetAt ?? 0) > now
+      ? `  (rate limited, ${Math.ceil(((rl.resetAt ?? now) - now) / 1000)}s left)`
+      : '';
+    console.log(`${marker} ${i + 1}. ${a.label}  [${a.id}]  ${a.name}  ${a.apiServerUrl}${limited}`);
+  });
+  console.log(`\n* = active. Strategy: ${store.settings?.accountStrategy ?? 'sticky'}. Stored at ${getCredentialsPath()}`);
+  return 0;
+}
+
+async function cmdAccounts(args: ParsedArgs): Promise<number> {
+  const [action = 'list', ref, label] = args.positionals;
+  const needRef = (n: number, what: string): boolean => {
+    if (args.positionals.length >= n) return true;
+    console.error(`Usage: opencode-windsurf-auth accounts ${what}`);
+    return false;
+  };
+  try {
+    switch (action) {
+      case 'list':
+        return cmdAccountsList();
+      case 'use': {
+        if (!needRef(2, 'use <ref>')) return 64;
+        const account = await selectAccount(ref!);
+        console.log(`Active account: ${account.label} (${account.id}, ${account.name})`);
+        return 0;
+      }
+      case 'rename': {
+        if (!needRef(3, 'rename <ref> <label>')) return 64;
+        const account = await renameAccount(ref!, label!);
+        console.log(`Renamed ${account.id} to "${account.label}".`);
+        return 0;
+      }
+      case 'remove': {
+        if (!needRef(2, 'remove <ref>')) return 64;
+        const account = await removeAccount(ref!);
+        console.log(`Removed ${account.label} (${account.id}).`);
+        const next = loadCredentials();
+        if (next) console.log(`Active account is now ${next.label} (${next.id}).`);
+        return 0;
+      }
+      case 'strategy': {
+        const strategies: AccountStrategy[] = ['sticky', 'round-robin', 'least-used'];
+        if (!ref) {
+          console.log(loadAccounts().settings?.accountStrategy ?? 'sticky');
+          return 0;
+        }
+        if (!strategies.includes(ref as AccountStrategy)) {
+          console.error(`Unknown strategy "${ref}". Expected one of: ${strategies.join(', ')}.`);
+          return 64;
+        }
+        await setAccountStrategy(ref as AccountStrategy);
+        console.log(`Account strategy: ${ref}`);
+        return 0;
+      }
+      default:
+        console.error(`Unknown accounts action: ${action}`);
+        console.error(usage());
+        return 64;
+    }
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    return err instanceof AccountNotFoundError ? 1 : 2;
+  }
+}
+
 async function main(): Promise<number> {
   let args: ParsedArgs;
   try {
@@ -233,10 +413,14 @@ async function main(): Promise<number> {
       return cmdLogin(args);
     case 'logout':
       return cmdLogout();
+    case 'accounts':
+      return cmdAccounts(args);
     case 'whoami':
       return cmdWhoami();
     case 'status':
       return cmdStatus();
+    case 'models':
+      return cmdModels(args);
     default:
       console.error(`Unknown subcommand: ${args.subcommand}`);
       console.error(usage());
@@ -25,10 +25,23 @@
  *   }
  *   ClientModelConfig {
  *     #1  label                string
+ *     #2  model_or_alias       submessage — first varint is the proto enum
+ *     #3  credit_multiplier    float  ← credits charged per message
  *     #4  disabled             bool   ← the gate this module reads
+ *     #5  supports_images      bool
+ *     #7  is_premium           bool
+ *     #9  is_beta              bool
+ *     #11 is_recommended       bool
+ *     #13 pricing_type         enum   ModelPricingType
+ *     #18 max_tokens           int32  ← context window, drives maxInputTokens
  *     #22 model_uid            string ← what `GetChatMessage` accepts
  *   }
  *
+ *   The JSON form of the same message also carries `provider`,
+ *   `modelCostTier` and a nested `modelInfo` (see docs/CLOUD_DIRECT.md).
+ *   Nothing here reads them, so they're skipped like any other unknown
+ *   field.
+ *
  *   Disabled semantics: TRUE means "this UID exists in the catalog but the
  *   caller's account/tier cannot run inference against it." BYOK models
  *   surface as `disabled: false` so users with their own provider keys still
@@ -58,9 +71,31 @@ export interface ModelCatalogEntry {
   label: string;
   /** True when the caller's account tier cannot use this UID for chat. */
   disabled: boolean;
+  /**
+   * Context window in tokens (`max_tokens`, #18). Undefined when the cloud
+   * omits it — callers fall back to the static table in `model-limits.ts`.
+   */
+  maxTokens?: number;
+  /** Accepts image input (`supports_images`, #5). */
+  supportsImages: boolean;
+  /** Billed at premium rates (`is_premium`, #7). */
+  isPremium: boolean;
+  /** Flagged beta in the Windsurf picker (`is_beta`, #9). */
+  isBeta: boolean;
+  /** Highlighted in the Windsurf picker (`is_recommended`, #11). */
+  isRecommended: boolean;
+  /** Legacy proto enum from `model_or_alias` (#2); undefined for string-UID-only models. */
+  modelEnum?: number;
+  /** Credits charged per message (`credit_multiplier`, #3); undefined when the cloud omits it. */
+  creditMultiplier?: number;
+  /** `ModelPricingType` enum value (`pricing_type`, #13); undefined when unset. */
+  pricingType?: number;
 }
 
-interface CacheEntry {
+/** A parsed `GetCascadeModelConfigsResponse` for one account. */
+export interface ModelCatalog {
+  /** Every config, in the order the cloud returned them. */
+  entries: ModelCatalogEntry[];
   /** Lookup keyed by `model_uid`. */
   byUid: Map<string, ModelCatalogEntry>;
   fetchedAt: number;
@@ -69,8 +104,8 @@ interface CacheEntry {
   host: string;
 }
 
-let cached: CacheEntry | null = null;
-let inFlight: Promise<CacheEntry> | null = null;
+let cached: ModelCatalog | null = null;
+let inFlight: Promise<ModelCatalog> | null = null;
 let inFlightKey: string | null = null;
 
 function flightKey(apiKey: string, host: string): string {
@@ -78,15 +113,15 @@ function flightKey(apiKey: string, host: string): string {
 }
 
 /**
- * Fetch the cascade model catalog for `(apiKey, host)` and parse the
- * subset of `ClientModelConfig` we care about into a UID-keyed map.
+ * Fetch the cascade model catalog for `(apiKey, host)` and parse every
+ * `ClientModelConfig` into entries plus a UID-keyed map.
  *
  * Throws on transport/auth failure so the caller can decide whether to fall
  * back to "skip pre-flight". Does NOT throw on an unexpected response body —
  * a malformed catalog returns an empty map, treated the same as "model not
  * listed" by the chat pre-flight.
  */
-async function fetchCatalog(apiKey: string, host: string, signal?: AbortSignal): Promise<CacheEntry> {
+async function fetchCatalog(apiKey: string, host: string, signal?: AbortSignal): Promise<ModelCatalog> {
   const userJwt = await getCachedUserJwt(apiKey, host, signal);
 
   const metadata = buildMetadata({
@@ -132,31 +167,76 @@ async function fetchCatalog(apiKey: string, host: string, signal?: AbortSignal):
     const text = await resp.text();
     throw new Error(`GetCascadeModelConfigs HTTP ${resp.status}: ${text.slice(0, 200)}`);
   }
-  const buf = Buffer.from(await resp.arrayBuffer());
+  const entries = parseModelConfigsResponse(Buffer.from(await resp.arrayBuffer()));
+  const byUid = new Map(entries.map((e) => [e.modelUid, e]));
+  return { entries, byUid, fetchedAt: Date.now(), apiKey, host };
+}
 
-  // GetCascadeModelConfigsResponse #1 (repeated ClientModelConfig)
-  const byUid = new Map<string, ModelCatalogEntry>();
+/**
+ * Decode one `ClientModelConfig`. Returns null for a config without a
+ * `model_uid` — nothing can address it.
+ */
+export function parseClientModelConfig(buf: Buffer): ModelCatalogEntry | null {
+  const entry: ModelCatalogEntry = {
+    modelUid: '',
+    label: '',
+    disabled: false,
+    supportsImages: false,
+    isPremium: false,
+    isBeta: false,
+    isRecommended: false,
+  };
   for (const f of iterFields(buf)) {
-    if (f.num !== 1 || f.wire !== 2 || !Buffer.isBuffer(f.value)) continue;
-    let label = '';
-    let modelUid = '';
-    let disabled = false;
-    for (const sf of iterFields(f.value as Buffer)) {
-      if (sf.num === 1 && sf.wire === 2 && Buffer.isBuffer(sf.value)) {
-        label = (sf.value as Buffer).toString('utf8');
-      } else if (sf.num === 4 && sf.wire === 0) {
-        // #4 = disabled (bool, varint 0/1)
-        disabled = sf.value === 1n;
-      } else if (sf.num === 22 && sf.wire === 2 && Buffer.isBuffer(sf.value)) {
-        modelUid = (sf.value as Buffer).toString('utf8');
+    if (f.num === 1 && f.wire === 2 && Buffer.isBuffer(f.value)) {
+      entry.label = f.value.toString('utf8');
+    } else if (f.num === 2 && f.wire === 2 && Buffer.isBuffer(f.value)) {
+      // model_or_alias submessage — the first varint is the proto enum.
+      for (const sf of iterFields(f.value)) {
+        if (sf.wire === 0) {
+          const n = Number(sf.value);
+          if (n > 0) entry.modelEnum = n;
+          break;
+        }
       }
-    }
-    if (modelUid.length > 0) {
-      byUid.set(modelUid, { modelUid, label: label || modelUid, disabled });
+    } else if (f.num === 3 && f.wire === 5 && Buffer.isBuffer(f.value)) {
+      // #3 = credit_multiplier (float). Rounded so 0.1f doesn't read back as 0.100000001.
+      entry.creditMultiplier = Math.round(f.value.readFloatLE(0) * 1e6) / 1e6;
+    } else if (f.num === 4 && f.wire === 0) {
+      // #4 = disabled (bool, varint 0/1)
+      entry.disabled = f.value === 1n;
+    } else if (f.num === 5 && f.wire === 0) {
+      entry.supportsImages = f.value === 1n;
+    } else if (f.num === 7 && f.wire === 0) {
+      entry.isPremium = f.value === 1n;
+    } else if (f.num === 9 && f.wire === 0) {
+      entry.isBeta = f.value === 1n;
+    } else if (f.num === 11 && f.wire === 0) {
+      entry.isRecommended = f.value === 1n;
+    } else if (f.num === 13 && f.wire === 0) {
+      const n = Number(f.value);
+      if (n > 0) entry.pricingType = n;
+    } else if (f.num === 18 && f.wire === 0) {
+      // #18 = max_tokens (int32). Zero means "unset" on the wire.
+      const n = Number(f.value);
+      if (n > 0) entry.maxTokens = n;
+    } else if (f.num === 22 && f.wire === 2 && Buffer.isBuffer(f.value)) {
+      entry.modelUid = f.value.toString('utf8');
     }
   }
+  if (entry.modelUid.length === 0) return null;
+  if (!entry.label) entry.label = entry.modelUid;
+  return entry;
+}
 
-  return { byUid, fetchedAt: Date.now(), apiKey, host };
+/** Decode a `GetCascadeModelConfigsResponse` body (#1 = repeated ClientModelConfig). */
+export function parseModelConfigsResponse(buf: Buffer): ModelCatalogEntry[] {
+  const entries: ModelCatalogEntry[] = [];
+  for (const f of iterFields(buf)) {
+    if (f.num !== 1 || f.wire !== 2 || !Buffer.isBuffer(f.value)) continue;
+    const entry = parseClientModelConfig(f.value);
+    if (entry) entries.push(entry);
+  }
+  return entries;
 }
 
 /**
@@ -175,7 +255,7 @@ export async function getCachedCatalog(
   apiKey: string,
   host: string,
   signal?: AbortSignal,
-): Promise<CacheEntry | null> {
+): Promise<ModelCatalog | null> {
   if (cached && cached.apiKey === apiKey && cached.host === host) {
     if (Date.now() - cached.fetchedAt < CATALOG_TTL_MS) {
       return cached;
@@ -208,6 +288,21 @@ export async function getCachedCatalog(
   }
 }
 
+/**
+ * Fetch the catalog uncached, throwing on failure. For tooling (the CLI's
+ * `models` command, scripts/sync-models.ts) that wants fresh data and a
+ * real error message rather than the chat path's silent `null`.
+ */
+export async function fetchModelCatalog(
+  apiKey: string,
+  host: string,
+  signal?: AbortSignal,
+): Promise<ModelCatalog> {
+  const result = await fetchCatalog(apiKey, host, signal);
+  cached = result;
+  return result;
+}
+
 /**
  * Drop the cached catalog. Call after logout/account switch so a fresh
  * sign-in doesn't see a previous account's allow-list.
@@ -239,7 +334,7 @@ export class ModelNotAvailableError extends Error {
           `(This message replaces Cognition's "an internal error occurred" — same root cause.)`
         : `Model uid "${modelUid}" is not listed in the Cognition catalog for your account. ` +
           `Either the UID has been retired upstream or your account/region doesn't serve it. ` +
-          `Run \`curl http://127.0.0.1:42100/v1/models\` to see the canonical names your plan accepts.`,
+          `Run \`curl "http://127.0.0.1:42100/v1/models?available=true"\` to see the models your plan accepts.`,
     );
     this.name = 'ModelNotAvailableError';
   }
@@ -34,6 +34,15 @@ import {
 import { buildMetadata } from './metadata.js';
 import { getCachedUserJwt } from './auth.js';
 import { getCachedCatalog, ModelNotAvailableError } from './catalog.js';
+import { DOCUMENT_BUDGET_SHARE, extractDocuments } from './documents.js';
+import { inlineRemoteImages } from './image-fetch.js';
+import { dedupeHistoryImages } from './image-history.js';
+import { DEFAULT_IMAGE_MAX_BYTES, imageMaxDimensionFor, inlineImageOf, preprocessImages, readImageDimensions, type ImagePreprocessOptions } from './image-preprocess.js';
+import { fitToolDescriptions, MAX_TOOL_DESC_LEN, withToolManual } from './tool-descriptions.js';
+import { buildToolNameMap, toCloudHistory } from './tool-names.js';
+import { anySignal } from './signals.js';
+import { normalizeToolSchema, schemaFamilyFor } from './tool-schema.js';
+import { imageTokens, MESSAGE_OVERHEAD_TOKENS, TOOL_OVERHEAD_TOKENS, tokenizerFor, UNKNOWN_IMAGE_TOKENS, type Tokenizer } from './tokenizer.js';
 
 /**
  * Connect-RPC streaming inactivity timeout. If the cloud sends zero bytes
@@ -42,61 +51,67 @@ import { getCachedCatalog, ModelNotAvailableError } from './catalog.js';
  * we only trigger when the server has genuinely stopped responding.
  */
 const CLOUD_STREAM_IDLE_MS = 120_000;
-/** Time-to-first-byte timeout. */
-const CLOUD_STREAM_TTFB_MS = 60_000;
+/** Default time-to-first-byte timeout; `CloudChatRequest.ttfbTimeoutMs` overrides. */
+export const CLOUD_STREAM_TTFB_MS = 60_000;
 
 /**
- * Compose multiple AbortSignals into a single signal that aborts when ANY
- * input aborts. Uses `AbortSignal.any` when available (Node ≥20.3 / Bun
- * ≥1.0); falls back to a manual implementation for older runtimes that
- * are still in our `engines` range (Node 18.x and early 20.x). The
- * previous `req.signal ?? ttfbSignal` fallback silently picked one signal
- * and dropped the other, defeating either the caller's cancel or the
- * internal timeout.
- */
-function anySignal(signals: AbortSignal[]): AbortSignal {
-  const builtin = (AbortSignal as unknown as { any?: (s: AbortSignal[]) => AbortSignal }).any;
-  if (typeof builtin === 'function') return builtin(signals);
-  const controller = new AbortController();
-  const onAbort = (reason: unknown): void => {
-    if (!controller.signal.aborted) controller.abort(reason);
-  };
-  for (const s of signals) {
-    if (s.aborted) {
-      onAbort(s.reason);
-      break;
-    }
-    s.addEventListener('abort', () => onAbort(s.reason), { once: true });
-  }
-  return controller.signal;
-}
-
-/**
- * Per-(apiKey, host) session/cascade ID cache. Cloud uses these for
+ * Per-conversation session/cascade ID cache. Cloud uses these for
  * server-side context caching across turns of the same conversation; if we
  * mint a fresh sessionId on every call (which we used to), every turn looks
  * like a brand-new session and the prompt-cache hit ratio is zero.
- * Single-process scope is enough: opencode lives in one runtime for a TUI
- * session, and CLI one-shots don't benefit from caching anyway.
+ *
+ * Keyed by (host, apiKey, conversation). The conversation part comes from
+ * the caller — the proxy derives it from `X-Windsurf-Conversation`,
+ * `providerOptions.windsurf.cascadeId` or a hash of the conversation prefix
+ * (see plugin/conversation.ts). Before that, every opencode session,
+ * subagent and title-gen call in a process shared ONE cascade, so parallel
+ * sessions trampled each other's server-side context. Callers that pass no
+ * conversation key still get the old one-cascade-per-account behaviour.
+ *
+ * The Map doubles as an LRU (insertion order = recency; a hit re-inserts).
+ * Entries idle for {@link SESSION_IDLE_TTL_MS} are dropped on lookup — the
+ * cloud's own prompt cache is long cold by then — and the oldest entry is
+ * evicted past {@link SESSION_CACHE_MAX} so a long-running proxy doesn't
+ * grow without bound. Single-process scope is enough: opencode lives in one
+ * runtime for a TUI session, and CLI one-shots don't benefit from caching.
  */
 interface SessionIds {
   sessionId: string;
   cascadeId: string;
+  lastUsedAt: number;
 }
+/** 30 minutes without a turn and a conversation starts a fresh cascade. */
+const SESSION_IDLE_TTL_MS = 30 * 60 * 1000;
+/** Plenty for a TUI with a handful of sessions plus their subagents. */
+const SESSION_CACHE_MAX = 256;
 const sessionCache = new Map<string, SessionIds>();
-function getOrAllocateSessionIds(apiKey: string, host: string, cascadeIdOverride?: string): SessionIds {
-  const key = `${host}\x1f${apiKey}`;
+function getOrAllocateSessionIds(
+  apiKey: string,
+  host: string,
+  conversationKey?: string,
+  cascadeIdOverride?: string,
+): SessionIds {
+  // An explicit cascadeId IS the conversation identity: key by it so the
+  // sessionId stays stable for that cascade across turns.
+  const conv = cascadeIdOverride ? `cascade:${cascadeIdOverride}` : conversationKey ?? '';
+  const key = `${host}\x1f${apiKey}\x1f${conv}`;
+  const now = Date.now();
   let ids = sessionCache.get(key);
+  if (ids && now - ids.lastUsedAt > SESSION_IDLE_TTL_MS) ids = undefined;
   if (!ids) {
     ids = {
       sessionId: crypto.randomUUID(),
       cascadeId: cascadeIdOverride ?? allocateCascadeId(),
+      lastUsedAt: now,
     };
-    sessionCache.set(key, ids);
-  } else if (cascadeIdOverride && ids.cascadeId !== cascadeIdOverride) {
-    // Caller explicitly requested a different cascadeId — honor it.
-    ids = { sessionId: ids.sessionId, cascadeId: cascadeIdOverride };
-    sessionCache.set(key, ids);
+  }
+  ids.lastUsedAt = now;
+  sessionCache.delete(key);
+  sessionCache.set(key, ids);
+  while (sessionCache.size > SESSION_CACHE_MAX) {
+    const oldest = sessionCache.keys().next().value;
+    if (oldest === undefined) break;
+    sessionCache.delete(oldest);
   }
   return ids;
 }
@@ -128,7 +143,7 @@ export function allocateCascadeId(): string {
  * ChatMessagePrompt {
  *   #2 source: enum CHAT_MESSAGE_SOURCE_USER=1 / ASSISTANT=2 / SYSTEM=3 / TOOL=4
  *   #3 prompt: string                          (text content)
- *   #4 num_tokens: int                          (rough estimate)
+ *   #4 num_tokens: int                          (estimate, see tokenizer.ts)
  *   #5 safe_for_code_telemetry: bool            (1 = ok to log)
  *   #10 images: repeated ImageData              (multimodal)
  * }
@@ -164,6 +179,7 @@ function encodeChatToolCall(tc: { id: string; name: string; arguments: string })
 function encodeChatMessagePrompt(
   content: ContentPart[],
   source: number,
+  tokenizer: Tokenizer,
   opts?: { toolCallId?: string; toolCalls?: Array<{ id: string; name: string; arguments: string }> },
 ): Buffer {
   const textParts = content.filter((p): p is { type: 'text'; text: string } => p.type === 'text');
@@ -172,7 +188,7 @@ function encodeChatMessagePrompt(
   const parts: Buffer[] = [
     encodeVarintField(2, source),
     encodeString(3, joined),
-    encodeVarintField(4, Math.max(1, Math.floor(joined.length / 4))),
+    encodeVarintField(4, Math.max(1, tokenizer.count(joined))),
     encodeVarintField(5, 1),
   ];
   // Tool-result message: attach the id of the call this result answers.
@@ -259,14 +275,12 @@ function collapseSystemIntoUser(messages: ChatHistoryItem[]): ChatHistoryItem[]
 /**
  * CompletionConfiguration — mirrors the LS-shipped defaults, lets the caller
  * override the obvious knobs.
+ *
+ * `stop_patterns` (#9, repeated string) and `seed` (#10, uint64) are only
+ * emitted when set: the LS never sends them, and leaving them off keeps the
+ * default request byte-identical to the captured LS body.
  */
-function encodeCompletionConfiguration(opts: {
-  maxOutputTokens?: number;
-  maxInputTokens?: number;
-  temperature?: number;
-  topK?: number;
-  topP?: number;
-}): Buffer {
+function encodeCompletionConfiguration(opts: NonNullable<BuildArgs['completionOpts']>): Buffer {
   const enc64 = (fieldNum: number, n: number): Buffer => {
     const b = Buffer.alloc(8);
     b.writeDoubleLE(n, 0);
@@ -274,6 +288,8 @@ function encodeCompletionConfiguration(opts: {
   };
   return Buffer.concat([
     encodeVarintField(1, 1),
+    // The proxy always overrides this with the model's context window
+    // (plugin/model-limits.ts); 64K is only the bare-library default.
     encodeVarintField(2, opts.maxInputTokens ?? 64000),
     // Default to the catalog's most permissive `maxOutputTokens` (128K).
     // The cloud clamps to the per-model limit anyway. The old 4096 default
@@ -284,6 +300,8 @@ function encodeCompletionConfiguration(opts: {
     enc64(6, opts.topP ?? 0.95),
     encodeVarintField(7, opts.topK ?? 50),
     enc64(8, 1.0),
+    ...(opts.stopPatterns ?? []).map((p) => encodeString(9, p)),
+    ...(opts.seed !== undefined ? [encodeVarintField(10, opts.seed)] : []),
     enc64(11, 1.0),
   ]);
 }
@@ -295,7 +313,8 @@ function encodeCompletionConfiguration(opts: {
  * Image: `{ type: 'image', mimeType: 'image/png', base64Data: '...' [, caption: '...'] }`
  *
  * Matches the OpenAI/@ai-sdk multimodal message shape — we accept their
- * `image_url: { url: 'data:image/png;base64,...' }` form via {@link parseContent}.
+ * `image_url: { url: 'data:image/png;base64,...' }` form via {@link parseContent},
+ * and `file` / `input_file` attachments via documents.ts.
  */
 export type ContentPart =
   | { type: 'text'; text: string }
@@ -351,7 +370,15 @@ function normalizeContent(content: string | ContentPart[] | unknown): ContentPar
       const url: string = typeof imgRef === 'string' ? imgRef : (imgRef.url ?? '');
       const m = url.match(/^data:([^;]+);base64,(.+)$/);
       if (m) out.push({ type: 'image', mimeType: m[1], base64Data: m[2] });
+      // Remote URLs were already inlined by inlineRemoteImages; only other
+      // schemes (or `fetchRemoteImages: false`) reach here.
       else if (url) out.push({ type: 'text', text: `[image url: ${url}]` });
+    } else if (p.type === 'file' || p.type === 'input_file') {
+      // Normally replaced by extractDocuments; only `extractDocuments: false`
+      // reaches here. Name the file rather than drop it silently.
+      const file = (p.file && typeof p.file === 'object' ? p.file : p) as Record<string, unknown>;
+      const name = typeof file.filename === 'string' ? file.filename : 'attachment';
+      out.push({ type: 'text', text: `[file ${name} attached but not extracted]` });
     }
   }
   return out;
@@ -430,12 +457,17 @@ interface BuildArgs {
   tools?: ToolDef[];
   /** Default 5 = CHAT_MESSAGE_REQUEST_TYPE_CASCADE (matches captured LS body). */
   requestType?: number;
+  /** Drop images older than this many user turns; see image-history.ts. */
+  recentImageTurns?: number;
+  log?: (message: string) => void;
   completionOpts?: {
     maxOutputTokens?: number;
     maxInputTokens?: number;
     temperature?: number;
     topK?: number;
     topP?: number;
+    stopPatterns?: string[];
+    seed?: number;
   };
 }
 
@@ -443,40 +475,22 @@ interface BuildArgs {
  * ChatToolDefinition proto, observed in the LS upstream traffic:
  *   { #1 name (string), #2 description (string), #3 parameters_schema (JSON string) }
  *
- * Truncation note: Codeium's tool validator rejects very long descriptions
- * with a generic `failed_precondition: "Unable to process request due to an
- * MCP configuration issue."` error. opencode ships some tools (notably `bash`)
- * with ~9.6 KB descriptions packed with examples and rules. We truncate to a
- * conservative `MAX_DESC_LEN` and append an ellipsis so the cloud accepts
- * them. The model still gets the first chunk of the description (where the
- * essential signature lives); detailed examples are sacrificed for
- * compatibility.
- */
-/**
- * The Codeium tool validator rejects any tool whose description hits exactly
- * 7,000 chars (or more) with a misleading `failed_precondition: "Unable to
- * process request due to an MCP configuration issue."` error. Binary-search
- * verified to char-precision:
- *   - 6,999 chars → server accepts
- *   - 7,000 chars → server returns MCP error
- *
- * The limit is per-description, content-sensitive (plain `a`-repeats up to
- * 20K work fine; the bash description's exact byte at position 6999 trips
- * it). We truncate to the maximum-1 (6,998) for a one-char safety margin.
- *
- * We do NOT need to aggregate-cap — 200K total tool descriptions across 200
- * tools was confirmed to pass server-side. Only per-string length is gated.
+ * Descriptions over the validator's limit are normally fitted by
+ * tool-descriptions.ts before we get here (full text moved to a tool manual
+ * in the preamble); the slice below is only a last-resort guard so a
+ * caller that skips that step still gets a request the cloud accepts.
  */
-const MAX_TOOL_DESC_LEN = 6998;
-function encodeToolDef(tool: ToolDef): Buffer {
+function cloudToolDescription(tool: ToolDef): string {
   const rawDesc = tool.description ?? '';
-  const desc =
-    rawDesc.length > MAX_TOOL_DESC_LEN
-      ? rawDesc.slice(0, MAX_TOOL_DESC_LEN - 24) + '\n…(truncated for cloud)'
-      : rawDesc;
+  return rawDesc.length > MAX_TOOL_DESC_LEN
+    ? rawDesc.slice(0, MAX_TOOL_DESC_LEN - 24) + '\n…(truncated for cloud)'
+    : rawDesc;
+}
+
+function encodeToolDef(tool: ToolDef): Buffer {
   return Buffer.concat([
     encodeString(1, tool.name),
-    encodeString(2, desc),
+    encodeString(2, cloudToolDescription(tool)),
     encodeString(3, JSON.stringify(tool.parameters ?? {})),
   ]);
 }
@@ -490,15 +504,25 @@ function buildGetChatMessageRequest(args: BuildArgs): Buffer {
     triggerId: args.triggerId,
   });
 
+  // Each distinct image goes out once per request, not once per turn that
+  // repeats it; see image-history.ts.
+  const deduped = dedupeHistoryImages(args.messages, args.recentImageTurns);
+  const { stats } = deduped;
+  if (stats.bytesSaved > 0) {
+    args.log?.(`[cloud-direct] images: sent ${stats.sent}, deduplicated ${stats.duplicates}, aged out ${stats.aged} (saved ${stats.bytesSaved} bytes)`);
+  }
+
   // System messages must be inlined into the user turn (Cognition cloud
   // rejects source=3). See `collapseSystemIntoUser` for the format.
-  const collapsed = collapseSystemIntoUser(args.messages);
+  const collapsed = collapseSystemIntoUser(deduped.messages);
+  const tokenizer = tokenizerFor(args.modelUid);
   const promptParts = collapsed.map((m) =>
     encodeMessage(
       3,
       encodeChatMessagePrompt(
         normalizeContent(m.content),
         SOURCE_BY_ROLE[m.role] ?? 1,
+        tokenizer,
         // Thread tool_call_id (for tool results) + tool_calls (for assistant
         // turns that fired tools) into the proto. Cloud rejects multi-tool
         // conversations otherwise — it can't pair a tool result with the
@@ -538,6 +562,87 @@ function buildGetChatMessageRequest(args: BuildArgs): Buffer {
   ]);
 }
 
+// ----------------------------------------------------------------------------
+// Prompt size estimate
+// ----------------------------------------------------------------------------
+
+export interface PromptTokenEstimate {
+  /** Whole request: messages + tool definitions. */
+  total: number;
+  /** One entry per input message, in order (system messages counted in place). */
+  perMessage: number[];
+  /** Tool definitions (name, description, JSON schema), plus any tool manual. */
+  tools: number;
+  /** Name of the tokenizer used — `approx-claude` etc. */
+  tokenizer: string;
+}
+
+/** `image_url` parts that {@link inlineRemoteImages} will download. */
+function remoteImageCount(content: ChatHistoryItem['content']): number {
+  if (!Array.isArray(content)) return 0;
+  let n = 0;
+  for (const p of content as unknown[]) {
+    const part = p as { type?: unknown; image_url?: string | { url?: string } } | null;
+    if (!part || part.type !== 'image_url' || !part.image_url) continue;
+    const url = typeof part.image_url === 'string' ? part.image_url : part.image_url.url;
+    if (url && /^https?:/i.test(url)) n++;
+  }
+  return n;
+}
+
+/**
+ * Estimate the prompt size of `req` with the model family's tokenizer,
+ * without touching the network. Mirrors the request builder closely enough
+ * for budgeting: documents are extracted (memoized, so the real request
+ * reuses the work), repeated images are counted once, images cost their
+ * pixel area, and remote image URLs cost {@link UNKNOWN_IMAGE_TOKENS}.
+ */
+export function estimatePromptTokens(
+  req: Pick<CloudChatRequest, 'modelUid' | 'messages' | 'tools' | 'extractDocuments' | 'documentTokenBudget' | 'completionOpts' | 'recentImageTurns' | 'fetchRemoteImages'>,
+): PromptTokenEstimate {
+  const tokenizer = tokenizerFor(req.modelUid);
+  const withDocuments = req.extractDocuments === false
+    ? req.messages
+    : extractDocuments(req.messages, {
+        tokenBudget: req.documentTokenBudget ?? Math.floor((req.completionOpts?.maxInputTokens ?? 64000) * DOCUMENT_BUDGET_SHARE),
+        allowImages: true,
+      });
+  const { messages } = dedupeHistoryImages(withDocuments, req.recentImageTurns);
+  // Descriptions too long for the tool definitions move to a manual
+  // message; count it like any other system message.
+  const fitted = fitToolDescriptions(req.tools ?? []);
+  const manualTokens = fitted.manual ? MESSAGE_OVERHEAD_TOKENS + tokenizer.count(fitted.manual) : 0;
+
+  const perMessage = messages.map((m) => {
+    let n = MESSAGE_OVERHEAD_TOKENS;
+    const text: string[] = [];
+    for (const part of normalizeContent(m.content)) {
+      if (part.type === 'text') {
+        text.push(part.text);
+        continue;
+      }
+      const image = inlineImageOf(part);
+      const dims = image && readImageDimensions(Buffer.from(image.base64Data, 'base64'), image.mimeType);
+      n += imageTokens(dims?.width, dims?.height);
+      if (part.caption) text.push(part.caption);
+    }
+    if (req.fetchRemoteImages !== false) n += remoteImageCount(m.content) * UNKNOWN_IMAGE_TOKENS;
+    for (const tc of m.tool_calls ?? []) text.push(tc.name, tc.arguments);
+    return n + tokenizer.count(text.join('\n'));
+  });
+  const family = schemaFamilyFor(req.modelUid);
+  const tools = manualTokens + fitted.tools.reduce(
+    (sum, t) => sum + TOOL_OVERHEAD_TOKENS + tokenizer.count(`${t.name}\n${cloudToolDescription(t)}\n${JSON.stringify(normalizeToolSchema(t.parameters, family))}`),
+    0,
+  );
+  return {
+    total: perMessage.reduce((a, b) => a + b, 0) + tools,
+    perMessage,
+    tools,
+    tokenizer: tokenizer.name,
+  };
+}
+
 // ----------------------------------------------------------------------------
 // Response parsing — pull `delta_text` (top-level field #9) out of each frame
 // ----------------------------------------------------------------------------
@@ -755,16 +860,65 @@ export interface CloudChatRequest {
   tools?: ToolDef[];
   /** Cascade ID — reuse across turns of the same conversation. */
   cascadeId?: string;
+  /**
+   * Opaque conversation identity. Requests sharing a key (and apiKey/host)
+   * reuse one session + cascade; omit it to share the account-wide pair.
+   */
+  conversationKey?: string;
   /** Optional sampling overrides. */
   completionOpts?: BuildArgs['completionOpts'];
   /** Override request_type (default = 5, CASCADE). */
   requestType?: number;
+  /**
+   * Time-to-first-byte budget (default {@link CLOUD_STREAM_TTFB_MS}).
+   * Reasoning models can think for a long time before the response starts.
+   */
+  ttfbTimeoutMs?: number;
+  /**
+   * Download `https://` image URLs and send them inline (default true).
+   * See image-fetch.ts for the size, type and SSRF rules.
+   */
+  fetchRemoteImages?: boolean;
+  /**
+   * Turn `file` / `input_file` parts (PDF, text, source) into prompt text
+   * (default true). See documents.ts.
+   */
+  extractDocuments?: boolean;
+  /**
+   * Token budget shared by all extracted documents. Defaults to
+   * {@link DOCUMENT_BUDGET_SHARE} of `completionOpts.maxInputTokens`.
+   */
+  documentTokenBudget?: number;
+  /**
+   * Downscale/recompress limits for inline images (see image-preprocess.ts).
+   * Unset fields default to the model's max dimension and
+   * {@link DEFAULT_IMAGE_MAX_BYTES}; `false` sends images untouched.
+   */
+  imageOptions?: Partial<ImagePreprocessOptions> | false;
+  /**
+   * Replace images older than the last N user turns with a text placeholder
+   * (default: keep all). Identical images are always sent only once.
+   */
+  recentImageTurns?: number;
+  /** Debug sink for non-fatal diagnostics (e.g. an image that couldn't be fetched). */
+  log?: (message: string) => void;
   /** Abort signal — closes the fetch stream. */
   signal?: AbortSignal;
 }
 
+/**
+ * `code` is the Connect error code (`unavailable`, `resource_exhausted`, …)
+ * when the cloud sent one; we also use `deadline_exceeded` for our own TTFB
+ * timeout and `truncated_stream` for a dropped connection. `httpStatus` is
+ * set when the failure was a non-2xx response rather than a trailer error.
+ */
 export class CloudChatError extends Error {
-  constructor(message: string, public readonly code?: string, public readonly traceId?: string) {
+  constructor(
+    message: string,
+    public readonly code?: string,
+    public readonly traceId?: string,
+    public readonly httpStatus?: number,
+  ) {
     super(message);
     this.name = 'CloudChatError';
   }
@@ -804,18 +958,63 @@ export async function* streamChatEvents(req: CloudChatRequest): AsyncGenerator<C
     }
   }
 
-  // Reuse session + cascade ids across calls for the same (apiKey, host).
+  // Reuse session + cascade ids across calls for the same conversation.
   // Without this, every turn looks like a brand-new server-side session
   // and the cloud's prompt cache never hits — significant cost regression
   // for long conversations.
-  const sessionIds = getOrAllocateSessionIds(req.apiKey, host, req.cascadeId);
+  const sessionIds = getOrAllocateSessionIds(req.apiKey, host, req.conversationKey, req.cascadeId);
+
+  // `image_url` parts pointing at https:// URLs → inline ImageData. A
+  // failed fetch degrades to a text placeholder rather than failing chat.
+  const inlined = req.fetchRemoteImages === false
+    ? req.messages
+    : await inlineRemoteImages(req.messages, req.signal, req.log);
+
+  // PDFs and text files → `<document>` text (plus page images for scans
+  // when the model can see them — unknown counts as yes, as for the image
+  // policy).
+  const allowImages = catalog?.byUid.get(req.modelUid)?.supportsImages !== false;
+  const withDocuments = req.extractDocuments === false
+    ? inlined
+    : extractDocuments(inlined, {
+        tokenBudget: req.documentTokenBudget ?? Math.floor((req.completionOpts?.maxInputTokens ?? 64000) * DOCUMENT_BUDGET_SHARE),
+        allowImages,
+      }, req.log);
+
+  // Validate mime types and shrink oversized screenshots before they're
+  // base64'd into ImageData — opencode resends them on every turn.
+  const messages = req.imageOptions === false
+    ? withDocuments
+    : preprocessImages(withDocuments, {
+        maxDimension: req.imageOptions?.maxDimension ?? imageMaxDimensionFor(req.modelUid),
+        maxBytes: req.imageOptions?.maxBytes ?? DEFAULT_IMAGE_MAX_BYTES,
+      }, req.log);
+
+  // Tool names outside the cloud's charset/length are rewritten for this
+  // request and mapped back on the way out; see tool-names.ts.
+  const toolNames = buildToolNameMap(req.tools ?? []);
+  for (const r of toolNames.renamed) req.log?.(`[cloud-direct] tool ${r.original}: sent as ${r.cloud}`);
+
+  // Parameter schemas are rewritten into what the model family accepts
+  // (refs inlined, unions flattened, unknown keywords dropped); see
+  // tool-schema.ts. Overlong tool descriptions → short description + tool
+  // manual in the preamble, instead of being cut off at the validator's limit.
+  const schemaFamily = schemaFamilyFor(req.modelUid);
+  const fitted = fitToolDescriptions((req.tools ?? []).map((t) => ({
+    ...t,
+    name: toolNames.toCloud(t.name),
+    parameters: normalizeToolSchema(t.parameters, schemaFamily),
+  })));
+  for (const c of fitted.changes) {
+    req.log?.(`[cloud-direct] tool ${c.name}: description ${c.action} (${c.originalLength} → ${c.sentLength} chars)`);
+  }
 
   const proto = buildGetChatMessageRequest({
     apiKey: req.apiKey,
     userJwt,
     modelUid: req.modelUid,
-    messages: req.messages,
-    tools: req.tools,
+    messages: withToolManual(toCloudHistory(messages, toolNames), fitted.manual),
+    tools: req.tools ? fitted.tools : undefined,
     cascadeId: sessionIds.cascadeId,
     promptId: crypto.randomUUID(),
     sessionId: sessionIds.sessionId,
@@ -823,6 +1022,8 @@ export async function* streamChatEvents(req: CloudChatRequest): AsyncGenerator<C
     triggerId: crypto.randomUUID(),
     requestType: req.requestType,
     completionOpts: req.completionOpts,
+    recentImageTurns: req.recentImageTurns,
+    log: req.log,
   });
   const body = frameConnectStream(proto, true);
 
@@ -830,8 +1031,9 @@ export async function* streamChatEvents(req: CloudChatRequest): AsyncGenerator<C
   // than CLOUD_STREAM_TTFB_MS to start the response, abort. Once any byte
   // arrives we cancel the TTFB timer and start the per-chunk idle timer
   // inside the read loop instead.
+  const ttfbMs = req.ttfbTimeoutMs ?? CLOUD_STREAM_TTFB_MS;
   const ttfbController = new AbortController();
-  const ttfbTimer = setTimeout(() => ttfbController.abort(new Error(`cloud-direct: time-to-first-byte timeout (${CLOUD_STREAM_TTFB_MS}ms)`)), CLOUD_STREAM_TTFB_MS);
+  const ttfbTimer = setTimeout(() => ttfbController.abort(new Error(`cloud-direct: time-to-first-byte timeout (${ttfbMs}ms)`)), ttfbMs);
   const ttfbSignal = ttfbController.signal;
   // Compose req.signal + ttfbSignal. AbortSignal.any was added in Node
   // 20.3 / Bun 1.0; our `engines` allows Node ≥18, so on Node 18-20.2 the
@@ -853,13 +1055,33 @@ export async function* streamChatEvents(req: CloudChatRequest): AsyncGenerator<C
       body,
       signal: initialSignal,
     });
+  } catch (fetchErr) {
+    // The caller's own abort propagates untouched. Our TTFB timeout and
+    // network-level failures become CloudChatErrors with a code, so the
+    // retry layer can tell them apart from a cancelled request.
+    if (req.signal?.aborted) throw fetchErr;
+    const detail = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
+    if (ttfbSignal.aborted) {
+      throw new CloudChatError(`cloud-direct: time-to-first-byte timeout (${ttfbMs}ms)`, 'deadline_exceeded');
+    }
+    throw new CloudChatError(`GetChatMessage request failed: ${detail}`, 'unavailable');
   } finally {
     clearTimeout(ttfbTimer);
   }
 
   if (!resp.ok) {
     const text = await resp.text();
-    throw new CloudChatError(`GetChatMessage HTTP ${resp.status}: ${text.slice(0, 300)}`, undefined);
+    // Unary-style Connect errors arrive as a non-2xx with a JSON
+    // `{code, message}` body. Keep the code so callers can tell a rate
+    // limit (`resource_exhausted`, or a bare 429) from a real failure.
+    let code: string | undefined;
+    try {
+      const j = JSON.parse(text) as { code?: unknown };
+      if (typeof j.code === 'string') code = j.code;
+    } catch { /* not JSON */ }
+    if (!code && resp.status === 429) code = 'resource_exhausted';
+    const traceId = text.match(TRACE_ID_RE)?.[1];
+    throw new CloudChatError(`GetChatMessage HTTP ${resp.status}: ${text.slice(0, 300)}`, code, traceId, resp.status);
   }
   if (!resp.body) {
     throw new CloudChatError('GetChatMessage response had no body stream');
@@ -1019,7 +1241,9 @@ export async function* streamChatEvents(req: CloudChatRequest): AsyncGenerator<C
           }
           continue;
         }
-        yield* decodeChatFrame(payload);
+        for (const ev of decodeChatFrame(payload)) {
+          yield ev.kind === 'tool_call_start' ? { ...ev, name: toolNames.fromCloud(ev.name) } : ev;
+        }
       }
     }
   } finally {
@@ -0,0 +1,339 @@
+/**
+ * File attachments (`file` / `input_file` parts) → prompt content.
+ *
+ * GetChatMessage only carries text and images, and normalizeContent used
+ * to drop every other part silently — a PDF or source file attached in
+ * opencode simply never reached the model. {@link extractDocuments} runs
+ * before the request is built and replaces each file part with:
+ *
+ *   - PDF: the text of each page (pdf.ts). Pages with no extractable text
+ *     (scans) get their embedded page images attached instead, when the
+ *     model accepts images, else a note saying the page is a scan;
+ *   - text / source files: the bytes decoded with encoding detection
+ *     (BOM, UTF-16 heuristics, strict UTF-8, then Windows-1252);
+ *   - images sent as files: an ordinary image part;
+ *   - anything else (binary, encrypted PDF, file IDs/URLs we can't fetch):
+ *     a one-line note naming the file and why it's missing.
+ *
+ * Extracted text is wrapped in `<document filename="…">` so the model
+ * knows where each file starts and ends. All documents in a request share
+ * one token budget (by default half the model's context window): each
+ * gets an equal share, with whatever the smaller ones don't use passed on
+ * to the larger ones, and anything over its share is truncated at a page
+ * or line boundary with a note of how much was left out.
+ */
+
+import * as crypto from 'crypto';
+import type { ChatHistoryItem, ContentPart } from './chat.js';
+import { sniffImageMime } from './image-fetch.js';
+import { extractPdf, isPdf, PdfParseError } from './pdf.js';
+
+export interface DocumentExtractOptions {
+  /** Token budget shared by all documents in the request. */
+  tokenBudget: number;
+  /** Whether images (from image files or scanned PDF pages) may be attached. */
+  allowImages: boolean;
+}
+
+/** Share of the context window documents may use when no budget is given. */
+export const DOCUMENT_BUDGET_SHARE = 0.5;
+
+/**
+ * Flat chars-per-token rate for sharing out the document budget. Rougher
+ * than tokenizer.ts, but the prompt budget counts the rendered text with
+ * the model's tokenizer afterwards, so an overrun is still caught there.
+ */
+const CHARS_PER_TOKEN = 4;
+/** A page with less text than this is treated as a scan. */
+const SCANNED_PAGE_MAX_CHARS = 20;
+/** Page images attached per document. */
+const MAX_PAGE_IMAGES = 20;
+
+const EXTRACT_CACHE_MAX = 16;
+const extractCache = new Map<string, ExtractedDocument>();
+
+/** Extensions read as text even when the declared type is generic. */
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'rst', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'ini', 'cfg', 'conf',
+  'xml', 'html', 'htm', 'css', 'scss', 'svg', 'log', 'diff', 'patch', 'sql', 'graphql', 'proto',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'kts', 'scala', 'swift',
+  'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'php', 'pl', 'lua', 'r', 'sh', 'bash', 'zsh', 'fish', 'ps1',
+  'vue', 'svelte', 'dart', 'ex', 'exs', 'erl', 'hs', 'ml', 'clj', 'zig', 'nim', 'tf', 'gradle', 'env',
+]);
+
+interface FileAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+interface ExtractedDocument {
+  filename: string;
+  mimeType: string;
+  /** Text sections (one per PDF page, or one for a text file). */
+  sections: string[];
+  /** Label each section is introduced with, e.g. `page 3`; none for plain text. */
+  sectionLabel?: (index: number) => string;
+  images: Array<{ mimeType: string; base64Data: string; caption: string }>;
+  /** Replaces the whole document when extraction wasn't possible. */
+  note?: string;
+  /** Set for image files: sent as an image part, not text. */
+  image?: { mimeType: string; base64Data: string };
+}
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+function parseFileData(raw: string): { data: Buffer; mimeType?: string } {
+  const m = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(raw);
+  if (!m) return { data: Buffer.from(raw, 'base64') };
+  const mimeType = m[1] || undefined;
+  if (m[2]!.split(';').includes('base64')) return { data: Buffer.from(m[3]!, 'base64'), mimeType };
+  let text: string;
+  try {
+    text = decodeURIComponent(m[3]!);
+  } catch {
+    text = m[3]!;
+  }
+  return { data: Buffer.from(text, 'utf8'), mimeType };
+}
+
+/**
+ * The attachment a `file` / `input_file` part carries. Accepts the OpenAI
+ * chat shape (`{type:'file', file:{filename, file_data}}`), the Responses
+ * shape (`{type:'input_file', filename, file_data}`) and a flat
+ * `{type:'file', data, mediaType}`. Returns `{ filename, error }` for file
+ * parts without inline data (file IDs, URLs).
+ */
+export function fileAttachmentOf(part: unknown): FileAttachment | { filename: string; error: string } | undefined {
+  if (!part || typeof part !== 'object') return undefined;
+  const p = part as Record<string, unknown>;
+  if (p.type !== 'file' && p.type !== 'input_file') return undefined;
+  const inner = p.file && typeof p.file === 'object' ? p.file as Record<string, unknown> : p;
+  const filename = typeof inner.filename === 'string' && inner.filename ? inner.filename : 'attachment';
+  const raw = typeof inner.file_data === 'string' ? inner.file_data : typeof inner.data === 'string' ? inner.data : undefined;
+  if (raw === undefined) {
+    const ref = inner.file_id ?? inner.file_url ?? inner.url;
+    return { filename, error: typeof ref === 'string' ? `only inline file data is supported (got ${ref})` : 'no file data' };
+  }
+  const parsed = parseFileData(raw);
+  const declared = [inner.mediaType, inner.media_type, inner.mimeType, inner.mime_type].find((v) => typeof v === 'string') as string | undefined;
+  const mimeType = (parsed.mimeType ?? declared ?? (isPdf(parsed.data) ? 'application/pdf' : 'application/octet-stream')).toLowerCase();
+  return { filename, mimeType, data: parsed.data };
+}
+
+function decodeUtf16(buf: Buffer, bigEndian: boolean): string {
+  const even = buf.subarray(0, buf.length - (buf.length % 2));
+  return (bigEndian ? Buffer.from(even).swap16() : even).toString('utf16le');
+}
+
+/**
+ * Decode text bytes, detecting the encoding. Returns undefined for content
+ * that looks binary.
+ */
+export function decodeText(buf: Buffer): { text: string; encoding: string } | undefined {
+  if (buf.length >= 3 && buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) {
+    return { text: buf.toString('utf8', 3), encoding: 'utf-8' };
+  }
+  if (buf.length >= 2 && buf[0] === 0xff && buf[1] === 0xfe) {
+    return { text: decodeUtf16(buf.subarray(2), false), encoding: 'utf-16le' };
+  }
+  if (buf.length >= 2 && buf[0] === 0xfe && buf[1] === 0xff) {
+    return { text: decodeUtf16(buf.subarray(2), true), encoding: 'utf-16be' };
+  }
+
+  // BOM-less UTF-16: ASCII-range text puts a zero in every other byte.
+  const sample = buf.subarray(0, 4096);
+  if (sample.length >= 4) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    const pairs = Math.floor(sample.length / 2);
+    if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return { text: decodeUtf16(buf, false), encoding: 'utf-16le' };
+    if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return { text: decodeUtf16(buf, true), encoding: 'utf-16be' };
+  }
+
+  if (sample.includes(0)) return undefined;
+  let decoded: { text: string; encoding: string };
+  try {
+    decoded = { text: new TextDecoder('utf-8', { fatal: true }).decode(buf), encoding: 'utf-8' };
+  } catch {
+    decoded = { text: new TextDecoder('windows-1252').decode(buf), encoding: 'windows-1252' };
+  }
+  // Lots of control characters: binary that happened to decode.
+  const head = decoded.text.slice(0, 4096);
+  const controls = head.match(/[\x00-\x08\x0e-\x1f\x7f]/g)?.length ?? 0;
+  return controls > head.length * 0.05 ? undefined : decoded;
+}
+
+function isTextType(mimeType: string, filename: string): boolean {
+  return mimeType.startsWith('text/')
+    || /^application\/(json|xml|javascript|typescript|x-(sh|yaml|toml|python|ruby|perl|php|httpd-php)|(.+\+)?(json|xml)|yaml|toml|sql|graphql)$/.test(mimeType)
+    || TEXT_EXTENSIONS.has(extensionOf(filename));
+}
+
+function extractPdfDocument(file: FileAttachment, allowImages: boolean): ExtractedDocument {
+  const base = { filename: file.filename, mimeType: 'application/pdf', sections: [] as string[], images: [] as ExtractedDocument['images'] };
+  let doc: ReturnType<typeof extractPdf>;
+  try {
+    doc = extractPdf(file.data, (text) => allowImages && text.length < SCANNED_PAGE_MAX_CHARS);
+  } catch (err) {
+    if (!(err instanceof PdfParseError)) throw err;
+    return { ...base, note: `could not be read as a PDF (${err.message})` };
+  }
+  if (doc.encrypted) return { ...base, note: 'is an encrypted PDF; its text cannot be extracted' };
+  if (doc.pages.length === 0) return { ...base, note: 'has no pages' };
+
+  const sections = doc.pages.map((page, i) => {
+    if (page.text.length >= SCANNED_PAGE_MAX_CHARS) return page.text;
+    const attachable = page.images.slice(0, Math.max(0, MAX_PAGE_IMAGES - base.images.length));
+    for (const img of attachable) {
+      base.images.push({ mimeType: img.mimeType, base64Data: img.data.toString('base64'), caption: `${file.filename} page ${i + 1}` });
+    }
+    if (attachable.length > 0) return `${page.text}\n[page image attached]`.trim();
+    return page.text || '[no extractable text; the page is probably a scanned image]';
+  });
+  return { ...base, sections, sectionLabel: (i) => `page ${i + 1} of ${doc.pages.length}` };
+}
+
+function extractFile(file: FileAttachment, allowImages: boolean): ExtractedDocument {
+  const base = { filename: file.filename, mimeType: file.mimeType, sections: [] as string[], images: [] };
+  if (file.mimeType === 'application/pdf' || isPdf(file.data)) return extractPdfDocument(file, allowImages);
+
+  const imageMime = sniffImageMime(file.data);
+  if (imageMime || file.mimeType.startsWith('image/')) {
+    if (!imageMime) return { ...base, note: `is declared ${file.mimeType} but is not a PNG, JPEG, GIF or WebP image` };
+    if (!allowImages) return { ...base, note: 'is an image, and this model does not accept images' };
+    return { ...base, image: { mimeType: imageMime, base64Data: file.data.toString('base64') } };
+  }
+
+  const decoded = decodeText(file.data);
+  if (decoded) {
+    const mimeType = file.mimeType === 'application/octet-stream' ? 'text/plain' : file.mimeType;
+    return { ...base, mimeType, sections: [decoded.text.trimEnd()] };
+  }
+  return {
+    ...base,
+    note: isTextType(file.mimeType, file.filename)
+      ? 'could not be decoded as text'
+      : `is binary (${file.mimeType}) and cannot be shown to the model`,
+  };
+}
+
+function extractCached(file: FileAttachment, allowImages: boolean): ExtractedDocument {
+  const key = `${allowImages}:${file.mimeType}:${file.filename}:${crypto.createHash('sha256').update(file.data).digest('hex')}`;
+  const cached = extractCache.get(key);
+  if (cached) return cached;
+  const doc = extractFile(file, allowImages);
+  if (extractCache.size >= EXTRACT_CACHE_MAX) extractCache.delete(extractCache.keys().next().value!);
+  extractCache.set(key, doc);
+  return doc;
+}
+
+function attr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/** Cut `text` to at most `max` chars, at the last line break when there is one nearby. */
+function cutAtLine(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const nl = text.lastIndexOf('\n', max);
+  return text.slice(0, nl > max * 0.8 ? nl : max);
+}
+
+/** Render one document as prompt text within `maxChars`. */
+function renderDocument(doc: ExtractedDocument, maxChars: number): { text: string; truncated: boolean } {
+  const open = `<document filename="${attr(doc.filename)}" media_type="${attr(doc.mimeType)}">`;
+  const close = '</document>';
+  const labelled = doc.sections.map((s, i) => (doc.sectionLabel ? `--- ${doc.sectionLabel(i)} ---\n${s}` : s));
+  const total = labelled.reduce((n, s) => n + s.length + 1, 0);
+
+  let body = '';
+  let shown = 0;
+  for (const section of labelled) {
+    if (body.length + section.length + 1 > maxChars) {
+      const room = maxChars - body.length;
+      if (room > 200) body += cutAtLine(section, room);
+      break;
+    }
+    body += (body ? '\n' : '') + section;
+    shown++;
+  }
+  if (shown < labelled.length) {
+    const omittedTokens = Math.ceil((total - body.length) / CHARS_PER_TOKEN);
+    const what = doc.sectionLabel
+      ? `${shown} of ${labelled.length} pages shown in full`
+      : `${body ? body.split('\n').length : 0} of ${doc.sections[0]!.split('\n').length} lines shown`;
+    body += `\n[… truncated to fit the context budget: ${what}, ~${omittedTokens} tokens omitted]`;
+  }
+  return { text: `${open}\n${body}\n${close}`, truncated: shown < labelled.length };
+}
+
+function documentLength(doc: ExtractedDocument): number {
+  return doc.sections.reduce((n, s) => n + s.length + 32, 0);
+}
+
+/**
+ * Replace every file part in `messages` with extracted text (and images).
+ * Returns the original array when there are no file parts.
+ */
+export function extractDocuments(
+  messages: ChatHistoryItem[],
+  opts: DocumentExtractOptions,
+  log: (message: string) => void = () => { /* silent */ },
+): ChatHistoryItem[] {
+  const docs = new Map<unknown, ExtractedDocument>();
+  for (const m of messages) {
+    if (!Array.isArray(m.content)) continue;
+    for (const p of m.content) {
+      const file = fileAttachmentOf(p);
+      if (!file) continue;
+      const doc = 'error' in file
+        ? { filename: file.filename, mimeType: 'application/octet-stream', sections: [], images: [], note: `was not included: ${file.error}` }
+        : extractCached(file, opts.allowImages);
+      if (doc.note) log(`[cloud-direct] file ${doc.filename} ${doc.note}`);
+      docs.set(p, doc);
+    }
+  }
+  if (docs.size === 0) return messages;
+
+  // Equal shares of the budget; what a small document doesn't use goes to
+  // the larger ones. A file attached in several turns comes back from
+  // extractCached as the same object, so it only takes one share.
+  const textDocs = [...new Set(docs.values())].filter((d) => d.sections.length > 0);
+  const allowance = new Map<ExtractedDocument, number>();
+  let remaining = Math.max(0, opts.tokenBudget) * CHARS_PER_TOKEN;
+  const bySize = [...textDocs].sort((a, b) => documentLength(a) - documentLength(b));
+  bySize.forEach((doc, i) => {
+    const share = Math.floor(remaining / (bySize.length - i));
+    const granted = Math.min(documentLength(doc), share);
+    allowance.set(doc, granted);
+    remaining -= granted;
+  });
+
+  return messages.map((m) => {
+    if (!Array.isArray(m.content) || !m.content.some((p) => docs.has(p))) return m;
+    const content: ContentPart[] = [];
+    for (const p of m.content) {
+      const doc = docs.get(p);
+      if (!doc) {
+        content.push(p);
+      } else if (doc.note) {
+        content.push({ type: 'text', text: `[file ${doc.filename} ${doc.note}]` });
+      } else if (doc.image) {
+        content.push({ type: 'image', ...doc.image, caption: doc.filename });
+      } else {
+        const { text, truncated } = renderDocument(doc, allowance.get(doc) ?? 0);
+        if (truncated) log(`[cloud-direct] file ${doc.filename} truncated to ${text.length} chars to fit the document budget`);
+        content.push({ type: 'text', text });
+        for (const img of doc.images) content.push({ type: 'image', ...img });
+      }
+    }
+    return { ...m, content };
+  });
+}
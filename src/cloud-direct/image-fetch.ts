@@ -0,0 +1,313 @@
+/**
+ * Remote image fetching for `image_url` parts that carry an `https://` URL.
+ *
+ * `GetChatMessage` only takes inline `ImageData` (base64 + mime), so a URL
+ * used to reach the model as the text `[image url: …]` — it never saw the
+ * image. We now download it, with the guard rails a proxy that fetches
+ * caller-supplied URLs needs:
+ *
+ *   - https only, at most {@link MAX_REDIRECTS} redirects (each re-checked);
+ *   - SSRF: every address the host resolves to must be public. The check
+ *     runs inside the socket's `lookup`, so the address we vet is the one
+ *     we connect to — no DNS-rebinding window between check and connect.
+ *     IP-literal hosts skip `lookup` and are checked up front;
+ *   - {@link FETCH_TIMEOUT_MS} for the whole download, {@link MAX_IMAGE_BYTES}
+ *     cap enforced while streaming (Content-Length is only a hint);
+ *   - the bytes must sniff as PNG/JPEG/GIF/WebP. The sniffed type wins over
+ *     the server's Content-Type, which must still be an image type.
+ *
+ * Successful downloads are cached on disk under the XDG cache dir, keyed by
+ * the URL's sha256, for {@link CACHE_TTL_MS}; opencode resends the whole
+ * history every turn, so without it each turn would re-download every
+ * image. A failed fetch is not fatal: the part degrades to the old text
+ * placeholder with the reason, and the request goes ahead.
+ */
+
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { xdgCache } from 'xdg-basedir';
+import type { ChatHistoryItem, ContentPart } from './chat.js';
+import { anySignal } from './signals.js';
+
+/** Largest image we'll download. */
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+/** Whole-download deadline, redirects included. */
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+/** Distinct remote images fetched per request; the rest stay placeholders. */
+const MAX_IMAGES_PER_REQUEST = 16;
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+/** Oldest cache files are evicted once the directory exceeds this. */
+const CACHE_MAX_BYTES = 100 * 1024 * 1024;
+
+const ALLOWED_CONTENT_TYPES: ReadonlySet<string> = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+export class RemoteImageError extends Error {
+  constructor(public readonly url: string, message: string) {
+    super(message);
+    this.name = 'RemoteImageError';
+  }
+}
+
+/**
+ * Identify an image format from its magic bytes. Returns the MIME type, or
+ * undefined when the bytes aren't a format the cloud accepts.
+ */
+export function sniffImageMime(buf: Buffer): string | undefined {
+  if (buf.length >= 8 && buf.readUInt32BE(0) === 0x89504e47 && buf.readUInt32BE(4) === 0x0d0a1a0a) return 'image/png';
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return 'image/jpeg';
+  if (buf.length >= 6 && (buf.toString('latin1', 0, 6) === 'GIF87a' || buf.toString('latin1', 0, 6) === 'GIF89a')) return 'image/gif';
+  if (buf.length >= 12 && buf.toString('latin1', 0, 4) === 'RIFF' && buf.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+  return undefined;
+}
+
+function ipv4ToInt(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => (acc << 8) + Number(octet), 0) >>> 0;
+}
+
+const BLOCKED_V4: ReadonlyArray<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4],
+];
+
+/**
+ * True for loopback, private, link-local (incl. cloud metadata at
+ * 169.254.169.254), CGNAT, multicast, documentation and reserved ranges —
+ * anything that isn't a routable public address.
+ */
+export function isPrivateAddress(ip: string): boolean {
+  if (net.isIPv4(ip)) {
+    const n = ipv4ToInt(ip);
+    return BLOCKED_V4.some(([base, bits]) => (n >>> (32 - bits)) === (ipv4ToInt(base) >>> (32 - bits)));
+  }
+  if (!net.isIPv6(ip)) return true;
+  const lower = ip.toLowerCase();
+  // IPv4-mapped / NAT64-embedded addresses: judge the embedded IPv4.
+  const embedded = lower.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isPrivateAddress(embedded[1]!);
+  if (lower === '::' || lower === '::1') return true;
+  const first = parseInt(lower.split(':')[0] || '0', 16);
+  return (
+    (first & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+    (first & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+    (first & 0xff00) === 0xff00 || // ff00::/8 multicast
+    lower.startsWith('2001:db8:') || // documentation
+    lower.startsWith('::ffff:') // mapped form not caught above (hex notation)
+  );
+}
+
+/**
+ * `lookup` for https.request that refuses to hand back a non-public
+ * address. Honors `all: true`, which Node and Bun both pass.
+ */
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err);
+    const blocked = addresses.find((a) => isPrivateAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`${hostname} resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+}) as unknown as typeof dns.lookup;
+
+function getCacheDir(): string {
+  // xdgCache is undefined on Windows; same fallback as oauth/storage.ts.
+  const base = xdgCache ?? path.join(os.homedir(), '.cache');
+  return path.join(base, 'opencode-windsurf-auth', 'images');
+}
+
+interface FetchedImage {
+  mimeType: string;
+  bytes: Buffer;
+}
+
+function readCache(key: string): FetchedImage | null {
+  const file = path.join(getCacheDir(), key);
+  try {
+    const st = fs.statSync(file);
+    if (Date.now() - st.mtimeMs > CACHE_TTL_MS) return null;
+    const bytes = fs.readFileSync(file);
+    const mimeType = sniffImageMime(bytes);
+    return mimeType ? { mimeType, bytes } : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(key: string, bytes: Buffer): void {
+  const dir = getCacheDir();
+  try {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const tmp = path.join(dir, `.${key}.${process.pid}.tmp`);
+    fs.writeFileSync(tmp, bytes, { mode: 0o600 });
+    fs.renameSync(tmp, path.join(dir, key));
+    pruneCache(dir);
+  } catch {
+    // Cache is an optimisation; a read-only home dir shouldn't break chat.
+  }
+}
+
+function pruneCache(dir: string): void {
+  const files = fs.readdirSync(dir)
+    .filter((f) => !f.startsWith('.'))
+    .map((f) => {
+      const st = fs.statSync(path.join(dir, f));
+      return { f, size: st.size, mtime: st.mtimeMs };
+    })
+    .sort((a, b) => a.mtime - b.mtime);
+  let total = files.reduce((sum, x) => sum + x.size, 0);
+  const now = Date.now();
+  for (const x of files) {
+    if (total <= CACHE_MAX_BYTES && now - x.mtime <= CACHE_TTL_MS) continue;
+    fs.rmSync(path.join(dir, x.f), { force: true });
+    total -= x.size;
+  }
+}
+
+/** One GET, no redirect following. Resolves with the status, headers and (for 2xx) the capped body. */
+function getOnce(url: URL, signal: AbortSignal): Promise<{ status: number; location?: string; contentType?: string; body?: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const req = https.request(url, {
+      method: 'GET',
+      headers: { Accept: [...ALLOWED_CONTENT_TYPES].join(', '), 'User-Agent': 'opencode-windsurf-auth' },
+      lookup: publicOnlyLookup,
+      signal,
+    }, (res) => {
+      const status = res.statusCode ?? 0;
+      const contentType = res.headers['content-type']?.split(';')[0]?.trim().toLowerCase();
+      if (status < 200 || status >= 300) {
+        res.resume();
+        return resolve({ status, location: res.headers.location, contentType });
+      }
+      const declared = Number(res.headers['content-length']);
+      if (Number.isFinite(declared) && declared > MAX_IMAGE_BYTES) {
+        res.destroy();
+        return reject(new Error(`image is ${declared} bytes (max ${MAX_IMAGE_BYTES})`));
+      }
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_IMAGE_BYTES) {
+          res.destroy(new Error(`image exceeds ${MAX_IMAGE_BYTES} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on('end', () => resolve({ status, contentType, body: Buffer.concat(chunks) }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Download one image URL under the rules in the module header. Throws
+ * {@link RemoteImageError} with a human-readable reason on any refusal.
+ */
+export async function fetchRemoteImage(rawUrl: string, signal?: AbortSignal): Promise<FetchedImage> {
+  const key = crypto.createHash('sha256').update(rawUrl).digest('hex');
+  const cached = readCache(key);
+  if (cached) return cached;
+
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const combined = signal ? anySignal([signal, timeout]) : timeout;
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new RemoteImageError(rawUrl, 'not a valid URL');
+  }
+  try {
+    for (let hop = 0; ; hop++) {
+      if (url.protocol !== 'https:') throw new Error(`only https:// image URLs are fetched (got ${url.protocol})`);
+      if (url.username || url.password) throw new Error('URLs with credentials are not fetched');
+      // IP-literal hosts never go through `lookup`, so vet them here.
+      const literal = url.hostname.replace(/^\[|\]$/g, '');
+      if (net.isIP(literal) && isPrivateAddress(literal)) throw new Error(`${literal} is not a public address`);
+      const res = await getOnce(url, combined);
+      if (res.status >= 300 && res.status < 400 && res.location) {
+        if (hop >= MAX_REDIRECTS) throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+        url = new URL(res.location, url);
+        continue;
+      }
+      if (!res.body) throw new Error(`HTTP ${res.status}`);
+      if (!res.contentType || !res.contentType.startsWith('image/')) {
+        throw new Error(`content type ${res.contentType ?? '(none)'} is not an image`);
+      }
+      const mimeType = sniffImageMime(res.body);
+      if (!mimeType || !ALLOWED_CONTENT_TYPES.has(mimeType)) {
+        throw new Error('bytes are not PNG, JPEG, GIF or WebP');
+      }
+      writeCache(key, res.body);
+      return { mimeType, bytes: res.body };
+    }
+  } catch (err) {
+    // A caller abort is not an image problem — let it propagate as-is.
+    if (signal?.aborted) throw err;
+    const reason = timeout.aborted ? `timed out after ${FETCH_TIMEOUT_MS}ms` : err instanceof Error ? err.message : String(err);
+    throw new RemoteImageError(rawUrl, reason);
+  }
+}
+
+function remoteImageUrl(part: unknown): string | undefined {
+  if (!part || typeof part !== 'object') return undefined;
+  const p = part as Record<string, unknown>;
+  if (p.type !== 'image_url' || !p.image_url) return undefined;
+  const ref = p.image_url as string | { url?: unknown };
+  const url = typeof ref === 'string' ? ref : ref.url;
+  return typeof url === 'string' && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+/**
+ * Replace every remote `image_url` part with an inline image part. Each
+ * distinct URL is fetched once (in parallel); failures become a text
+ * placeholder carrying the reason. `log` receives one line per failure.
+ */
+export async function inlineRemoteImages(
+  messages: ChatHistoryItem[],
+  signal?: AbortSignal,
+  log: (message: string) => void = () => { /* silent */ },
+): Promise<ChatHistoryItem[]> {
+  const urls = new Set<string>();
+  for (const m of messages) {
+    if (!Array.isArray(m.content)) continue;
+    for (const p of m.content) {
+      const url = remoteImageUrl(p);
+      if (url) urls.add(url);
+    }
+  }
+  if (urls.size === 0) return messages;
+
+  const results = new Map<string, ContentPart>();
+  await Promise.all([...urls].map(async (url, i) => {
+    if (i >= MAX_IMAGES_PER_REQUEST) {
+      results.set(url, { type: 'text', text: `[image url: ${url} (not fetched: more than ${MAX_IMAGES_PER_REQUEST} remote images)]` });
+      return;
+    }
+    try {
+      const img = await fetchRemoteImage(url, signal);
+      results.set(url, { type: 'image', mimeType: img.mimeType, base64Data: img.bytes.toString('base64') });
+    } catch (err) {
+      if (!(err instanceof RemoteImageError)) throw err;
+      log(`[cloud-direct] remote image not fetched (${url}): ${err.message}`);
+      results.set(url, { type: 'text', text: `[image url: ${url} (not fetched: ${err.message})]` });
+    }
+  }));
+
+  return messages.map((m) => {
+    if (!Array.isArray(m.content) || !m.content.some((p) => remoteImageUrl(p))) return m;
+    return { ...m, content: m.content.map((p) => results.get(remoteImageUrl(p) ?? '') ?? p) };
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Cross-turn image deduplication for GetChatMessage.
+ *
+ * opencode resends the whole history every turn, and `ImageData` has no
+ * by-reference form — every `ChatMessagePrompt` carries its images as
+ * base64. A screenshot attached in turn 1 is therefore uploaded again with
+ * every later request, and one pasted twice is uploaded twice per request.
+ * {@link dedupeHistoryImages} runs in the request builder and:
+ *
+ *   - keeps only the FIRST occurrence of each distinct image (by content
+ *     hash); later copies become a short text note pointing back at it.
+ *     Keeping the first one leaves earlier turns byte-identical from one
+ *     request to the next, so the cloud's prompt-cache prefix survives a
+ *     re-pasted screenshot;
+ *   - optionally (`recentTurns`) replaces every image older than the last N
+ *     user turns with a placeholder, caption included when there was one.
+ *
+ * Ageing out is off by default: it rewrites old turns as the window slides,
+ * which invalidates the cloud's prompt-cache prefix each time, so it only
+ * pays off for long, image-heavy sessions.
+ */
+
+import * as crypto from 'crypto';
+import type { ChatHistoryItem, ContentPart } from './chat.js';
+import { inlineImageOf } from './image-preprocess.js';
+
+export interface ImageHistoryStats {
+  /** Distinct images still sent inline. */
+  sent: number;
+  /** Later copies of an image already sent earlier in the history. */
+  duplicates: number;
+  /** Images dropped for being older than the recency window. */
+  aged: number;
+  /** base64 bytes not sent because of the above. */
+  bytesSaved: number;
+}
+
+const DUPLICATE_PLACEHOLDER = '[image: identical to one attached earlier in this conversation]';
+
+function agedPlaceholder(caption?: string): string {
+  return caption
+    ? `[image from an earlier turn omitted: ${caption}]`
+    : '[image from an earlier turn omitted]';
+}
+
+/**
+ * Deduplicate images across `messages` and, when `recentTurns` is set, drop
+ * those outside the last `recentTurns` user turns. A turn is a user message
+ * plus the assistant/tool messages that follow it. Returns the original
+ * array when nothing changed.
+ */
+export function dedupeHistoryImages(
+  messages: ChatHistoryItem[],
+  recentTurns?: number,
+): { messages: ChatHistoryItem[]; stats: ImageHistoryStats } {
+  const stats: ImageHistoryStats = { sent: 0, duplicates: 0, aged: 0, bytesSaved: 0 };
+
+  // turnOf[i] = number of user messages at or before i.
+  const turnOf: number[] = [];
+  let userTurns = 0;
+  for (const m of messages) {
+    if (m.role === 'user') userTurns++;
+    turnOf.push(userTurns);
+  }
+
+  const seen = new Set<string>();
+  const out = [...messages];
+  let changed = false;
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i]!;
+    if (!Array.isArray(m.content)) continue;
+    const old = recentTurns !== undefined && userTurns - turnOf[i]! >= recentTurns;
+    let touched = false;
+    const content: unknown[] = [...m.content];
+    for (let j = 0; j < content.length; j++) {
+      const image = inlineImageOf(content[j]);
+      if (!image) continue;
+      let replacement: string | undefined;
+      if (old) {
+        stats.aged++;
+        replacement = agedPlaceholder(image.caption);
+      } else {
+        const hash = crypto.createHash('sha256').update(image.base64Data).digest('hex');
+        if (seen.has(hash)) {
+          stats.duplicates++;
+          replacement = DUPLICATE_PLACEHOLDER;
+        } else {
+          seen.add(hash);
+          stats.sent++;
+        }
+      }
+      if (replacement !== undefined) {
+        stats.bytesSaved += image.base64Data.length;
+        content[j] = { type: 'text', text: replacement };
+        touched = true;
+      }
+    }
+    if (touched) {
+      out[i] = { ...m, content: content as ContentPart[] };
+      changed = true;
+    }
+  }
+  return { messages: changed ? out : messages, stats };
+}
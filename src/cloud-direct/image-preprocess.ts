@@ -0,0 +1,801 @@
+/**
+ * Image preprocessing before `ImageData` encoding.
+ *
+ * Screenshots pasted into opencode are routinely 3–8 MB Retina PNGs, and
+ * `encodeImageData` used to base64 them verbatim into every turn — opencode
+ * resends the whole history, so one screenshot cost megabytes per request
+ * for the rest of the session, well past what the model can resolve. Every
+ * inline image now passes through {@link preprocessImages}:
+ *
+ *   1. The declared `mimeType` is checked against the magic bytes. A wrong
+ *      label is corrected; bytes that aren't PNG/JPEG/GIF/WebP at all are
+ *      replaced by a text placeholder (the cloud rejects them anyway).
+ *   2. A PNG, JPEG or WebP whose long edge exceeds the model's limit
+ *      ({@link imageMaxDimensionFor}) is decoded, area-averaged down to fit,
+ *      and re-encoded — PNG and JPEG in their own format, WebP as JPEG (PNG
+ *      when it has transparency), since there's no WebP encoder here.
+ *   3. One still over the byte budget is shrunk further until it fits.
+ *
+ * PNG is handled by the small decoder/encoder below (node:zlib only), JPEG
+ * by jpeg-js, WebP decoding by @cwasm/webp (libwebp compiled to WASM, no
+ * native build) — so there's no native image dependency to ship with the
+ * plugin. GIF is validated and measured from its header but NOT re-encoded:
+ * an oversized one is sent as-is and logged.
+ *
+ * Decoding is synchronous and holds the whole RGBA image in memory, so it's
+ * capped at {@link MAX_DECODE_PIXELS} (a 5K screenshot) — larger images go
+ * out untouched rather than stalling the event loop for seconds. Results
+ * are memoised by content hash, since the same image comes back on every
+ * turn.
+ */
+
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import jpeg from 'jpeg-js';
+import webp from '@cwasm/webp';
+import type { ChatHistoryItem, ContentPart } from './chat.js';
+import { sniffImageMime } from './image-fetch.js';
+
+export interface ImagePreprocessOptions {
+  /** Longest edge, in pixels, an image is downscaled to. */
+  maxDimension: number;
+  /** Byte budget per image (decoded bytes, before base64). */
+  maxBytes: number;
+}
+
+/** Long-edge limit for models without a rule in {@link MODEL_MAX_DIMENSION}. */
+export const DEFAULT_IMAGE_MAX_DIMENSION = 2048;
+export const DEFAULT_IMAGE_MAX_BYTES = 1536 * 1024;
+
+/**
+ * Largest useful long edge per model family, matched against the model UID.
+ * Vision encoders downsample anything bigger themselves (Claude to ~1568px,
+ * GPT tiles within 2048px), so the extra pixels only cost bytes.
+ */
+const MODEL_MAX_DIMENSION: ReadonlyArray<{ pattern: RegExp; maxDimension: number }> = [
+  { pattern: /claude/i, maxDimension: 1568 },
+  { pattern: /gemini/i, maxDimension: 3072 },
+];
+
+/**
+ * Don't decode anything bigger than this: 5120×2880 plus headroom. The RGBA
+ * working set is 4 bytes/pixel, and a pure-JS decode of this size already
+ * takes on the order of a second.
+ */
+const MAX_DECODE_PIXELS = 16_000_000;
+/** Quality for re-encoded JPEGs — visually lossless for screenshots and photos. */
+const JPEG_QUALITY = 85;
+/** Smallest long edge the byte-budget loop will shrink to. */
+const MIN_DIMENSION = 256;
+const MAX_SHRINK_PASSES = 6;
+
+/** Memoised results; keyed by content hash + options. */
+const RESULT_CACHE_MAX = 64;
+const resultCache = new Map<string, ImagePreprocessResult>();
+
+const NOT_AN_IMAGE_PLACEHOLDER = '[image omitted: data is not a PNG, JPEG, GIF or WebP image]';
+
+export function imageMaxDimensionFor(modelUid: string): number {
+  return MODEL_MAX_DIMENSION.find((r) => r.pattern.test(modelUid))?.maxDimension ?? DEFAULT_IMAGE_MAX_DIMENSION;
+}
+
+/** Thrown by the image decoders for malformed, unsupported or oversized files. */
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
+
+/** 8-bit RGBA pixels, row-major, no padding. */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// Header-only dimensions
+// ---------------------------------------------------------------------------
+
+/** Pixel size from the file header, without decoding. Undefined when unreadable. */
+export function readImageDimensions(buf: Buffer, mimeType: string): { width: number; height: number } | undefined {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return buf.length >= 24 ? { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) } : undefined;
+      case 'image/gif':
+        return buf.length >= 10 ? { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) } : undefined;
+      case 'image/jpeg':
+        return jpegDimensions(buf);
+      case 'image/webp':
+        return webpDimensions(buf);
+      default:
+        return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+function jpegDimensions(buf: Buffer): { width: number; height: number } | undefined {
+  let pos = 2;
+  while (pos + 4 <= buf.length) {
+    if (buf[pos] !== 0xff) return undefined;
+    const marker = buf[pos + 1]!;
+    if (marker === 0xff) { pos++; continue; }
+    // Standalone markers carry no length.
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) { pos += 2; continue; }
+    const len = buf.readUInt16BE(pos + 2);
+    // SOF0–SOF15, minus DHT (C4), JPG (C8) and DAC (CC).
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: buf.readUInt16BE(pos + 7), height: buf.readUInt16BE(pos + 5) };
+    }
+    pos += 2 + len;
+  }
+  return undefined;
+}
+
+function webpDimensions(buf: Buffer): { width: number; height: number } | undefined {
+  const chunk = buf.toString('latin1', 12, 16);
+  if (chunk === 'VP8X' && buf.length >= 30) {
+    return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+  }
+  if (chunk === 'VP8 ' && buf.length >= 30) {
+    return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && buf.length >= 25) {
+    const bits = buf.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// PNG decode
+// ---------------------------------------------------------------------------
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Channels per PNG color type (0 gray, 2 RGB, 3 palette, 4 gray+alpha, 6 RGBA). */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+const PNG_BIT_DEPTHS: Record<number, readonly number[]> = {
+  0: [1, 2, 4, 8, 16], 2: [8, 16], 3: [1, 2, 4, 8], 4: [8, 16], 6: [8, 16],
+};
+
+/** Adam7 passes: [xStart, yStart, xStep, yStep]. */
+const ADAM7: ReadonlyArray<readonly [number, number, number, number]> = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Decode any standard PNG (all color types and bit depths, palette +
+ * tRNS, Adam7) to 8-bit RGBA. 16-bit samples keep their high byte; gamma
+ * and color-profile chunks are ignored.
+ */
+export function decodePng(buf: Buffer): RgbaImage {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) throw new ImageDecodeError('not a PNG');
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let interlace = 0;
+  let palette: Buffer | undefined;
+  let trns: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  for (let pos = 8; pos + 8 <= buf.length;) {
+    const len = buf.readUInt32BE(pos);
+    const type = buf.toString('latin1', pos + 4, pos + 8);
+    const data = buf.subarray(pos + 8, pos + 8 + len);
+    if (data.length < len) throw new ImageDecodeError(`truncated ${type} chunk`);
+    pos += 12 + len;
+    if (type === 'IHDR') {
+      if (len < 13) throw new ImageDecodeError('short IHDR');
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8]!;
+      colorType = data[9]!;
+      if (data[10] !== 0 || data[11] !== 0) throw new ImageDecodeError('unknown compression/filter method');
+      interlace = data[12]!;
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      trns = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels || !PNG_BIT_DEPTHS[colorType]!.includes(bitDepth)) {
+    throw new ImageDecodeError(`unsupported color type ${colorType} / bit depth ${bitDepth}`);
+  }
+  if (interlace > 1) throw new ImageDecodeError(`unknown interlace method ${interlace}`);
+  if (width === 0 || height === 0) throw new ImageDecodeError('zero-sized image');
+  if (width * height > MAX_DECODE_PIXELS) throw new ImageDecodeError(`${width}x${height} exceeds the decode limit`);
+  if (colorType === 3 && !palette) throw new ImageDecodeError('palette image without PLTE');
+
+  const bitsPerPixel = channels * bitDepth;
+  const filterBpp = Math.max(1, bitsPerPixel >> 3);
+  const rowBytesFor = (w: number) => Math.ceil((w * bitsPerPixel) / 8);
+  const passes = interlace === 1 ? ADAM7 : [[0, 0, 1, 1] as const];
+
+  let expected = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const pw = Math.ceil((width - x0) / dx);
+    const ph = Math.ceil((height - y0) / dy);
+    if (pw > 0 && ph > 0) expected += ph * (rowBytesFor(pw) + 1);
+  }
+  let raw: Buffer;
+  try {
+    // Cap the output so a small zlib bomb can't balloon past the image size.
+    raw = zlib.inflateSync(Buffer.concat(idat), { maxOutputLength: expected });
+  } catch (err) {
+    throw new ImageDecodeError(`IDAT inflate failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (raw.length < expected) throw new ImageDecodeError('IDAT data is truncated');
+
+  const maxSample = (1 << bitDepth) - 1;
+  const scale = (v: number) => (bitDepth === 16 ? v >> 8 : bitDepth === 8 ? v : Math.round((v * 255) / maxSample));
+  const sampleAt = (row: Uint8Array, idx: number): number => {
+    if (bitDepth === 8) return row[idx]!;
+    if (bitDepth === 16) return (row[idx * 2]! << 8) | row[idx * 2 + 1]!;
+    const bit = idx * bitDepth;
+    return (row[bit >> 3]! >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+
+  const out = new Uint8Array(width * height * 4);
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const pw = Math.ceil((width - x0) / dx);
+    const ph = Math.ceil((height - y0) / dy);
+    if (pw <= 0 || ph <= 0) continue;
+    const rowBytes = rowBytesFor(pw);
+    let prev = new Uint8Array(rowBytes);
+    for (let y = 0; y < ph; y++) {
+      const filter = raw[offset]!;
+      const row = new Uint8Array(raw.subarray(offset + 1, offset + 1 + rowBytes));
+      offset += rowBytes + 1;
+      for (let i = 0; i < rowBytes; i++) {
+        const a = i >= filterBpp ? row[i - filterBpp]! : 0;
+        const b = prev[i]!;
+        const c = i >= filterBpp ? prev[i - filterBpp]! : 0;
+        switch (filter) {
+          case 0: break;
+          case 1: row[i] = (row[i]! + a) & 0xff; break;
+          case 2: row[i] = (row[i]! + b) & 0xff; break;
+          case 3: row[i] = (row[i]! + ((a + b) >> 1)) & 0xff; break;
+          case 4: row[i] = (row[i]! + paeth(a, b, c)) & 0xff; break;
+          default: throw new ImageDecodeError(`bad filter type ${filter}`);
+        }
+      }
+      prev = row;
+
+      for (let x = 0; x < pw; x++) {
+        const o = (((y0 + y * dy) * width) + x0 + x * dx) * 4;
+        const s = x * channels;
+        if (colorType === 3) {
+          const index = sampleAt(row, s);
+          out[o] = palette![index * 3] ?? 0;
+          out[o + 1] = palette![index * 3 + 1] ?? 0;
+          out[o + 2] = palette![index * 3 + 2] ?? 0;
+          out[o + 3] = trns && index < trns.length ? trns[index]! : 255;
+        } else if (colorType === 0 || colorType === 4) {
+          const g = sampleAt(row, s);
+          out[o] = out[o + 1] = out[o + 2] = scale(g);
+          out[o + 3] = colorType === 4
+            ? scale(sampleAt(row, s + 1))
+            : trns && trns.length >= 2 && g === trns.readUInt16BE(0) ? 0 : 255;
+        } else {
+          const r = sampleAt(row, s);
+          const g = sampleAt(row, s + 1);
+          const b = sampleAt(row, s + 2);
+          out[o] = scale(r);
+          out[o + 1] = scale(g);
+          out[o + 2] = scale(b);
+          out[o + 3] = colorType === 6
+            ? scale(sampleAt(row, s + 3))
+            : trns && trns.length >= 6 && r === trns.readUInt16BE(0) && g === trns.readUInt16BE(2) && b === trns.readUInt16BE(4) ? 0 : 255;
+        }
+      }
+    }
+  }
+  return { width, height, data: out };
+}
+
+// ---------------------------------------------------------------------------
+// PNG encode
+// ---------------------------------------------------------------------------
+
+/** CRC-32 lookup table (IEEE polynomial). `zlib.crc32` needs Node ≥20.15. */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 of `data`, continuing from `crc` (the CRC of what came before). */
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]!) & 0xff]! ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(data, crc32(head.subarray(4))), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+/**
+ * Encode 8-bit RGBA as a non-interlaced PNG — RGB when every pixel is
+ * opaque. Each row gets whichever filter minimises the sum of absolute
+ * residuals (the usual libpng heuristic).
+ */
+export function encodePng(img: RgbaImage): Buffer {
+  const { width, height, data } = img;
+  let opaque = true;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) { opaque = false; break; }
+  }
+  const channels = opaque ? 3 : 4;
+  const rowBytes = width * channels;
+  const raw = Buffer.alloc((rowBytes + 1) * height);
+  let prev = new Uint8Array(rowBytes);
+  let cur = new Uint8Array(rowBytes);
+  const candidates = Array.from({ length: 5 }, () => new Uint8Array(rowBytes));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      const dst = x * channels;
+      cur[dst] = data[src]!;
+      cur[dst + 1] = data[src + 1]!;
+      cur[dst + 2] = data[src + 2]!;
+      if (channels === 4) cur[dst + 3] = data[src + 3]!;
+    }
+    let best = 0;
+    let bestScore = Infinity;
+    for (let f = 0; f < 5; f++) {
+      const line = candidates[f]!;
+      let score = 0;
+      for (let i = 0; i < rowBytes; i++) {
+        const a = i >= channels ? cur[i - channels]! : 0;
+        const b = prev[i]!;
+        const c = i >= channels ? prev[i - channels]! : 0;
+        const predicted = f === 0 ? 0 : f === 1 ? a : f === 2 ? b : f === 3 ? (a + b) >> 1 : paeth(a, b, c);
+        const v = (cur[i]! - predicted) & 0xff;
+        line[i] = v;
+        score += v < 128 ? v : 256 - v;
+      }
+      if (score < bestScore) { bestScore = score; best = f; }
+    }
+    const at = y * (rowBytes + 1);
+    raw[at] = best;
+    raw.set(candidates[best]!, at + 1);
+    [prev, cur] = [cur, prev];
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = opaque ? 2 : 6;
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', zlib.deflateSync(raw, { level: 9 })),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// JPEG
+// ---------------------------------------------------------------------------
+
+/** EXIF orientation (1–8) from a JPEG's APP1 segment; 1 when absent or unreadable. */
+export function jpegOrientation(buf: Buffer): number {
+  try {
+    let pos = 2;
+    while (pos + 4 <= buf.length && buf[pos] === 0xff) {
+      const marker = buf[pos + 1]!;
+      // Image data starts at SOS; EXIF always comes before it.
+      if (marker === 0xda) return 1;
+      const len = buf.readUInt16BE(pos + 2);
+      if (marker === 0xe1 && buf.toString('latin1', pos + 4, pos + 10) === 'Exif\0\0') {
+        const tiff = pos + 10;
+        const le = buf.toString('latin1', tiff, tiff + 2) === 'II';
+        const u16 = (at: number) => (le ? buf.readUInt16LE(at) : buf.readUInt16BE(at));
+        const u32 = (at: number) => (le ? buf.readUInt32LE(at) : buf.readUInt32BE(at));
+        const ifd = tiff + u32(tiff + 4);
+        const entries = u16(ifd);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (u16(entry) === 0x0112) {
+            const value = u16(entry + 8);
+            return value >= 1 && value <= 8 ? value : 1;
+          }
+        }
+        return 1;
+      }
+      pos += 2 + len;
+    }
+  } catch {
+    /* malformed EXIF — treat as upright */
+  }
+  return 1;
+}
+
+/**
+ * Bake an EXIF orientation into the pixels. Re-encoding drops the EXIF
+ * block, so without this a rotated phone photo would arrive sideways.
+ */
+function applyOrientation(img: RgbaImage, orientation: number): RgbaImage {
+  if (orientation === 1) return img;
+  const { width: w, height: h, data } = img;
+  const swap = orientation >= 5;
+  const width = swap ? h : w;
+  const height = swap ? w : h;
+  const out = new Uint8Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2: sx = w - 1 - x; sy = y; break;
+        case 3: sx = w - 1 - x; sy = h - 1 - y; break;
+        case 4: sx = x; sy = h - 1 - y; break;
+        case 5: sx = y; sy = x; break;
+        case 6: sx = y; sy = h - 1 - x; break;
+        case 7: sx = w - 1 - y; sy = h - 1 - x; break;
+        default: sx = w - 1 - y; sy = x; break; // 8
+      }
+      const o = (y * width + x) * 4;
+      const i = (sy * w + sx) * 4;
+      out[o] = data[i]!;
+      out[o + 1] = data[i + 1]!;
+      out[o + 2] = data[i + 2]!;
+      out[o + 3] = data[i + 3]!;
+    }
+  }
+  return { width, height, data: out };
+}
+
+/** Decode a baseline or progressive JPEG to upright 8-bit RGBA. */
+export function decodeJpeg(buf: Buffer): RgbaImage {
+  const dims = jpegDimensions(buf);
+  if (!dims) throw new ImageDecodeError('no JPEG frame header');
+  if (dims.width === 0 || dims.height === 0) throw new ImageDecodeError('zero-sized image');
+  if (dims.width * dims.height > MAX_DECODE_PIXELS) throw new ImageDecodeError(`${dims.width}x${dims.height} exceeds the decode limit`);
+  let decoded: { width: number; height: number; data: Uint8Array };
+  try {
+    decoded = jpeg.decode(buf, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_DECODE_PIXELS / 1_000_000,
+      maxMemoryUsageInMB: 256,
+    });
+  } catch (err) {
+    throw new ImageDecodeError(`JPEG decode failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return applyOrientation({ width: decoded.width, height: decoded.height, data: decoded.data }, jpegOrientation(buf));
+}
+
+/** Encode RGBA as a baseline JPEG at {@link JPEG_QUALITY}; alpha is dropped. */
+export function encodeJpeg(img: RgbaImage): Buffer {
+  return Buffer.from(jpeg.encode({ width: img.width, height: img.height, data: img.data }, JPEG_QUALITY).data);
+}
+
+// ---------------------------------------------------------------------------
+// WebP
+// ---------------------------------------------------------------------------
+
+/** Decode a lossy, lossless or animated (first frame) WebP to 8-bit RGBA. */
+export function decodeWebp(buf: Buffer): RgbaImage {
+  const dims = webpDimensions(buf);
+  if (!dims) throw new ImageDecodeError('no WebP image header');
+  if (dims.width * dims.height > MAX_DECODE_PIXELS) throw new ImageDecodeError(`${dims.width}x${dims.height} exceeds the decode limit`);
+  let decoded: { width: number; height: number; data: Uint8ClampedArray };
+  try {
+    decoded = webp.decode(buf);
+  } catch (err) {
+    throw new ImageDecodeError(`WebP decode failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { width: decoded.width, height: decoded.height, data: new Uint8Array(decoded.data.buffer, decoded.data.byteOffset, decoded.data.length) };
+}
+
+/**
+ * Re-encode a decoded WebP: JPEG when every pixel is opaque (photos and
+ * screenshots — far smaller than PNG), PNG when it has transparency.
+ */
+function encodeWebpReplacement(img: RgbaImage): Buffer {
+  for (let i = 3; i < img.data.length; i += 4) {
+    if (img.data[i] !== 255) return encodePng(img);
+  }
+  return encodeJpeg(img);
+}
+
+// ---------------------------------------------------------------------------
+// Resize
+// ---------------------------------------------------------------------------
+
+/** Source spans (start index + per-pixel coverage) for each destination pixel on one axis. */
+function boxWeights(src: number, dst: number): Array<{ start: number; weights: number[] }> {
+  const ratio = src / dst;
+  const spans: Array<{ start: number; weights: number[] }> = [];
+  for (let i = 0; i < dst; i++) {
+    const from = i * ratio;
+    const to = Math.min(src, (i + 1) * ratio);
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let s = start; s < to; s++) {
+      weights.push((Math.min(s + 1, to) - Math.max(s, from)) / ratio);
+    }
+    spans.push({ start, weights });
+  }
+  return spans;
+}
+
+/**
+ * Area-average downscale to `width`×`height`. Colors are averaged
+ * alpha-weighted, so transparent pixels don't bleed black into edges.
+ * Source rows are reduced as each output row needs them, so the working
+ * memory beyond the output is one row of accumulators (a source row that
+ * straddles two output rows is simply reduced twice).
+ */
+export function downscale(img: RgbaImage, width: number, height: number): RgbaImage {
+  const xs = boxWeights(img.width, width);
+  const ys = boxWeights(img.height, height);
+  const src = img.data;
+  const acc = new Float64Array(width * 4);
+  const out = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const rows = ys[y]!;
+    acc.fill(0);
+    for (let j = 0; j < rows.weights.length; j++) {
+      const rowBase = (rows.start + j) * img.width;
+      const wy = rows.weights[j]!;
+      for (let x = 0; x < width; x++) {
+        const { start, weights } = xs[x]!;
+        let r = 0, g = 0, b = 0, a = 0;
+        for (let k = 0; k < weights.length; k++) {
+          const o = (rowBase + start + k) * 4;
+          const wa = weights[k]! * src[o + 3]!;
+          r += src[o]! * wa;
+          g += src[o + 1]! * wa;
+          b += src[o + 2]! * wa;
+          a += wa;
+        }
+        const t = x * 4;
+        acc[t] += r * wy;
+        acc[t + 1] += g * wy;
+        acc[t + 2] += b * wy;
+        acc[t + 3] += a * wy;
+      }
+    }
+
+    // Un-premultiply.
+    for (let x = 0; x < width; x++) {
+      const t = x * 4;
+      const a = acc[t + 3]!;
+      const o = (y * width + x) * 4;
+      if (a > 0) {
+        out[o] = Math.min(255, Math.round(acc[t]! / a));
+        out[o + 1] = Math.min(255, Math.round(acc[t + 1]! / a));
+        out[o + 2] = Math.min(255, Math.round(acc[t + 2]! / a));
+      }
+      out[o + 3] = Math.min(255, Math.round(a));
+    }
+  }
+  return { width, height, data: out };
+}
+
+/** Size that fits `longEdge` while keeping the aspect ratio (never upscales). */
+function fitWithin(width: number, height: number, longEdge: number): { width: number; height: number } {
+  const scale = Math.min(1, longEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+export interface ImagePreprocessResult {
+  /** The part to send: a (possibly rewritten) image, or a text placeholder. */
+  part: ContentPart;
+  /** What changed, for the debug log; undefined when the image went through untouched. */
+  note?: string;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+/** Decoder and encoder for the formats we re-encode. The output format is sniffed from the encoder's bytes. */
+const CODECS: Record<string, { label: string; decode: (buf: Buffer) => RgbaImage; encode: (img: RgbaImage) => Buffer }> = {
+  'image/png': { label: 'PNG', decode: decodePng, encode: encodePng },
+  'image/jpeg': { label: 'JPEG', decode: decodeJpeg, encode: encodeJpeg },
+  'image/webp': { label: 'WebP', decode: decodeWebp, encode: encodeWebpReplacement },
+};
+
+/**
+ * Fit `source` within the options, shrinking further until it's under the
+ * byte budget. Each pass shrinks the previous pass's pixels rather than the
+ * full decode, so only the first pass touches the full-size image and it can
+ * be collected right after.
+ */
+function shrinkImage(
+  source: RgbaImage,
+  opts: ImagePreprocessOptions,
+  encode: (img: RgbaImage) => Buffer,
+): { bytes: Buffer; width: number; height: number } | undefined {
+  let target = fitWithin(source.width, source.height, opts.maxDimension);
+  let best: { bytes: Buffer; width: number; height: number } | undefined;
+  for (let pass = 0; pass < MAX_SHRINK_PASSES; pass++) {
+    const resized = target.width === source.width && target.height === source.height
+      ? source
+      : downscale(source, target.width, target.height);
+    const encoded = encode(resized);
+    best = { bytes: encoded, ...target };
+    if (encoded.length <= opts.maxBytes) break;
+    // Encoded size tracks pixel count roughly linearly; aim a little under.
+    const longEdge = Math.max(target.width, target.height);
+    const next = Math.floor(longEdge * Math.sqrt(opts.maxBytes / encoded.length) * 0.9);
+    if (longEdge <= MIN_DIMENSION) break;
+    source = resized;
+    target = fitWithin(source.width, source.height, Math.max(MIN_DIMENSION, next));
+  }
+  return best;
+}
+
+/**
+ * Validate and, for PNG, JPEG and WebP, downscale/recompress one inline image.
+ * Never throws: an image we can't decode goes through unchanged with a note.
+ */
+export function preprocessImage(
+  image: { mimeType: string; base64Data: string; caption?: string },
+  opts: ImagePreprocessOptions,
+): ImagePreprocessResult {
+  const cacheKey = `${opts.maxDimension}:${opts.maxBytes}:${crypto.createHash('sha256').update(image.base64Data).digest('hex')}:${image.mimeType}`;
+  const cached = resultCache.get(cacheKey);
+  if (cached) {
+    const part = cached.part.type === 'image' && image.caption !== undefined ? { ...cached.part, caption: image.caption } : cached.part;
+    return { ...cached, part };
+  }
+  const result = preprocessUncached(image, opts);
+  if (resultCache.size >= RESULT_CACHE_MAX) resultCache.delete(resultCache.keys().next().value!);
+  resultCache.set(cacheKey, result);
+  return result;
+}
+
+function preprocessUncached(
+  image: { mimeType: string; base64Data: string; caption?: string },
+  opts: ImagePreprocessOptions,
+): ImagePreprocessResult {
+  const bytes = Buffer.from(image.base64Data, 'base64');
+  const bytesBefore = bytes.length;
+  const unchanged = { part: { type: 'image' as const, ...image }, bytesBefore, bytesAfter: bytesBefore };
+
+  const actual = sniffImageMime(bytes);
+  if (!actual) {
+    return {
+      part: { type: 'text', text: NOT_AN_IMAGE_PLACEHOLDER },
+      note: `dropped image declared ${image.mimeType}: bytes are not a supported image format`,
+      bytesBefore,
+      bytesAfter: 0,
+    };
+  }
+  const notes: string[] = [];
+  const declared = image.mimeType.toLowerCase();
+  if (declared !== actual) notes.push(`declared ${image.mimeType} but bytes are ${actual}`);
+  const part = { type: 'image' as const, ...image, mimeType: actual };
+
+  const dims = readImageDimensions(bytes, actual);
+  const oversized = dims !== undefined && Math.max(dims.width, dims.height) > opts.maxDimension;
+  if (!oversized && bytesBefore <= opts.maxBytes) {
+    return { ...unchanged, part, ...(notes.length ? { note: notes.join('; ') } : {}) };
+  }
+
+  const codec = CODECS[actual];
+  if (!codec) {
+    notes.push(`${actual} ${dims ? `${dims.width}x${dims.height}, ` : ''}${bytesBefore} bytes exceeds limits but can only be re-encoded when PNG, JPEG or WebP; sent as-is`);
+    return { ...unchanged, part, note: notes.join('; ') };
+  }
+
+  let shrunk: ReturnType<typeof shrinkImage>;
+  try {
+    shrunk = shrinkImage(codec.decode(bytes), opts, codec.encode);
+  } catch (err) {
+    if (!(err instanceof ImageDecodeError)) throw err;
+    notes.push(`${codec.label} not re-encoded (${err.message}); sent as-is`);
+    return { ...unchanged, part, note: notes.join('; ') };
+  }
+  // Re-encoding a small, already well-compressed image can come out larger;
+  // only keep ours when it fixed the dimensions or saved bytes.
+  if (!shrunk || (!oversized && shrunk.bytes.length >= bytesBefore)) {
+    return { ...unchanged, part, ...(notes.length ? { note: notes.join('; ') } : {}) };
+  }
+  const mimeType = sniffImageMime(shrunk.bytes) ?? actual;
+  notes.push(`${codec.label} ${dims ? `${dims.width}x${dims.height} ` : ''}${bytesBefore} bytes -> ${mimeType === actual ? '' : `${CODECS[mimeType]?.label ?? mimeType} `}${shrunk.width}x${shrunk.height} ${shrunk.bytes.length} bytes`);
+  return {
+    part: { ...part, mimeType, base64Data: shrunk.bytes.toString('base64') },
+    note: notes.join('; '),
+    bytesBefore,
+    bytesAfter: shrunk.bytes.length,
+  };
+}
+
+/** `data:` image URLs in `image_url` parts, as parsed by normalizeContent. */
+const DATA_URL_RE = /^data:([^;]+);base64,(.+)$/s;
+
+/** The inline image a content part carries (`image`, or `image_url` with a `data:` URL), if any. */
+export function inlineImageOf(part: unknown): { mimeType: string; base64Data: string; caption?: string } | undefined {
+  if (!part || typeof part !== 'object') return undefined;
+  const p = part as Record<string, unknown>;
+  if (p.type === 'image' && typeof p.base64Data === 'string') {
+    return {
+      mimeType: typeof p.mimeType === 'string' ? p.mimeType : 'image/png',
+      base64Data: p.base64Data,
+      ...(typeof p.caption === 'string' ? { caption: p.caption } : {}),
+    };
+  }
+  if (p.type === 'image_url' && p.image_url) {
+    const ref = p.image_url as string | { url?: string };
+    const url = typeof ref === 'string' ? ref : ref.url ?? '';
+    const m = DATA_URL_RE.exec(url);
+    if (m) return { mimeType: m[1]!, base64Data: m[2]! };
+  }
+  return undefined;
+}
+
+/**
+ * Run {@link preprocessImage} over every inline image in `messages`
+ * (`image` parts and `data:` URL `image_url` parts). Returns the original
+ * array when nothing changed.
+ */
+export function preprocessImages(
+  messages: ChatHistoryItem[],
+  opts: ImagePreprocessOptions,
+  log: (message: string) => void = () => { /* silent */ },
+): ChatHistoryItem[] {
+  let changed = false;
+  let before = 0;
+  let after = 0;
+  const out = messages.map((m) => {
+    if (!Array.isArray(m.content)) return m;
+    let touched = false;
+    const content = m.content.map((p) => {
+      const image = inlineImageOf(p);
+      if (!image) return p;
+      const result = preprocessImage(image, opts);
+      before += result.bytesBefore;
+      after += result.bytesAfter;
+      if (result.note) log(`[cloud-direct] image: ${result.note}`);
+      if (!result.note) return p;
+      touched = true;
+      return result.part;
+    });
+    if (!touched) return m;
+    changed = true;
+    return { ...m, content };
+  });
+  if (before !== after) log(`[cloud-direct] images: ${before} -> ${after} bytes (saved ${before - after})`);
+  return changed ? out : messages;
+}
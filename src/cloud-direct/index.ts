@@ -19,8 +19,12 @@ export {
   streamChatEvents,
   allocateCascadeId,
   CloudChatError,
+  CLOUD_STREAM_TTFB_MS,
+  estimatePromptTokens,
+  type PromptTokenEstimate,
   type CloudChatRequest,
   type ChatHistoryItem,
+  type ContentPart,
   type CloudChatEvent,
   type ToolDef,
 } from './chat.js';
@@ -34,7 +38,88 @@ export {
 
 export {
   getCachedCatalog,
+  fetchModelCatalog,
   clearCachedCatalog,
+  parseClientModelConfig,
+  parseModelConfigsResponse,
   ModelNotAvailableError,
+  type ModelCatalog,
   type ModelCatalogEntry,
 } from './catalog.js';
+
+export {
+  fetchRemoteImage,
+  inlineRemoteImages,
+  sniffImageMime,
+  RemoteImageError,
+} from './image-fetch.js';
+
+export {
+  preprocessImage,
+  preprocessImages,
+  inlineImageOf,
+  imageMaxDimensionFor,
+  decodePng,
+  encodePng,
+  decodeJpeg,
+  encodeJpeg,
+  readImageDimensions,
+  ImageDecodeError,
+  DEFAULT_IMAGE_MAX_BYTES,
+  DEFAULT_IMAGE_MAX_DIMENSION,
+  type ImagePreprocessOptions,
+} from './image-preprocess.js';
+
+export {
+  dedupeHistoryImages,
+  type ImageHistoryStats,
+} from './image-history.js';
+
+export {
+  extractDocuments,
+  fileAttachmentOf,
+  decodeText,
+  DOCUMENT_BUDGET_SHARE,
+  type DocumentExtractOptions,
+} from './documents.js';
+
+export {
+  extractPdf,
+  isPdf,
+  PdfParseError,
+  type PdfDocument,
+  type PdfPage,
+} from './pdf.js';
+
+export {
+  tokenizerFor,
+  registerTokenizer,
+  approximateBpeTokenizer,
+  imageTokens,
+  type Tokenizer,
+  type TokenizerProfile,
+} from './tokenizer.js';
+
+export {
+  fitToolDescriptions,
+  withToolManual,
+  collapseWhitespace,
+  MAX_TOOL_DESC_LEN,
+  type FittedTools,
+  type ToolDescriptionChange,
+} from './tool-descriptions.js';
+
+export {
+  buildToolNameMap,
+  sanitizeToolName,
+  toCloudHistory,
+  MAX_TOOL_NAME_LEN,
+  type ToolNameMap,
+} from './tool-names.js';
+
+export {
+  normalizeToolSchema,
+  schemaFamilyFor,
+  MAX_SCHEMA_CHARS,
+  type SchemaFamily,
+} from './tool-schema.js';
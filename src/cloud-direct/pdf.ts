@@ -0,0 +1,861 @@
+/**
+ * Minimal PDF reader: page text and embedded page images.
+ *
+ * GetChatMessage has no document type, so a PDF attachment has to become
+ * prompt text (and, for scans, images) before it can reach the model. This
+ * is deliberately not a renderer — no layout, fonts or vector graphics —
+ * just enough of the format to recover the text a PDF viewer would let you
+ * copy:
+ *
+ *   - objects are found by scanning for `N G obj`, plus those packed into
+ *     object streams (`/Type /ObjStm`), so a broken xref table doesn't
+ *     matter; later definitions win, as with incremental updates;
+ *   - FlateDecode (incl. PNG predictors), ASCIIHexDecode and ASCII85Decode
+ *     stream filters;
+ *   - pages in page-tree order; text from Tj / TJ / ' / " inside BT…ET,
+ *     Form XObjects included, decoded through the font's ToUnicode CMap,
+ *     else its simple encoding (WinAnsi / Differences);
+ *   - image XObjects drawn on each page, returned as JPEG (DCTDecode, as
+ *     stored) or PNG (8-bit Flate RGB/gray, re-encoded) — scanned PDFs are
+ *     one such image per page and no text at all.
+ *
+ * Encrypted PDFs are detected and reported rather than mis-decoded.
+ * Composite (Type0) fonts without a ToUnicode map can't be mapped back to
+ * characters and contribute no text.
+ */
+
+import * as zlib from 'zlib';
+import { encodePng } from './image-preprocess.js';
+
+export class PdfParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfParseError';
+  }
+}
+
+export interface PdfPageImage {
+  mimeType: 'image/jpeg' | 'image/png';
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  text: string;
+  /** Images drawn on the page; only filled in when requested. */
+  images: PdfPageImage[];
+}
+
+export interface PdfDocument {
+  pages: PdfPage[];
+  /** True when the file is encrypted — `pages` is then empty. */
+  encrypted: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Object model + lexer
+// ---------------------------------------------------------------------------
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+/** Content-stream operator (or any bare keyword). */
+class PdfOp {
+  constructor(readonly op: string) {}
+}
+
+class PdfStream {
+  constructor(readonly dict: PdfDict, readonly raw: Buffer) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+/** Strings are raw bytes (Buffer); their encoding depends on the font. */
+type PdfValue = null | boolean | number | Buffer | PdfName | PdfRef | PdfOp | PdfDict | PdfStream | PdfValue[];
+
+/** Upper bound for any one decoded stream. */
+const MAX_STREAM_BYTES = 64 * 1024 * 1024;
+/** Pages read per document; the rest are reported as skipped. */
+export const MAX_PDF_PAGES = 500;
+/** Form XObjects nested deeper than this are ignored (and cycles with them). */
+const MAX_FORM_DEPTH = 4;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+class Lexer {
+  pos: number;
+
+  constructor(readonly buf: Buffer, pos = 0) {
+    this.pos = pos;
+  }
+
+  skipWs(): void {
+    const { buf } = this;
+    while (this.pos < buf.length) {
+      const c = buf[this.pos]!;
+      if (WHITESPACE.has(c)) {
+        this.pos++;
+      } else if (c === 0x25) {
+        // % comment to end of line
+        while (this.pos < buf.length && buf[this.pos] !== 0x0a && buf[this.pos] !== 0x0d) this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private regular(): string {
+    const start = this.pos;
+    while (this.pos < this.buf.length && !WHITESPACE.has(this.buf[this.pos]!) && !DELIMITERS.has(this.buf[this.pos]!)) this.pos++;
+    return this.buf.toString('latin1', start, this.pos);
+  }
+
+  /** Next value, or undefined at end of input. `]` and `>>` come back as PdfOp. */
+  next(): PdfValue | undefined {
+    this.skipWs();
+    const { buf } = this;
+    if (this.pos >= buf.length) return undefined;
+    const c = buf[this.pos]!;
+
+    if (c === 0x2f) { // /Name
+      this.pos++;
+      return new PdfName(this.regular().replace(/#([0-9a-fA-F]{2})/g, (_, h: string) => String.fromCharCode(parseInt(h, 16))));
+    }
+    if (c === 0x28) return this.literalString();
+    if (c === 0x3c) {
+      if (buf[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return this.dict();
+      }
+      return this.hexString();
+    }
+    if (c === 0x3e && buf[this.pos + 1] === 0x3e) {
+      this.pos += 2;
+      return new PdfOp('>>');
+    }
+    if (c === 0x5b) {
+      this.pos++;
+      const arr: PdfValue[] = [];
+      for (;;) {
+        const v = this.next();
+        if (v === undefined || (v instanceof PdfOp && v.op === ']')) return arr;
+        arr.push(v);
+      }
+    }
+    if (c === 0x5d) {
+      this.pos++;
+      return new PdfOp(']');
+    }
+    if (DELIMITERS.has(c)) {
+      // Stray `)`, `>`, `{`, `}` — skip it.
+      this.pos++;
+      return new PdfOp(String.fromCharCode(c));
+    }
+
+    const word = this.regular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const n = Number(word);
+      // `N G R` indirect reference?
+      if (/^\d+$/.test(word)) {
+        const save = this.pos;
+        this.skipWs();
+        const gen = this.regular();
+        if (/^\d+$/.test(gen)) {
+          this.skipWs();
+          if (buf[this.pos] === 0x52 && (this.pos + 1 >= buf.length || WHITESPACE.has(buf[this.pos + 1]!) || DELIMITERS.has(buf[this.pos + 1]!))) {
+            this.pos++;
+            return new PdfRef(n);
+          }
+        }
+        this.pos = save;
+      }
+      return n;
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    if (word === '') {
+      this.pos++;
+      return new PdfOp('');
+    }
+    return new PdfOp(word);
+  }
+
+  private dict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      const key = this.next();
+      if (key === undefined || (key instanceof PdfOp && key.op === '>>')) return dict;
+      if (!(key instanceof PdfName)) continue;
+      const value = this.next();
+      if (value === undefined) return dict;
+      if (value instanceof PdfOp && value.op === '>>') return dict;
+      dict.set(key.name, value);
+    }
+  }
+
+  private literalString(): Buffer {
+    const { buf } = this;
+    this.pos++; // (
+    const out: number[] = [];
+    let depth = 1;
+    while (this.pos < buf.length) {
+      const c = buf[this.pos++]!;
+      if (c === 0x5c) { // backslash
+        const e = buf[this.pos++];
+        if (e === undefined) break;
+        switch (e) {
+          case 0x6e: out.push(0x0a); break; // n
+          case 0x72: out.push(0x0d); break; // r
+          case 0x74: out.push(0x09); break; // t
+          case 0x62: out.push(0x08); break; // b
+          case 0x66: out.push(0x0c); break; // f
+          case 0x0d: if (buf[this.pos] === 0x0a) this.pos++; break; // line continuation
+          case 0x0a: break;
+          default:
+            if (e >= 0x30 && e <= 0x37) {
+              let v = e - 0x30;
+              for (let i = 0; i < 2 && buf[this.pos]! >= 0x30 && buf[this.pos]! <= 0x37; i++) v = v * 8 + buf[this.pos++]! - 0x30;
+              out.push(v & 0xff);
+            } else {
+              out.push(e);
+            }
+        }
+      } else if (c === 0x28) {
+        depth++;
+        out.push(c);
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+        out.push(c);
+      } else {
+        out.push(c);
+      }
+    }
+    return Buffer.from(out);
+  }
+
+  private hexString(): Buffer {
+    const end = this.buf.indexOf(0x3e, this.pos);
+    const stop = end === -1 ? this.buf.length : end;
+    let hex = this.buf.toString('latin1', this.pos + 1, stop).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = stop + 1;
+    if (hex.length % 2) hex += '0';
+    return Buffer.from(hex, 'hex');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stream filters
+// ---------------------------------------------------------------------------
+
+function asArray(v: PdfValue | undefined): PdfValue[] {
+  return v === undefined || v === null ? [] : Array.isArray(v) ? v : [v];
+}
+
+function undoPngPredictor(data: Buffer, parms: PdfDict | undefined): Buffer {
+  const predictor = typeof parms?.get('Predictor') === 'number' ? parms.get('Predictor') as number : 1;
+  if (predictor < 10) return data;
+  const colors = typeof parms?.get('Colors') === 'number' ? parms.get('Colors') as number : 1;
+  const bpc = typeof parms?.get('BitsPerComponent') === 'number' ? parms.get('BitsPerComponent') as number : 8;
+  const columns = typeof parms?.get('Columns') === 'number' ? parms.get('Columns') as number : 1;
+  const bpp = Math.max(1, (colors * bpc) >> 3);
+  const rowBytes = Math.ceil((colors * bpc * columns) / 8);
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const out = Buffer.alloc(rows * rowBytes);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[y * (rowBytes + 1)]!;
+    const src = y * (rowBytes + 1) + 1;
+    const dst = y * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const a = i >= bpp ? out[dst + i - bpp]! : 0;
+      const b = y > 0 ? out[dst - rowBytes + i]! : 0;
+      const c = i >= bpp && y > 0 ? out[dst - rowBytes + i - bpp]! : 0;
+      let pred = 0;
+      if (filter === 1) pred = a;
+      else if (filter === 2) pred = b;
+      else if (filter === 3) pred = (a + b) >> 1;
+      else if (filter === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+        pred = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      out[dst + i] = (data[src + i]! + pred) & 0xff;
+    }
+  }
+  return out;
+}
+
+function ascii85(data: Buffer): Buffer {
+  const text = data.toString('latin1').replace(/\s+/g, '');
+  const end = text.indexOf('~>');
+  const body = (end === -1 ? text : text.slice(0, end)).replace(/^<~/, '');
+  const out: number[] = [];
+  let group: number[] = [];
+  for (const ch of body) {
+    if (ch === 'z' && group.length === 0) { out.push(0, 0, 0, 0); continue; }
+    const v = ch.charCodeAt(0) - 33;
+    if (v < 0 || v > 84) continue;
+    group.push(v);
+    if (group.length === 5) {
+      const n = group.reduce((acc, d) => acc * 85 + d, 0);
+      out.push((n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    const pad = 5 - group.length;
+    const n = [...group, ...Array<number>(pad).fill(84)].reduce((acc, d) => acc * 85 + d, 0);
+    const bytes = [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+    out.push(...bytes.slice(0, 4 - pad));
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * Apply a stream's filters. Stops before an image codec (DCTDecode etc.)
+ * and reports it, so images can be passed on in their stored format.
+ */
+function decodeStream(stream: PdfStream): { data: Buffer; imageCodec?: string } {
+  const filters = asArray(stream.dict.get('Filter'));
+  const parms = asArray(stream.dict.get('DecodeParms'));
+  let data = stream.raw;
+  for (let i = 0; i < filters.length; i++) {
+    const f = filters[i];
+    const name = f instanceof PdfName ? f.name : '';
+    const parm = parms[i] instanceof Map ? parms[i] as PdfDict : undefined;
+    switch (name) {
+      case 'FlateDecode':
+      case 'Fl':
+        try {
+          data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: MAX_STREAM_BYTES });
+        } catch (err) {
+          throw new PdfParseError(`FlateDecode failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        data = undoPngPredictor(data, parm);
+        break;
+      case 'ASCIIHexDecode':
+      case 'AHx':
+        data = Buffer.from(data.toString('latin1').replace(/>.*$/s, '').replace(/[^0-9a-fA-F]/g, '').replace(/^(.(..)*)$/, '$10'), 'hex');
+        break;
+      case 'ASCII85Decode':
+      case 'A85':
+        data = ascii85(data);
+        break;
+      case 'DCTDecode':
+      case 'DCT':
+      case 'JPXDecode':
+      case 'JBIG2Decode':
+      case 'CCITTFaxDecode':
+      case 'CCF':
+        return { data, imageCodec: name };
+      default:
+        throw new PdfParseError(`unsupported stream filter ${name || '(none)'}`);
+    }
+  }
+  return { data };
+}
+
+// ---------------------------------------------------------------------------
+// Object table
+// ---------------------------------------------------------------------------
+
+class PdfFile {
+  readonly objects = new Map<number, PdfValue>();
+
+  constructor(readonly buf: Buffer) {
+    const text = buf.toString('latin1');
+    const re = /(\d+)\s+(\d+)\s+obj\b/g;
+    const objStreams: PdfStream[] = [];
+    for (let m = re.exec(text); m; m = re.exec(text)) {
+      const lexer = new Lexer(buf, m.index + m[0].length);
+      let value = lexer.next();
+      if (value === undefined) break;
+      if (value instanceof Map) {
+        lexer.skipWs();
+        if (text.startsWith('stream', lexer.pos)) {
+          const stream = this.readStream(text, value, lexer.pos + 6);
+          value = stream.value;
+          lexer.pos = stream.end;
+          const type = value.dict.get('Type');
+          if (type instanceof PdfName && type.name === 'ObjStm') objStreams.push(value);
+        }
+      }
+      this.objects.set(Number(m[1]), value);
+      // Don't look for `obj` inside what we just consumed (stream bytes).
+      re.lastIndex = Math.max(re.lastIndex, lexer.pos);
+    }
+    for (const s of objStreams) this.unpackObjectStream(s);
+  }
+
+  private readStream(text: string, dict: PdfDict, afterKeyword: number): { value: PdfStream; end: number } {
+    let start = afterKeyword;
+    if (text[start] === '\r') start++;
+    if (text[start] === '\n') start++;
+    const declared = dict.get('Length');
+    if (typeof declared === 'number' && start + declared <= this.buf.length && /^\s*endstream/.test(text.slice(start + declared, start + declared + 20))) {
+      return { value: new PdfStream(dict, this.buf.subarray(start, start + declared)), end: start + declared };
+    }
+    // Indirect or wrong /Length: fall back to the `endstream` keyword.
+    const stop = text.indexOf('endstream', start);
+    let end = stop === -1 ? this.buf.length : stop;
+    if (text[end - 1] === '\n') end--;
+    if (text[end - 1] === '\r') end--;
+    return { value: new PdfStream(dict, this.buf.subarray(start, end)), end: stop === -1 ? this.buf.length : stop + 9 };
+  }
+
+  private unpackObjectStream(stream: PdfStream): void {
+    let data: Buffer;
+    try {
+      data = decodeStream(stream).data;
+    } catch {
+      return;
+    }
+    const n = stream.dict.get('N');
+    const first = stream.dict.get('First');
+    if (typeof n !== 'number' || typeof first !== 'number') return;
+    const header = new Lexer(data);
+    for (let i = 0; i < n; i++) {
+      const num = header.next();
+      const offset = header.next();
+      if (typeof num !== 'number' || typeof offset !== 'number') return;
+      if (this.objects.has(num)) continue;
+      const value = new Lexer(data, first + offset).next();
+      if (value !== undefined) this.objects.set(num, value);
+    }
+  }
+
+  resolve(v: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (v instanceof PdfRef) {
+      return depth > 16 ? undefined : this.resolve(this.objects.get(v.num), depth + 1);
+    }
+    return v;
+  }
+
+  dict(v: PdfValue | undefined): PdfDict | undefined {
+    const r = this.resolve(v);
+    if (r instanceof Map) return r;
+    if (r instanceof PdfStream) return r.dict;
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+/** Adobe glyph names for ASCII 32–126, in order. */
+const ASCII_GLYPHS = (
+  'space exclam quotedbl numbersign dollar percent ampersand quotesingle parenleft parenright asterisk plus comma hyphen period slash ' +
+  'zero one two three four five six seven eight nine colon semicolon less equal greater question at ' +
+  'A B C D E F G H I J K L M N O P Q R S T U V W X Y Z bracketleft backslash bracketright asciicircum underscore grave ' +
+  'a b c d e f g h i j k l m n o p q r s t u v w x y z braceleft bar braceright asciitilde'
+).split(' ');
+
+const GLYPH_NAMES: ReadonlyMap<string, string> = new Map<string, string>([
+  ...ASCII_GLYPHS.map((g, i): [string, string] => [g, String.fromCharCode(32 + i)]),
+  ['quoteright', '’'], ['quoteleft', '‘'], ['quotedblleft', '“'], ['quotedblright', '”'],
+  ['endash', '–'], ['emdash', '—'], ['bullet', '•'], ['ellipsis', '…'],
+  ['fi', 'fi'], ['fl', 'fl'], ['ff', 'ff'], ['ffi', 'ffi'], ['ffl', 'ffl'],
+  ['minus', '−'], ['degree', '°'], ['copyright', '©'], ['registered', '®'],
+  ['trademark', '™'], ['section', '§'], ['paragraph', '¶'], ['nbspace', ' '],
+]);
+
+function glyphToUnicode(name: string): string | undefined {
+  const known = GLYPH_NAMES.get(name);
+  if (known !== undefined) return known;
+  const uni = /^uni([0-9A-Fa-f]{4})$/.exec(name) ?? /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (uni) return String.fromCodePoint(parseInt(uni[1]!, 16));
+  return undefined;
+}
+
+const WIN_ANSI = new TextDecoder('windows-1252');
+
+interface FontDecoder {
+  decode(bytes: Buffer): string;
+}
+
+/** Parse a ToUnicode CMap: code (as hex) → text, plus the code lengths in use. */
+function parseToUnicode(data: Buffer): { map: Map<string, string>; codeBytes: number } {
+  const map = new Map<string, string>();
+  const lengths = new Set<number>();
+  const lexer = new Lexer(data);
+  const operands: PdfValue[] = [];
+  const utf16 = (b: Buffer) => {
+    const even = b.length % 2 ? Buffer.concat([Buffer.alloc(1), b]) : b;
+    return Buffer.from(even).swap16().toString('utf16le');
+  };
+  let mode = '';
+  for (let v = lexer.next(); v !== undefined; v = lexer.next()) {
+    if (!(v instanceof PdfOp)) {
+      operands.push(v);
+      continue;
+    }
+    const op = v.op;
+    if (op === 'begincodespacerange' || op === 'beginbfchar' || op === 'beginbfrange') {
+      mode = op;
+      operands.length = 0;
+    } else if (op === 'endcodespacerange') {
+      for (const o of operands) if (Buffer.isBuffer(o)) lengths.add(o.length);
+      operands.length = 0;
+    } else if (op === 'endbfchar' && mode === 'beginbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const src = operands[i];
+        const dst = operands[i + 1];
+        if (Buffer.isBuffer(src)) {
+          lengths.add(src.length);
+          if (Buffer.isBuffer(dst)) map.set(src.toString('hex'), utf16(dst));
+          else if (dst instanceof PdfName) map.set(src.toString('hex'), glyphToUnicode(dst.name) ?? '');
+        }
+      }
+      operands.length = 0;
+    } else if (op === 'endbfrange' && mode === 'beginbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const lo = operands[i];
+        const hi = operands[i + 1];
+        const dst = operands[i + 2];
+        if (!Buffer.isBuffer(lo) || !Buffer.isBuffer(hi)) continue;
+        lengths.add(lo.length);
+        const from = parseInt(lo.toString('hex') || '0', 16);
+        const to = parseInt(hi.toString('hex') || '0', 16);
+        if (to < from || to - from > 0xffff) continue;
+        for (let code = from; code <= to; code++) {
+          const key = code.toString(16).padStart(lo.length * 2, '0');
+          if (Array.isArray(dst)) {
+            const d = dst[code - from];
+            if (Buffer.isBuffer(d)) map.set(key, utf16(d));
+          } else if (Buffer.isBuffer(dst) && dst.length >= 2) {
+            const base = Buffer.from(dst);
+            base.writeUInt16BE((base.readUInt16BE(base.length - 2) + code - from) & 0xffff, base.length - 2);
+            map.set(key, utf16(base));
+          }
+        }
+      }
+      operands.length = 0;
+    } else {
+      operands.length = 0;
+    }
+  }
+  const codeBytes = lengths.size === 1 ? [...lengths][0]! : lengths.has(1) ? 1 : 2;
+  return { map, codeBytes };
+}
+
+function buildFontDecoder(pdf: PdfFile, font: PdfDict): FontDecoder {
+  const subtype = font.get('Subtype');
+  const composite = subtype instanceof PdfName && subtype.name === 'Type0';
+
+  let cmap: { map: Map<string, string>; codeBytes: number } | undefined;
+  const toUnicode = pdf.resolve(font.get('ToUnicode'));
+  if (toUnicode instanceof PdfStream) {
+    try {
+      cmap = parseToUnicode(decodeStream(toUnicode).data);
+    } catch {
+      cmap = undefined;
+    }
+  }
+
+  // Simple-font encoding: base table + /Differences overrides.
+  const differences = new Map<number, string>();
+  const encoding = pdf.resolve(font.get('Encoding'));
+  const encDict = encoding instanceof Map ? encoding : undefined;
+  const diffs = encDict ? pdf.resolve(encDict.get('Differences')) : undefined;
+  if (Array.isArray(diffs)) {
+    let code = 0;
+    for (const d of diffs) {
+      if (typeof d === 'number') code = d;
+      else if (d instanceof PdfName) {
+        const ch = glyphToUnicode(d.name);
+        if (ch !== undefined) differences.set(code, ch);
+        code++;
+      }
+    }
+  }
+
+  const codeBytes = cmap ? cmap.codeBytes : composite ? 2 : 1;
+  return {
+    decode(bytes: Buffer): string {
+      let out = '';
+      for (let i = 0; i + codeBytes <= bytes.length; i += codeBytes) {
+        const code = bytes.subarray(i, i + codeBytes);
+        const mapped = cmap?.map.get(code.toString('hex'));
+        if (mapped !== undefined) {
+          out += mapped;
+        } else if (codeBytes === 1) {
+          out += differences.get(code[0]!) ?? WIN_ANSI.decode(code);
+        }
+        // Unmapped composite-font code: a glyph ID with no known character.
+      }
+      return out;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Content streams
+// ---------------------------------------------------------------------------
+
+interface PageContext {
+  pdf: PdfFile;
+  fonts: Map<PdfDict, FontDecoder>;
+  text: string[];
+  /** Image XObjects drawn, in order, deduplicated. */
+  images: PdfStream[];
+  depth: number;
+}
+
+function contentData(pdf: PdfFile, contents: PdfValue | undefined): Buffer {
+  const parts: Buffer[] = [];
+  for (const ref of asArray(pdf.resolve(contents))) {
+    const s = pdf.resolve(ref);
+    if (!(s instanceof PdfStream)) continue;
+    try {
+      parts.push(decodeStream(s).data);
+    } catch {
+      // A bad content stream loses that stream's text, not the page's.
+    }
+    parts.push(Buffer.from('\n'));
+  }
+  return Buffer.concat(parts);
+}
+
+function runContent(ctx: PageContext, data: Buffer, resources: PdfDict | undefined): void {
+  const { pdf } = ctx;
+  const fontDict = pdf.dict(resources?.get('Font'));
+  const xobjects = pdf.dict(resources?.get('XObject'));
+  let font: FontDecoder | undefined;
+  let lastY: number | undefined;
+  const operands: PdfValue[] = [];
+  const lexer = new Lexer(data);
+
+  const emit = (s: string) => { if (s) ctx.text.push(s); };
+  const newline = () => {
+    const last = ctx.text[ctx.text.length - 1];
+    if (last !== undefined && !last.endsWith('\n')) ctx.text.push('\n');
+  };
+  const space = () => {
+    const last = ctx.text[ctx.text.length - 1];
+    if (last !== undefined && !/\s$/.test(last)) ctx.text.push(' ');
+  };
+  const show = (s: PdfValue | undefined) => {
+    if (Buffer.isBuffer(s) && font) emit(font.decode(s));
+  };
+
+  for (let v = lexer.next(); v !== undefined; v = lexer.next()) {
+    if (!(v instanceof PdfOp)) {
+      operands.push(v);
+      continue;
+    }
+    switch (v.op) {
+      case 'BT':
+        lastY = undefined;
+        break;
+      case 'ET':
+        newline();
+        break;
+      case 'Tf': {
+        const name = operands[0];
+        const dict = name instanceof PdfName ? pdf.dict(fontDict?.get(name.name)) : undefined;
+        if (dict) {
+          let decoder = ctx.fonts.get(dict);
+          if (!decoder) {
+            decoder = buildFontDecoder(pdf, dict);
+            ctx.fonts.set(dict, decoder);
+          }
+          font = decoder;
+        } else {
+          font = undefined;
+        }
+        break;
+      }
+      case 'Tj':
+        show(operands[0]);
+        break;
+      case "'":
+        newline();
+        show(operands[0]);
+        break;
+      case '"':
+        newline();
+        show(operands[2]);
+        break;
+      case 'TJ':
+        for (const item of asArray(operands[0])) {
+          if (typeof item === 'number') {
+            // Large negative kerning is a word gap.
+            if (item < -180) space();
+          } else {
+            show(item);
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD':
+        if (typeof operands[1] === 'number' && operands[1] !== 0) newline();
+        else space();
+        break;
+      case 'T*':
+        newline();
+        break;
+      case 'Tm': {
+        const y = operands[5];
+        if (typeof y === 'number') {
+          if (lastY !== undefined && Math.abs(y - lastY) > 0.5) newline();
+          else space();
+          lastY = y;
+        }
+        break;
+      }
+      case 'Do': {
+        const name = operands[0];
+        const xobj = name instanceof PdfName ? pdf.resolve(xobjects?.get(name.name)) : undefined;
+        if (!(xobj instanceof PdfStream)) break;
+        const sub = xobj.dict.get('Subtype');
+        if (sub instanceof PdfName && sub.name === 'Image') {
+          if (!ctx.images.includes(xobj)) ctx.images.push(xobj);
+        } else if (sub instanceof PdfName && sub.name === 'Form' && ctx.depth < MAX_FORM_DEPTH) {
+          ctx.depth++;
+          try {
+            runContent(ctx, decodeStream(xobj).data, pdf.dict(xobj.dict.get('Resources')) ?? resources);
+          } catch {
+            // Unreadable form: skip it.
+          } finally {
+            ctx.depth--;
+          }
+        }
+        break;
+      }
+      case 'BI': {
+        // Inline image: binary data between `ID` and `EI` would derail the lexer.
+        const id = data.indexOf('ID', lexer.pos, 'latin1');
+        const ei = id === -1 ? -1 : data.toString('latin1', id + 2).search(/\sEI(\s|$)/);
+        lexer.pos = ei === -1 ? data.length : id + 2 + ei + 3;
+        break;
+      }
+      default:
+        break;
+    }
+    operands.length = 0;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+function pageImage(pdf: PdfFile, img: PdfStream): PdfPageImage | undefined {
+  const width = img.dict.get('Width');
+  const height = img.dict.get('Height');
+  if (typeof width !== 'number' || typeof height !== 'number' || width <= 0 || height <= 0) return undefined;
+  let decoded: ReturnType<typeof decodeStream>;
+  try {
+    decoded = decodeStream(img);
+  } catch {
+    return undefined;
+  }
+  if (decoded.imageCodec === 'DCTDecode' || decoded.imageCodec === 'DCT') {
+    return { mimeType: 'image/jpeg', data: decoded.data, width, height };
+  }
+  if (decoded.imageCodec) return undefined;
+
+  // Raw samples: only 8-bit gray/RGB are worth converting.
+  if (img.dict.get('BitsPerComponent') !== 8) return undefined;
+  let cs = pdf.resolve(img.dict.get('ColorSpace'));
+  let channels = 0;
+  if (Array.isArray(cs) && cs[0] instanceof PdfName && cs[0].name === 'ICCBased') {
+    const profile = pdf.resolve(cs[1]);
+    const n = profile instanceof PdfStream ? profile.dict.get('N') : undefined;
+    channels = n === 1 || n === 3 ? n : 0;
+    cs = undefined;
+  }
+  if (cs instanceof PdfName) channels = cs.name === 'DeviceRGB' ? 3 : cs.name === 'DeviceGray' ? 1 : 0;
+  if (!channels || decoded.data.length < width * height * channels) return undefined;
+
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const s = i * channels;
+    rgba[i * 4] = decoded.data[s]!;
+    rgba[i * 4 + 1] = decoded.data[channels === 3 ? s + 1 : s]!;
+    rgba[i * 4 + 2] = decoded.data[channels === 3 ? s + 2 : s]!;
+    rgba[i * 4 + 3] = 255;
+  }
+  return { mimeType: 'image/png', data: encodePng({ width, height, data: rgba }), width, height };
+}
+
+// ---------------------------------------------------------------------------
+// Pages
+// ---------------------------------------------------------------------------
+
+function collectPages(pdf: PdfFile): Array<{ dict: PdfDict; resources?: PdfDict }> {
+  const pages: Array<{ dict: PdfDict; resources?: PdfDict }> = [];
+  const visited = new Set<PdfDict>();
+  const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined, depth: number) => {
+    if (!node || visited.has(node) || depth > 64 || pages.length >= MAX_PDF_PAGES) return;
+    visited.add(node);
+    const resources = pdf.dict(node.get('Resources')) ?? inherited;
+    const kids = pdf.resolve(node.get('Kids'));
+    if (Array.isArray(kids)) {
+      for (const kid of kids) walk(pdf.dict(kid), resources, depth + 1);
+    } else {
+      pages.push({ dict: node, resources });
+    }
+  };
+
+  let catalog: PdfDict | undefined;
+  for (const v of pdf.objects.values()) {
+    const d = v instanceof Map ? v : undefined;
+    const type = d?.get('Type');
+    if (type instanceof PdfName && type.name === 'Catalog') catalog = d;
+  }
+  walk(pdf.dict(catalog?.get('Pages')), undefined, 0);
+  if (pages.length > 0) return pages;
+
+  // No usable page tree: every /Type /Page in object-number order.
+  const nums = [...pdf.objects.keys()].sort((a, b) => a - b);
+  for (const n of nums) {
+    const d = pdf.objects.get(n);
+    const type = d instanceof Map ? d.get('Type') : undefined;
+    if (d instanceof Map && type instanceof PdfName && type.name === 'Page') {
+      pages.push({ dict: d, resources: pdf.dict(d.get('Resources')) });
+      if (pages.length >= MAX_PDF_PAGES) break;
+    }
+  }
+  return pages;
+}
+
+/** Whether `buf` starts like a PDF file. */
+export function isPdf(buf: Buffer): boolean {
+  return buf.subarray(0, 1024).includes('%PDF-');
+}
+
+/**
+ * Extract per-page text from a PDF. With `imagesForPages`, images drawn on
+ * the pages it selects (called with the page's extracted text) are
+ * returned too — used for scanned pages that have no text.
+ */
+export function extractPdf(
+  buf: Buffer,
+  imagesForPages: (text: string) => boolean = () => false,
+): PdfDocument {
+  if (!isPdf(buf)) throw new PdfParseError('not a PDF file');
+  const pdf = new PdfFile(buf);
+  const encrypted = [...pdf.objects.values()].some((v) => v instanceof Map && v.has('Encrypt'))
+    || /\/Encrypt\s+\d+\s+\d+\s+R/.test(buf.toString('latin1', Math.max(0, buf.length - 4096)));
+  if (encrypted) return { pages: [], encrypted: true };
+
+  const fonts = new Map<PdfDict, FontDecoder>();
+  const pages = collectPages(pdf).map(({ dict, resources }): PdfPage => {
+    const ctx: PageContext = { pdf, fonts, text: [], images: [], depth: 0 };
+    runContent(ctx, contentData(pdf, dict.get('Contents')), resources);
+    const text = ctx.text.join('').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    const images = imagesForPages(text)
+      ? ctx.images.map((img) => pageImage(pdf, img)).filter((i): i is PdfPageImage => i !== undefined)
+      : [];
+    return { text, images };
+  });
+  return { pages, encrypted: false };
+}
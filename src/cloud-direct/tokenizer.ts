@@ -0,0 +1,131 @@
+/**
+ * Token estimates for prompt budgeting and ChatMessagePrompt `num_tokens`.
+ *
+ * `num_tokens` used to be `length / 4`, which is far off for code, CJK and
+ * whitespace-heavy text, and nothing added up the whole prompt — so an
+ * oversized history went out and came back as an opaque cloud error (or
+ * was silently truncated). Shipping real vocabularies (several MB per
+ * family, some not public) isn't an option for a plugin, so the default
+ * tokenizers here approximate BPE instead:
+ *
+ *   1. split text with the cl100k/o200k pre-tokenizer pattern (contractions,
+ *      letter runs with their leading space, ≤3-digit groups, punctuation
+ *      runs, whitespace) — BPE never merges across these boundaries;
+ *   2. cost each piece from a per-family {@link TokenizerProfile}: short
+ *      ASCII words are one token, longer ones split every few characters,
+ *      CJK is roughly a token per character, indentation runs collapse.
+ *
+ * It's an estimate, not a count — good for "will this fit" and for
+ * `num_tokens`, not for billing. Exact tokenizers can be plugged in with
+ * {@link registerTokenizer}; registrations win over the built-in families.
+ */
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/** Per-family constants for the BPE approximation. */
+export interface TokenizerProfile {
+  /** ASCII words up to this length (leading space included) are one token. */
+  wholeWordChars: number;
+  /** Characters per extra token for longer ASCII words. */
+  charsPerSubword: number;
+  /** Tokens per CJK / kana / hangul character. */
+  tokensPerCjk: number;
+  /** Characters per token for other non-ASCII letters (accented, Cyrillic, …). */
+  charsPerNonAscii: number;
+  /** Characters per token in whitespace runs (indentation). */
+  charsPerWhitespace: number;
+  /** Characters per token in punctuation/symbol runs. */
+  charsPerPunct: number;
+}
+
+const PROFILES: Record<string, TokenizerProfile> = {
+  o200k: { wholeWordChars: 8, charsPerSubword: 4, tokensPerCjk: 0.8, charsPerNonAscii: 3, charsPerWhitespace: 16, charsPerPunct: 2.5 },
+  cl100k: { wholeWordChars: 7, charsPerSubword: 3.5, tokensPerCjk: 1.2, charsPerNonAscii: 2, charsPerWhitespace: 8, charsPerPunct: 2 },
+  claude: { wholeWordChars: 7, charsPerSubword: 3.2, tokensPerCjk: 1.3, charsPerNonAscii: 2, charsPerWhitespace: 4, charsPerPunct: 1.5 },
+  gemini: { wholeWordChars: 8, charsPerSubword: 4, tokensPerCjk: 0.9, charsPerNonAscii: 3, charsPerWhitespace: 8, charsPerPunct: 2.5 },
+  generic: { wholeWordChars: 7, charsPerSubword: 3.5, tokensPerCjk: 1, charsPerNonAscii: 2.5, charsPerWhitespace: 8, charsPerPunct: 2 },
+};
+
+/** Built-in family per model UID. First match wins; `generic` otherwise. */
+const FAMILY_RULES: ReadonlyArray<{ pattern: RegExp; profile: keyof typeof PROFILES }> = [
+  { pattern: /gpt-4o|gpt-4\.1|gpt-4-1|gpt-5|gpt-oss|(^|[^a-z])o[134]([^a-z0-9]|$)/i, profile: 'o200k' },
+  { pattern: /gpt-4|gpt-3/i, profile: 'cl100k' },
+  { pattern: /claude/i, profile: 'claude' },
+  { pattern: /gemini/i, profile: 'gemini' },
+];
+
+/** Pre-tokenizer: the cl100k split pattern. */
+const PIECE_RE = /'(?:[sdmtSDMT]|ll|ve|re|LL|VE|RE)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+const CJK_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const ASCII_RE = /^[\x00-\x7f]*$/;
+
+function pieceTokens(piece: string, p: TokenizerProfile): number {
+  const c = piece.charCodeAt(piece.length - 1);
+  // Letter run (possibly with one leading space/symbol).
+  if (/\p{L}$/u.test(piece)) {
+    if (ASCII_RE.test(piece)) {
+      return piece.length <= p.wholeWordChars ? 1 : 1 + Math.ceil((piece.length - p.wholeWordChars) / p.charsPerSubword);
+    }
+    const cjk = piece.match(CJK_RE)?.length ?? 0;
+    const other = piece.length - cjk;
+    return Math.max(1, Math.ceil(cjk * p.tokensPerCjk + other / p.charsPerNonAscii));
+  }
+  if (c >= 0x30 && c <= 0x39) return 1;
+  if (/^\s+$/.test(piece)) {
+    const newlines = piece.match(/\n/g)?.length ?? 0;
+    return Math.max(1, Math.ceil(newlines / 2) + Math.ceil((piece.length - newlines) / p.charsPerWhitespace));
+  }
+  return Math.max(1, Math.ceil(piece.trim().length / p.charsPerPunct));
+}
+
+/** The BPE approximation for one profile. */
+export function approximateBpeTokenizer(name: string, profile: TokenizerProfile): Tokenizer {
+  return {
+    name,
+    count(text: string): number {
+      let n = 0;
+      for (const m of text.matchAll(PIECE_RE)) n += pieceTokens(m[0], profile);
+      return n;
+    },
+  };
+}
+
+const builtins = new Map(Object.entries(PROFILES).map(([name, profile]) => [name, approximateBpeTokenizer(`approx-${name}`, profile)]));
+const registered: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [];
+
+/**
+ * Use `tokenizer` for model UIDs matching `pattern` (e.g. a real tiktoken
+ * encoder). Later registrations take precedence.
+ */
+export function registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+  registered.unshift({ pattern, tokenizer });
+}
+
+export function tokenizerFor(modelUid: string): Tokenizer {
+  const custom = registered.find((r) => r.pattern.test(modelUid));
+  if (custom) return custom.tokenizer;
+  const family = FAMILY_RULES.find((r) => r.pattern.test(modelUid))?.profile ?? 'generic';
+  return builtins.get(family)!;
+}
+
+/** Framing tokens per chat message (role markers, separators). */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Framing tokens per tool definition, on top of its text. */
+export const TOOL_OVERHEAD_TOKENS = 8;
+/** Image cost when its size can't be read (e.g. a remote URL not yet fetched). */
+export const UNKNOWN_IMAGE_TOKENS = 1000;
+/** Upper bound per image; vision encoders downsample larger inputs. */
+const MAX_IMAGE_TOKENS = 1600;
+
+/**
+ * Tokens for an image of `width`×`height`: ~750 pixels per token, capped —
+ * the published Claude formula, close enough for the other families'
+ * tile-based counts at the sizes image-preprocess.ts sends.
+ */
+export function imageTokens(width: number | undefined, height: number | undefined): number {
+  if (!width || !height) return UNKNOWN_IMAGE_TOKENS;
+  return Math.min(MAX_IMAGE_TOKENS, Math.max(1, Math.ceil((width * height) / 750)));
+}
@@ -0,0 +1,157 @@
+/**
+ * Fit overlong tool descriptions under the cloud's per-description limit
+ * without losing their content.
+ *
+ * The cloud's tool validator rejects any description of
+ * {@link MAX_TOOL_DESC_LEN}+1 characters or more (see below), and opencode's
+ * `bash` tool alone ships ~9.6 KB of rules and examples. Slicing at the
+ * limit used to cut that guidance off mid-sentence. {@link fitToolDescriptions}
+ * instead tries, per tool, the cheapest change that fits:
+ *
+ *   1. collapsed          trailing spaces, runs of spaces and blank lines
+ *                         squeezed out — nothing is lost;
+ *   2. examples-moved     fenced code blocks and `<example>` sections
+ *                         replaced by a pointer and moved to the tool manual;
+ *   3. split              a short description (the leading ~2K chars) plus a
+ *                         pointer; the full text goes to the tool manual.
+ *
+ * The tool manual is one extra system message, placed after the caller's
+ * own system messages, with a `<tool_manual name="…">` section per tool —
+ * message text has no such limit, so the model still sees every word. It is
+ * deterministic for a given tool list, so it doesn't disturb prompt caching.
+ */
+
+import type { ChatHistoryItem, ToolDef } from './chat.js';
+
+/**
+ * The Codeium tool validator rejects any tool whose description hits exactly
+ * 7,000 chars (or more) with a misleading `failed_precondition: "Unable to
+ * process request due to an MCP configuration issue."` error. Binary-search
+ * verified to char-precision:
+ *   - 6,999 chars → server accepts
+ *   - 7,000 chars → server returns MCP error
+ *
+ * The limit is per-description, content-sensitive (plain `a`-repeats up to
+ * 20K work fine; the bash description's exact byte at position 6999 trips
+ * it). We cap at the maximum-1 (6,998) for a one-char safety margin.
+ *
+ * We do NOT need to aggregate-cap — 200K total tool descriptions across 200
+ * tools was confirmed to pass server-side. Only per-string length is gated.
+ */
+export const MAX_TOOL_DESC_LEN = 6998;
+
+/** Target length for the short description left behind by a split. */
+const SPLIT_DESC_CHARS = 2000;
+
+export type ToolDescriptionAction = 'collapsed' | 'examples-moved' | 'split';
+
+export interface ToolDescriptionChange {
+  name: string;
+  action: ToolDescriptionAction;
+  originalLength: number;
+  sentLength: number;
+}
+
+export interface FittedTools {
+  tools: ToolDef[];
+  /** Manual text for the preamble; undefined when no tool needed one. */
+  manual?: string;
+  /** Tools whose description was changed, in tool order. */
+  changes: ToolDescriptionChange[];
+}
+
+const FENCED_RE = /```[^\n]*\n[\s\S]*?```/g;
+const EXAMPLE_TAG_RE = /<(examples?)>[\s\S]*?<\/\1>/gi;
+
+/** Squeeze whitespace without touching leading indentation. */
+export function collapseWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/(\S)[ \t]{2,}/g, '$1 ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function manualPointer(name: string): string {
+  return `see the "${name}" tool manual in the system prompt`;
+}
+
+/** Pull fenced code blocks and `<example>` sections out of `text`. */
+function moveExamples(text: string, name: string): { text: string; examples: string[] } {
+  const examples: string[] = [];
+  const take = (block: string): string => {
+    examples.push(block.trim());
+    return `[example ${examples.length}: ${manualPointer(name)}]`;
+  };
+  const stripped = text.replace(EXAMPLE_TAG_RE, take).replace(FENCED_RE, take);
+  return { text: collapseWhitespace(stripped), examples };
+}
+
+/** Leading lines of `text` up to `max` chars, cut at a sentence or word if the first one is longer. */
+function leadingText(text: string, max: number): string {
+  let out = '';
+  for (const line of text.split('\n')) {
+    const next = out ? `${out}\n${line}` : line;
+    if (next.length > max) break;
+    out = next;
+  }
+  if (out) return out.trimEnd();
+  const head = text.slice(0, max);
+  const sentence = head.lastIndexOf('. ');
+  if (sentence > max / 2) return head.slice(0, sentence + 1);
+  const word = head.lastIndexOf(' ');
+  return word > 0 ? `${head.slice(0, word)} …` : head;
+}
+
+function manualSection(name: string, body: string): string {
+  return `<tool_manual name="${name}">\n${body}\n</tool_manual>`;
+}
+
+/**
+ * Fit every tool's description under {@link MAX_TOOL_DESC_LEN}. Tools that
+ * already fit are returned as-is (same objects).
+ */
+export function fitToolDescriptions(tools: ToolDef[]): FittedTools {
+  const sections: string[] = [];
+  const changes: ToolDescriptionChange[] = [];
+  const fitted = tools.map((tool) => {
+    const original = tool.description ?? '';
+    if (original.length <= MAX_TOOL_DESC_LEN) return tool;
+
+    let description = collapseWhitespace(original);
+    let action: ToolDescriptionAction = 'collapsed';
+    if (description.length > MAX_TOOL_DESC_LEN) {
+      const moved = moveExamples(description, tool.name);
+      if (moved.examples.length > 0 && moved.text.length <= MAX_TOOL_DESC_LEN) {
+        sections.push(manualSection(tool.name, moved.examples.map((e, i) => `Example ${i + 1}:\n${e}`).join('\n\n')));
+        description = moved.text;
+        action = 'examples-moved';
+      } else {
+        sections.push(manualSection(tool.name, description));
+        description = `${leadingText(moved.text, SPLIT_DESC_CHARS)}\n\nFull instructions: ${manualPointer(tool.name)}.`;
+        action = 'split';
+      }
+    }
+    changes.push({ name: tool.name, action, originalLength: original.length, sentLength: description.length });
+    return { ...tool, description };
+  });
+  if (changes.length === 0) return { tools, changes };
+  return {
+    tools: fitted,
+    manual: sections.length > 0
+      ? '<tool_manuals>\nSome tool descriptions were too long to send with the tool definitions. ' +
+        'Their full text is below; follow it exactly as if it were part of the tool description.\n\n' +
+        `${sections.join('\n\n')}\n</tool_manuals>`
+      : undefined,
+    changes,
+  };
+}
+
+/** `messages` with `manual` inserted as a system message after the leading system messages. */
+export function withToolManual(messages: ChatHistoryItem[], manual: string | undefined): ChatHistoryItem[] {
+  if (!manual) return messages;
+  let at = 0;
+  while (at < messages.length && messages[at]!.role === 'system') at++;
+  return [...messages.slice(0, at), { role: 'system', content: manual }, ...messages.slice(at)];
+}
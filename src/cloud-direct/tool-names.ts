@@ -0,0 +1,96 @@
+/**
+ * Reversible tool-name sanitization.
+ *
+ * opencode and MCP servers name tools `github.create_issue`,
+ * `mcp__server__some_very_long_namespaced_tool_name…` and so on, and
+ * `encodeToolDef` used to send them verbatim. Model families behind the
+ * cloud accept `[A-Za-z0-9_-]{1,64}` (the OpenAI/Anthropic function-name
+ * rule) and reject or mangle anything else, so a dotted MCP tool could fail
+ * the request or come back as a call to a name opencode doesn't know.
+ *
+ * {@link buildToolNameMap} rewrites each name into that charset and
+ * length, once per request, and keeps both directions:
+ *
+ *   - forward: tool definitions and the `tool_calls` of earlier assistant
+ *     turns ({@link toCloudHistory}), so the history matches the tools;
+ *   - back: `tool_call_start` events, before they reach the caller.
+ *
+ * Valid names pass through unchanged. Rewrites are deterministic — invalid
+ * characters become `_`, and long or colliding names get a short hash
+ * suffix — so the same tool gets the same cloud name every turn and the
+ * prompt cache still hits. Historical `tool_call_id`s get the same charset
+ * treatment (forward only: the cloud mints fresh ids for new calls).
+ */
+
+import * as crypto from 'crypto';
+import type { ChatHistoryItem, ToolDef } from './chat.js';
+
+export const MAX_TOOL_NAME_LEN = 64;
+
+const VALID_NAME_RE = /^[A-Za-z0-9_-]+$/;
+const HASH_SUFFIX_LEN = 8;
+
+function shortHash(s: string): string {
+  return crypto.createHash('sha256').update(s).digest('hex').slice(0, HASH_SUFFIX_LEN);
+}
+
+/** `name` within the cloud's charset and length; `withHash` forces a disambiguating suffix. */
+export function sanitizeToolName(name: string, withHash = false): string {
+  if (!withHash && name.length <= MAX_TOOL_NAME_LEN && VALID_NAME_RE.test(name)) return name;
+  const base = name.replace(/[^A-Za-z0-9_-]/g, '_') || 'tool';
+  if (!withHash && base.length <= MAX_TOOL_NAME_LEN) return base;
+  return `${base.slice(0, MAX_TOOL_NAME_LEN - HASH_SUFFIX_LEN - 1)}_${shortHash(name)}`;
+}
+
+export interface ToolNameMap {
+  toCloud(name: string): string;
+  fromCloud(name: string): string;
+  /** Tools whose name was rewritten. */
+  renamed: Array<{ original: string; cloud: string }>;
+}
+
+/**
+ * Build the per-request name map for `tools`. Names that collide after
+ * sanitizing (`a.b` and `a_b`) are told apart with a hash suffix; names
+ * outside `tools` (e.g. a tool removed since an earlier turn) are
+ * sanitized the same way but can't be mapped back.
+ */
+export function buildToolNameMap(tools: ToolDef[]): ToolNameMap {
+  const forward = new Map<string, string>();
+  const back = new Map<string, string>();
+  // Valid names first, so they keep their own name when something else
+  // sanitizes onto it.
+  const ordered = [...tools].sort((a, b) => Number(sanitizeToolName(b.name) === b.name) - Number(sanitizeToolName(a.name) === a.name));
+  for (const { name } of ordered) {
+    if (forward.has(name)) continue;
+    let cloud = sanitizeToolName(name);
+    if (back.has(cloud)) cloud = sanitizeToolName(name, true);
+    forward.set(name, cloud);
+    back.set(cloud, name);
+  }
+  return {
+    toCloud: (name) => forward.get(name) ?? sanitizeToolName(name),
+    fromCloud: (name) => back.get(name) ?? name,
+    renamed: [...forward].filter(([original, cloud]) => original !== cloud).map(([original, cloud]) => ({ original, cloud })),
+  };
+}
+
+/** `tool_call_id` within the same charset (ids are opaque; length is left alone). */
+function sanitizeToolCallId(id: string): string {
+  return VALID_NAME_RE.test(id) ? id : id.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/** `messages` with tool-call names and ids translated forward. Unchanged messages are reused. */
+export function toCloudHistory(messages: ChatHistoryItem[], names: ToolNameMap): ChatHistoryItem[] {
+  return messages.map((m) => {
+    if (m.tool_calls?.length) {
+      const tool_calls = m.tool_calls.map((tc) => ({ ...tc, id: sanitizeToolCallId(tc.id), name: names.toCloud(tc.name) }));
+      return tool_calls.every((tc, i) => tc.id === m.tool_calls![i]!.id && tc.name === m.tool_calls![i]!.name) ? m : { ...m, tool_calls };
+    }
+    if (m.tool_call_id !== undefined) {
+      const id = sanitizeToolCallId(m.tool_call_id);
+      return id === m.tool_call_id ? m : { ...m, tool_call_id: id };
+    }
+    return m;
+  });
+}
@@ -0,0 +1,318 @@
+/**
+ * JSON Schema normalization for tool parameters.
+ *
+ * `encodeToolDef` used to JSON-stringify `tool.parameters` exactly as
+ * received. MCP servers emit whatever their schema library produces —
+ * `$ref`/`$defs`, `oneOf` unions, `format`, `additionalProperties`,
+ * draft-2020 keywords — and the model families behind the cloud each
+ * accept a different subset: Gemini's function declarations take an
+ * OpenAPI-style allowlist and fail the request on anything else, while
+ * others silently misread refs they can't follow. {@link normalizeToolSchema}
+ * rewrites a schema into the common subset:
+ *
+ *   1. local `$ref`s are inlined (`#/$defs/…`, `#/definitions/…`, `#`);
+ *      a ref back into itself becomes a plain `{type: "object"}`, remote
+ *      refs become `{}`, and so does every ref once the inlined schema
+ *      passes {@link MAX_INLINED_NODES} nodes;
+ *   2. unions are flattened where that loses nothing the model needs:
+ *      `X | null` → X, a union of consts → `enum`, a union of bare types →
+ *      a type list, `allOf` of objects → one object; other `oneOf`s become
+ *      `anyOf`;
+ *   3. keywords the target family doesn't take are dropped — everywhere the
+ *      draft-2019/2020 extras (`unevaluated*`, `dependent*`, `if`/`then`,
+ *      `prefixItems`, …), for Gemini everything outside its allowlist; a
+ *      dropped `format` is kept as a hint in the description;
+ *   4. schemas over {@link MAX_SCHEMA_CHARS} lose nested descriptions, then
+ *      nested structure, then property descriptions, until they fit (the
+ *      property names and types themselves are always kept).
+ *
+ * Results are cached by family and schema hash, so opencode's unchanged
+ * tool list costs one hash per tool per turn.
+ */
+
+import * as crypto from 'crypto';
+
+export type SchemaFamily = 'openai' | 'anthropic' | 'gemini' | 'generic';
+
+/** Serialized size cap per tool schema. */
+export const MAX_SCHEMA_CHARS = 16_000;
+
+const CACHE_MAX = 256;
+/** Schema nodes `$ref` inlining may produce; refs past it become `{}`. */
+const MAX_INLINED_NODES = 5_000;
+/** Nested descriptions are cut to this length before being dropped outright. */
+const NESTED_DESC_CHARS = 200;
+
+type Schema = Record<string, unknown>;
+
+/** Keywords no family needs: metadata, and draft-2019/2020 extras most validators reject. */
+const DROPPED_EVERYWHERE = new Set([
+  '$schema', '$id', '$anchor', '$comment', '$dynamicRef', '$dynamicAnchor', '$vocabulary', '$defs', 'definitions',
+  'unevaluatedProperties', 'unevaluatedItems', 'dependentSchemas', 'dependentRequired', 'dependencies',
+  'prefixItems', 'contains', 'minContains', 'maxContains', 'propertyNames', 'patternProperties',
+  'if', 'then', 'else', 'not', 'contentEncoding', 'contentMediaType', 'contentSchema',
+  'deprecated', 'readOnly', 'writeOnly',
+]);
+
+/** Gemini's function-declaration schema (an OpenAPI 3.0 subset). */
+const GEMINI_ALLOWED = new Set([
+  'type', 'format', 'description', 'nullable', 'enum', 'properties', 'required', 'items', 'anyOf',
+  'minItems', 'maxItems', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'title',
+]);
+const GEMINI_FORMATS = new Set(['enum', 'date-time', 'int32', 'int64', 'float', 'double']);
+
+/** Family whose schema dialect a model UID speaks. */
+export function schemaFamilyFor(modelUid: string): SchemaFamily {
+  if (/gemini/i.test(modelUid)) return 'gemini';
+  if (/claude/i.test(modelUid)) return 'anthropic';
+  if (/gpt|(^|[^a-z])o[134]([^a-z0-9]|$)/i.test(modelUid)) return 'openai';
+  return 'generic';
+}
+
+function isSchema(v: unknown): v is Schema {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+// ----------------------------------------------------------------------------
+// 1. $ref inlining
+// ----------------------------------------------------------------------------
+
+function resolvePointer(root: Schema, ref: string): unknown {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+  let node: unknown = root;
+  for (const raw of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!node || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node;
+}
+
+/**
+ * Inlining state for one schema. A ref's expansion depends on the refs
+ * already being expanded around it (that's where recursion is cut), so
+ * expansions are memoised per ref chain; `nodes` counts schema nodes in
+ * the output, shared expansions counted at every use.
+ */
+interface InlineState {
+  memo: Map<string, { schema: Schema; nodes: number }>;
+  nodes: number;
+}
+
+function inlineRefs(node: unknown, root: Schema, stack: string[], state: InlineState): unknown {
+  if (Array.isArray(node)) return node.map((n) => inlineRefs(n, root, stack, state));
+  if (!isSchema(node)) return node;
+  state.nodes++;
+  const ref = node['$ref'];
+  if (typeof ref === 'string') {
+    const { $ref: _ref, ...siblings } = node;
+    const rest = inlineRefs(siblings, root, stack, state) as Schema;
+    if (stack.includes(ref)) return { type: 'object', ...rest };
+    const key = [...stack, ref].join('\n');
+    let expanded = state.memo.get(key);
+    if (!expanded) {
+      const target = resolvePointer(root, ref);
+      if (!isSchema(target) || state.nodes >= MAX_INLINED_NODES) return rest;
+      const before = state.nodes;
+      const schema = inlineRefs(target, root, [...stack, ref], state) as Schema;
+      expanded = { schema, nodes: state.nodes - before };
+      state.memo.set(key, expanded);
+    } else {
+      // Refs that fan out (A → B, B → C twice each, …) double per level;
+      // past the budget the rest become `{}`.
+      if (state.nodes + expanded.nodes > MAX_INLINED_NODES) return rest;
+      state.nodes += expanded.nodes;
+    }
+    return { ...expanded.schema, ...rest };
+  }
+  const out: Schema = {};
+  for (const [k, v] of Object.entries(node)) {
+    // Property names are data, not keywords — but their values are schemas.
+    out[k] = k === 'properties' && isSchema(v)
+      ? Object.fromEntries(Object.entries(v).map(([p, s]) => [p, inlineRefs(s, root, stack, state)]))
+      : inlineRefs(v, root, stack, state);
+  }
+  return out;
+}
+
+// ----------------------------------------------------------------------------
+// 2–3. Union flattening + keyword stripping
+// ----------------------------------------------------------------------------
+
+const BARE_TYPE_KEYS = new Set(['type', 'description', 'title']);
+
+function isNullSchema(s: unknown): boolean {
+  return isSchema(s) && (s['type'] === 'null' || (Array.isArray(s['enum']) && s['enum'].length === 1 && s['enum'][0] === null));
+}
+
+function withFormatHint(description: unknown, format: string): string {
+  const hint = `(format: ${format})`;
+  return typeof description === 'string' && description ? `${description} ${hint}` : hint;
+}
+
+/** One schema node, children already normalized. */
+function normalizeNode(node: Schema, family: SchemaFamily): Schema {
+  let s: Schema = { ...node };
+
+  // allOf of plain objects → one object.
+  const allOf = s['allOf'];
+  if (Array.isArray(allOf) && allOf.every((b) => isSchema(b) && (b['type'] === 'object' || b['properties'] !== undefined))) {
+    const { allOf: _allOf, ...rest } = s;
+    const properties: Schema = { ...(isSchema(rest['properties']) ? rest['properties'] : {}) };
+    const required = new Set<string>(Array.isArray(rest['required']) ? rest['required'] as string[] : []);
+    for (const b of allOf as Schema[]) {
+      Object.assign(properties, isSchema(b['properties']) ? b['properties'] : {});
+      if (Array.isArray(b['required'])) for (const r of b['required']) required.add(r as string);
+    }
+    s = { ...rest, type: 'object', properties, ...(required.size > 0 ? { required: [...required] } : {}) };
+  }
+
+  for (const key of ['anyOf', 'oneOf'] as const) {
+    const branches = s[key];
+    if (!Array.isArray(branches)) continue;
+    const { [key]: _branches, ...rest } = s;
+    const nonNull = branches.filter((b) => !isNullSchema(b));
+    const nullable = nonNull.length < branches.length;
+    if (nonNull.length === 1 && isSchema(nonNull[0])) {
+      // X | null → X (the description on the wrapper wins).
+      s = { ...nonNull[0], ...rest, ...(nullable && family === 'gemini' ? { nullable: true } : {}) };
+    } else if (nonNull.length > 0 && nonNull.every((b) => isSchema(b) && ('const' in b || Array.isArray(b['enum'])))) {
+      // Union of consts → one enum.
+      const values = nonNull.flatMap((b) => ('const' in (b as Schema) ? [(b as Schema)['const']] : (b as Schema)['enum'] as unknown[]));
+      const types = [...new Set(values.map((v) => (typeof v === 'number' ? 'number' : typeof v)))];
+      s = { ...(types.length === 1 && ['string', 'number', 'boolean'].includes(types[0]!) ? { type: types[0] } : {}), ...rest, enum: values };
+    } else if (family !== 'gemini' && nonNull.length > 1 && nonNull.every((b) => isSchema(b) && typeof b['type'] === 'string' && Object.keys(b).every((k) => BARE_TYPE_KEYS.has(k)))) {
+      // Union of bare types → type list.
+      s = { ...rest, type: nonNull.map((b) => (b as Schema)['type']) };
+    } else {
+      s = { ...rest, anyOf: branches };
+    }
+  }
+
+  // const → single-value enum (Gemini has no const).
+  if ('const' in s && family === 'gemini') {
+    const { const: value, ...rest } = s;
+    s = { ...rest, enum: [value] };
+  }
+
+  // Type lists: Gemini takes one type plus `nullable`.
+  if (family === 'gemini' && Array.isArray(s['type'])) {
+    const types = (s['type'] as unknown[]).filter((t) => t !== 'null');
+    s = { ...s, type: types[0] ?? 'string', ...(types.length < (s['type'] as unknown[]).length ? { nullable: true } : {}) };
+  }
+
+  const out: Schema = {};
+  for (const [k, v] of Object.entries(s)) {
+    if (DROPPED_EVERYWHERE.has(k)) continue;
+    if (family === 'gemini' && !GEMINI_ALLOWED.has(k)) continue;
+    out[k] = v;
+  }
+  if (family === 'gemini' && typeof out['format'] === 'string' && !GEMINI_FORMATS.has(out['format'])) {
+    const { format, ...rest } = out;
+    return normalizeGeminiEnum({ ...rest, description: withFormatHint(rest['description'], format as string) });
+  }
+  return family === 'gemini' ? normalizeGeminiEnum(out) : out;
+}
+
+/** Gemini: enum values must be strings. */
+function normalizeGeminiEnum(out: Schema): Schema {
+  if (!Array.isArray(out['enum'])) return out;
+  return { ...out, type: 'string', enum: (out['enum'] as unknown[]).filter((v) => v !== null).map(String) };
+}
+
+function normalizeTree(node: unknown, family: SchemaFamily): unknown {
+  if (Array.isArray(node)) return node.map((n) => normalizeTree(n, family));
+  if (!isSchema(node)) return node;
+  const children: Schema = {};
+  for (const [k, v] of Object.entries(node)) {
+    if (k === 'properties' && isSchema(v)) {
+      children[k] = Object.fromEntries(Object.entries(v).map(([p, s]) => [p, normalizeTree(s, family)]));
+    } else if (k === 'enum' || k === 'const' || k === 'default' || k === 'examples' || k === 'required') {
+      children[k] = v;
+    } else {
+      children[k] = normalizeTree(v, family);
+    }
+  }
+  return normalizeNode(children, family);
+}
+
+// ----------------------------------------------------------------------------
+// 4. Size cap
+// ----------------------------------------------------------------------------
+
+/** Apply `fn` to every schema node below the top level, with its depth (top-level properties = 1). */
+function mapNested(node: Schema, fn: (s: Schema, depth: number) => Schema, depth = 0): Schema {
+  const out: Schema = {};
+  for (const [k, v] of Object.entries(node)) {
+    if (k === 'properties' && isSchema(v)) {
+      out[k] = Object.fromEntries(Object.entries(v).map(([p, s]) => [p, isSchema(s) ? fn(mapNested(s, fn, depth + 1), depth + 1) : s]));
+    } else if ((k === 'items' || k === 'additionalProperties') && isSchema(v)) {
+      out[k] = fn(mapNested(v, fn, depth + 1), depth + 1);
+    } else if (k === 'anyOf' && Array.isArray(v)) {
+      out[k] = v.map((b) => (isSchema(b) ? fn(mapNested(b, fn, depth + 1), depth + 1) : b));
+    } else {
+      out[k] = v;
+    }
+  }
+  return out;
+}
+
+function capSize(schema: Schema): Schema {
+  const fits = (s: Schema) => JSON.stringify(s).length <= MAX_SCHEMA_CHARS;
+  if (fits(schema)) return schema;
+  const stages: Array<(s: Schema, depth: number) => Schema> = [
+    (s) => (typeof s['description'] === 'string' && s['description'].length > NESTED_DESC_CHARS
+      ? { ...s, description: `${s['description'].slice(0, NESTED_DESC_CHARS)}…` }
+      : s),
+    (s, depth) => {
+      if (depth < 2) return s;
+      const { description: _d, title: _t, ...rest } = s;
+      return rest;
+    },
+    (s, depth) => (depth >= 3 && typeof s['type'] === 'string' ? { type: s['type'] } : s),
+    (s, depth) => (depth >= 2 ? { type: typeof s['type'] === 'string' ? s['type'] : 'object' } : s),
+    (s) => {
+      const { description: _d, title: _t, ...rest } = s;
+      return rest;
+    },
+  ];
+  let out = schema;
+  for (const stage of stages) {
+    out = mapNested(out, stage);
+    if (fits(out)) return out;
+  }
+  return out;
+}
+
+// ----------------------------------------------------------------------------
+// Public API
+// ----------------------------------------------------------------------------
+
+const cache = new Map<string, unknown>();
+
+/**
+ * Normalize `schema` for `family`. Always returns an object schema with
+ * `type: "object"`; a missing or non-object schema becomes an empty one.
+ * The same input returns the same (shared, do not mutate) result object.
+ */
+export function normalizeToolSchema(schema: unknown, family: SchemaFamily): Schema {
+  const json = JSON.stringify(schema ?? {});
+  const key = crypto.createHash('sha256').update(family).update('\0').update(json).digest('hex');
+  const hit = cache.get(key);
+  if (hit) {
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit as Schema;
+  }
+
+  const root: Schema = isSchema(schema) ? schema : {};
+  let out = normalizeTree(inlineRefs(root, root, [], { memo: new Map(), nodes: 0 }), family) as Schema;
+  if (out['type'] !== 'object') out = { ...out, type: 'object' };
+  if (!isSchema(out['properties'])) out = { ...out, properties: {} };
+  out = capSize(out);
+
+  if (cache.size >= CACHE_MAX) cache.delete(cache.keys().next().value!);
+  cache.set(key, out);
+  return out;
+}
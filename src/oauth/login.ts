@@ -33,7 +33,7 @@ import * as http from 'http';
 import * as crypto from 'crypto';
 import { spawn } from 'child_process';
 import { registerUser, WindsurfRegistrationError } from './register-user.js';
-import { saveCredentials } from './storage.js';
+import { addAccount, saveCredentials } from './storage.js';
 import { DEFAULT_REGION, type OAuthLoginResult, type WindsurfRegion } from './types.js';
 
 /** How long to wait for the user to finish the browser flow. */
@@ -57,6 +57,13 @@ export interface LoginOptions {
   onUrl?: (url: string) => void | Promise<void>;
   /** Custom token-paste prompt for the manual fallback. Defaults to readline on stdin. */
   promptForToken?: () => Promise<string>;
+  /**
+   * Keep the currently signed-in accounts and store this one alongside them
+   * (`login --add`) instead of replacing the active account's credentials.
+   */
+  addAccount?: boolean;
+  /** Label for the new account when `addAccount` is set. Defaults to the account name. */
+  accountLabel?: string;
 }
 
 /**
@@ -73,6 +80,20 @@ export async function login(opts: LoginOptions = {}): Promise<OAuthLoginResult>
 
   const result = await registerUser(token, region, opts.signal);
 
+  if (opts.addAccount) {
+    // A brand-new account: nothing to inherit, and CLI-managed, so it
+    // survives `opencode auth logout`.
+    await addAccount({
+      apiKey: result.apiKey,
+      name: result.name,
+      apiServerUrl: result.apiServerUrl,
+      redirectUrl: result.redirectUrl,
+      issuedAt: new Date().toISOString(),
+      oauthClientId: region.oauthClientId,
+    }, opts.accountLabel);
+    return result;
+  }
+
   // Preserve the existing `syncedViaOpencodeAuth` flag if a previous
   // login wrote one. Without this preservation, a user who did
   // `opencode auth login` (sets flag=true) and then later ran
@@ -23,16 +23,39 @@
  * the namespace object, not the callable). For a single-user OAuth flow we
  * don't actually need cross-process locking; `O_EXCL` lockfile + atomic
  * tmp-rename gives us identical safety without the dependency.
+ *
+ * Multi-account: the file is `accounts.json`, a versioned
+ * {@link AccountsStore} holding every signed-in account plus the selected
+ * one (plenty of users hold both a personal and a team seat). The
+ * single-account helpers (`loadCredentials`, `saveCredentials`,
+ * `deleteCredentials`) operate on the *active* account, so the proxy and
+ * the live scripts didn't have to change. A pre-multi-account
+ * `credentials.json` is read as a one-account store and retired to
+ * `credentials.json.migrated` on the first write.
  */
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { xdgConfig } from 'xdg-basedir';
-import type { PersistedCredentials } from './types.js';
+import {
+  ACCOUNTS_STORE_VERSION,
+  type AccountRuntimeState,
+  type AccountsStore,
+  type AccountStateFile,
+  type AccountStrategy,
+  type PersistedCredentials,
+  type StoredAccount,
+} from './types.js';
 
 const APP_DIR_NAME = 'opencode-windsurf-auth';
-const CREDS_FILENAME = 'credentials.json';
+const ACCOUNTS_FILENAME = 'accounts.json';
+/** Pre-multi-account single-credential file. Read for migration only. */
+const LEGACY_CREDS_FILENAME = 'credentials.json';
+/** Rate-limit / usage state for account rotation. */
+const ACCOUNT_STATE_FILENAME = 'account-state.json';
+const ACCOUNT_STATE_VERSION = 1;
 
 export function getCredentialsDir(): string {
   // xdgConfig is undefined on Windows; pick a sensible per-user fallback.
@@ -40,8 +63,13 @@ export function getCredentialsDir(): string {
   return path.join(base, APP_DIR_NAME);
 }
 
+/** Path of the accounts store — where every credential lives. */
 export function getCredentialsPath(): string {
-  return path.join(getCredentialsDir(), CREDS_FILENAME);
+  return path.join(getCredentialsDir(), ACCOUNTS_FILENAME);
+}
+
+function getLegacyCredentialsPath(): string {
+  return path.join(getCredentialsDir(), LEGACY_CREDS_FILENAME);
 }
 
 function ensureDir(): void {
@@ -50,21 +78,24 @@ function ensureDir(): void {
 }
 
 /**
- * Atomically write credentials with file mode 0600.
+ * Atomically write the accounts store with file mode 0600.
  *
  * Strategy:
- *   1. Create an O_EXCL lockfile (`credentials.json.lock`) — fails fast if
+ *   1. Create an O_EXCL lockfile (`accounts.json.lock`) — fails fast if
  *      another writer is in the middle of an update. We retry with backoff
  *      a handful of times before giving up.
- *   2. Write the payload to a process-scoped tmp file (`credentials.json.<pid>.tmp`).
+ *   2. Write the payload to a process-scoped tmp file (`accounts.json.<pid>.tmp`).
  *   3. `rename()` is atomic on POSIX — the reader either sees the OLD file
  *      or the FULLY-WRITTEN new file, never a half-written one.
  *   4. Always unlink the lockfile on the way out.
  *
  * Stale-lock guard: if the existing lockfile is older than 30s, we assume the
  * prior writer crashed and steal it.
+ *
+ * Every mutation is read-modify-write under the lock ({@link mutateStore}),
+ * so two CLIs adding accounts at once can't drop each other's entry.
  */
-const LOCK_FILENAME = 'credentials.json.lock';
+const LOCK_FILENAME = 'accounts.json.lock';
 const LOCK_STALE_MS = 30_000;
 const LOCK_RETRY_BASE_MS = 80;
 const LOCK_RETRIES = 6;
@@ -108,49 +139,49 @@ async function withLock<T>(fn: () => Promise<T> | T): Promise<T> {
   throw new Error('lock acquisition exhausted retries');
 }
 
-export async function saveCredentials(creds: PersistedCredentials): Promise<void> {
-  ensureDir();
-  const finalPath = getCredentialsPath();
-  await withLock(() => {
-    // O_EXCL on the tmp file so a pre-placed symlink with the same name
-    // can't redirect the write outside the credentials dir. The pid
-    // suffix makes the tmp name process-scoped but it isn't unguessable
-    // — without O_EXCL an attacker who knows the pid (every local process
-    // does, via ps) could plant a symlink between ensureDir and write.
-    const tmpPath = `${finalPath}.${process.pid}.tmp`;
-    // Best-effort cleanup of any leftover tmp from a prior crash. We
-    // unlink (not stat-and-decide) so a hostile symlink gets dropped.
-    try { fs.unlinkSync(tmpPath); } catch { /* not there, fine */ }
-    // O_NOFOLLOW so a pre-placed symlink at tmpPath can't redirect the
-    // open into /etc/<wherever>. Combined with O_EXCL this means an
-    // attacker can't get our write to land anywhere except a brand-new
-    // regular file inside the credentials directory.
-    const noFollow = (fs.constants as { O_NOFOLLOW?: number }).O_NOFOLLOW ?? 0;
-    const fd = fs.openSync(
-      tmpPath,
-      fs.constants.O_WRONLY | fs.constants.O_CREAT | fs.constants.O_EXCL | noFollow,
-      0o600,
-    );
-    try {
-      fs.writeSync(fd, JSON.stringify(creds, null, 2));
-    } finally {
-      fs.closeSync(fd);
-    }
-    fs.renameSync(tmpPath, finalPath);
-    // Re-apply 0600 in case umask widened the rename target's mode
-    // (POSIX rename preserves the source's mode on Linux/macOS; this is
-    // defense in depth for the Windows fallback path).
-    try { fs.chmodSync(finalPath, 0o600); } catch { /* ok */ }
-  });
+function writeStore(store: AccountsStore): void {
+  writeSecureJson(getCredentialsPath(), store);
+}
+
+function writeSecureJson(finalPath: string, data: unknown): void {
+  // O_EXCL on the tmp file so a pre-placed symlink with the same name
+  // can't redirect the write outside the credentials dir. The pid
+  // suffix makes the tmp name process-scoped but it isn't unguessable
+  // — without O_EXCL an attacker who knows the pid (every local process
+  // does, via ps) could plant a symlink between ensureDir and write.
+  const tmpPath = `${finalPath}.${process.pid}.tmp`;
+  // Best-effort cleanup of any leftover tmp from a prior crash. We
+  // unlink (not stat-and-decide) so a hostile symlink gets dropped.
+  try { fs.unlinkSync(tmpPath); } catch { /* not there, fine */ }
+  // O_NOFOLLOW so a pre-placed symlink at tmpPath can't redirect the
+  // open into /etc/<wherever>. Combined with O_EXCL this means an
+  // attacker can't get our write to land anywhere except a brand-new
+  // regular file inside the credentials directory.
+  const noFollow = (fs.constants as { O_NOFOLLOW?: number }).O_NOFOLLOW ?? 0;
+  const fd = fs.openSync(
+    tmpPath,
+    fs.constants.O_WRONLY | fs.constants.O_CREAT | fs.constants.O_EXCL | noFollow,
+    0o600,
+  );
+  try {
+    fs.writeSync(fd, JSON.stringify(data, null, 2));
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpPath, finalPath);
+  // Re-apply 0600 in case umask widened the rename target's mode
+  // (POSIX rename preserves the source's mode on Linux/macOS; this is
+  // defense in depth for the Windows fallback path).
+  try { fs.chmodSync(finalPath, 0o600); } catch { /* ok */ }
 }
 
 /**
- * Read persisted credentials. Returns null if none exist; throws if the file
- * exists but is malformed (we don't want to silently fall back to "no auth"
- * if the user's `login` already ran).
+ * Read a credential-bearing JSON file. Returns null if it doesn't exist;
+ * throws if it exists but is unsafe (symlink, unrepairable permissions) or
+ * not valid JSON (we don't want to silently fall back to "no auth" if the
+ * user's `login` already ran).
  */
-export function loadCredentials(): PersistedCredentials | null {
-  const p = getCredentialsPath();
+function readSecureJson(p: string): unknown {
   if (!fs.existsSync(p)) return null;
   // Permission check — refuse to load a credentials file that's wider than
   // 0600. A previously-leaked file with mode 0644 (e.g. created before our
@@ -194,22 +225,291 @@ export function loadCredentials(): PersistedCredentials | null {
     }
   }
   const raw = fs.readFileSync(p, 'utf8');
-  let parsed: unknown;
   try {
-    parsed = JSON.parse(raw);
+    return JSON.parse(raw);
   } catch {
     throw new Error(`Credentials file at ${p} is not valid JSON. Run 'opencode-windsurf-auth login' to re-authenticate, or delete the file.`);
   }
-  if (!isPersistedCredentials(parsed)) {
-    throw new Error(`Credentials file at ${p} is missing required fields. Run 'opencode-windsurf-auth login' to re-authenticate.`);
+}
+
+function newAccountId(): string {
+  return `acct_${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/** Pick a label nobody else in the store uses: `Jane Doe`, `Jane Doe (2)`, … */
+function uniqueLabel(store: AccountsStore, wanted: string, exceptId?: string): string {
+  const taken = new Set(
+    store.accounts.filter((a) => a.id !== exceptId).map((a) => a.label.toLowerCase()),
+  );
+  if (!taken.has(wanted.toLowerCase())) return wanted;
+  for (let n = 2; ; n++) {
+    const candidate = `${wanted} (${n})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
   }
-  return parsed;
 }
 
-export function deleteCredentials(): boolean {
+function toStoredAccount(store: AccountsStore, creds: PersistedCredentials, label?: string): StoredAccount {
+  return {
+    ...creds,
+    id: newAccountId(),
+    label: uniqueLabel(store, label?.trim() || creds.name),
+    addedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read the accounts store. Falls back to the legacy single-account
+ * `credentials.json` (as an in-memory one-account store — nothing is
+ * written until the next mutation) and to an empty store.
+ */
+export function loadAccounts(): AccountsStore {
   const p = getCredentialsPath();
-  if (!fs.existsSync(p)) return false;
-  fs.unlinkSync(p);
+  const parsed = readSecureJson(p);
+  if (parsed !== null) {
+    if (!isAccountsStore(parsed)) {
+      throw new Error(`Accounts file at ${p} is missing required fields. Run 'opencode-windsurf-auth login' to re-authenticate.`);
+    }
+    if (parsed.version > ACCOUNTS_STORE_VERSION) {
+      throw new Error(
+        `Accounts file at ${p} has format version ${parsed.version}, newer than this plugin understands ` +
+        `(${ACCOUNTS_STORE_VERSION}). Upgrade opencode-windsurf-auth.`,
+      );
+    }
+    return parsed;
+  }
+
+  const legacyPath = getLegacyCredentialsPath();
+  const legacy = readSecureJson(legacyPath);
+  const empty: AccountsStore = { version: ACCOUNTS_STORE_VERSION, accounts: [] };
+  if (legacy === null) return empty;
+  if (!isPersistedCredentials(legacy)) {
+    throw new Error(`Credentials file at ${legacyPath} is missing required fields. Run 'opencode-windsurf-auth login' to re-authenticate.`);
+  }
+  const account = toStoredAccount(empty, legacy);
+  return { version: ACCOUNTS_STORE_VERSION, accounts: [account], selectedAccountId: account.id };
+}
+
+/**
+ * Read-modify-write the store under the lock. Also retires a legacy
+ * `credentials.json` once its contents are safely in `accounts.json`, so a
+ * later logout can't resurrect it through the migration path.
+ */
+async function mutateStore<T>(fn: (store: AccountsStore) => T): Promise<T> {
+  ensureDir();
+  return withLock(() => {
+    const store = loadAccounts();
+    const result = fn(store);
+    store.version = ACCOUNTS_STORE_VERSION;
+    writeStore(store);
+    const legacyPath = getLegacyCredentialsPath();
+    if (fs.existsSync(legacyPath)) {
+      try { fs.renameSync(legacyPath, `${legacyPath}.migrated`); } catch { /* ok */ }
+    }
+    return result;
+  });
+}
+
+/** The active account: the selected one, else the first. */
+export function getActiveAccount(store: AccountsStore): StoredAccount | null {
+  return store.accounts.find((a) => a.id === store.selectedAccountId) ?? store.accounts[0] ?? null;
+}
+
+/** Thrown by the account-management helpers when a reference matches nothing. */
+export class AccountNotFoundError extends Error {
+  constructor(public readonly ref: string) {
+    super(`No account matches "${ref}". Run 'opencode-windsurf-auth accounts list' to see them.`);
+    this.name = 'AccountNotFoundError';
+  }
+}
+
+/**
+ * Resolve a user-supplied account reference: the 1-based position shown by
+ * `accounts list`, the account id, or its label (case-insensitive).
+ */
+export function findAccount(store: AccountsStore, ref: string): StoredAccount | undefined {
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const byIndex = store.accounts[Number(trimmed) - 1];
+    if (byIndex) return byIndex;
+  }
+  return (
+    store.accounts.find((a) => a.id === trimmed) ??
+    store.accounts.find((a) => a.label.toLowerCase() === trimmed.toLowerCase())
+  );
+}
+
+function requireAccount(store: AccountsStore, ref: string): StoredAccount {
+  const account = findAccount(store, ref);
+  if (!account) throw new AccountNotFoundError(ref);
+  return account;
+}
+
+/**
+ * Persist credentials for the active account. An account already holding
+ * this apiKey is refreshed in place and selected; otherwise the active
+ * account's credentials are replaced (the pre-multi-account overwrite
+ * semantics — re-login rotates the key). Use {@link addAccount} to keep
+ * both.
+ */
+export async function saveCredentials(creds: PersistedCredentials): Promise<StoredAccount> {
+  return mutateStore((store) => {
+    const target = store.accounts.find((a) => a.apiKey === creds.apiKey) ?? getActiveAccount(store);
+    if (!target) {
+      const account = toStoredAccount(store, creds);
+      store.accounts.push(account);
+      store.selectedAccountId = account.id;
+      return account;
+    }
+    const updated: StoredAccount = { ...target, ...creds, id: target.id, label: target.label, addedAt: target.addedAt };
+    store.accounts[store.accounts.indexOf(target)] = updated;
+    store.selectedAccountId = updated.id;
+    return updated;
+  });
+}
+
+/**
+ * Add credentials as an additional account (`login --add`) and make it
+ * active. Signing in again to an account already in the store refreshes it
+ * instead of duplicating it.
+ */
+export async function addAccount(creds: PersistedCredentials, label?: string): Promise<StoredAccount> {
+  return mutateStore((store) => {
+    const existing = store.accounts.find((a) => a.apiKey === creds.apiKey);
+    const account: StoredAccount = existing
+      ? { ...existing, ...creds, id: existing.id, label: existing.label, addedAt: existing.addedAt }
+      : toStoredAccount(store, creds, label);
+    if (existing) store.accounts[store.accounts.indexOf(existing)] = account;
+    else store.accounts.push(account);
+    store.selectedAccountId = account.id;
+    return account;
+  });
+}
+
+/**
+ * Store the key `opencode auth login` holds. opencode keeps one Windsurf
+ * credential, so an earlier opencode-synced account with a different key is
+ * the one it replaced — a revoked key rotation would otherwise keep picking —
+ * and is removed. The key becomes its own account, made active, or refreshes
+ * the one already holding it without changing the selection (unless the
+ * selected account was the one removed). CLI-managed accounts are left alone.
+ */
+export async function syncOpencodeAccount(creds: PersistedCredentials, label?: string): Promise<StoredAccount> {
+  return mutateStore((store) => {
+    store.accounts = store.accounts.filter((a) => !a.syncedViaOpencodeAuth || a.apiKey === creds.apiKey);
+    const existing = store.accounts.find((a) => a.apiKey === creds.apiKey);
+    const account: StoredAccount = existing
+      ? { ...existing, ...creds, syncedViaOpencodeAuth: existing.syncedViaOpencodeAuth, id: existing.id, label: existing.label, addedAt: existing.addedAt }
+      : toStoredAccount(store, creds, label);
+    if (existing) store.accounts[store.accounts.indexOf(existing)] = account;
+    else store.accounts.push(account);
+    if (!existing || !store.accounts.some((a) => a.id === store.selectedAccountId)) store.selectedAccountId = account.id;
+    return account;
+  });
+}
+
+/** Make the referenced account active. */
+export async function selectAccount(ref: string): Promise<StoredAccount> {
+  return mutateStore((store) => {
+    const account = requireAccount(store, ref);
+    store.selectedAccountId = account.id;
+    return account;
+  });
+}
+
+/** Relabel the referenced account. Labels stay unique (case-insensitive). */
+export async function renameAccount(ref: string, label: string): Promise<StoredAccount> {
+  const wanted = label.trim();
+  if (wanted === '') throw new Error('Account label must not be empty.');
+  return mutateStore((store) => {
+    const account = requireAccount(store, ref);
+    const clash = store.accounts.find((a) => a.id !== account.id && a.label.toLowerCase() === wanted.toLowerCase());
+    if (clash) throw new Error(`Another account is already labelled "${clash.label}".`);
+    account.label = wanted;
+    return account;
+  });
+}
+
+/** Remove the referenced account. Removing the active one selects the next. */
+export async function removeAccount(ref: string): Promise<StoredAccount> {
+  return mutateStore((store) => {
+    const account = requireAccount(store, ref);
+    store.accounts = store.accounts.filter((a) => a.id !== account.id);
+    if (store.selectedAccountId === account.id) store.selectedAccountId = store.accounts[0]?.id;
+    return account;
+  });
+}
+
+/**
+ * Remove every account written by `opencode auth login`. Mirrors an
+ * `opencode auth logout windsurf` without touching accounts the standalone
+ * CLI manages. Returns how many were removed.
+ */
+export async function removeOpencodeSyncedAccounts(): Promise<number> {
+  return mutateStore((store) => {
+    const before = store.accounts.length;
+    store.accounts = store.accounts.filter((a) => !a.syncedViaOpencodeAuth);
+    if (!store.accounts.some((a) => a.id === store.selectedAccountId)) {
+      store.selectedAccountId = store.accounts[0]?.id;
+    }
+    return before - store.accounts.length;
+  });
+}
+
+/** Persist the account-selection strategy used by the proxy. */
+export async function setAccountStrategy(strategy: AccountStrategy): Promise<void> {
+  await mutateStore((store) => {
+    store.settings = { ...store.settings, accountStrategy: strategy };
+  });
+}
+
+/**
+ * Read the rotation state. Never throws: the state is advisory, and a
+ * missing or corrupt file just means "no account is known to be limited".
+ */
+export function loadAccountState(): AccountStateFile {
+  const empty: AccountStateFile = { version: ACCOUNT_STATE_VERSION, accounts: {} };
+  try {
+    const parsed = readSecureJson(path.join(getCredentialsDir(), ACCOUNT_STATE_FILENAME));
+    if (!parsed || typeof parsed !== 'object') return empty;
+    const v = parsed as Partial<AccountStateFile>;
+    if (v.version !== ACCOUNT_STATE_VERSION || !v.accounts || typeof v.accounts !== 'object') return empty;
+    return { version: ACCOUNT_STATE_VERSION, accounts: v.accounts, lastAccountId: v.lastAccountId };
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Read-modify-write one account's rotation state under the store lock, so
+ * concurrent proxy processes don't lose each other's limit marks.
+ */
+export async function updateAccountState(
+  accountId: string,
+  fn: (state: AccountRuntimeState, file: AccountStateFile) => void,
+): Promise<void> {
+  ensureDir();
+  await withLock(() => {
+    const file = loadAccountState();
+    const state = file.accounts[accountId] ?? { requestCount: 0 };
+    fn(state, file);
+    file.accounts[accountId] = state;
+    writeSecureJson(path.join(getCredentialsDir(), ACCOUNT_STATE_FILENAME), file);
+  });
+}
+
+/**
+ * Read the active account's credentials. Returns null if none exist; throws
+ * if the store exists but is malformed.
+ */
+export function loadCredentials(): StoredAccount | null {
+  return getActiveAccount(loadAccounts());
+}
+
+/** Sign out of the active account. Returns false when nobody was signed in. */
+export async function deleteCredentials(): Promise<boolean> {
+  const active = getActiveAccount(loadAccounts());
+  if (!active) return false;
+  await removeAccount(active.id);
   return true;
 }
 
@@ -224,3 +524,18 @@ function isPersistedCredentials(value: unknown): value is PersistedCredentials {
     typeof v.oauthClientId === 'string'
   );
 }
+
+function isAccountsStore(value: unknown): value is AccountsStore {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.version === 'number' &&
+    Array.isArray(v.accounts) &&
+    v.accounts.every((a) => {
+      if (!isPersistedCredentials(a)) return false;
+      const acct = a as unknown as Record<string, unknown>;
+      return typeof acct.id === 'string' && typeof acct.label === 'string' && typeof acct.addedAt === 'string';
+    }) &&
+    (v.selectedAccountId === undefined || typeof v.selectedAccountId === 'string')
+  );
+}
@@ -16,6 +16,8 @@
  *    The plugin treats it as an opaque string — only the cloud cares about format.
  */
 
+import type { PluginSettings, RateLimitState } from '../plugin/types.js';
+
 export interface OAuthLoginResult {
   /** The opaque API key used as `Metadata.api_key` in every Cascade RPC. */
   apiKey: string;
@@ -69,3 +71,67 @@ export const DEFAULT_REGION: WindsurfRegion = {
   // we re-extract it.
   oauthClientId: '3GUryQ7ldAeKEuD2obYnppsnmj58eP5u',
 };
+
+/**
+ * One signed-in account in the multi-account store. Extends the single-account
+ * credential shape so every `PersistedCredentials` consumer (proxy auth gate,
+ * chat path, sync script) keeps working on whichever account is active.
+ */
+export interface StoredAccount extends PersistedCredentials {
+  /** Stable local id (`acct_<8 hex>`), never shown to the cloud. */
+  id: string;
+  /** User-facing handle for `accounts use|rename|remove` (`personal`, `team`). */
+  label: string;
+  /** ISO timestamp the account was first added to this store. */
+  addedAt: string;
+}
+
+/** Current on-disk format version of {@link AccountsStore}. */
+export const ACCOUNTS_STORE_VERSION = 1;
+
+/**
+ * `accounts.json` — every signed-in account plus which one the proxy uses.
+ * Versioned so a future format change can migrate instead of misreading.
+ */
+export interface AccountsStore {
+  version: number;
+  accounts: StoredAccount[];
+  /** Id of the active account. Falls back to the first account when unset or stale. */
+  selectedAccountId?: string;
+  /** Store-wide preferences, set via `opencode-windsurf-auth accounts strategy`. */
+  settings?: {
+    /** How the proxy picks an account per request. Default `sticky`. */
+    accountStrategy?: AccountStrategy;
+  };
+}
+
+/**
+ * - `sticky`      — always the active account; others only while it's rate limited.
+ * - `round-robin` — cycle through every account, one request each.
+ * - `least-used`  — the account with the fewest requests so far.
+ */
+export type AccountStrategy = PluginSettings['accountStrategy'];
+
+/** Per-account runtime state the proxy keeps for rotation decisions. */
+export interface AccountRuntimeState {
+  rateLimit?: RateLimitState;
+  /** Epoch ms of the last request that streamed successfully. */
+  lastUsedAt?: number;
+  /** Successful requests served — drives `least-used`. */
+  requestCount: number;
+}
+
+/**
+ * `account-state.json` — rate-limit and usage state, shared by every proxy
+ * process so a limit hit in one opencode window is honoured by the others.
+ * Kept apart from `accounts.json` because it changes on every request and
+ * holds nothing secret.
+ */
+export interface AccountStateFile {
+  version: number;
+  /** Keyed by {@link StoredAccount.id}. */
+  accounts: Record<string, AccountRuntimeState>;
+  /** Last account a request went to — the `round-robin` cursor. */
+  lastAccountId?: string;
+}
+
@@ -66,50 +66,63 @@ const debugLog = (() => {
     },
   };
 })();
-import { WindsurfCredentials, WindsurfError } from './plugin/auth.js';
+import { WindsurfCredentials } from './plugin/auth.js';
 import { resolveCredentials } from './plugin/credentials-resolver.js';
-import { loadCredentials as loadOAuthCredentials } from './oauth/storage.js';
-import type { ChatHistoryItem } from './cloud-direct/index.js';
+import { loadAccounts as loadOAuthAccounts } from './oauth/storage.js';
+import type { ChatHistoryItem, CloudChatEvent, CloudChatRequest, ImagePreprocessOptions, ToolDef as CloudToolDef } from './cloud-direct/index.js';
+import type { ChatCompletionRequest } from './plugin/types.js';
 import {
   getDefaultModel,
-  getCanonicalModels,
-  getModelVariants,
   resolveModel,
 } from './plugin/models.js';
+import {
+  encodeResponsesEvent,
+  responsesToChatCompletion,
+  ResponsesEventBuilder,
+  ResponsesRequestError,
+  type ResponseObject,
+  type ResponsesEvent,
+  type ResponsesRequest,
+} from './plugin/responses-api.js';
+import {
+  anthropicErrorBody,
+  encodeMessagesEvent,
+  messagesToChatCompletion,
+  MessagesEventBuilder,
+  MessagesRequestError,
+  type MessageObject,
+  type MessagesEvent,
+  type MessagesRequest,
+} from './plugin/messages-api.js';
+import { resolveSamplingOptions, SamplingParamError } from './plugin/sampling.js';
+import { anthropicErrorType, classifyProxyError, errorHeaders, openAIErrorBody, RequestParamError } from './plugin/proxy-errors.js';
+import { clampMaxOutputTokens, resolveModelLimits } from './plugin/model-limits.js';
+import { listModelsFromCatalog } from './plugin/model-listing.js';
+import { applyImagePolicy, resolveImageLimits, resolveImagePolicy, resolveRecentImageTurns } from './plugin/image-policy.js';
+import { budgetPrompt, resolveContextOverflowPolicy } from './plugin/prompt-budget.js';
+import { CONVERSATION_HEADER, resolveConversation, type ConversationIdentity } from './plugin/conversation.js';
+import { appendDiagnosticHeaders, lateDiagnosticComments, type Diagnostics } from './plugin/diagnostics.js';
+import { resolveRetryPolicy, streamWithRetry, type RetryPolicy } from './plugin/upstream-retry.js';
+import { parseEmulatedToolCalls, resolveToolCalling, withEmulatedTools, type ToolCallingMode } from './plugin/tool-emulation.js';
+import { applyToolVerdicts, cloudToolProbe, streamWithToolBisect } from './plugin/tool-bisect.js';
+import { cloudSummarizer, compactHistory, resolveCompaction } from './plugin/compaction.js';
+import { bufferToolCalls, resolveBufferToolCalls, toolRepairHeader } from './plugin/tool-call-repair.js';
+import { streamWithAccountRotation } from './plugin/account-rotation.js';
+import {
+  DEFAULT_TOOL_CHOICE,
+  requiresToolCall,
+  resolveToolChoice,
+  streamWithToolChoice,
+  toolsForChoice,
+  withToolChoiceInstruction,
+  type ToolChoicePolicy,
+} from './plugin/tool-choice.js';
 import { PLUGIN_ID } from './constants.js';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface ChatCompletionRequest {
-  model?: string;
-  messages: Array<{
-    role: string;
-    content: string | Array<{ type: string; text?: string }>;
-    /** Present on `role:'tool'` messages — the call id this result answers. */
-    tool_call_id?: string;
-    /** Present on `role:'assistant'` messages — tools the assistant called. */
-    tool_calls?: Array<{
-      id?: string;
-      type?: string;
-      function?: { name?: string; arguments?: string };
-    }>;
-  }>;
-  stream?: boolean;
-  temperature?: number;
-  max_tokens?: number;
-  tools?: Array<{
-    type?: string;
-    function?: {
-      name?: string;
-      description?: string;
-      parameters?: Record<string, unknown>;
-    };
-  }>;
-  providerOptions?: Record<string, unknown>;
-}
-
 type ToolDef = NonNullable<ChatCompletionRequest['tools']>[number];
 
 /**
@@ -141,6 +154,15 @@ function mapMessageToHistoryItem(m: ChatCompletionRequest['messages'][number]):
   return item;
 }
 
+/** The request's OpenAI `tools` as cloud-direct ToolDefs. */
+function cloudToolsOf(request: ChatCompletionRequest): CloudToolDef[] {
+  return (request.tools ?? []).map((t) => ({
+    name: t.function?.name ?? 'unknown',
+    description: t.function?.description ?? '',
+    parameters: t.function?.parameters ?? {},
+  }));
+}
+
 function extractVariantFromProviderOptions(providerOptions: Record<string, unknown> | undefined): string | undefined {
   if (!providerOptions) return undefined;
   const windsurfRaw = providerOptions['windsurf'];
@@ -175,6 +197,288 @@ interface ChatCompletionResponse {
 // Response Helpers
 // ============================================================================
 
+/**
+ * A chat request with everything that must be settled before the HTTP
+ * response starts: the resolved model UID and the full CompletionConfiguration
+ * overrides. Anything the proxy adjusted on the caller's behalf is listed in
+ * `warnings` and `toolRepairs`; see plugin/diagnostics.ts for how they reach
+ * the caller.
+ */
+interface PreparedCloudRequest extends Diagnostics {
+  request: ChatCompletionRequest;
+  modelId: string;
+  modelUid: string;
+  completionOpts: NonNullable<CloudChatRequest['completionOpts']>;
+  /** Which cached session/cascade pair this request continues. */
+  conversation: ConversationIdentity;
+  /** Transient-failure retry budget and TTFB timeout for this model. */
+  retryPolicy: RetryPolicy;
+  /** Caller overrides for image downscaling; cloud-direct fills in model defaults. */
+  imageOptions: Partial<ImagePreprocessOptions>;
+  /** Images older than this many user turns are dropped; undefined keeps all. */
+  recentImageTurns?: number;
+  /** `request.tools` as cloud-direct ToolDefs, minus known-rejected ones. */
+  tools: CloudToolDef[];
+  /** `request.messages` as cloud-direct history, after any compaction or trimming. */
+  history: ChatHistoryItem[];
+  /** Prompt size per cloud-direct/tokenizer.ts, after any trimming. */
+  estimatedPromptTokens: number;
+  /** `tool_choice` / `parallel_tool_calls`, enforced by plugin/tool-choice.ts. */
+  toolChoice: ToolChoicePolicy;
+  /** `emulated`: tools go in the prompt and calls are parsed from text; see plugin/tool-emulation.ts. */
+  toolCalling: ToolCallingMode;
+  /** Hold tool calls until complete and repair their arguments; see plugin/tool-call-repair.ts. */
+  bufferToolCalls: boolean;
+}
+
+/**
+ * Resolve model, limits and sampling knobs for an OpenAI-shaped chat
+ * request. Routes call this before opening their response so validation
+ * failures ({@link SamplingParamError}, {@link RequestParamError}) can
+ * still become a 400 and clamp warnings can still become headers.
+ */
+async function prepareCloudRequest(
+  credentials: WindsurfCredentials,
+  request: ChatCompletionRequest,
+  conversationHeader: string | null,
+  signal?: AbortSignal,
+): Promise<PreparedCloudRequest> {
+  const requestedModel = request.model || getDefaultModel();
+  const variantOverride = extractVariantFromProviderOptions(request.providerOptions);
+  const resolved = resolveModel(requestedModel, variantOverride);
+  const imagePolicy = resolveImagePolicy(request);
+  const imageOptions = resolveImageLimits(request);
+
+  // temperature / top_p / top_k / stop / seed, merged with any
+  // `providerOptions.windsurf.*` pins. Throws SamplingParamError → 400.
+  const sampling = resolveSamplingOptions(request);
+
+  // Context window: live catalog `max_tokens` first, static family table
+  // second. Shares streamChatEvents' catalog cache, so the pre-flight there
+  // doesn't pay a second roundtrip. A failed fetch just means table limits.
+  const { getCachedCatalog, estimatePromptTokens, fitToolDescriptions } = await import('./cloud-direct/index.js');
+  const host = (credentials.apiServerUrl ?? 'https://server.codeium.com').replace(/\/$/, '');
+  const catalog = await getCachedCatalog(credentials.apiKey, host, signal).catch(() => null);
+  const catalogEntry = catalog?.byUid.get(resolved.modelUid);
+  const limits = resolveModelLimits(resolved.modelId, resolved.modelUid, catalogEntry?.maxTokens);
+
+  // Images for a text-only model: 400 or strip, per the image policy.
+  // Throws ImageNotSupportedError → 400 under the default `reject`.
+  const images = applyImagePolicy(request, resolved.modelId, catalogEntry?.supportsImages, imagePolicy);
+  request = images.request;
+
+  // Thread the caller's `max_tokens` into the proto's
+  // `CompletionConfiguration.max_output_tokens` (proto field #3).
+  // Without this we used to ship a hardcoded 4096-token cap — way
+  // below what swe-1.6 / gpt-5.5 / claude-opus-4.7 advertise (32K-128K
+  // output) — which caused long agentic responses to silently
+  // truncate before the model could write the final answer. Requests
+  // above the model's known output cap are clamped (with a warning)
+  // instead of being sent as-is and rejected or truncated upstream.
+  const requestedMaxTokens = typeof request.max_tokens === 'number' ? request.max_tokens : undefined;
+  const output = clampMaxOutputTokens(requestedMaxTokens, limits, resolved.modelId);
+
+  // Identify the conversation before compaction or trimming rewrite the
+  // prefix it's hashed from.
+  const conversation = resolveConversation(request, conversationHeader);
+
+  const recentImageTurns = resolveRecentImageTurns(request);
+  // tool_choice / parallel_tool_calls have no proto field; they're enforced
+  // by narrowing the tools, an instruction, and checking the reply (see
+  // plugin/tool-choice.ts). Throws RequestParamError → 400.
+  let toolChoice = resolveToolChoice(request);
+  // Tools the cloud is known to reject (found by an earlier bisect, see
+  // plugin/tool-bisect.ts) go out sanitized or not at all.
+  const vetted = applyToolVerdicts(toolsForChoice(cloudToolsOf(request), toolChoice));
+  const tools = vetted.tools;
+  if (requiresToolCall(toolChoice) && tools.length === 0) {
+    // The forced tool was rejected by the cloud and dropped (its verdict
+    // warning says so); there is nothing left to require.
+    toolChoice = DEFAULT_TOOL_CHOICE;
+  }
+  // Models without native function calling get the tools in the prompt
+  // instead (plugin/tool-emulation.ts). Throws RequestParamError → 400.
+  const toolCalling = resolveToolCalling(request, resolved.modelUid);
+  // Sized as sent: streamCloudEvents appends the tool_choice instruction
+  // and, when emulating, renders tools and tool turns as text.
+  const estimate = (messages: ChatHistoryItem[]) => estimatePromptTokens({
+    modelUid: resolved.modelUid,
+    messages: toolCalling === 'emulated'
+      ? withEmulatedTools(withToolChoiceInstruction(messages, toolChoice), tools)
+      : withToolChoiceInstruction(messages, toolChoice),
+    tools: toolCalling === 'emulated' ? [] : tools,
+    completionOpts: { maxInputTokens: limits.contextTokens },
+    recentImageTurns,
+  });
+  let history = request.messages.map((m) => mapMessageToHistoryItem(m));
+  const warnings = [images.warning, output.warning, ...vetted.warnings].filter((w): w is string => w !== undefined);
+
+  // cloud-direct moves descriptions over the validator's limit into a tool
+  // manual (tool-descriptions.ts); say which ones so a confused model
+  // can be traced back to it.
+  const toolChanges = toolCalling === 'native' ? fitToolDescriptions(tools).changes : [];
+  if (toolChanges.length > 0) {
+    const labels: Record<string, string> = { 'collapsed': 'whitespace collapsed', 'examples-moved': 'examples moved to tool manual', 'split': 'split into tool manual' };
+    warnings.push(`tool descriptions over the cloud limit: ${toolChanges.map((c) => `${c.name} (${labels[c.action]})`).join(', ')}`);
+  }
+
+  // Opt-in history compaction (tool-output truncation, summaries, dropping
+  // old turns) once the prompt nears the context window; see
+  // plugin/compaction.ts.
+  const compaction = resolveCompaction(request);
+  if (compaction) {
+    const compacted = await compactHistory(history, compaction, {
+      contextTokens: limits.contextTokens,
+      estimate,
+      summarize: cloudSummarizer(credentials, compaction.summaryModel, signal),
+      log: (msg) => debugLog.log(msg),
+    });
+    history = compacted.messages;
+    debugLog.log(`[windsurf-plugin] compaction: est. ${compacted.before} → ${compacted.after} tokens (applied: ${compacted.applied.join(', ') || 'none'})`);
+    if (compacted.applied.length > 0) {
+      warnings.push(`compacted history with ${compacted.applied.join(', ')} (est. ${compacted.before} -> ${compacted.after} tokens)`);
+    }
+  }
+
+  // Size the prompt before paying for a roundtrip: under the `reject` or
+  // `trim` overflow policy, anything that can't fit the context window
+  // beside the reply's output budget is refused (ContextOverflowError →
+  // 400) or trimmed.
+  const budget = budgetPrompt(
+    history,
+    resolved.modelId,
+    { contextTokens: limits.contextTokens, maxOutputTokens: output.maxOutputTokens },
+    resolveContextOverflowPolicy(request),
+    estimate,
+  );
+  history = budget.messages;
+  if (budget.warning) warnings.push(budget.warning);
+
+  debugLog.log(`[windsurf-plugin] limits for ${resolved.modelUid}: context=${limits.contextTokens} (${limits.source}) output=${output.maxOutputTokens} estimated-prompt=${budget.estimatedTokens}`);
+
+  return {
+    request,
+    modelId: resolved.modelId,
+    modelUid: resolved.modelUid,
+    completionOpts: {
+      maxInputTokens: limits.contextTokens,
+      maxOutputTokens: output.maxOutputTokens,
+      ...sampling,
+    },
+    tools,
+    history,
+    conversation,
+    retryPolicy: resolveRetryPolicy(resolved.modelId, resolved.modelUid, request),
+    imageOptions,
+    recentImageTurns,
+    estimatedPromptTokens: budget.estimatedTokens,
+    toolChoice,
+    toolCalling,
+    bufferToolCalls: resolveBufferToolCalls(request),
+    warnings,
+    toolRepairs: [],
+  };
+}
+
+/**
+ * Response headers for a prepared request: `base`, the prompt estimate,
+ * one `X-Windsurf-Warning` per warning and one `X-Windsurf-Tool-Repair` per
+ * repaired tool call.
+ */
+function preparedHeaders(prepared: PreparedCloudRequest, base: Record<string, string>): Headers {
+  const headers = new Headers(base);
+  headers.set('X-Windsurf-Estimated-Prompt-Tokens', String(prepared.estimatedPromptTokens));
+  appendDiagnosticHeaders(headers, prepared);
+  return headers;
+}
+
+/** Write the diagnostics that missed a streaming response's headers into its SSE stream. */
+function sendLateDiagnostics(controller: ReadableStreamDefaultController<Uint8Array>, prepared: PreparedCloudRequest): void {
+  const comments = lateDiagnosticComments(prepared);
+  if (comments) controller.enqueue(new TextEncoder().encode(comments));
+}
+
+/**
+ * Open the cloud-direct event stream for a prepared request. Every proxy
+ * route (`/v1/chat/completions`, `/v1/responses`, `/v1/messages`) funnels
+ * through here so the request → GetChatMessage mapping lives in exactly one
+ * place; the routes only differ in how they serialise the resulting
+ * CloudChatEvents.
+ */
+async function* streamCloudEvents(
+  credentials: WindsurfCredentials,
+  prepared: PreparedCloudRequest,
+  signal?: AbortSignal,
+): AsyncGenerator<CloudChatEvent> {
+  const { tools } = prepared;
+
+  const { streamChatEvents } = await import('./cloud-direct/index.js');
+  const emulated = prepared.toolCalling === 'emulated';
+  const log = (msg: string) => debugLog.log(msg);
+  const warn = (warning: string) => {
+    // Non-streaming routes build their headers after the stream ends;
+    // streaming ones send it in-band (plugin/diagnostics.ts).
+    prepared.warnings.push(warning);
+    log(`[windsurf-plugin] ${warning}`);
+  };
+  debugLog.log(`[windsurf-plugin] streamChatEvents starting (model=${prepared.modelUid}, msgs=${prepared.history.length}, tools=${tools.length}, conversation=${prepared.conversation.conversationKey}${emulated ? ', tool calling emulated' : ''})`);
+  // A rate-limited account fails over to the next signed-in one, and a 5xx /
+  // TTFB timeout is retried on the same account, both before any event
+  // reaches the client and within one deadline for the pair; see
+  // plugin/account-rotation.ts and upstream-retry.ts.
+  // Around that, a tool rejection ("MCP configuration issue") is bisected to
+  // the offending tool and retried without it; see plugin/tool-bisect.ts.
+  // Cloud-direct accepts the FULL @ai-sdk multimodal content shape
+  // (text + image_url parts), so the history goes straight through;
+  // streamChatEvents → normalizeContent handles it.
+  const upstream = (messages: ChatHistoryItem[], sendTools: CloudToolDef[]) => {
+    const deadline = Date.now() + prepared.retryPolicy.deadlineMs;
+    return streamWithAccountRotation(credentials, (account) => streamWithRetry(prepared.retryPolicy, (ttfbTimeoutMs) => streamChatEvents({
+      apiKey: account.apiKey,
+      apiServerUrl: account.apiServerUrl,
+      modelUid: prepared.modelUid,
+      messages,
+      tools: sendTools.length > 0 ? sendTools : undefined,
+      completionOpts: prepared.completionOpts,
+      cascadeId: prepared.conversation.cascadeId,
+      conversationKey: prepared.conversation.conversationKey,
+      ttfbTimeoutMs,
+      imageOptions: prepared.imageOptions,
+      recentImageTurns: prepared.recentImageTurns,
+      log,
+      // Propagate the caller's abort so a client disconnect actually stops
+      // the upstream cloud request and the billable token usage with it.
+      signal,
+    }), signal, log, deadline), log);
+  };
+  const send = (messages: ChatHistoryItem[]) =>
+    streamWithToolBisect(emulated ? [] : tools, (sendTools) => upstream(messages, sendTools), cloudToolProbe(credentials, prepared.modelUid, signal), warn, log);
+  // Emulated tool calling: the tools travel in the prompt and `<tool_call>`
+  // blocks in the reply become tool-call events; see plugin/tool-emulation.ts.
+  const open = (messages: ChatHistoryItem[]) => (emulated
+    ? parseEmulatedToolCalls(send(withEmulatedTools(messages, tools)), tools, log)
+    : send(messages));
+  // Outermost, tool_choice: a reply missing a required call is retried
+  // with a firmer instruction; see plugin/tool-choice.ts.
+  const events = streamWithToolChoice(
+    prepared.toolChoice,
+    (firm) => open(withToolChoiceInstruction(prepared.history, prepared.toolChoice, firm)),
+    warn,
+    log,
+  );
+  if (!prepared.bufferToolCalls) {
+    yield* events;
+    return;
+  }
+  // Buffered mode: tool calls come out whole, with repaired arguments,
+  // reported like warnings.
+  yield* bufferToolCalls(events, tools, (repair) => {
+    const header = toolRepairHeader(repair);
+    prepared.toolRepairs.push(header);
+    log(`[windsurf-plugin] tool-call repair: ${header}`);
+  });
+}
+
 /**
  * Create a streaming response. Cloud-direct only — every message routes through
  * `streamChatEvents`, which yields text / reasoning / tool_call deltas straight
@@ -184,34 +488,17 @@ interface ChatCompletionResponse {
  */
 function createStreamingResponse(
   credentials: WindsurfCredentials,
-  request: ChatCompletionRequest
+  prepared: PreparedCloudRequest,
 ): ReadableStream<Uint8Array> {
   const encoder = new TextEncoder();
   const responseId = `chatcmpl-${crypto.randomUUID()}`;
-  const requestedModel = request.model || getDefaultModel();
-  const variantOverride = extractVariantFromProviderOptions(request.providerOptions);
+  const requestedModel = prepared.request.model || getDefaultModel();
 
   const abort = new AbortController();
 
   return new ReadableStream({
     async start(controller) {
       try {
-        const resolved = resolveModel(requestedModel, variantOverride);
-
-        const tools = (request.tools ?? []).map((t) => ({
-          name: t.function?.name ?? 'unknown',
-          description: t.function?.description ?? '',
-          parameters: t.function?.parameters ?? {},
-        }));
-
-        const { streamChatEvents } = await import('./cloud-direct/index.js');
-        // Cloud-direct accepts the FULL @ai-sdk multimodal content shape
-        // (text + image_url parts). We pass `request.messages` straight
-        // through; streamChatEvents → normalizeContent handles it.
-        // The OpenAI request shape allows wider element shapes than
-        // cloud-direct's ContentPart; normalizeContent re-validates server
-        // side, so cast through the public ChatHistoryItem type.
-        const multimodalMessages: ChatHistoryItem[] = request.messages.map((m) => mapMessageToHistoryItem(m));
         let toolCallIndex = -1;
         // Map from cloud's tool-call id → the index we assigned it in the
         // OpenAI-shaped output. Cloud streams args by id; we need to route
@@ -225,38 +512,9 @@ function createStreamingResponse(
         let usage: { promptTokens?: number; completionTokens?: number; totalTokens?: number } | null = null;
         let firstChunkSent = false;
         const t0 = Date.now();
-        debugLog.log(`[windsurf-plugin] streamChatEvents starting (model=${resolved.modelUid}, msgs=${multimodalMessages.length}, tools=${tools.length})`);
         let eventCount = 0;
         let textBytes = 0;
-        // Thread the caller's `max_tokens` into the proto's
-        // `CompletionConfiguration.max_output_tokens` (proto field #3).
-        // Without this we used to ship a hardcoded 4096-token cap — way
-        // below what swe-1.6 / gpt-5.5 / claude-opus-4.7 advertise (32K-128K
-        // output) — which caused long agentic responses to silently
-        // truncate before the model could write the final answer. The
-        // model's reasoning would happily fill 4096 tokens and the visible
-        // answer never arrived.
-        //
-        // Resolution order:
-        //   1. `request.max_tokens` (opencode/ai-sdk side, set per call)
-        //   2. 128_000 fallback — matches the catalog's `maxOutputTokens`
-        //      for the most permissive models. The cloud clamps to the
-        //      per-model limit anyway.
-        const requestedMaxTokens =
-          typeof request.max_tokens === 'number' && request.max_tokens > 0
-            ? request.max_tokens
-            : 128_000;
-        for await (const ev of streamChatEvents({
-          apiKey: credentials.apiKey,
-          apiServerUrl: credentials.apiServerUrl,
-          modelUid: resolved.modelUid,
-          messages: multimodalMessages,
-          tools: tools.length > 0 ? tools : undefined,
-          signal: abort.signal,
-          completionOpts: {
-            maxOutputTokens: requestedMaxTokens,
-          },
-        })) {
+        for await (const ev of streamCloudEvents(credentials, prepared, abort.signal)) {
           eventCount++;
           if (eventCount === 1) debugLog.log(`[windsurf-plugin] streamChatEvents first event after ${Date.now() - t0}ms (kind=${ev.kind})`);
           // @ai-sdk expects `delta.role: 'assistant'` on the *first* chunk
@@ -384,6 +642,7 @@ function createStreamingResponse(
           model: requestedModel,
           choices: [{ index: 0, delta: {}, finish_reason: finalReason }],
         };
+        sendLateDiagnostics(controller, prepared);
         controller.enqueue(encoder.encode(`data: ${JSON.stringify(finishChunk)}\n\n`));
 
         if (usage) {
@@ -418,11 +677,15 @@ function createStreamingResponse(
         //      so the adapter resolves the stream as terminated (not stuck
         //      waiting for more deltas),
         //   3. emit `data: [DONE]\n\n` per OpenAI SSE spec.
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        debugLog.log(`[windsurf-plugin] streaming error: ${errorMessage}`);
+        //
+        // The error event carries the same type / code / trace_id as a
+        // non-streaming failure (plugin/proxy-errors.ts).
+        const info = classifyProxyError(error);
+        debugLog.log(`[windsurf-plugin] streaming error (${info.code}${info.traceId ? `, trace ${info.traceId}` : ''}): ${info.message}`);
         try {
+          sendLateDiagnostics(controller, prepared);
           controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ error: { message: errorMessage } })}\n\n`),
+            encoder.encode(`data: ${JSON.stringify(openAIErrorBody(info))}\n\n`),
           );
           const finishChunk = {
             id: responseId,
@@ -453,28 +716,11 @@ function createStreamingResponse(
  */
 async function createNonStreamingResponse(
   credentials: WindsurfCredentials,
-  request: ChatCompletionRequest,
+  prepared: PreparedCloudRequest,
   signal?: AbortSignal,
 ): Promise<ChatCompletionResponse> {
   const responseId = `chatcmpl-${crypto.randomUUID()}`;
-  const requestedModel = request.model || getDefaultModel();
-  const variantOverride = extractVariantFromProviderOptions(request.providerOptions);
-  const resolved = resolveModel(requestedModel, variantOverride);
-
-  const tools = (request.tools ?? []).map((t) => ({
-    name: t.function?.name ?? 'unknown',
-    description: t.function?.description ?? '',
-    parameters: t.function?.parameters ?? {},
-  }));
-
-  const multimodalMessages: ChatHistoryItem[] = request.messages.map((m) => mapMessageToHistoryItem(m));
-
-  const { streamChatEvents } = await import('./cloud-direct/index.js');
-
-  const requestedMaxTokens =
-    typeof request.max_tokens === 'number' && request.max_tokens > 0
-      ? request.max_tokens
-      : 128_000;
+  const requestedModel = prepared.request.model || getDefaultModel();
 
   let collected = '';
   let finishReason: 'stop' | 'tool_calls' | 'length' | 'content_filter' = 'stop';
@@ -488,20 +734,10 @@ async function createNonStreamingResponse(
   const collectedToolCalls: CollectedToolCall[] = [];
   let currentToolCall: CollectedToolCall | null = null;
 
-  for await (const ev of streamChatEvents({
-    apiKey: credentials.apiKey,
-    apiServerUrl: credentials.apiServerUrl,
-    modelUid: resolved.modelUid,
-    messages: multimodalMessages,
-    tools: tools.length > 0 ? tools : undefined,
-    completionOpts: {
-      maxOutputTokens: requestedMaxTokens,
-    },
-    // Propagate the caller's abort so a client disconnect during a
-    // non-streaming title-gen / summary call actually stops the upstream
-    // cloud request and the billable token usage with it.
-    signal,
-  })) {
+  // Propagate the caller's abort so a client disconnect during a
+  // non-streaming title-gen / summary call actually stops the upstream
+  // cloud request and the billable token usage with it.
+  for await (const ev of streamCloudEvents(credentials, prepared, signal)) {
     if (ev.kind === 'text') {
       collected += ev.text;
     } else if (ev.kind === 'tool_call_start') {
@@ -576,6 +812,133 @@ async function createNonStreamingResponse(
   return response;
 }
 
+/**
+ * Stream a `/v1/responses` call. The body has already been folded into a
+ * ChatCompletionRequest by `responsesToChatCompletion`; here we run it
+ * through the shared cloud-direct path and let ResponsesEventBuilder map
+ * every CloudChatEvent kind (text, reasoning, tool calls, usage, finish)
+ * onto Responses-style SSE events.
+ */
+function createResponsesStream(
+  credentials: WindsurfCredentials,
+  prepared: PreparedCloudRequest,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const builder = new ResponsesEventBuilder(prepared.request.model || getDefaultModel());
+  const abort = new AbortController();
+  const emit = (controller: ReadableStreamDefaultController<Uint8Array>, events: ResponsesEvent[]): void => {
+    for (const ev of events) controller.enqueue(encoder.encode(encodeResponsesEvent(ev)));
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      emit(controller, builder.start());
+      try {
+        for await (const ev of streamCloudEvents(credentials, prepared, abort.signal)) {
+          emit(controller, builder.push(ev));
+        }
+        sendLateDiagnostics(controller, prepared);
+        emit(controller, builder.finish());
+        controller.close();
+      } catch (error) {
+        // Same contract as the chat-completions stream: never leave the
+        // client waiting on a stream with no terminal event. Responses
+        // clients key off `response.failed`, so that's our terminator.
+        const info = classifyProxyError(error);
+        debugLog.log(`[windsurf-plugin] /v1/responses streaming error (${info.code}): ${info.message}`);
+        try {
+          sendLateDiagnostics(controller, prepared);
+          emit(controller, builder.fail(info.code, info.message));
+          controller.close();
+        } catch {
+          /* controller already closed (e.g. via cancel) */
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+}
+
+/**
+ * Non-streaming `/v1/responses`: drive the same builder and return only the
+ * final `response` object.
+ */
+async function createResponsesResult(
+  credentials: WindsurfCredentials,
+  prepared: PreparedCloudRequest,
+  signal?: AbortSignal,
+): Promise<ResponseObject> {
+  const builder = new ResponsesEventBuilder(prepared.request.model || getDefaultModel());
+  for await (const ev of streamCloudEvents(credentials, prepared, signal)) {
+    builder.push(ev);
+  }
+  builder.finish();
+  return builder.response;
+}
+
+/**
+ * Stream a `/v1/messages` call as Anthropic SSE. Mirrors
+ * createResponsesStream: the translated request rides the shared
+ * cloud-direct path and MessagesEventBuilder maps each CloudChatEvent onto
+ * `content_block_*` events (reasoning → `thinking` blocks).
+ */
+function createMessagesStream(
+  credentials: WindsurfCredentials,
+  prepared: PreparedCloudRequest,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const builder = new MessagesEventBuilder(prepared.request.model || getDefaultModel());
+  const abort = new AbortController();
+  const emit = (controller: ReadableStreamDefaultController<Uint8Array>, events: MessagesEvent[]): void => {
+    for (const ev of events) controller.enqueue(encoder.encode(encodeMessagesEvent(ev)));
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      emit(controller, builder.start());
+      try {
+        for await (const ev of streamCloudEvents(credentials, prepared, abort.signal)) {
+          emit(controller, builder.push(ev));
+        }
+        sendLateDiagnostics(controller, prepared);
+        emit(controller, builder.finish());
+        controller.close();
+      } catch (error) {
+        // Anthropic SDKs surface a streamed `error` event as an APIError,
+        // so that's the terminator here (no message_stop after it).
+        const info = classifyProxyError(error);
+        debugLog.log(`[windsurf-plugin] /v1/messages streaming error (${info.code}): ${info.message}`);
+        try {
+          sendLateDiagnostics(controller, prepared);
+          emit(controller, builder.fail(info.message, anthropicErrorType(info)));
+          controller.close();
+        } catch {
+          /* controller already closed (e.g. via cancel) */
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+}
+
+/** Non-streaming `/v1/messages`: return the accumulated `message` object. */
+async function createMessagesResult(
+  credentials: WindsurfCredentials,
+  prepared: PreparedCloudRequest,
+  signal?: AbortSignal,
+): Promise<MessageObject> {
+  const builder = new MessagesEventBuilder(prepared.request.model || getDefaultModel());
+  for await (const ev of streamCloudEvents(credentials, prepared, signal)) {
+    builder.push(ev);
+  }
+  builder.finish();
+  return builder.message;
+}
+
 // ============================================================================
 // Local Proxy Server
 // ============================================================================
@@ -709,7 +1072,7 @@ function getGlobalKey(): string {
  * 2s caches that could diverge across an external credential rotation,
  * letting a request authenticated against key-A get forwarded with key-B.
  */
-async function authorizeProxyRequest(req: Request): Promise<Response | null> {
+async function authorizeProxyRequest(req: Request, formatError: ErrorFormatter = openAIError): Promise<Response | null> {
   // 1. Origin gate (HARD) — block browser tabs claiming a foreign origin.
   const origin = req.headers.get('origin');
   if (origin) {
@@ -720,18 +1083,21 @@ async function authorizeProxyRequest(req: Request): Promise<Response | null> {
       (url.protocol === 'http:' || url.protocol === 'https:') &&
       (url.hostname === '127.0.0.1' || url.hostname === 'localhost' || url.hostname === '[::1]');
     if (!allowed) {
-      return openAIError(403, `Forbidden: cross-origin requests are not allowed (Origin=${origin}).`);
+      return formatError(403, `Forbidden: cross-origin requests are not allowed (Origin=${origin}).`);
     }
   }
 
   // 2. Bearer gate (HARD) — Authorization must match either the persisted
   //    Windsurf api_key (opencode's normal flow) or the in-process
   //    PROXY_SECRET (chat.params fallback).
+  //    Anthropic SDKs send the same credential as `x-api-key` instead of
+  //    a Bearer header; it goes through the identical comparison below.
   const authHeader = req.headers.get('authorization') ?? '';
-  if (!authHeader.startsWith('Bearer ')) {
-    return openAIError(401, 'Unauthorized: missing or malformed Authorization header.');
+  const apiKeyHeader = req.headers.get('x-api-key') ?? '';
+  if (!authHeader.startsWith('Bearer ') && (authHeader !== '' || apiKeyHeader === '')) {
+    return formatError(401, 'Unauthorized: missing or malformed Authorization header.');
   }
-  const presented = authHeader.slice('Bearer '.length);
+  const presented = authHeader !== '' ? authHeader.slice('Bearer '.length) : apiKeyHeader;
   // Encode to bytes ONCE. `string.length` returns UTF-16 code-unit count;
   // `Buffer.from(str)` returns the UTF-8 byte representation. A bearer
   // made of 32 emoji has .length===64 (would match a 64-char hex secret
@@ -769,9 +1135,15 @@ async function authorizeProxyRequest(req: Request): Promise<Response | null> {
     }
   } catch { /* not authenticated / missing creds → fall through to 401 */ }
 
-  return openAIError(401, 'Unauthorized: Authorization header did not match the expected credential.');
+  return formatError(401, 'Unauthorized: Authorization header did not match the expected credential.');
 }
 
+/**
+ * Builds an error Response for a route's wire format: {@link openAIError}
+ * for the OpenAI routes, {@link anthropicStatusError} for /v1/messages.
+ */
+type ErrorFormatter = (status: number, message: string, details?: string) => Response;
+
 function openAIError(status: number, message: string, details?: string): Response {
   return new Response(
     JSON.stringify({
@@ -786,6 +1158,83 @@ function openAIError(status: number, message: string, details?: string): Respons
   );
 }
 
+/**
+ * Error response for a failed chat request, with status, `type` / `code`,
+ * trace ID and `Retry-After` from the shared taxonomy in
+ * plugin/proxy-errors.ts.
+ */
+function classifiedOpenAIError(err: unknown): Response {
+  const info = classifyProxyError(err);
+  return new Response(JSON.stringify(openAIErrorBody(info)), { status: info.status, headers: errorHeaders(info) });
+}
+
+/** {@link classifiedOpenAIError} in Anthropic's error envelope. */
+function classifiedAnthropicError(err: unknown): Response {
+  const info = classifyProxyError(err);
+  return new Response(
+    JSON.stringify(anthropicErrorBody(anthropicErrorType(info), info.message)),
+    { status: info.status, headers: errorHeaders(info) },
+  );
+}
+
+function anthropicError(status: number, type: string, message: string): Response {
+  return new Response(
+    JSON.stringify(anthropicErrorBody(type, message)),
+    { status, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/** {@link openAIError}'s signature in Anthropic's envelope, typed by status. */
+function anthropicStatusError(status: number, message: string, details?: string): Response {
+  return anthropicError(status, anthropicErrorType({ status }), details ? `${message}\n${details}` : message);
+}
+
+/**
+ * Shared gates for every POST route, followed by the JSON parse. Returns the
+ * parsed body, or a ready-to-send error Response when a gate trips.
+ */
+async function readJsonBody(req: Request, formatError: ErrorFormatter = openAIError): Promise<{ body: unknown } | Response> {
+  // Method gate — only POST.
+  if (req.method !== 'POST') {
+    return formatError(405, `Method ${req.method} not allowed; use POST.`);
+  }
+  // Content-Type gate — refuse anything that isn't JSON. (Useful
+  // defense-in-depth against confused-deputy attacks where an
+  // attacker tricks the local proxy into parsing form-encoded
+  // junk as a chat request.)
+  const ct = (req.headers.get('content-type') ?? '').toLowerCase();
+  if (!ct.startsWith('application/json')) {
+    return formatError(415, `Unsupported Content-Type: ${ct || '(empty)'}; expected application/json.`);
+  }
+  // Body size gate — opencode never sends >5MB request bodies
+  // (system prompts top out around 200KB). Reject anything 32MB+
+  // before we even try to parse it. Defense against accidental or
+  // hostile request-body floods.
+  // Content-Length pre-check. Number.isFinite filters out NaN
+  // (which `Number('abc')` and missing/malformed headers produce)
+  // — otherwise an attacker setting `Content-Length: oops` would
+  // bypass the cap because `NaN > MAX === false`.
+  const rawLen = req.headers.get('content-length');
+  const declaredLen = rawLen !== null ? Number(rawLen) : 0;
+  if (Number.isFinite(declaredLen) && declaredLen > 32 * 1024 * 1024) {
+    return formatError(413, `Request body too large: ${declaredLen} bytes (max 32 MB).`);
+  }
+  if (rawLen !== null && !Number.isFinite(declaredLen)) {
+    return formatError(400, `Malformed Content-Length: ${rawLen}.`);
+  }
+  // Reject malformed JSON cleanly (used to coerce to {} and 500
+  // when downstream .messages.map blew up).
+  try {
+    return { body: await req.json() };
+  } catch (parseErr) {
+    return formatError(
+      400,
+      'Malformed request body — expected JSON.',
+      parseErr instanceof Error ? parseErr.message : String(parseErr),
+    );
+  }
+}
+
 async function ensureWindsurfProxyServer(): Promise<string> {
   const key = getGlobalKey();
 
@@ -801,8 +1250,12 @@ async function ensureWindsurfProxyServer(): Promise<string> {
   }
 
   const handler = async (req: Request): Promise<Response> => {
+    // /v1/messages answers every error, gates included, in Anthropic's
+    // envelope; Anthropic SDKs can't parse the OpenAI one.
+    let formatError: ErrorFormatter = openAIError;
     try {
       const url = new URL(req.url);
+      if (url.pathname === '/v1/messages' || url.pathname === '/messages') formatError = anthropicStatusError;
 
       // /health is unauthenticated by design — it's only meant to be a
       // "yes, the proxy is up" probe. It carries no PID, no oauth state,
@@ -818,68 +1271,35 @@ async function ensureWindsurfProxyServer(): Promise<string> {
 
       // Every other endpoint requires the per-process Bearer secret +
       // loopback origin.
-      const blocked = await authorizeProxyRequest(req);
+      const blocked = await authorizeProxyRequest(req, formatError);
       if (blocked) return blocked;
 
       // Models endpoint
       if (url.pathname === '/v1/models' || url.pathname === '/models') {
-        const models = getCanonicalModels();
+        // Merge the static list with this account's live catalog so each
+        // model/variant says whether the seat can run it. No credentials or
+        // an unreachable catalog still lists everything, with
+        // `available: null`; `?available=true` then can't filter, and a
+        // warning header says so.
+        const { data, warning } = await listModelsFromCatalog(async () => {
+          const credentials = await resolveCredentials();
+          const { getCachedCatalog } = await import('./cloud-direct/index.js');
+          const host = (credentials.apiServerUrl ?? 'https://server.codeium.com').replace(/\/$/, '');
+          return (await getCachedCatalog(credentials.apiKey, host, req.signal))?.byUid ?? null;
+        }, url.searchParams.get('available') === 'true', (msg) => debugLog.log(msg));
+        const headers = new Headers({ 'Content-Type': 'application/json' });
+        if (warning) headers.append('X-Windsurf-Warning', warning);
         return new Response(
-          JSON.stringify({
-            object: 'list',
-            data: models.map((id) => {
-              const variants = getModelVariants(id);
-              return {
-                id,
-                object: 'model',
-                created: Math.floor(Date.now() / 1000),
-                owned_by: 'windsurf',
-                ...(variants
-                  ? {
-                      variants: Object.entries(variants).map(([name, meta]) => ({
-                        id: name,
-                        description: meta.description,
-                      })),
-                    }
-                  : {}),
-              };
-            }),
-          }),
-          { status: 200, headers: { 'Content-Type': 'application/json' } }
+          JSON.stringify({ object: 'list', data }),
+          { status: 200, headers }
         );
       }
 
       // Chat completions endpoint
       if (url.pathname === '/v1/chat/completions' || url.pathname === '/chat/completions') {
         try {
-          // Method gate — only POST.
-          if (req.method !== 'POST') {
-            return openAIError(405, `Method ${req.method} not allowed; use POST.`);
-          }
-          // Content-Type gate — refuse anything that isn't JSON. (Useful
-          // defense-in-depth against confused-deputy attacks where an
-          // attacker tricks the local proxy into parsing form-encoded
-          // junk as a chat request.)
-          const ct = (req.headers.get('content-type') ?? '').toLowerCase();
-          if (!ct.startsWith('application/json')) {
-            return openAIError(415, `Unsupported Content-Type: ${ct || '(empty)'}; expected application/json.`);
-          }
-          // Body size gate — opencode never sends >5MB request bodies
-          // (system prompts top out around 200KB). Reject anything 32MB+
-          // before we even try to parse it. Defense against accidental or
-          // hostile request-body floods.
-          // Content-Length pre-check. Number.isFinite filters out NaN
-          // (which `Number('abc')` and missing/malformed headers produce)
-          // — otherwise an attacker setting `Content-Length: oops` would
-          // bypass the cap because `NaN > MAX === false`.
-          const rawLen = req.headers.get('content-length');
-          const declaredLen = rawLen !== null ? Number(rawLen) : 0;
-          if (Number.isFinite(declaredLen) && declaredLen > 32 * 1024 * 1024) {
-            return openAIError(413, `Request body too large: ${declaredLen} bytes (max 32 MB).`);
-          }
-          if (rawLen !== null && !Number.isFinite(declaredLen)) {
-            return openAIError(400, `Malformed Content-Length: ${rawLen}.`);
-          }
+          const parsed = await readJsonBody(req);
+          if (parsed instanceof Response) return parsed;
           // resolveCredentials prefers OAuth (no Windsurf required) and falls
           // back to scraping the running Windsurf process. It throws a
           // descriptive WindsurfError if neither is available.
@@ -887,18 +1307,7 @@ async function ensureWindsurfProxyServer(): Promise<string> {
           if (debugLog.enabled) {
             debugLog.log(`[windsurf-plugin] mode=${credentials.cloudDirect ? 'cloud-direct' : 'local-ls'} api=${credentials.apiServerUrl ?? '(default)'}`);
           }
-          // Reject malformed JSON cleanly (used to coerce to {} and 500
-          // when downstream .messages.map blew up).
-          let requestBody: ChatCompletionRequest;
-          try {
-            requestBody = (await req.json()) as ChatCompletionRequest;
-          } catch (parseErr) {
-            return openAIError(
-              400,
-              'Malformed request body — expected JSON.',
-              parseErr instanceof Error ? parseErr.message : String(parseErr),
-            );
-          }
+          const requestBody = parsed.body as ChatCompletionRequest;
           if (!requestBody || typeof requestBody !== 'object' || !Array.isArray(requestBody.messages)) {
             return openAIError(400, 'Malformed request body — `messages` must be an array.');
           }
@@ -952,41 +1361,137 @@ async function ensureWindsurfProxyServer(): Promise<string> {
             }
           }
 
+          // Settle model limits and validate sampling knobs up front: once
+          // the SSE response is open we can no longer answer with a 400 or
+          // attach warning headers.
+          const prepared = await prepareCloudRequest(credentials, requestBody, req.headers.get(CONVERSATION_HEADER), req.signal);
+
           if (isStreaming) {
-            const stream = createStreamingResponse(credentials, requestBody);
+            const stream = createStreamingResponse(credentials, prepared);
             return new Response(stream, {
               status: 200,
-              headers: {
+              headers: preparedHeaders(prepared, {
                 'Content-Type': 'text/event-stream',
                 'Cache-Control': 'no-cache',
                 Connection: 'keep-alive',
-              },
+              }),
             });
           }
 
           // Pass the incoming Request's abort signal so a client-disconnect
           // mid-call propagates through to the cloud-direct stream.
-          const responseData = await createNonStreamingResponse(credentials, requestBody, req.signal);
+          const responseData = await createNonStreamingResponse(credentials, prepared, req.signal);
           return new Response(JSON.stringify(responseData), {
             status: 200,
-            headers: { 'Content-Type': 'application/json' },
+            headers: preparedHeaders(prepared, { 'Content-Type': 'application/json' }),
           });
         } catch (chatError) {
-          if (chatError instanceof WindsurfError) {
-            // Auth/discovery failures are 401/503-ish, not 500 — surface them
-            // with the same JSON shape so the OpenCode CLI prints something
-            // actionable instead of a generic "Chat completion failed".
-            return openAIError(503, chatError.message);
+          // Validation, tier, rate-limit, auth and outage failures each get
+          // their own status so opencode can print something actionable
+          // instead of a generic "Chat completion failed".
+          return classifiedOpenAIError(chatError);
+        }
+      }
+
+      // OpenAI Responses API. Same gates and credentials as chat
+      // completions; the body is translated into a ChatCompletionRequest
+      // so it rides the exact same cloud-direct path.
+      if (url.pathname === '/v1/responses' || url.pathname === '/responses') {
+        try {
+          const parsed = await readJsonBody(req);
+          if (parsed instanceof Response) return parsed;
+          const body = parsed.body as ResponsesRequest;
+          if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return openAIError(400, 'Malformed request body — expected a JSON object.');
+          }
+          let chatRequest: ChatCompletionRequest;
+          try {
+            chatRequest = responsesToChatCompletion(body);
+          } catch (translateErr) {
+            if (translateErr instanceof ResponsesRequestError) {
+              return openAIError(400, translateErr.message);
+            }
+            throw translateErr;
+          }
+          const credentials = await resolveCredentials();
+          if (debugLog.enabled) {
+            debugLog.log(`[windsurf-plugin] /v1/responses: model=${chatRequest.model} stream=${chatRequest.stream === true} tools=${chatRequest.tools?.length ?? 0} msgs=${chatRequest.messages.length}`);
+          }
+
+          const prepared = await prepareCloudRequest(credentials, chatRequest, req.headers.get(CONVERSATION_HEADER), req.signal);
+
+          if (chatRequest.stream === true) {
+            return new Response(createResponsesStream(credentials, prepared), {
+              status: 200,
+              headers: preparedHeaders(prepared, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive',
+              }),
+            });
           }
-          const errMsg = chatError instanceof Error ? chatError.message : String(chatError);
-          return openAIError(500, 'Chat completion failed', errMsg);
+          const responseData = await createResponsesResult(credentials, prepared, req.signal);
+          return new Response(JSON.stringify(responseData), {
+            status: 200,
+            headers: preparedHeaders(prepared, { 'Content-Type': 'application/json' }),
+          });
+        } catch (responsesError) {
+          return classifiedOpenAIError(responsesError);
+        }
+      }
+
+      // Anthropic Messages API for Claude-SDK-based clients. Shares the
+      // Bearer/Origin gate above (Anthropic SDKs present the key as
+      // `x-api-key`, which authorizeProxyRequest also accepts) but answers
+      // errors in Anthropic's `{type:'error', error:{…}}` envelope.
+      if (url.pathname === '/v1/messages' || url.pathname === '/messages') {
+        try {
+          const parsed = await readJsonBody(req, formatError);
+          if (parsed instanceof Response) return parsed;
+          const body = parsed.body as MessagesRequest;
+          if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return anthropicError(400, 'invalid_request_error', 'Malformed request body — expected a JSON object.');
+          }
+          let chatRequest: ChatCompletionRequest;
+          try {
+            chatRequest = messagesToChatCompletion(body);
+          } catch (translateErr) {
+            if (translateErr instanceof MessagesRequestError) {
+              return anthropicError(400, 'invalid_request_error', translateErr.message);
+            }
+            throw translateErr;
+          }
+          const credentials = await resolveCredentials();
+          if (debugLog.enabled) {
+            debugLog.log(`[windsurf-plugin] /v1/messages: model=${chatRequest.model} stream=${chatRequest.stream === true} tools=${chatRequest.tools?.length ?? 0} msgs=${chatRequest.messages.length}`);
+          }
+
+          const prepared = await prepareCloudRequest(credentials, chatRequest, req.headers.get(CONVERSATION_HEADER), req.signal);
+
+          if (chatRequest.stream === true) {
+            return new Response(createMessagesStream(credentials, prepared), {
+              status: 200,
+              headers: preparedHeaders(prepared, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive',
+              }),
+            });
+          }
+          const responseData = await createMessagesResult(credentials, prepared, req.signal);
+          return new Response(JSON.stringify(responseData), {
+            status: 200,
+            headers: preparedHeaders(prepared, { 'Content-Type': 'application/json' }),
+          });
+        } catch (messagesError) {
+          return classifiedAnthropicError(messagesError);
         }
       }
 
       return openAIError(404, `Unsupported path: ${url.pathname}`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      return openAIError(500, 'Proxy error', message);
+      return formatError(500, 'Proxy error', message);
     }
   };
 
@@ -1207,17 +1712,18 @@ export const createWindsurfPlugin =
 
         /**
          * loader runs once at plugin load + whenever opencode wants to refresh
-         * provider info. Two-way mirror with credentials.json:
+         * provider info. Two-way mirror with the accounts store:
          *
-         *   - opencode auth has a key → mirror to credentials.json (if file is
-         *     missing or stale)
+         *   - opencode auth has a key → mirror into the store (if no account
+         *     holds that key yet)
          *   - opencode auth was CLEARED via `opencode auth logout windsurf` →
-         *     clear credentials.json so we don't keep using a stale token
+         *     remove the opencode-synced accounts so we don't keep using a
+         *     stale token
          *
          * The CLI flow (`npx opencode-windsurf-auth login`) doesn't touch
-         * opencode's auth store, so we DON'T delete credentials.json just
+         * opencode's auth store, so we DON'T delete its accounts just
          * because opencode's store happens to be empty — we check via the
-         * `lastSyncedViaOpencode` marker.
+         * `syncedViaOpencodeAuth` marker.
          */
         async loader(getAuth: () => Promise<Auth>) {
           try {
@@ -1245,32 +1751,35 @@ export const createWindsurfPlugin =
               await new Promise((r) => setTimeout(r, 50));
               opencodeKey = await readKey();
             }
-            const existing = (() => { try { return loadOAuthCredentials(); } catch { return null; } })();
+            const store = (() => { try { return loadOAuthAccounts(); } catch { return null; } })();
 
             if (opencodeKey) {
-              // opencode has a key. Sync into credentials.json if file is
-              // missing or stale. Preserve `syncedViaOpencodeAuth` from the
-              // existing file if explicitly set to `false` (CLI-managed
-              // creds want to survive opencode logout). Default to `true`
-              // when the file is new or had no flag.
-              if (!existing || existing.apiKey !== opencodeKey) {
-                const { saveCredentials } = await import('./oauth/storage.js');
+              // opencode has a key. Sync into the store if no account holds
+              // it yet, or if an earlier opencode key is still stored — a
+              // re-login revokes it, and rotation would keep picking it.
+              // The key is added as its own account rather than written over
+              // the active one: that may be a CLI `login --add` account with
+              // different credentials, and it must survive both this sync
+              // and a later opencode logout.
+              const stale = store?.accounts.some((a) => a.syncedViaOpencodeAuth && a.apiKey !== opencodeKey) ?? false;
+              if (stale || !store?.accounts.some((a) => a.apiKey === opencodeKey)) {
+                const { syncOpencodeAccount } = await import('./oauth/storage.js');
                 const { DEFAULT_REGION } = await import('./oauth/types.js');
-                await saveCredentials({
+                await syncOpencodeAccount({
                   apiKey: opencodeKey,
-                  name: existing?.name ?? 'opencode-auth-stored',
-                  apiServerUrl: existing?.apiServerUrl ?? 'https://server.codeium.com',
+                  name: 'opencode-auth-stored',
+                  apiServerUrl: 'https://server.codeium.com',
                   issuedAt: new Date().toISOString(),
                   oauthClientId: DEFAULT_REGION.oauthClientId,
-                  syncedViaOpencodeAuth: existing?.syncedViaOpencodeAuth ?? true,
-                });
+                  syncedViaOpencodeAuth: true,
+                }, 'opencode');
               }
-            } else if (existing?.syncedViaOpencodeAuth) {
+            } else if (store?.accounts.some((a) => a.syncedViaOpencodeAuth)) {
               // opencode-managed key was confirmed-cleared on BOTH reads
-              // (initial + 50ms retry). Mirror to credentials.json so the
-              // chat path stops accepting the stale token.
-              const { deleteCredentials } = await import('./oauth/storage.js');
-              deleteCredentials();
+              // (initial + 50ms retry). Mirror to the store so the chat path
+              // stops accepting the stale token. CLI-managed accounts stay.
+              const { removeOpencodeSyncedAccounts } = await import('./oauth/storage.js');
+              await removeOpencodeSyncedAccounts();
               // Drop every layer of in-memory credential state so a
               // logout immediately stops authorizing requests:
               //  - JWT cache (would otherwise keep working for ~24min)
@@ -1287,14 +1796,14 @@ export const createWindsurfPlugin =
                 clearResolveCache();
               } catch { /* best-effort */ }
             }
-            // (otherwise leave credentials.json alone — likely written by our
+            // (otherwise leave the store alone — likely written by our
             // standalone CLI without opencode involvement.)
           } catch (loaderErr) {
             // The loader contract requires us not to throw — an exception
             // here would crash opencode's plugin host. But silently
             // swallowing storage failures used to mean a failed
-            // `saveCredentials` or `deleteCredentials` left opencode
-            // reporting "logged in" / "logged out" while credentials.json
+            // `syncOpencodeAccount` or `removeOpencodeSyncedAccounts` left opencode
+            // reporting "logged in" / "logged out" while the accounts store
             // disagreed (and the proxy auth gate then trusted the stale
             // state). Surface to debugLog so users running with
             // WINDSURF_PLUGIN_DEBUG=1 see the cause, AND emit a single
@@ -1333,7 +1842,7 @@ export const createWindsurfPlugin =
               // before binding, and opencode opened that broken URL —
               // user reported "Failed to authorize".
               const { prepareLogin } = await import('./oauth/login.js');
-              const { saveCredentials } = await import('./oauth/storage.js');
+              const { syncOpencodeAccount } = await import('./oauth/storage.js');
               const { DEFAULT_REGION } = await import('./oauth/types.js');
 
               let prepared: Awaited<ReturnType<typeof prepareLogin>>;
@@ -1398,7 +1907,10 @@ export const createWindsurfPlugin =
                       throw err;
                     }
                     try {
-                      await saveCredentials({
+                      // Added alongside any CLI-managed accounts, never
+                      // over the active one; replaces the key this login
+                      // revoked (see the loader above).
+                      await syncOpencodeAccount({
                         apiKey: result.apiKey,
                         name: result.name,
                         apiServerUrl: result.apiServerUrl,
@@ -1408,7 +1920,7 @@ export const createWindsurfPlugin =
                         syncedViaOpencodeAuth: true,
                       });
                     } catch (err) {
-                      writeErr('saveCredentials', err);
+                      writeErr('syncOpencodeAccount', err);
                       throw err;
                     }
                     try { fs.unlinkSync(errLogPath); } catch { /* ok */ }
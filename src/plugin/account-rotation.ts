@@ -0,0 +1,167 @@
+/**
+ * Account rotation on rate limits and quota exhaustion.
+ *
+ * With more than one signed-in account (`login --add`), a rate-limited or
+ * quota-exhausted account shouldn't stall the session. When a chat stream
+ * fails with a rate-limit error BEFORE any event was yielded — so nothing
+ * has reached the client yet and a retry is invisible — we:
+ *
+ *   1. mark that account limited in `account-state.json`, with exponential
+ *      backoff per consecutive hit ({@link RATE_LIMIT_CONFIG});
+ *   2. retry transparently on the next eligible account, in the order the
+ *      configured `accountStrategy` dictates.
+ *
+ * The state file is shared across processes, so a limit hit in one
+ * opencode window is honoured by every other one until it expires. Once
+ * bytes have streamed, errors propagate as before — we can't replay a
+ * half-delivered answer on another account.
+ *
+ * With a single account nothing is rotated, but the limit is still
+ * recorded so `accounts list` can show it.
+ */
+
+import type { CloudChatEvent } from '../cloud-direct/index.js';
+import { CloudChatError } from '../cloud-direct/index.js';
+import { RATE_LIMIT_CONFIG } from '../constants.js';
+import {
+  getActiveAccount,
+  loadAccounts,
+  loadAccountState,
+  updateAccountState,
+} from '../oauth/storage.js';
+import type { AccountStateFile, AccountStrategy, StoredAccount } from '../oauth/types.js';
+import type { WindsurfCredentials } from './auth.js';
+
+const RATE_LIMIT_MESSAGE_RE = /rate.?limit|quota|too many requests/i;
+
+/** True for cloud errors that mean "this account, not this request, is the problem". */
+export function isRateLimitError(err: unknown): boolean {
+  if (!(err instanceof CloudChatError)) return false;
+  return err.code === 'resource_exhausted' || RATE_LIMIT_MESSAGE_RE.test(err.message);
+}
+
+/** Backoff for the `hits`-th consecutive limit: 1s, 2s, 4s, … capped at 60s. */
+export function backoffForHit(hits: number): number {
+  const raw = RATE_LIMIT_CONFIG.INITIAL_BACKOFF_MS * Math.pow(RATE_LIMIT_CONFIG.BACKOFF_MULTIPLIER, Math.max(0, hits - 1));
+  return Math.min(raw, RATE_LIMIT_CONFIG.MAX_BACKOFF_MS);
+}
+
+function isLimited(state: AccountStateFile, id: string, now: number): boolean {
+  const rl = state.accounts[id]?.rateLimit;
+  return !!rl?.isLimited && (rl.resetAt ?? 0) > now;
+}
+
+/**
+ * Order accounts for a request: eligible ones per `strategy`, then the
+ * limited ones soonest-reset first as a last resort (better a likely 429
+ * than refusing outright when every account is cooling down).
+ */
+export function orderAccounts(
+  strategy: AccountStrategy,
+  accounts: StoredAccount[],
+  activeId: string | undefined,
+  state: AccountStateFile,
+  now: number,
+): StoredAccount[] {
+  let ordered: StoredAccount[];
+  switch (strategy) {
+    case 'round-robin': {
+      // Start right after whichever account served the previous request.
+      const last = accounts.findIndex((a) => a.id === state.lastAccountId);
+      ordered = accounts.map((_, i) => accounts[(last + 1 + i) % accounts.length]!);
+      break;
+    }
+    case 'least-used': {
+      const usage = (a: StoredAccount) => state.accounts[a.id];
+      ordered = [...accounts].sort((a, b) =>
+        (usage(a)?.requestCount ?? 0) - (usage(b)?.requestCount ?? 0) ||
+        (usage(a)?.lastUsedAt ?? 0) - (usage(b)?.lastUsedAt ?? 0));
+      break;
+    }
+    case 'sticky':
+    default: {
+      const active = accounts.find((a) => a.id === activeId);
+      ordered = active ? [active, ...accounts.filter((a) => a !== active)] : [...accounts];
+    }
+  }
+  const eligible = ordered.filter((a) => !isLimited(state, a.id, now));
+  const limited = ordered
+    .filter((a) => isLimited(state, a.id, now))
+    .sort((a, b) => (state.accounts[a.id]!.rateLimit!.resetAt ?? 0) - (state.accounts[b.id]!.rateLimit!.resetAt ?? 0));
+  return [...eligible, ...limited];
+}
+
+async function markLimited(accountId: string): Promise<number> {
+  let backoffMs = 0;
+  await updateAccountState(accountId, (state) => {
+    const hits = (state.rateLimit?.consecutiveHits ?? 0) + 1;
+    backoffMs = backoffForHit(hits);
+    state.rateLimit = { isLimited: true, resetAt: Date.now() + backoffMs, consecutiveHits: hits, backoffMs };
+  });
+  return backoffMs;
+}
+
+async function markServed(accountId: string): Promise<void> {
+  await updateAccountState(accountId, (state, file) => {
+    state.rateLimit = undefined;
+    state.lastUsedAt = Date.now();
+    state.requestCount += 1;
+    file.lastAccountId = accountId;
+  });
+}
+
+/**
+ * Run `open` against the account the strategy picks, failing over to the
+ * next eligible account on a pre-stream rate limit. `credentials` is what
+ * resolveCredentials returned (the active account); it's used verbatim when
+ * the store holds no rotation candidates (e.g. a single account).
+ */
+export async function* streamWithAccountRotation(
+  credentials: WindsurfCredentials,
+  open: (credentials: WindsurfCredentials) => AsyncGenerator<CloudChatEvent>,
+  log: (message: string) => void = () => { /* silent */ },
+): AsyncGenerator<CloudChatEvent> {
+  const store = (() => { try { return loadAccounts(); } catch { return null; } })();
+  const state = loadAccountState();
+  const candidates: WindsurfCredentials[] = store && store.accounts.length > 1
+    ? orderAccounts(
+        store.settings?.accountStrategy ?? 'sticky',
+        store.accounts,
+        getActiveAccount(store)?.id,
+        state,
+        Date.now(),
+      )
+        .slice(0, RATE_LIMIT_CONFIG.MAX_RETRIES + 1)
+        .map((a) => ({ ...credentials, apiKey: a.apiKey, apiServerUrl: a.apiServerUrl, accountId: a.id }))
+    : [credentials];
+  // Only bother persisting usage when there's something to rotate between,
+  // or a limit mark to clear — saves a locked write per request otherwise.
+  const trackUsage = candidates.length > 1;
+
+  let lastError: unknown;
+  for (const [i, creds] of candidates.entries()) {
+    let started = false;
+    try {
+      for await (const ev of open(creds)) {
+        if (!started) {
+          started = true;
+          if (creds.accountId && (trackUsage || state.accounts[creds.accountId]?.rateLimit)) {
+            markServed(creds.accountId).catch((e) => log(`[windsurf-plugin] account state write failed: ${(e as Error).message}`));
+          }
+        }
+        yield ev;
+      }
+      return;
+    } catch (err) {
+      if (started || !isRateLimitError(err)) throw err;
+      lastError = err;
+      if (creds.accountId) {
+        const backoffMs = await markLimited(creds.accountId).catch(() => 0);
+        log(`[windsurf-plugin] account ${creds.accountId} rate limited (${(err as Error).message}); cooling down ${backoffMs}ms`);
+      }
+      const next = candidates[i + 1];
+      if (next) log(`[windsurf-plugin] retrying on account ${next.accountId}`);
+    }
+  }
+  throw lastError;
+}
@@ -36,6 +36,12 @@ export interface WindsurfCredentials {
    * only used when `cloudDirect` is true.
    */
   apiServerUrl?: string;
+  /**
+   * Local id of the account these credentials belong to (see
+   * `oauth/storage.ts`'s multi-account store). Undefined for the legacy
+   * scrape path, which only ever knows one key.
+   */
+  accountId?: string;
 }
 
 export enum WindsurfErrorCode {
@@ -0,0 +1,309 @@
+/**
+ * History compaction for requests that outgrow the model's input budget.
+ *
+ * opencode resends the whole conversation every turn. Once that passes the
+ * model's context the cloud either fails or cuts it somewhere we don't
+ * control; prompt-budget.ts only catches the hard overflow. Compaction
+ * kicks in earlier — when the estimate passes `threshold` of the context
+ * window — and applies the configured strategies in order until the
+ * prompt is back under it:
+ *
+ *   truncate-tool-outputs  Cut tool results longer than `toolOutputMaxChars`
+ *                          to their head and tail. Results the model hasn't
+ *                          answered yet (after the last assistant message)
+ *                          are left whole.
+ *   summarize              Replace the oldest messages with a summary from a
+ *                          cheap model (`summaryModel`, default swe-1.6),
+ *                          keeping the last `keepRecentTurns` user turns
+ *                          verbatim. Summaries are cached per transcript.
+ *   drop-oldest            Drop the oldest messages, as prompt-budget.ts'
+ *                          `trim` does: tool calls and their results go
+ *                          together, system messages and the latest user
+ *                          message stay.
+ *
+ * `providerOptions.windsurf.compaction` selects them: `true` for the
+ * defaults (truncate-tool-outputs, then drop-oldest), one strategy name, an
+ * array of names, or an object `{ strategies, threshold, keepRecentTurns,
+ * toolOutputMaxChars, summaryModel }`. `WINDSURF_COMPACTION` takes a
+ * comma-separated list. Off by default: compaction rewrites history the
+ * cloud's prompt cache has already seen.
+ *
+ * A strategy that fails (the summary call errors, say) is logged and
+ * skipped; the context-window check still runs afterwards.
+ */
+
+import * as crypto from 'crypto';
+import type { ChatHistoryItem, PromptTokenEstimate } from '../cloud-direct/index.js';
+import { streamChatEvents } from '../cloud-direct/index.js';
+import type { WindsurfCredentials } from './auth.js';
+import { resolveModel } from './models.js';
+import { droppableUnits, dropOldestMessages } from './prompt-budget.js';
+import { RequestParamError } from './proxy-errors.js';
+import type { ChatCompletionRequest } from './types.js';
+
+export type CompactionStrategy = 'truncate-tool-outputs' | 'summarize' | 'drop-oldest';
+
+const COMPACTION_STRATEGIES: ReadonlySet<string> = new Set<CompactionStrategy>(['truncate-tool-outputs', 'summarize', 'drop-oldest']);
+
+export interface CompactionConfig {
+  /** Applied in order until the prompt is under `threshold`. */
+  strategies: CompactionStrategy[];
+  /** Compact once the estimate passes this share of the context window. */
+  threshold: number;
+  /** User turns `summarize` keeps verbatim. */
+  keepRecentTurns: number;
+  /** Tool results longer than this are cut to head + tail. */
+  toolOutputMaxChars: number;
+  /** Model `summarize` runs on. */
+  summaryModel: string;
+}
+
+const DEFAULT_COMPACTION: CompactionConfig = {
+  strategies: ['truncate-tool-outputs', 'drop-oldest'],
+  threshold: 0.8,
+  keepRecentTurns: 2,
+  toolOutputMaxChars: 8000,
+  summaryModel: 'swe-1.6',
+};
+
+/** Share of a truncated tool output kept from its start; the rest comes from its end. */
+const HEAD_SHARE = 0.6;
+/** Per-message and total character caps for the transcript sent to the summary model. */
+const SUMMARY_MESSAGE_CHARS = 4000;
+const SUMMARY_TRANSCRIPT_CHARS = 200_000;
+const SUMMARY_MAX_OUTPUT_TOKENS = 2048;
+const SUMMARY_CACHE_MAX = 32;
+
+const SUMMARY_INSTRUCTIONS =
+  'You compress conversation history for a coding agent that has run out of context. ' +
+  'Summarize the transcript so the agent can carry on: the user\'s goals and constraints, ' +
+  'decisions made, files and symbols touched, commands run and their key results, errors ' +
+  'still open, and what was about to happen next. Be concise and factual. No preamble.';
+
+function strategyList(raw: unknown): CompactionStrategy[] {
+  const list = typeof raw === 'string' ? raw.split(',').map((s) => s.trim()).filter(Boolean) : raw;
+  if (!Array.isArray(list) || list.length === 0 || !list.every((s) => typeof s === 'string' && COMPACTION_STRATEGIES.has(s))) {
+    throw new RequestParamError('compaction', `compaction strategies must be from ${[...COMPACTION_STRATEGIES].join(', ')} (got ${JSON.stringify(raw)})`);
+  }
+  return list as CompactionStrategy[];
+}
+
+function positiveInt(o: Record<string, unknown>, key: string, fallback: number): number {
+  const v = o[key];
+  if (v === undefined) return fallback;
+  if (typeof v !== 'number' || !Number.isSafeInteger(v) || v <= 0) {
+    throw new RequestParamError('compaction', `compaction.${key} must be a positive integer (got ${JSON.stringify(v)})`);
+  }
+  return v;
+}
+
+/**
+ * Resolve the compaction config for a request, or undefined when it's off.
+ * Malformed settings are a 400, like a bad sampling knob.
+ */
+export function resolveCompaction(request: ChatCompletionRequest): CompactionConfig | undefined {
+  const ws = request.providerOptions?.['windsurf'];
+  const fromOptions = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)['compaction'] : undefined;
+  const raw = fromOptions ?? (process.env.WINDSURF_COMPACTION?.trim() || undefined);
+  if (raw === undefined || raw === null || raw === false || raw === 'off') return undefined;
+  if (raw === true || raw === 'on') return DEFAULT_COMPACTION;
+  if (typeof raw === 'string' || Array.isArray(raw)) return { ...DEFAULT_COMPACTION, strategies: strategyList(raw) };
+  if (typeof raw !== 'object') {
+    throw new RequestParamError('compaction', `compaction must be true, a strategy name, a list, or an object (got ${JSON.stringify(raw)})`);
+  }
+
+  const o = raw as Record<string, unknown>;
+  const threshold = o['threshold'] ?? DEFAULT_COMPACTION.threshold;
+  if (typeof threshold !== 'number' || !(threshold > 0 && threshold <= 1)) {
+    throw new RequestParamError('compaction', `compaction.threshold must be in (0, 1] (got ${JSON.stringify(threshold)})`);
+  }
+  const summaryModel = o['summaryModel'] ?? DEFAULT_COMPACTION.summaryModel;
+  if (typeof summaryModel !== 'string' || summaryModel === '') {
+    throw new RequestParamError('compaction', `compaction.summaryModel must be a model name (got ${JSON.stringify(summaryModel)})`);
+  }
+  const strategies = o['strategies'] ?? o['strategy'];
+  return {
+    strategies: strategies === undefined ? DEFAULT_COMPACTION.strategies : strategyList(strategies),
+    threshold,
+    keepRecentTurns: positiveInt(o, 'keepRecentTurns', DEFAULT_COMPACTION.keepRecentTurns),
+    toolOutputMaxChars: positiveInt(o, 'toolOutputMaxChars', DEFAULT_COMPACTION.toolOutputMaxChars),
+    summaryModel,
+  };
+}
+
+/** `text` cut to `maxChars`: its head and tail around a note of what was left out. */
+export function truncateHeadTail(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const head = Math.ceil(maxChars * HEAD_SHARE);
+  const tail = maxChars - head;
+  return `${text.slice(0, head)}\n[… ${text.length - maxChars} characters omitted …]\n${tail > 0 ? text.slice(-tail) : ''}`;
+}
+
+function truncateToolOutputs(messages: ChatHistoryItem[], maxChars: number): ChatHistoryItem[] {
+  let lastAssistant = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]!.role === 'assistant') { lastAssistant = i; break; }
+  }
+  let changed = false;
+  const out = messages.map((m, i) => {
+    if (m.role !== 'tool' || i > lastAssistant) return m;
+    if (typeof m.content === 'string') {
+      if (m.content.length <= maxChars) return m;
+      changed = true;
+      return { ...m, content: truncateHeadTail(m.content, maxChars) };
+    }
+    if (!m.content.some((p) => p.type === 'text' && p.text.length > maxChars)) return m;
+    changed = true;
+    return { ...m, content: m.content.map((p) => (p.type === 'text' ? { ...p, text: truncateHeadTail(p.text, maxChars) } : p)) };
+  });
+  return changed ? out : messages;
+}
+
+function textOf(m: ChatHistoryItem): string {
+  if (typeof m.content === 'string') return m.content;
+  return m.content.map((p) => (p.type === 'text' ? p.text : '[image]')).join('\n');
+}
+
+/** Plain-text transcript of `messages` for the summary model, capped per message and overall. */
+function transcriptOf(messages: ChatHistoryItem[]): string {
+  const blocks = messages.map((m) => {
+    const lines = [`[${m.role}]`, truncateHeadTail(textOf(m), SUMMARY_MESSAGE_CHARS)];
+    for (const tc of m.tool_calls ?? []) lines.push(`[tool call ${tc.name}] ${truncateHeadTail(tc.arguments, SUMMARY_MESSAGE_CHARS)}`);
+    return lines.join('\n');
+  });
+  return truncateHeadTail(blocks.join('\n\n'), SUMMARY_TRANSCRIPT_CHARS);
+}
+
+/**
+ * Indices `summarize` folds into one summary: droppable units before the
+ * last `keepRecentTurns` user turns. In a single long agentic turn, where
+ * that leaves nothing, the older half of the droppable units instead.
+ */
+function summaryRegion(messages: ChatHistoryItem[], keepRecentTurns: number): number[] {
+  const units = droppableUnits(messages);
+  let userTurns = 0;
+  let keepFrom = messages.length;
+  for (let i = messages.length - 1; i >= 0 && userTurns < keepRecentTurns; i--) {
+    if (messages[i]!.role === 'user') { userTurns++; keepFrom = i; }
+  }
+  const before = units.filter((u) => u[u.length - 1]! < keepFrom);
+  const region = before.length > 0 ? before : units.slice(0, Math.floor(units.length / 2));
+  return region.flat();
+}
+
+const summaryCache = new Map<string, string>();
+
+async function summarizeOldest(
+  messages: ChatHistoryItem[],
+  config: CompactionConfig,
+  summarize: (transcript: string) => Promise<string>,
+): Promise<ChatHistoryItem[]> {
+  const region = summaryRegion(messages, config.keepRecentTurns);
+  if (region.length < 2) return messages;
+  const transcript = transcriptOf(region.map((i) => messages[i]!));
+  const key = crypto.createHash('sha256').update(config.summaryModel).update('\0').update(transcript).digest('hex');
+  let summary = summaryCache.get(key);
+  if (summary === undefined) {
+    summary = (await summarize(transcript)).trim();
+    if (!summary) throw new Error('summary model returned no text');
+    if (summaryCache.size >= SUMMARY_CACHE_MAX) summaryCache.delete(summaryCache.keys().next().value!);
+  } else {
+    summaryCache.delete(key);
+  }
+  summaryCache.set(key, summary);
+
+  // The summary takes the place of the region's last message, so it sits
+  // right before whatever the model reads next.
+  const dropped = new Set(region);
+  const last = region[region.length - 1]!;
+  const out: ChatHistoryItem[] = [];
+  messages.forEach((m, i) => {
+    if (!dropped.has(i)) out.push(m);
+    else if (i === last) {
+      out.push({
+        role: 'user',
+        content: `<conversation_summary>\nSummary of ${region.length} earlier messages, condensed to fit the context window:\n${summary}\n</conversation_summary>`,
+      });
+    }
+  });
+  return out;
+}
+
+export interface CompactionResult {
+  messages: ChatHistoryItem[];
+  /** Strategies that changed the history, in the order applied. */
+  applied: CompactionStrategy[];
+  /** Estimates before and after. */
+  before: number;
+  after: number;
+}
+
+/**
+ * Compact `messages` when their estimate passes `config.threshold` of
+ * `contextTokens`. `estimate` sizes a message list for the target model;
+ * `summarize` runs the summary model on a transcript (see
+ * {@link cloudSummarizer}).
+ */
+export async function compactHistory(
+  messages: ChatHistoryItem[],
+  config: CompactionConfig,
+  deps: {
+    contextTokens: number;
+    estimate: (messages: ChatHistoryItem[]) => PromptTokenEstimate;
+    summarize: (transcript: string) => Promise<string>;
+    log?: (message: string) => void;
+  },
+): Promise<CompactionResult> {
+  const target = Math.floor(deps.contextTokens * config.threshold);
+  let current = deps.estimate(messages);
+  const before = current.total;
+  const applied: CompactionStrategy[] = [];
+  for (const strategy of config.strategies) {
+    if (current.total <= target) break;
+    let next = messages;
+    try {
+      if (strategy === 'truncate-tool-outputs') next = truncateToolOutputs(messages, config.toolOutputMaxChars);
+      else if (strategy === 'summarize') next = await summarizeOldest(messages, config, deps.summarize);
+      else next = dropOldestMessages(messages, current.perMessage, current.total - target).messages;
+    } catch (err) {
+      deps.log?.(`[windsurf-plugin] compaction: ${strategy} failed, skipping: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    if (next === messages) continue;
+    messages = next;
+    current = deps.estimate(messages);
+    applied.push(strategy);
+  }
+  return { messages, applied, before, after: current.total };
+}
+
+/**
+ * A `summarize` callback that asks `modelName` on the caller's account.
+ * Text only, no tools; the whole reply is the summary.
+ */
+export function cloudSummarizer(
+  credentials: WindsurfCredentials,
+  modelName: string,
+  signal?: AbortSignal,
+): (transcript: string) => Promise<string> {
+  return async (transcript) => {
+    let text = '';
+    for await (const ev of streamChatEvents({
+      apiKey: credentials.apiKey,
+      apiServerUrl: credentials.apiServerUrl,
+      modelUid: resolveModel(modelName).modelUid,
+      messages: [
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        { role: 'user', content: `<transcript>\n${transcript}\n</transcript>` },
+      ],
+      completionOpts: { maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS },
+      // A separate conversation, so the summary call doesn't share the
+      // main cascade's session.
+      conversationKey: 'windsurf-compaction-summary',
+      signal,
+    })) {
+      if (ev.kind === 'text') text += ev.text;
+    }
+    return text;
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Conversation identity for proxied chat requests.
+ *
+ * cloud-direct keeps one `{sessionId, cascadeId}` pair per conversation so
+ * the cloud's prompt cache hits across turns. The proxy is stateless HTTP,
+ * so it has to work out which conversation a request belongs to. In order:
+ *
+ *   1. `providerOptions.windsurf.cascadeId` — the caller pins the cascade
+ *      outright (e.g. to resume a cascade started elsewhere).
+ *   2. `X-Windsurf-Conversation` header — an opaque id from the caller;
+ *      any stable string per conversation works.
+ *   3. A hash of the conversation prefix: everything up to and including the
+ *      first user message. That prefix doesn't change as a conversation
+ *      grows, and differs between an opencode session, its subagents
+ *      (different task prompt) and title generation (different system
+ *      prompt). Two sessions opened with a byte-identical first prompt do
+ *      share a cascade — send the header when that matters.
+ */
+
+import * as crypto from 'crypto';
+import type { ChatCompletionRequest } from './types.js';
+
+/** Request header carrying a caller-chosen conversation id. */
+export const CONVERSATION_HEADER = 'x-windsurf-conversation';
+
+/** Longer ids are hashed down rather than used as cache keys verbatim. */
+const MAX_ID_LENGTH = 256;
+
+export interface ConversationIdentity {
+  /** Explicit cascade id to send upstream, when the caller pinned one. */
+  cascadeId?: string;
+  /** Session-cache key for cloud-direct's per-conversation ids. */
+  conversationKey: string;
+}
+
+function sha256(s: string): string {
+  return crypto.createHash('sha256').update(s).digest('hex').slice(0, 32);
+}
+
+/**
+ * Work out the conversation a request belongs to. `headerValue` is the raw
+ * `X-Windsurf-Conversation` header, if any.
+ */
+export function resolveConversation(
+  request: ChatCompletionRequest,
+  headerValue?: string | null,
+): ConversationIdentity {
+  const ws = request.providerOptions?.['windsurf'];
+  const pinned = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)['cascadeId'] : undefined;
+  if (typeof pinned === 'string' && pinned.trim() !== '' && pinned.length <= MAX_ID_LENGTH) {
+    return { cascadeId: pinned.trim(), conversationKey: `cascade:${pinned.trim()}` };
+  }
+
+  const header = headerValue?.trim();
+  if (header) {
+    return { conversationKey: `header:${header.length <= MAX_ID_LENGTH ? header : sha256(header)}` };
+  }
+
+  const firstUser = request.messages.findIndex((m) => m.role === 'user');
+  const prefix = firstUser >= 0 ? request.messages.slice(0, firstUser + 1) : request.messages;
+  const canonical = JSON.stringify(prefix.map((m) => [m.role, m.content]));
+  return { conversationKey: `prefix:${sha256(canonical)}` };
+}
@@ -10,8 +10,10 @@
  *   1. User runs `opencode auth login` → picks "Sign in with Windsurf" → our
  *      `methods[0].authorize()` runs the browser OAuth flow and writes
  *      `~/.config/opencode-windsurf-auth/credentials.json`.
- *   2. On every chat: `loadCredentials()` reads the file, returns
- *      `{ apiKey, apiServerUrl, cloudDirect: true }`.
+ *   2. On every chat: `loadCredentials()` reads the *active* account from
+ *      the multi-account store (`accounts.json`; `opencode-windsurf-auth
+ *      accounts use <label>` switches it) and returns
+ *      `{ apiKey, apiServerUrl, cloudDirect: true, accountId }`.
  *   3. `streamChatGenerator` sees `cloudDirect: true` and dispatches to
  *      `src/cloud-direct/streamChatEvents` — straight HTTPS to
  *      `server.codeium.com/exa.api_server_pb.ApiServerService/GetChatMessage`.
@@ -115,6 +117,7 @@ export async function resolveCredentials(opts: ResolveOptions = {}): Promise<Win
     version: '2.0.0',
     cloudDirect: true,
     apiServerUrl: oauth.apiServerUrl,
+    accountId: oauth.id,
   };
   resolveCache = { value: creds, expiry: now + RESOLVE_CACHE_TTL_MS };
   return creds;
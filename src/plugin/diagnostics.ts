@@ -0,0 +1,54 @@
+/**
+ * Warnings and tool-call repairs reported back to the caller.
+ *
+ * Whatever the proxy adjusts on the caller's behalf goes out as one
+ * `X-Windsurf-Warning` header per warning and one `X-Windsurf-Tool-Repair`
+ * header per repaired tool call. Some of it is only known once the cloud
+ * stream is under way — bisect verdicts (plugin/tool-bisect.ts), a
+ * `tool_choice` retry (plugin/tool-choice.ts), repaired arguments
+ * (plugin/tool-call-repair.ts). A non-streaming route builds its headers
+ * after that, so they carry everything. A streaming route has already sent
+ * its headers, so {@link lateDiagnosticComments} writes the rest into the
+ * stream as SSE comment lines named after the headers:
+ *
+ *   : X-Windsurf-Tool-Repair: read (call_1): trailing commas
+ *
+ * SSE parsers skip comment lines, so clients that don't look for them are
+ * unaffected.
+ */
+
+export interface Diagnostics {
+  warnings: string[];
+  toolRepairs: string[];
+  /** How many of each went out as headers; set by {@link appendDiagnosticHeaders}. */
+  sent?: { warnings: number; toolRepairs: number };
+}
+
+/**
+ * `text` as a header value. Warnings can quote tool names, which may be
+ * any Unicode, and `Headers` throws on anything outside Latin-1.
+ */
+export function headerValue(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '?');
+}
+
+/** Append a header per warning and per repair, and record them as sent. */
+export function appendDiagnosticHeaders(headers: Headers, diagnostics: Diagnostics): void {
+  for (const w of diagnostics.warnings) headers.append('X-Windsurf-Warning', headerValue(w));
+  for (const r of diagnostics.toolRepairs) headers.append('X-Windsurf-Tool-Repair', headerValue(r));
+  diagnostics.sent = { warnings: diagnostics.warnings.length, toolRepairs: diagnostics.toolRepairs.length };
+}
+
+/**
+ * SSE comment lines for the diagnostics added since the headers went out
+ * (empty when there are none), which then count as sent too.
+ */
+export function lateDiagnosticComments(diagnostics: Diagnostics): string {
+  const sent = diagnostics.sent ?? { warnings: 0, toolRepairs: 0 };
+  const lines = [
+    ...diagnostics.warnings.slice(sent.warnings).map((w) => `: X-Windsurf-Warning: ${headerValue(w)}\n`),
+    ...diagnostics.toolRepairs.slice(sent.toolRepairs).map((r) => `: X-Windsurf-Tool-Repair: ${headerValue(r)}\n`),
+  ];
+  diagnostics.sent = { warnings: diagnostics.warnings.length, toolRepairs: diagnostics.toolRepairs.length };
+  return lines.length === 0 ? '' : `${lines.join('')}\n`;
+}
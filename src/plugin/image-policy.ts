@@ -0,0 +1,145 @@
+/**
+ * What to do with image attachments sent to a model that can't see them.
+ *
+ * cloud-direct encodes every `image_url` / `image` part into `ImageData`
+ * regardless of model. For a text-only model the user then gets either an
+ * opaque upstream error or an answer hallucinated around an image the model
+ * never saw. The live catalog's `supports_images` flag (#5) tells us up
+ * front, so before opening the response we apply one of:
+ *
+ *   reject  (default) 400 `model_does_not_support_images`, naming the model.
+ *   strip   drop the images, leave a short text placeholder where each was so
+ *           the model knows something was attached, and add an
+ *           `X-Windsurf-Warning` header.
+ *   allow   send them anyway (e.g. when the catalog flag is known wrong).
+ *
+ * The policy comes from `providerOptions.windsurf.imagePolicy`, else the
+ * `WINDSURF_IMAGE_POLICY` environment variable, else `reject`. When the
+ * catalog is unreachable or doesn't list the model we can't know, so images
+ * pass through untouched.
+ *
+ * Images that do go out are downscaled/recompressed by
+ * cloud-direct/image-preprocess.ts and deduplicated across turns by
+ * image-history.ts; {@link resolveImageLimits} and
+ * {@link resolveRecentImageTurns} read the caller's overrides for those.
+ */
+
+import type { ImagePreprocessOptions } from '../cloud-direct/index.js';
+import { RequestParamError } from './proxy-errors.js';
+import type { ChatCompletionRequest } from './types.js';
+
+export type ImagePolicy = 'reject' | 'strip' | 'allow';
+
+const IMAGE_POLICIES: ReadonlySet<string> = new Set<ImagePolicy>(['reject', 'strip', 'allow']);
+
+const DEFAULT_IMAGE_POLICY: ImagePolicy = 'reject';
+
+/** Text left in place of each stripped image. */
+const STRIPPED_IMAGE_PLACEHOLDER = '[image omitted: this model does not accept images]';
+
+/** Thrown under the `reject` policy — mapped to a 400 by plugin/proxy-errors.ts. */
+export class ImageNotSupportedError extends Error {
+  constructor(public readonly modelId: string, public readonly imageCount: number) {
+    super(
+      `Model "${modelId}" does not accept image input, but the request contains ` +
+        `${imageCount} image${imageCount === 1 ? '' : 's'}. Pick a vision-capable model ` +
+        `(\`/v1/models\` lists \`supports_images\`), or set ` +
+        `\`providerOptions.windsurf.imagePolicy\` to "strip" to drop them.`,
+    );
+    this.name = 'ImageNotSupportedError';
+  }
+}
+
+function isImagePart(part: unknown): boolean {
+  if (!part || typeof part !== 'object') return false;
+  const type = (part as { type?: unknown }).type;
+  return type === 'image_url' || type === 'image';
+}
+
+/** Resolve the policy for a request. An unrecognised value is a 400, like a bad sampling knob. */
+export function resolveImagePolicy(request: ChatCompletionRequest): ImagePolicy {
+  const ws = request.providerOptions?.['windsurf'];
+  const fromOptions = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)['imagePolicy'] : undefined;
+  const raw = fromOptions ?? process.env.WINDSURF_IMAGE_POLICY?.trim().toLowerCase();
+  if (raw === undefined || raw === '') return DEFAULT_IMAGE_POLICY;
+  if (typeof raw !== 'string' || !IMAGE_POLICIES.has(raw)) {
+    throw new RequestParamError('imagePolicy', `imagePolicy must be one of ${[...IMAGE_POLICIES].join(', ')} (got ${JSON.stringify(raw)})`);
+  }
+  return raw as ImagePolicy;
+}
+
+/**
+ * A positive-integer image knob from `providerOptions.windsurf[param]`, else
+ * the `envVar` environment variable. Anything else is a 400.
+ */
+function readImageSetting(request: ChatCompletionRequest, param: string, envVar: string): number | undefined {
+  const ws = request.providerOptions?.['windsurf'];
+  const fromOptions = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)[param] : undefined;
+  const env = process.env[envVar]?.trim();
+  const raw = fromOptions ?? (env ? Number(env) : undefined);
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'number' || !Number.isSafeInteger(raw) || raw <= 0) {
+    throw new RequestParamError(param, `${param} must be a positive integer (got ${JSON.stringify(fromOptions ?? env)})`);
+  }
+  return raw;
+}
+
+/**
+ * Caller overrides for image downscaling: `providerOptions.windsurf.
+ * {imageMaxDimension, imageMaxBytes}`, else the `WINDSURF_IMAGE_MAX_DIMENSION`
+ * / `WINDSURF_IMAGE_MAX_BYTES` environment variables. Unset fields fall back
+ * to cloud-direct's per-model defaults.
+ */
+export function resolveImageLimits(request: ChatCompletionRequest): Partial<ImagePreprocessOptions> {
+  const maxDimension = readImageSetting(request, 'imageMaxDimension', 'WINDSURF_IMAGE_MAX_DIMENSION');
+  const maxBytes = readImageSetting(request, 'imageMaxBytes', 'WINDSURF_IMAGE_MAX_BYTES');
+  return {
+    ...(maxDimension !== undefined ? { maxDimension } : {}),
+    ...(maxBytes !== undefined ? { maxBytes } : {}),
+  };
+}
+
+/**
+ * Recency window for history images (`providerOptions.windsurf.
+ * imageRecentTurns` / `WINDSURF_IMAGE_RECENT_TURNS`): images older than the
+ * last N user turns are replaced by a placeholder. Undefined keeps them all.
+ */
+export function resolveRecentImageTurns(request: ChatCompletionRequest): number | undefined {
+  return readImageSetting(request, 'imageRecentTurns', 'WINDSURF_IMAGE_RECENT_TURNS');
+}
+
+/** Number of image parts across all messages. */
+export function countImages(request: ChatCompletionRequest): number {
+  let n = 0;
+  for (const m of request.messages) {
+    if (Array.isArray(m.content)) n += m.content.filter(isImagePart).length;
+  }
+  return n;
+}
+
+/**
+ * Apply `policy` for a model whose catalog entry says `supportsImages`
+ * (undefined = unknown). Returns the request to send — a copy when images
+ * were stripped — plus a warning for the response headers.
+ */
+export function applyImagePolicy(
+  request: ChatCompletionRequest,
+  modelId: string,
+  supportsImages: boolean | undefined,
+  policy: ImagePolicy,
+): { request: ChatCompletionRequest; warning?: string } {
+  if (supportsImages !== false || policy === 'allow') return { request };
+  const imageCount = countImages(request);
+  if (imageCount === 0) return { request };
+  if (policy === 'reject') throw new ImageNotSupportedError(modelId, imageCount);
+
+  const messages = request.messages.map((m) => {
+    if (!Array.isArray(m.content) || !m.content.some(isImagePart)) return m;
+    const content = m.content.map((p) => (isImagePart(p) ? { type: 'text' as const, text: STRIPPED_IMAGE_PLACEHOLDER } : p));
+    return { ...m, content };
+  });
+  return {
+    request: { ...request, messages },
+    warning: `${modelId} does not accept images; stripped ${imageCount} image${imageCount === 1 ? '' : 's'}`,
+  };
+}
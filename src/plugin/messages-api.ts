@@ -0,0 +1,447 @@
+/**
+ * Anthropic Messages API (`POST /v1/messages`) adapter for the local proxy.
+ *
+ * Claude-SDK-based agents and the Anthropic CLI shims can only talk to an
+ * Anthropic-shaped endpoint: a top-level `system`, `messages` made of typed
+ * content blocks (`text`, `image`, `tool_use`, `tool_result`), and a
+ * `message_start` / `content_block_*` / `message_delta` / `message_stop`
+ * SSE stream back.
+ *
+ * Same structure as `responses-api.ts`:
+ *
+ *   1. {@link messagesToChatCompletion} folds the body into the proxy's
+ *      internal {@link ChatCompletionRequest} so it rides the shared
+ *      cloud-direct path.
+ *   2. {@link MessagesEventBuilder} maps CloudChatEvents onto Anthropic
+ *      stream events (reasoning → `thinking` blocks, tool calls →
+ *      `tool_use` blocks with `input_json_delta`s) and accumulates the
+ *      final non-streaming `message` object.
+ *
+ * Reference: https://docs.anthropic.com/en/api/messages
+ */
+
+import * as crypto from 'crypto';
+import type { CloudChatEvent } from '../cloud-direct/index.js';
+import type { ChatCompletionRequest } from './types.js';
+
+// ============================================================================
+// Request shape
+// ============================================================================
+
+interface AnthropicImageSource {
+  type?: string;
+  media_type?: string;
+  data?: string;
+  url?: string;
+}
+
+/** One Anthropic content block. Narrowed at runtime by `type`. */
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  source?: AnthropicImageSource;
+  /** tool_use */
+  id?: string;
+  name?: string;
+  input?: unknown;
+  /** tool_result */
+  tool_use_id?: string;
+  content?: string | AnthropicContentBlock[];
+  is_error?: boolean;
+  [key: string]: unknown;
+}
+
+export interface MessagesRequest {
+  model?: string;
+  max_tokens?: number;
+  system?: string | AnthropicContentBlock[];
+  messages?: Array<{
+    role?: string;
+    content?: string | AnthropicContentBlock[];
+  }>;
+  tools?: Array<{
+    name?: string;
+    description?: string;
+    input_schema?: Record<string, unknown>;
+    [key: string]: unknown;
+  }>;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  /** `{ type: 'auto' | 'any' | 'tool' | 'none', name?, disable_parallel_tool_use? }`. */
+  tool_choice?: { type?: string; name?: string; disable_parallel_tool_use?: boolean };
+  providerOptions?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+type ChatMessage = ChatCompletionRequest['messages'][number];
+type ChatPart = { type: string; text?: string; [key: string]: unknown };
+
+/** Thrown for request bodies we can't translate; the proxy maps it to a 400. */
+export class MessagesRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessagesRequestError';
+  }
+}
+
+/**
+ * Convert an Anthropic `image` block into the OpenAI `image_url` part
+ * cloud-direct's normalizeContent understands. Base64 sources become a
+ * data: URI; URL sources are forwarded as-is.
+ */
+function convertImage(block: AnthropicContentBlock): ChatPart | null {
+  const src = block.source;
+  if (!src) return null;
+  if (src.type === 'base64' && typeof src.data === 'string') {
+    const mime = typeof src.media_type === 'string' ? src.media_type : 'image/png';
+    return { type: 'image_url', image_url: { url: `data:${mime};base64,${src.data}` } };
+  }
+  if (src.type === 'url' && typeof src.url === 'string') {
+    return { type: 'image_url', image_url: { url: src.url } };
+  }
+  return null;
+}
+
+/**
+ * Convert an Anthropic `document` block into an OpenAI-style `file` part,
+ * which cloud-direct extracts to text. Base64 sources keep their media
+ * type; `text` sources are plain text.
+ */
+function convertDocument(block: AnthropicContentBlock): ChatPart | null {
+  const src = block.source;
+  if (!src) return null;
+  const filename = typeof block.title === 'string' ? block.title : undefined;
+  if (src.type === 'base64' && typeof src.data === 'string') {
+    const mime = typeof src.media_type === 'string' ? src.media_type : 'application/pdf';
+    return { type: 'file', file: { filename, file_data: `data:${mime};base64,${src.data}` } };
+  }
+  if (src.type === 'text' && typeof src.data === 'string') {
+    return { type: 'file', file: { filename, file_data: `data:text/plain;base64,${Buffer.from(src.data, 'utf8').toString('base64')}` } };
+  }
+  if (src.type === 'url' && typeof src.url === 'string') {
+    return { type: 'file', file: { filename, file_url: src.url } };
+  }
+  return null;
+}
+
+/** Text, image and document blocks → chat-completion parts. Other block types are skipped. */
+function convertBlocks(blocks: AnthropicContentBlock[]): ChatPart[] {
+  const parts: ChatPart[] = [];
+  for (const b of blocks) {
+    if (!b || typeof b !== 'object') continue;
+    if (b.type === 'text' && typeof b.text === 'string') {
+      parts.push({ type: 'text', text: b.text });
+    } else if (b.type === 'image') {
+      const img = convertImage(b);
+      if (img) parts.push(img);
+    } else if (b.type === 'document') {
+      const doc = convertDocument(b);
+      if (doc) parts.push(doc);
+    }
+  }
+  return parts;
+}
+
+function systemText(system: MessagesRequest['system']): string {
+  if (typeof system === 'string') return system;
+  if (!Array.isArray(system)) return '';
+  return system
+    .filter((b) => b && b.type === 'text' && typeof b.text === 'string')
+    .map((b) => b.text as string)
+    .join('\n\n');
+}
+
+/**
+ * Translate an Anthropic Messages body into the proxy's chat-completions
+ * shape.
+ *
+ *   - `tool_use` blocks on an assistant turn become `tool_calls` (input
+ *     re-serialised as the JSON `arguments` string).
+ *   - `tool_result` blocks on a user turn become one `role:'tool'` message
+ *     each, emitted before any remaining user text so every result directly
+ *     follows the assistant turn that called it.
+ *   - `thinking` / `redacted_thinking` blocks from earlier turns are dropped:
+ *     the cloud has no field for replaying prior reasoning.
+ */
+export function messagesToChatCompletion(body: MessagesRequest): ChatCompletionRequest {
+  if (!Array.isArray(body.messages)) {
+    throw new MessagesRequestError('`messages` must be an array.');
+  }
+  const messages: ChatMessage[] = [];
+  const system = systemText(body.system);
+  if (system.length > 0) messages.push({ role: 'system', content: system });
+
+  for (const m of body.messages) {
+    if (!m || (m.role !== 'user' && m.role !== 'assistant')) {
+      throw new MessagesRequestError(`Unsupported message role: ${String(m?.role)}; expected "user" or "assistant".`);
+    }
+    if (typeof m.content === 'string') {
+      messages.push({ role: m.role, content: m.content });
+      continue;
+    }
+    if (!Array.isArray(m.content)) {
+      throw new MessagesRequestError('Message `content` must be a string or an array of content blocks.');
+    }
+
+    if (m.role === 'assistant') {
+      const toolCalls = m.content
+        .filter((b) => b && b.type === 'tool_use')
+        .map((b) => {
+          if (typeof b.id !== 'string' || typeof b.name !== 'string') {
+            throw new MessagesRequestError('tool_use blocks require `id` and `name`.');
+          }
+          return {
+            id: b.id,
+            type: 'function',
+            function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+          };
+        });
+      const msg: ChatMessage = { role: 'assistant', content: convertBlocks(m.content) };
+      if (toolCalls.length > 0) msg.tool_calls = toolCalls;
+      messages.push(msg);
+      continue;
+    }
+
+    for (const b of m.content) {
+      if (!b || b.type !== 'tool_result') continue;
+      if (typeof b.tool_use_id !== 'string') {
+        throw new MessagesRequestError('tool_result blocks require `tool_use_id`.');
+      }
+      let content: ChatMessage['content'] =
+        typeof b.content === 'string' ? b.content : convertBlocks(Array.isArray(b.content) ? b.content : []);
+      if (b.is_error === true) {
+        // The cloud has no is_error flag on tool results; make the failure
+        // visible to the model in-band.
+        content = typeof content === 'string'
+          ? `Error: ${content}`
+          : [{ type: 'text', text: 'Error:' }, ...content];
+      }
+      messages.push({ role: 'tool', tool_call_id: b.tool_use_id, content });
+    }
+    const rest = convertBlocks(m.content);
+    if (rest.length > 0) messages.push({ role: 'user', content: rest });
+  }
+
+  if (messages.length === 0) {
+    throw new MessagesRequestError('Request has no messages.');
+  }
+
+  const tools = (body.tools ?? [])
+    .filter((t) => t && typeof t.name === 'string')
+    .map((t) => ({
+      type: 'function',
+      function: { name: t.name, description: t.description, parameters: t.input_schema },
+    }));
+
+  const request: ChatCompletionRequest = {
+    model: body.model,
+    messages,
+    stream: body.stream === true,
+  };
+  if (tools.length > 0) request.tools = tools;
+  if (typeof body.max_tokens === 'number') request.max_tokens = body.max_tokens;
+  // Forwarded as-is (even if mistyped) so resolveSamplingOptions can 400 on them.
+  if (body.temperature !== undefined) request.temperature = body.temperature;
+  if (body.top_p !== undefined) request.top_p = body.top_p;
+  if (body.top_k !== undefined) request.top_k = body.top_k;
+  if (body.stop_sequences !== undefined) request.stop = body.stop_sequences;
+  if (body.tool_choice !== undefined) {
+    const choice = body.tool_choice;
+    const type = choice && typeof choice === 'object' ? choice.type : undefined;
+    if (type === 'auto' || type === 'none') request.tool_choice = type;
+    else if (type === 'any') request.tool_choice = 'required';
+    else if (type === 'tool' && typeof choice.name === 'string') request.tool_choice = { type: 'function', function: { name: choice.name } };
+    else throw new MessagesRequestError(`Unsupported tool_choice: ${JSON.stringify(choice)}`);
+    if (choice.disable_parallel_tool_use === true) request.parallel_tool_calls = false;
+  }
+  if (body.providerOptions && typeof body.providerOptions === 'object') {
+    request.providerOptions = body.providerOptions;
+  }
+  return request;
+}
+
+// ============================================================================
+// Response shape
+// ============================================================================
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown };
+
+export interface MessagesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+}
+
+export type StopReason = 'end_turn' | 'max_tokens' | 'tool_use' | 'refusal';
+
+export interface MessageObject {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: ContentBlock[];
+  stop_reason: StopReason | null;
+  stop_sequence: null;
+  usage: MessagesUsage;
+}
+
+/** One Anthropic SSE event — `type` doubles as the SSE `event:` name. */
+export interface MessagesEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Incremental CloudChatEvent → Anthropic stream event translator. Keeps at
+ * most one content block open and closes it when the event kind changes,
+ * matching the sequential block order Anthropic clients expect.
+ */
+export class MessagesEventBuilder {
+  readonly message: MessageObject;
+  private open: { block: ContentBlock; index: number; rawArgs: string } | null = null;
+  private sawToolUse = false;
+  private finishReason: Extract<CloudChatEvent, { kind: 'finish' }>['reason'] | null = null;
+
+  constructor(model: string) {
+    this.message = {
+      id: `msg_${crypto.randomBytes(12).toString('hex')}`,
+      type: 'message',
+      role: 'assistant',
+      model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+    };
+  }
+
+  /** `message_start` — usage is zeroed here and finalised in `message_delta`. */
+  start(): MessagesEvent[] {
+    return [{
+      type: 'message_start',
+      message: { ...this.message, content: [], usage: { ...this.message.usage } },
+    }];
+  }
+
+  private openBlock(block: ContentBlock): MessagesEvent[] {
+    const out = this.closeOpen();
+    const index = this.message.content.length;
+    this.message.content.push(block);
+    this.open = { block, index, rawArgs: '' };
+    const startBlock =
+      block.type === 'text' ? { type: 'text', text: '' }
+        : block.type === 'thinking' ? { type: 'thinking', thinking: '', signature: '' }
+          : { type: 'tool_use', id: block.id, name: block.name, input: {} };
+    out.push({ type: 'content_block_start', index, content_block: startBlock });
+    return out;
+  }
+
+  private closeOpen(): MessagesEvent[] {
+    if (!this.open) return [];
+    const { block, index, rawArgs } = this.open;
+    this.open = null;
+    if (block.type === 'tool_use') {
+      // Streaming clients rebuild `input` from the input_json_deltas; the
+      // accumulated object only matters for the non-streaming response.
+      let input: unknown = {};
+      if (rawArgs.trim().length > 0) {
+        try { input = JSON.parse(rawArgs); } catch { /* malformed args — keep {} */ }
+      }
+      block.input = input;
+    }
+    return [{ type: 'content_block_stop', index }];
+  }
+
+  /** Translate one cloud event; returns the Anthropic events it produced. */
+  push(ev: CloudChatEvent): MessagesEvent[] {
+    switch (ev.kind) {
+      case 'text': {
+        const out = this.open?.block.type === 'text' ? [] : this.openBlock({ type: 'text', text: '' });
+        (this.open!.block as Extract<ContentBlock, { type: 'text' }>).text += ev.text;
+        out.push({ type: 'content_block_delta', index: this.open!.index, delta: { type: 'text_delta', text: ev.text } });
+        return out;
+      }
+      case 'reasoning': {
+        const out = this.open?.block.type === 'thinking'
+          ? []
+          : this.openBlock({ type: 'thinking', thinking: '', signature: '' });
+        (this.open!.block as Extract<ContentBlock, { type: 'thinking' }>).thinking += ev.text;
+        out.push({ type: 'content_block_delta', index: this.open!.index, delta: { type: 'thinking_delta', thinking: ev.text } });
+        return out;
+      }
+      case 'tool_call_start':
+        this.sawToolUse = true;
+        return this.openBlock({ type: 'tool_use', id: ev.id, name: ev.name, input: {} });
+      case 'tool_call_args': {
+        // Anthropic has no way to address a non-current block with a delta,
+        // so args are only routed to the open tool_use block. Orphans
+        // (no preceding start) are dropped like on the other routes.
+        if (this.open?.block.type !== 'tool_use') return [];
+        if (ev.id !== undefined && ev.id !== this.open.block.id) return [];
+        this.open.rawArgs += ev.argsDelta;
+        return [{ type: 'content_block_delta', index: this.open.index, delta: { type: 'input_json_delta', partial_json: ev.argsDelta } }];
+      }
+      case 'finish':
+        this.finishReason = ev.reason;
+        return [];
+      case 'usage':
+        this.message.usage = {
+          input_tokens: ev.promptTokens ?? 0,
+          output_tokens: ev.completionTokens ?? 0,
+          cache_read_input_tokens: ev.cachedInputTokens ?? 0,
+          cache_creation_input_tokens: ev.cacheCreationInputTokens ?? 0,
+        };
+        return [];
+    }
+  }
+
+  private stopReason(): StopReason {
+    switch (this.finishReason) {
+      case 'length': return 'max_tokens';
+      case 'content_filter': return 'refusal';
+      case 'tool_calls': return 'tool_use';
+      default: return this.sawToolUse ? 'tool_use' : 'end_turn';
+    }
+  }
+
+  /** Close the open block and emit `message_delta` + `message_stop`. */
+  finish(): MessagesEvent[] {
+    const out = this.closeOpen();
+    this.message.stop_reason = this.stopReason();
+    out.push({
+      type: 'message_delta',
+      delta: { stop_reason: this.message.stop_reason, stop_sequence: null },
+      usage: { ...this.message.usage },
+    });
+    out.push({ type: 'message_stop' });
+    return out;
+  }
+
+  /** Terminal event for a mid-stream failure (Anthropic `error` event). */
+  fail(message: string, type = 'api_error'): MessagesEvent[] {
+    const out = this.closeOpen();
+    out.push(anthropicErrorBody(type, message));
+    return out;
+  }
+}
+
+/**
+ * Anthropic error envelope — `{type:'error', error:{type, message}}`. Used
+ * both as a JSON response body and as the payload of a streamed `error`
+ * event.
+ */
+export function anthropicErrorBody(type: string, message: string): MessagesEvent {
+  return { type: 'error', error: { type, message } };
+}
+
+/** Serialise one event in Anthropic's `event:` + `data:` SSE framing. */
+export function encodeMessagesEvent(ev: MessagesEvent): string {
+  return `event: ${ev.type}\ndata: ${JSON.stringify(ev)}\n\n`;
+}
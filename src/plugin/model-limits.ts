@@ -0,0 +1,142 @@
+/**
+ * Per-model token limits for the cloud's CompletionConfiguration.
+ *
+ * The proxy used to send `max_input_tokens = 64000` for every model, so a
+ * 1M-context Claude variant or a 262K Kimi was silently truncated server-side
+ * once a session grew past 64K. Limits now come from, in order:
+ *
+ *   1. The live `GetCascadeModelConfigs` catalog — `ClientModelConfig.max_tokens`
+ *      (#18) is the context window the cloud will actually honour for this
+ *      account.
+ *   2. {@link FAMILY_LIMITS} below — the same context/output numbers
+ *      `opencode_config_example.json` ships (verified against models.dev),
+ *      folded into family rules so new point releases inherit sane values.
+ *   3. {@link DEFAULT_CONTEXT_TOKENS} with no output cap, letting the cloud
+ *      clamp to whatever it enforces.
+ *
+ * The catalog only carries one number, so the output cap always comes from
+ * the table. When a model has no known output cap we pass the caller's
+ * `max_tokens` through unclamped rather than guess low and truncate answers.
+ */
+
+export interface ModelLimits {
+  /** Context window in tokens — sent as `max_input_tokens`. */
+  contextTokens: number;
+  /** Largest `max_tokens` the model accepts; undefined when unknown. */
+  maxOutputTokens?: number;
+  /** Where `contextTokens` came from — handy in debug logs. */
+  source: 'catalog' | 'table' | 'default';
+}
+
+/** Context window assumed when neither the catalog nor the table knows the model. */
+export const DEFAULT_CONTEXT_TOKENS = 128_000;
+
+/**
+ * Output budget used when the caller doesn't send `max_tokens` and the model
+ * has no known cap. Matches the catalog's most permissive models; the cloud
+ * clamps to the per-model limit anyway.
+ */
+export const DEFAULT_MAX_OUTPUT_TOKENS = 128_000;
+
+/** Context window for the `-1m` Claude variants (and any future `*-1m` UID). */
+const ONE_M_CONTEXT_TOKENS = 1_000_000;
+
+/**
+ * Family rules matched against the canonical model id (`claude-opus-4.7`,
+ * not the variant UID). First match wins, so specific rules precede the
+ * family catch-alls.
+ */
+const FAMILY_LIMITS: ReadonlyArray<{ pattern: RegExp; context: number; output?: number }> = [
+  { pattern: /^claude-3-(opus|sonnet|haiku)$/, context: 200_000, output: 4_096 },
+  { pattern: /^claude-3\.5-/, context: 200_000, output: 8_192 },
+  { pattern: /^claude-4(\.1)?-opus/, context: 200_000, output: 32_000 },
+  { pattern: /^claude-opus-4\.[6-9]/, context: 1_000_000, output: 128_000 },
+  { pattern: /^claude-/, context: 200_000, output: 64_000 },
+  { pattern: /^gpt-5\.[45]$/, context: 1_050_000, output: 128_000 },
+  { pattern: /^gpt-5/, context: 400_000, output: 128_000 },
+  { pattern: /^gpt-4\.1/, context: 1_047_576, output: 32_768 },
+  { pattern: /^gpt-4o/, context: 128_000, output: 16_384 },
+  { pattern: /^gpt-4-turbo$/, context: 128_000, output: 4_096 },
+  { pattern: /^gpt-4$/, context: 8_192, output: 8_192 },
+  { pattern: /^gpt-oss-/, context: 131_072, output: 131_072 },
+  { pattern: /^o[34](-|$)/, context: 200_000, output: 100_000 },
+  { pattern: /^gemini-2\.0-/, context: 1_048_576, output: 8_192 },
+  { pattern: /^gemini-/, context: 1_048_576, output: 65_536 },
+  { pattern: /^deepseek-v4/, context: 1_000_000, output: 384_000 },
+  { pattern: /^deepseek-r1/, context: 163_840, output: 163_840 },
+  { pattern: /^deepseek-/, context: 163_840, output: 16_384 },
+  { pattern: /^kimi-k2(\.6|-thinking)$/, context: 262_144, output: 262_144 },
+  { pattern: /^kimi-k2\.5$/, context: 262_144, output: 65_536 },
+  { pattern: /^kimi-/, context: 131_072, output: 16_384 },
+  { pattern: /^glm-4\.5/, context: 131_072, output: 96_000 },
+  { pattern: /^glm-/, context: 204_800, output: 131_072 },
+  { pattern: /^minimax-m2$/, context: 196_608, output: 128_000 },
+  { pattern: /^minimax-/, context: 204_800, output: 131_072 },
+  { pattern: /^qwen-3-coder/, context: 262_144, output: 65_536 },
+  { pattern: /^qwen-3-/, context: 40_960, output: 16_384 },
+  { pattern: /^qwen-/, context: 32_768, output: 16_384 },
+  { pattern: /^grok-code/, context: 256_000, output: 256_000 },
+  { pattern: /^grok-/, context: 131_072, output: 8_192 },
+  { pattern: /^llama-3\.1-/, context: 131_072, output: 16_384 },
+  { pattern: /^llama-/, context: 128_000, output: 4_096 },
+  { pattern: /^mistral-/, context: 32_768, output: 8_192 },
+  // The example config's 8192 output predates SWE-1.6's long agentic
+  // answers; leave the output cap to the cloud rather than truncate.
+  { pattern: /^swe-/, context: 200_000 },
+];
+
+/**
+ * Resolve limits for a model. `catalogMaxTokens` is the live catalog's
+ * `max_tokens` for `modelUid`, when the catalog fetch succeeded.
+ */
+export function resolveModelLimits(
+  modelId: string,
+  modelUid: string,
+  catalogMaxTokens?: number,
+): ModelLimits {
+  const rule = FAMILY_LIMITS.find((r) => r.pattern.test(modelId));
+  let contextTokens: number;
+  let source: ModelLimits['source'];
+  if (catalogMaxTokens !== undefined && catalogMaxTokens > 0) {
+    contextTokens = catalogMaxTokens;
+    source = 'catalog';
+  } else if (/-1m(-|$)/.test(modelUid)) {
+    contextTokens = ONE_M_CONTEXT_TOKENS;
+    source = 'table';
+  } else if (rule) {
+    contextTokens = rule.context;
+    source = 'table';
+  } else {
+    contextTokens = DEFAULT_CONTEXT_TOKENS;
+    source = 'default';
+  }
+  const output = rule?.output;
+  return {
+    contextTokens,
+    maxOutputTokens: output !== undefined ? Math.min(output, contextTokens) : undefined,
+    source,
+  };
+}
+
+/**
+ * Clamp a caller's `max_tokens` to the model's output cap. Returns the value
+ * to send plus, when clamping happened, a human-readable warning for the
+ * `X-Windsurf-Warning` response header.
+ */
+export function clampMaxOutputTokens(
+  requested: number | undefined,
+  limits: ModelLimits,
+  modelId: string,
+): { maxOutputTokens: number; warning?: string } {
+  const cap = limits.maxOutputTokens;
+  if (requested === undefined || requested <= 0) {
+    return { maxOutputTokens: cap ?? DEFAULT_MAX_OUTPUT_TOKENS };
+  }
+  if (cap !== undefined && requested > cap) {
+    return {
+      maxOutputTokens: cap,
+      warning: `max_tokens=${requested} exceeds ${modelId}'s output limit; clamped to ${cap}`,
+    };
+  }
+  return { maxOutputTokens: requested };
+}
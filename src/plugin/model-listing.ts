@@ -0,0 +1,140 @@
+/**
+ * `/v1/models` payload: the static canonical list merged with the live
+ * per-account catalog.
+ *
+ * The static `VARIANT_CATALOG` says which names the proxy can resolve; only
+ * `GetCascadeModelConfigs` knows which of them THIS account can actually
+ * run. Each model and variant is listed with its resolved `model_uid` and
+ * the catalog's verdict:
+ *
+ *   available: true    listed and enabled for this account
+ *   available: false   `disabled` for this tier, or not listed at all
+ *   available: null    catalog unreachable — no verdict either way
+ *
+ * Context/output limits come from model-limits.ts (catalog first, family
+ * table second), so they match what a chat request would send.
+ */
+
+import type { ModelCatalogEntry } from '../cloud-direct/index.js';
+import { resolveModelLimits } from './model-limits.js';
+import { getCanonicalModels, getModelVariants, resolveModel } from './models.js';
+
+export type ModelAvailability = 'available' | 'disabled' | 'not_listed' | 'unknown';
+
+/** Per-UID fields shared by a model and each of its variants. */
+export interface ListedModelInfo {
+  model_uid: string | null;
+  available: boolean | null;
+  availability: ModelAvailability;
+  label?: string;
+  context_length: number;
+  max_output_tokens: number | null;
+  supports_images: boolean | null;
+  is_premium: boolean | null;
+  is_beta: boolean | null;
+}
+
+export interface ListedVariant extends ListedModelInfo {
+  id: string;
+  description?: string;
+}
+
+export interface ListedModel extends ListedModelInfo {
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: 'windsurf';
+  variants?: ListedVariant[];
+}
+
+function describeUid(
+  modelId: string,
+  modelUid: string | null,
+  catalog: ReadonlyMap<string, ModelCatalogEntry> | null,
+): ListedModelInfo {
+  const entry = modelUid ? catalog?.get(modelUid) : undefined;
+  const limits = resolveModelLimits(modelId, modelUid ?? '', entry?.maxTokens);
+  const availability: ModelAvailability = !catalog || !modelUid
+    ? 'unknown'
+    : !entry ? 'not_listed' : entry.disabled ? 'disabled' : 'available';
+  return {
+    model_uid: modelUid,
+    available: availability === 'unknown' ? null : availability === 'available',
+    availability,
+    ...(entry ? { label: entry.label } : {}),
+    context_length: limits.contextTokens,
+    max_output_tokens: limits.maxOutputTokens ?? null,
+    supports_images: entry ? entry.supportsImages : null,
+    is_premium: entry ? entry.isPremium : null,
+    is_beta: entry ? entry.isBeta : null,
+  };
+}
+
+function uidFor(modelId: string, variant?: string): string | null {
+  try {
+    return resolveModel(modelId, variant).modelUid;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the `/v1/models` data array. `catalog` is the live catalog's
+ * UID map, or null when it couldn't be fetched. With `onlyAvailable`,
+ * unavailable variants are dropped and a model is kept only if it or one
+ * of its remaining variants is available.
+ */
+export function listModels(
+  catalog: ReadonlyMap<string, ModelCatalogEntry> | null,
+  onlyAvailable = false,
+): ListedModel[] {
+  const created = Math.floor(Date.now() / 1000);
+  const out: ListedModel[] = [];
+  for (const id of getCanonicalModels()) {
+    const variants = getModelVariants(id);
+    let listedVariants = variants
+      ? Object.entries(variants).map(([name, meta]): ListedVariant => ({
+          id: name,
+          description: meta.description,
+          ...describeUid(id, uidFor(id, name), catalog),
+        }))
+      : undefined;
+    const base = describeUid(id, uidFor(id), catalog);
+    if (onlyAvailable) {
+      listedVariants = listedVariants?.filter((v) => v.available === true);
+      if (base.available !== true && !listedVariants?.length) continue;
+    }
+    out.push({
+      id,
+      object: 'model',
+      created,
+      owned_by: 'windsurf',
+      ...base,
+      ...(listedVariants ? { variants: listedVariants } : {}),
+    });
+  }
+  return out;
+}
+
+/**
+ * {@link listModels} over a catalog that `loadCatalog` fetches. When the
+ * fetch fails (no credentials, the cloud unreachable) the static list is
+ * served with `available: null` and `onlyAvailable` can't filter; `warning`
+ * says so, for the `X-Windsurf-Warning` header.
+ */
+export async function listModelsFromCatalog(
+  loadCatalog: () => Promise<ReadonlyMap<string, ModelCatalogEntry> | null>,
+  onlyAvailable = false,
+  log: (message: string) => void = () => { /* silent */ },
+): Promise<{ data: ListedModel[]; warning?: string }> {
+  let catalog: ReadonlyMap<string, ModelCatalogEntry> | null = null;
+  try {
+    catalog = await loadCatalog();
+  } catch (err) {
+    log(`[windsurf-plugin] /v1/models: catalog unavailable: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return {
+    data: listModels(catalog, onlyAvailable && catalog !== null),
+    ...(catalog ? {} : { warning: 'model catalog unavailable; availability unknown' }),
+  };
+}
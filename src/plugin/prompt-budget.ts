@@ -0,0 +1,178 @@
+/**
+ * What to do when a request won't fit the model's context window.
+ *
+ * Without a check, an oversized history goes all the way to the cloud and
+ * comes back as an opaque `invalid_argument` (or is silently cut by the
+ * backend) after we've paid the roundtrip. {@link budgetPrompt} estimates
+ * the prompt with cloud-direct/tokenizer.ts — messages, extracted
+ * documents, images and tool definitions — and compares it with the
+ * model's context window, less the tokens reserved for the reply, before
+ * the response opens:
+ *
+ *   reject  400 `context_length_exceeded`, with the estimate and the limit
+ *           in the message.
+ *   trim    drop the oldest messages until it fits. System messages, the
+ *           last user message and the final message are kept; an assistant
+ *           turn and the tool results answering it go together, and a
+ *           one-line note marks where history was cut. Adds an
+ *           `X-Windsurf-Warning` header.
+ *   allow   (default) send it anyway and let the cloud decide. The
+ *           estimate is an approximation, so refusing or rewriting a
+ *           request on it is opt-in.
+ *
+ * The policy comes from `providerOptions.windsurf.contextOverflow`, else the
+ * `WINDSURF_CONTEXT_OVERFLOW` environment variable, else `allow`. The
+ * estimate itself is reported in the `X-Windsurf-Estimated-Prompt-Tokens`
+ * response header whatever the policy.
+ *
+ * The reply shares the window with the prompt, so the request's output
+ * budget (`max_tokens` after clamping) is held back — but never more than
+ * half the window, since some models' output cap equals their context.
+ */
+
+import type { ChatHistoryItem, PromptTokenEstimate } from '../cloud-direct/index.js';
+import { RequestParamError } from './proxy-errors.js';
+import type { ChatCompletionRequest } from './types.js';
+
+export type ContextOverflowPolicy = 'reject' | 'trim' | 'allow';
+
+const CONTEXT_OVERFLOW_POLICIES: ReadonlySet<string> = new Set<ContextOverflowPolicy>(['reject', 'trim', 'allow']);
+
+const DEFAULT_CONTEXT_OVERFLOW_POLICY: ContextOverflowPolicy = 'allow';
+
+/** Thrown under the `reject` policy (or when trimming can't help) — mapped to a 400 by plugin/proxy-errors.ts. */
+export class ContextOverflowError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly estimatedTokens: number,
+    public readonly contextTokens: number,
+    public readonly reservedOutputTokens = 0,
+  ) {
+    super(
+      `Model "${modelId}" has a context window of ${contextTokens} tokens` +
+        (reservedOutputTokens > 0 ? `, ${reservedOutputTokens} of them reserved for the reply,` : '') +
+        ` but the request is an estimated ${estimatedTokens} tokens. Shorten the conversation or ` +
+        `attachments, or set \`providerOptions.windsurf.contextOverflow\` to "trim" to drop ` +
+        `the oldest messages.`,
+    );
+    this.name = 'ContextOverflowError';
+  }
+}
+
+/** Resolve the policy for a request. An unrecognised value is a 400, like a bad sampling knob. */
+export function resolveContextOverflowPolicy(request: ChatCompletionRequest): ContextOverflowPolicy {
+  const ws = request.providerOptions?.['windsurf'];
+  const fromOptions = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)['contextOverflow'] : undefined;
+  const raw = fromOptions ?? process.env.WINDSURF_CONTEXT_OVERFLOW?.trim().toLowerCase();
+  if (raw === undefined || raw === '') return DEFAULT_CONTEXT_OVERFLOW_POLICY;
+  if (typeof raw !== 'string' || !CONTEXT_OVERFLOW_POLICIES.has(raw)) {
+    throw new RequestParamError('contextOverflow', `contextOverflow must be one of ${[...CONTEXT_OVERFLOW_POLICIES].join(', ')} (got ${JSON.stringify(raw)})`);
+  }
+  return raw as ContextOverflowPolicy;
+}
+
+function trimNote(dropped: number): ChatHistoryItem {
+  return {
+    role: 'user',
+    content: `[${dropped} earlier message${dropped === 1 ? '' : 's'} omitted to fit the context window]`,
+  };
+}
+
+/**
+ * Droppable units of `messages`, oldest first, as index lists: an assistant
+ * message plus the tool results that follow it, or any other single
+ * non-system message. The unit holding the last user message and the final
+ * unit are never dropped.
+ */
+export function droppableUnits(messages: ChatHistoryItem[]): number[][] {
+  const units: number[][] = [];
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i]!;
+    if (m.role === 'system') continue;
+    if (m.role === 'tool' && units.length > 0 && messages[units[units.length - 1]![0]!]!.role === 'assistant') {
+      units[units.length - 1]!.push(i);
+    } else {
+      units.push([i]);
+    }
+  }
+  let lastUser = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]!.role === 'user') { lastUser = i; break; }
+  }
+  return units.slice(0, -1).filter((u) => !u.includes(lastUser));
+}
+
+/**
+ * Drop the oldest {@link droppableUnits} of `messages` until at least
+ * `excess` tokens (per `perMessage`) are gone, leaving a note where they
+ * were. Returns the messages unchanged (`dropped: 0`) when nothing could go.
+ */
+export function dropOldestMessages(
+  messages: ChatHistoryItem[],
+  perMessage: number[],
+  excess: number,
+): { messages: ChatHistoryItem[]; dropped: number } {
+  let shed = 0;
+  const dropped = new Set<number>();
+  for (const unit of droppableUnits(messages)) {
+    if (shed >= excess) break;
+    for (const i of unit) {
+      dropped.add(i);
+      shed += perMessage[i] ?? 0;
+    }
+  }
+  if (dropped.size === 0) return { messages, dropped: 0 };
+
+  const out: ChatHistoryItem[] = [];
+  let noted = false;
+  messages.forEach((m, i) => {
+    if (!dropped.has(i)) {
+      out.push(m);
+    } else if (!noted) {
+      out.push(trimNote(dropped.size));
+      noted = true;
+    }
+  });
+  return { messages: out, dropped: dropped.size };
+}
+
+/** Output tokens held back from the prompt: the reply budget, at most half the window. */
+export function reservedOutputTokens(contextTokens: number, maxOutputTokens: number): number {
+  return Math.max(0, Math.min(maxOutputTokens, Math.floor(contextTokens / 2)));
+}
+
+/**
+ * Check `messages` against the context window less the reply's reservation
+ * and apply `policy`. `estimate` sizes a message list (cloud-direct's
+ * estimatePromptTokens, bound to the request's model and tools). Returns
+ * the messages to send — a copy when some were dropped — their final
+ * estimate, and a warning for the response headers.
+ */
+export function budgetPrompt(
+  messages: ChatHistoryItem[],
+  modelId: string,
+  limits: { contextTokens: number; maxOutputTokens: number },
+  policy: ContextOverflowPolicy,
+  estimate: (messages: ChatHistoryItem[]) => PromptTokenEstimate,
+): { messages: ChatHistoryItem[]; estimatedTokens: number; warning?: string } {
+  const { contextTokens } = limits;
+  const reserved = reservedOutputTokens(contextTokens, limits.maxOutputTokens);
+  const budget = contextTokens - reserved;
+  const initial = estimate(messages);
+  if (initial.total <= budget || policy === 'allow') {
+    return { messages, estimatedTokens: initial.total };
+  }
+  if (policy === 'reject') throw new ContextOverflowError(modelId, initial.total, contextTokens, reserved);
+
+  // Drop by the per-message estimate, then re-estimate the result once
+  // (the note and the document budget shift it a little).
+  const trimmed = dropOldestMessages(messages, initial.perMessage, initial.total - budget);
+  if (trimmed.dropped === 0) throw new ContextOverflowError(modelId, initial.total, contextTokens, reserved);
+  const total = estimate(trimmed.messages).total;
+  if (total > budget) throw new ContextOverflowError(modelId, total, contextTokens, reserved);
+  return {
+    messages: trimmed.messages,
+    estimatedTokens: total,
+    warning: `prompt exceeded ${modelId}'s ${budget}-token input budget (${contextTokens} context, ${reserved} reserved for output; est. ${initial.total}); dropped the ${trimmed.dropped} oldest message${trimmed.dropped === 1 ? '' : 's'} (now est. ${total})`,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Error taxonomy for proxy responses.
+ *
+ * The proxy used to answer 503 for a WindsurfError and 500 for everything
+ * else, and streamed failures were a bare `{error:{message}}` chunk — so a
+ * client couldn't tell "your plan doesn't include this model" from "the
+ * cloud is down". Every failure now goes through {@link classifyProxyError},
+ * which maps the upstream signal onto an HTTP status plus OpenAI-style
+ * `type` / `code` fields:
+ *
+ *   RequestParamError        400 invalid_parameter (so is SamplingParamError)
+ *   CloudChatError.code      permission_denied → 403, resource_exhausted → 429
+ *                            (with Retry-After), unauthenticated → 401,
+ *                            invalid_argument / failed_precondition → 400,
+ *                            deadline_exceeded → 504, unavailable → 503
+ *   ModelNotAvailableError   disabled → 403, not_listed → 404
+ *   ImageNotSupportedError   400
+ *   ContextOverflowError     400 context_length_exceeded
+ *   CloudAuthError.status    401/403 → 401, 429 → 429, else 502
+ *
+ * The Cognition trace ID rides along as `trace_id` so a bug report can be
+ * matched to the upstream request. The Anthropic route reuses the same
+ * classification through {@link anthropicErrorType}.
+ */
+
+import { CloudAuthError, CloudChatError, ModelNotAvailableError } from '../cloud-direct/index.js';
+import { RATE_LIMIT_CONFIG } from '../constants.js';
+import { loadAccountState } from '../oauth/storage.js';
+import { isRateLimitError } from './account-rotation.js';
+import { WindsurfError, WindsurfErrorCode } from './auth.js';
+import { ImageNotSupportedError } from './image-policy.js';
+import { ContextOverflowError } from './prompt-budget.js';
+import { SamplingParamError } from './sampling.js';
+
+/**
+ * A request field or `providerOptions.windsurf.*` setting we can't accept
+ * (tool_choice, contextOverflow, imagePolicy, …). Maps to HTTP 400.
+ */
+export class RequestParamError extends Error {
+  constructor(public readonly param: string, message: string) {
+    super(message);
+    this.name = 'RequestParamError';
+  }
+}
+
+export type ProxyErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'permission_error'
+  | 'not_found_error'
+  | 'rate_limit_error'
+  | 'server_error'
+  | 'timeout_error';
+
+export interface ProxyErrorInfo {
+  status: number;
+  type: ProxyErrorType;
+  /** Machine-readable code: the Connect code when upstream sent one. */
+  code: string;
+  message: string;
+  /** Offending request field, for validation errors. */
+  param?: string;
+  traceId?: string;
+  /** Seconds until a retry is worth attempting (429 only). */
+  retryAfterSeconds?: number;
+}
+
+const CONNECT_CODE_MAP: Record<string, { status: number; type: ProxyErrorType }> = {
+  invalid_argument: { status: 400, type: 'invalid_request_error' },
+  failed_precondition: { status: 400, type: 'invalid_request_error' },
+  out_of_range: { status: 400, type: 'invalid_request_error' },
+  unauthenticated: { status: 401, type: 'authentication_error' },
+  permission_denied: { status: 403, type: 'permission_error' },
+  not_found: { status: 404, type: 'not_found_error' },
+  resource_exhausted: { status: 429, type: 'rate_limit_error' },
+  unavailable: { status: 503, type: 'server_error' },
+  truncated_stream: { status: 502, type: 'server_error' },
+  deadline_exceeded: { status: 504, type: 'timeout_error' },
+};
+
+/**
+ * Seconds until the soonest rate-limited account cools down, falling back
+ * to the initial backoff when no cooldown is recorded.
+ */
+function retryAfterSeconds(now = Date.now()): number {
+  const resets = Object.values(loadAccountState().accounts)
+    .map((s) => s.rateLimit?.isLimited ? s.rateLimit.resetAt ?? 0 : 0)
+    .filter((t) => t > now);
+  const ms = resets.length > 0 ? Math.min(...resets) - now : RATE_LIMIT_CONFIG.INITIAL_BACKOFF_MS;
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+function classifyCloudChatError(err: CloudChatError): ProxyErrorInfo {
+  const base = { message: err.message, traceId: err.traceId };
+  if (isRateLimitError(err)) {
+    return { ...base, status: 429, type: 'rate_limit_error', code: err.code ?? 'resource_exhausted', retryAfterSeconds: retryAfterSeconds() };
+  }
+  const mapped = err.code ? CONNECT_CODE_MAP[err.code] : undefined;
+  if (mapped) return { ...base, ...mapped, code: err.code! };
+  // No (known) Connect code: go by the HTTP status when we have one, and
+  // otherwise blame the upstream — the request itself was accepted.
+  if (err.httpStatus === 401 || err.httpStatus === 403) {
+    return { ...base, status: err.httpStatus, type: err.httpStatus === 401 ? 'authentication_error' : 'permission_error', code: err.code ?? `http_${err.httpStatus}` };
+  }
+  if (err.httpStatus !== undefined && err.httpStatus >= 400 && err.httpStatus < 500) {
+    return { ...base, status: 400, type: 'invalid_request_error', code: err.code ?? `http_${err.httpStatus}` };
+  }
+  return { ...base, status: 502, type: 'server_error', code: err.code ?? 'upstream_error' };
+}
+
+/** Map any error thrown while serving a chat request onto an HTTP-level error. */
+export function classifyProxyError(err: unknown): ProxyErrorInfo {
+  if (err instanceof RequestParamError || err instanceof SamplingParamError) {
+    return { status: 400, type: 'invalid_request_error', code: 'invalid_parameter', param: err.param, message: err.message };
+  }
+  if (err instanceof ImageNotSupportedError) {
+    return { status: 400, type: 'invalid_request_error', code: 'model_does_not_support_images', param: 'messages', message: err.message };
+  }
+  if (err instanceof ContextOverflowError) {
+    return { status: 400, type: 'invalid_request_error', code: 'context_length_exceeded', param: 'messages', message: err.message };
+  }
+  if (err instanceof CloudChatError) return classifyCloudChatError(err);
+  if (err instanceof ModelNotAvailableError) {
+    return err.reason === 'disabled'
+      ? { status: 403, type: 'permission_error', code: 'model_not_enabled', message: err.message }
+      : { status: 404, type: 'not_found_error', code: 'model_not_found', message: err.message };
+  }
+  if (err instanceof CloudAuthError) {
+    if (err.status === 401 || err.status === 403) {
+      return { status: 401, type: 'authentication_error', code: 'invalid_api_key', message: err.message };
+    }
+    if (err.status === 429) {
+      return { status: 429, type: 'rate_limit_error', code: 'resource_exhausted', message: err.message, retryAfterSeconds: retryAfterSeconds() };
+    }
+    return { status: 502, type: 'server_error', code: 'auth_upstream_error', message: err.message };
+  }
+  if (err instanceof WindsurfError) {
+    // Missing or rejected credentials are the user's to fix; the rest
+    // (discovery, connection) are outages.
+    const authProblem = err.code === WindsurfErrorCode.API_KEY_MISSING || err.code === WindsurfErrorCode.AUTH_FAILED;
+    return authProblem
+      ? { status: 401, type: 'authentication_error', code: err.code.toLowerCase(), message: err.message }
+      : { status: 503, type: 'server_error', code: err.code.toLowerCase(), message: err.message };
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return { status: 500, type: 'server_error', code: 'internal_error', message };
+}
+
+/** OpenAI `{error:{…}}` envelope, as a response body or a streamed data event. */
+export function openAIErrorBody(info: ProxyErrorInfo): { error: Record<string, unknown> } {
+  return {
+    error: {
+      message: info.message,
+      type: info.type,
+      param: info.param ?? null,
+      code: info.code,
+      ...(info.traceId ? { trace_id: info.traceId } : {}),
+    },
+  };
+}
+
+/** Response headers for an error: `Retry-After` on 429, the trace ID when known. */
+export function errorHeaders(info: ProxyErrorInfo): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (info.retryAfterSeconds !== undefined) headers['Retry-After'] = String(info.retryAfterSeconds);
+  if (info.traceId) headers['X-Windsurf-Trace-Id'] = info.traceId;
+  return headers;
+}
+
+/** Anthropic's error `type` for a classified error (only its status matters). */
+export function anthropicErrorType(info: Pick<ProxyErrorInfo, 'status'>): string {
+  switch (info.status) {
+    case 400: return 'invalid_request_error';
+    case 401: return 'authentication_error';
+    case 403: return 'permission_error';
+    case 404: return 'not_found_error';
+    case 413: return 'request_too_large';
+    case 429: return 'rate_limit_error';
+    case 503: return 'overloaded_error';
+    case 504: return 'timeout_error';
+    default: return info.status < 500 ? 'invalid_request_error' : 'api_error';
+  }
+}
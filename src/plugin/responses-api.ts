@@ -0,0 +1,475 @@
+/**
+ * OpenAI Responses API (`POST /v1/responses`) adapter for the local proxy.
+ *
+ * Newer OpenAI tooling speaks the Responses shape instead of
+ * chat-completions: a flat list of typed `input` items (messages,
+ * `function_call`, `function_call_output`, …) in, and a typed SSE event
+ * stream (`response.output_text.delta`, `response.reasoning_summary_text.delta`,
+ * `response.function_call_arguments.delta`, …) out.
+ *
+ * Rather than teaching cloud-direct a second request format we translate at
+ * the edges:
+ *
+ *   1. {@link responsesToChatCompletion} folds the Responses body into the
+ *      proxy's internal {@link ChatCompletionRequest}, so the exact same
+ *      request → GetChatMessage path serves both routes.
+ *   2. {@link ResponsesEventBuilder} consumes the resulting CloudChatEvents
+ *      and emits Responses-style events plus the final `response` object.
+ *      The streaming route serialises every event as SSE; the non-streaming
+ *      route only keeps the final object.
+ *
+ * Both halves are pure (no network, no credentials) so they can be exercised
+ * without a live cloud.
+ *
+ * Reference: https://platform.openai.com/docs/api-reference/responses
+ */
+
+import * as crypto from 'crypto';
+import type { CloudChatEvent } from '../cloud-direct/index.js';
+import type { ChatCompletionRequest } from './types.js';
+
+// ============================================================================
+// Request shape
+// ============================================================================
+
+/** Content part inside a Responses `message` input item. */
+interface ResponsesContentPart {
+  type: string;
+  text?: string;
+  /** `input_image` — data: URI or remote URL. */
+  image_url?: string | { url?: string };
+  [key: string]: unknown;
+}
+
+/**
+ * One element of the Responses `input` array. The API accepts both explicit
+ * `{type:'message', role, content}` items and the "easy" form that omits
+ * `type`, so every field is optional and narrowed at runtime.
+ */
+interface ResponsesInputItem {
+  type?: string;
+  role?: string;
+  content?: string | ResponsesContentPart[];
+  /** `function_call` / `function_call_output` pairing id. */
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  output?: string | ResponsesContentPart[];
+  [key: string]: unknown;
+}
+
+export interface ResponsesRequest {
+  model?: string;
+  input?: string | ResponsesInputItem[];
+  /** System-level instructions — prepended as a system message. */
+  instructions?: string;
+  tools?: Array<{
+    type?: string;
+    name?: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+    [key: string]: unknown;
+  }>;
+  stream?: boolean;
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  /** `'auto' | 'none' | 'required'` or `{ type: 'function', name }`. */
+  tool_choice?: string | { type?: string; name?: string };
+  parallel_tool_calls?: boolean;
+  providerOptions?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+type ChatMessage = ChatCompletionRequest['messages'][number];
+
+/**
+ * Thrown for request bodies we can't translate. The proxy maps it to a 400
+ * so the caller sees which field was wrong instead of a generic 500.
+ */
+export class ResponsesRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResponsesRequestError';
+  }
+}
+
+/** Flatten a Responses content array (or string) into chat-completion parts. */
+function convertContent(content: ResponsesInputItem['content']): ChatMessage['content'] {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  const parts: Array<{ type: string; text?: string; [key: string]: unknown }> = [];
+  for (const p of content) {
+    if (!p || typeof p !== 'object') continue;
+    if (
+      (p.type === 'input_text' || p.type === 'output_text' || p.type === 'text') &&
+      typeof p.text === 'string'
+    ) {
+      parts.push({ type: 'text', text: p.text });
+    } else if (p.type === 'refusal' && typeof p.refusal === 'string') {
+      parts.push({ type: 'text', text: p.refusal });
+    } else if (p.type === 'input_image') {
+      const url = typeof p.image_url === 'string' ? p.image_url : p.image_url?.url;
+      if (typeof url === 'string' && url.length > 0) {
+        parts.push({ type: 'image_url', image_url: { url } });
+      }
+    } else if (p.type === 'input_file') {
+      // Extracted to text (PDF, text, source) by cloud-direct/documents.ts.
+      parts.push({
+        type: 'file',
+        file: {
+          filename: typeof p.filename === 'string' ? p.filename : undefined,
+          file_data: typeof p.file_data === 'string' ? p.file_data : undefined,
+          file_id: typeof p.file_id === 'string' ? p.file_id : undefined,
+          file_url: typeof p.file_url === 'string' ? p.file_url : undefined,
+        },
+      });
+    }
+    // input_audio is not transported by cloud-direct yet — dropped rather
+    // than forwarded as opaque JSON the model can't read.
+  }
+  return parts;
+}
+
+/** Render a `function_call_output.output` as the plain string a tool message carries. */
+function toolOutputText(output: ResponsesInputItem['output']): string {
+  if (typeof output === 'string') return output;
+  if (!Array.isArray(output)) return '';
+  return output
+    .filter((p) => p && typeof p.text === 'string')
+    .map((p) => p.text as string)
+    .join('\n');
+}
+
+/**
+ * Translate a Responses request body into the proxy's chat-completions
+ * shape. `function_call` items attach to the immediately-preceding assistant
+ * message (or open a new one), and `function_call_output` items become
+ * `role:'tool'` messages — the same pairing cloud-direct encodes into
+ * ChatMessagePrompt #6/#7.
+ */
+export function responsesToChatCompletion(body: ResponsesRequest): ChatCompletionRequest {
+  const messages: ChatMessage[] = [];
+  if (typeof body.instructions === 'string' && body.instructions.length > 0) {
+    messages.push({ role: 'system', content: body.instructions });
+  }
+
+  const input = body.input;
+  if (typeof input === 'string') {
+    messages.push({ role: 'user', content: input });
+  } else if (Array.isArray(input)) {
+    for (const item of input) {
+      if (!item || typeof item !== 'object') continue;
+      const type = item.type ?? (item.role ? 'message' : undefined);
+      if (type === 'message') {
+        // `developer` is the Responses-era name for the system role.
+        const role = item.role === 'developer' ? 'system' : item.role;
+        if (role !== 'user' && role !== 'assistant' && role !== 'system') {
+          throw new ResponsesRequestError(`Unsupported message role in input: ${String(item.role)}`);
+        }
+        messages.push({ role, content: convertContent(item.content) });
+      } else if (type === 'function_call') {
+        if (typeof item.call_id !== 'string' || typeof item.name !== 'string') {
+          throw new ResponsesRequestError('function_call input items require `call_id` and `name`.');
+        }
+        const call = {
+          id: item.call_id,
+          type: 'function',
+          function: { name: item.name, arguments: typeof item.arguments === 'string' ? item.arguments : '' },
+        };
+        const prev = messages[messages.length - 1];
+        if (prev && prev.role === 'assistant') {
+          prev.tool_calls = [...(prev.tool_calls ?? []), call];
+        } else {
+          messages.push({ role: 'assistant', content: '', tool_calls: [call] });
+        }
+      } else if (type === 'function_call_output') {
+        if (typeof item.call_id !== 'string') {
+          throw new ResponsesRequestError('function_call_output input items require `call_id`.');
+        }
+        messages.push({ role: 'tool', tool_call_id: item.call_id, content: toolOutputText(item.output) });
+      }
+      // `reasoning` items (encrypted CoT from a previous turn) and built-in
+      // tool items have no cloud-direct equivalent; skip them.
+    }
+  } else if (input !== undefined) {
+    throw new ResponsesRequestError('`input` must be a string or an array of input items.');
+  }
+
+  if (messages.length === 0) {
+    throw new ResponsesRequestError('Request has no input — provide `input` and/or `instructions`.');
+  }
+
+  // Only function tools map onto ChatToolDefinition. Hosted tools
+  // (web_search, file_search, computer_use, …) are OpenAI-side features.
+  const tools = (body.tools ?? [])
+    .filter((t) => t && t.type === 'function' && typeof t.name === 'string')
+    .map((t) => ({
+      type: 'function',
+      function: { name: t.name, description: t.description, parameters: t.parameters },
+    }));
+
+  const request: ChatCompletionRequest = {
+    model: body.model,
+    messages,
+    stream: body.stream === true,
+  };
+  if (tools.length > 0) request.tools = tools;
+  if (typeof body.max_output_tokens === 'number') request.max_tokens = body.max_output_tokens;
+  // Forwarded as-is (even if mistyped) so resolveSamplingOptions can 400 on them.
+  if (body.temperature !== undefined) request.temperature = body.temperature;
+  if (body.top_p !== undefined) request.top_p = body.top_p;
+  // Responses names the forced function at the top level; chat completions
+  // nests it under `function`. Anything else goes through for
+  // resolveToolChoice to 400 on.
+  const choice = body.tool_choice;
+  if (choice !== undefined) {
+    request.tool_choice = choice && typeof choice === 'object' && choice.type === 'function' && typeof choice.name === 'string'
+      ? { type: 'function', function: { name: choice.name } }
+      : choice;
+  }
+  if (body.parallel_tool_calls !== undefined) request.parallel_tool_calls = body.parallel_tool_calls;
+  if (body.providerOptions && typeof body.providerOptions === 'object') {
+    request.providerOptions = body.providerOptions;
+  }
+  return request;
+}
+
+// ============================================================================
+// Response shape
+// ============================================================================
+
+type OutputItem =
+  | { id: string; type: 'message'; role: 'assistant'; status: string; content: Array<{ type: 'output_text'; text: string; annotations: unknown[] }> }
+  | { id: string; type: 'reasoning'; summary: Array<{ type: 'summary_text'; text: string }> }
+  | { id: string; type: 'function_call'; status: string; call_id: string; name: string; arguments: string };
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  input_tokens_details: { cached_tokens: number };
+  output_tokens: number;
+  output_tokens_details: { reasoning_tokens: number };
+  total_tokens: number;
+}
+
+export interface ResponseObject {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'in_progress' | 'completed' | 'incomplete' | 'failed';
+  model: string;
+  output: OutputItem[];
+  incomplete_details: { reason: string } | null;
+  error: { code: string; message: string } | null;
+  usage: ResponsesUsage | null;
+}
+
+/** One Responses SSE event — `type` doubles as the SSE `event:` name. */
+export interface ResponsesEvent {
+  type: string;
+  sequence_number: number;
+  [key: string]: unknown;
+}
+
+function shortId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Incremental CloudChatEvent → Responses event translator.
+ *
+ * The cloud streams one flat sequence of deltas; the Responses API groups
+ * them into output items that are explicitly opened and closed. We keep at
+ * most one item open at a time and close it whenever the event kind
+ * changes (reasoning → text, text → tool call, …), which matches the order
+ * the cloud produces them in.
+ */
+export class ResponsesEventBuilder {
+  readonly response: ResponseObject;
+  private seq = 0;
+  private open: { item: OutputItem; index: number } | null = null;
+  private readonly callsById = new Map<string, { item: Extract<OutputItem, { type: 'function_call' }>; index: number }>();
+  private finishReason: Extract<CloudChatEvent, { kind: 'finish' }>['reason'] | null = null;
+
+  constructor(model: string) {
+    this.response = {
+      id: shortId('resp'),
+      object: 'response',
+      created_at: Math.floor(Date.now() / 1000),
+      status: 'in_progress',
+      model,
+      output: [],
+      incomplete_details: null,
+      error: null,
+      usage: null,
+    };
+  }
+
+  private event(type: string, fields: Record<string, unknown>): ResponsesEvent {
+    return { type, sequence_number: this.seq++, ...fields };
+  }
+
+  private snapshot(): ResponseObject {
+    return JSON.parse(JSON.stringify(this.response)) as ResponseObject;
+  }
+
+  /** Lifecycle events emitted before any model output. */
+  start(): ResponsesEvent[] {
+    return [
+      this.event('response.created', { response: this.snapshot() }),
+      this.event('response.in_progress', { response: this.snapshot() }),
+    ];
+  }
+
+  private openItem(item: OutputItem): ResponsesEvent[] {
+    const out = this.closeOpen();
+    const index = this.response.output.length;
+    this.response.output.push(item);
+    this.open = { item, index };
+    out.push(this.event('response.output_item.added', { output_index: index, item: JSON.parse(JSON.stringify(item)) }));
+    if (item.type === 'message') {
+      out.push(this.event('response.content_part.added', {
+        item_id: item.id,
+        output_index: index,
+        content_index: 0,
+        part: { type: 'output_text', text: '', annotations: [] },
+      }));
+    } else if (item.type === 'reasoning') {
+      out.push(this.event('response.reasoning_summary_part.added', {
+        item_id: item.id,
+        output_index: index,
+        summary_index: 0,
+        part: { type: 'summary_text', text: '' },
+      }));
+    }
+    return out;
+  }
+
+  private closeOpen(): ResponsesEvent[] {
+    if (!this.open) return [];
+    const { item, index } = this.open;
+    this.open = null;
+    const out: ResponsesEvent[] = [];
+    if (item.type === 'message') {
+      item.status = 'completed';
+      const part = item.content[0];
+      out.push(this.event('response.output_text.done', { item_id: item.id, output_index: index, content_index: 0, text: part.text }));
+      out.push(this.event('response.content_part.done', { item_id: item.id, output_index: index, content_index: 0, part: { ...part } }));
+    } else if (item.type === 'reasoning') {
+      const part = item.summary[0];
+      out.push(this.event('response.reasoning_summary_text.done', { item_id: item.id, output_index: index, summary_index: 0, text: part.text }));
+      out.push(this.event('response.reasoning_summary_part.done', { item_id: item.id, output_index: index, summary_index: 0, part: { ...part } }));
+    } else {
+      item.status = 'completed';
+      out.push(this.event('response.function_call_arguments.done', { item_id: item.id, output_index: index, arguments: item.arguments }));
+    }
+    out.push(this.event('response.output_item.done', { output_index: index, item: JSON.parse(JSON.stringify(item)) }));
+    return out;
+  }
+
+  /** Translate one cloud event; returns the Responses events it produced. */
+  push(ev: CloudChatEvent): ResponsesEvent[] {
+    switch (ev.kind) {
+      case 'text': {
+        const out = this.open?.item.type === 'message'
+          ? []
+          : this.openItem({
+              id: shortId('msg'),
+              type: 'message',
+              role: 'assistant',
+              status: 'in_progress',
+              content: [{ type: 'output_text', text: '', annotations: [] }],
+            });
+        const { item, index } = this.open!;
+        (item as Extract<OutputItem, { type: 'message' }>).content[0].text += ev.text;
+        out.push(this.event('response.output_text.delta', { item_id: item.id, output_index: index, content_index: 0, delta: ev.text }));
+        return out;
+      }
+      case 'reasoning': {
+        const out = this.open?.item.type === 'reasoning'
+          ? []
+          : this.openItem({ id: shortId('rs'), type: 'reasoning', summary: [{ type: 'summary_text', text: '' }] });
+        const { item, index } = this.open!;
+        (item as Extract<OutputItem, { type: 'reasoning' }>).summary[0].text += ev.text;
+        out.push(this.event('response.reasoning_summary_text.delta', { item_id: item.id, output_index: index, summary_index: 0, delta: ev.text }));
+        return out;
+      }
+      case 'tool_call_start': {
+        const item: Extract<OutputItem, { type: 'function_call' }> = {
+          id: shortId('fc'),
+          type: 'function_call',
+          status: 'in_progress',
+          call_id: ev.id,
+          name: ev.name,
+          arguments: '',
+        };
+        const out = this.openItem(item);
+        this.callsById.set(ev.id, { item, index: this.open!.index });
+        return out;
+      }
+      case 'tool_call_args': {
+        // Prefer the id carried on the frame; fall back to the open call.
+        // Orphan args (no call ever started) are dropped, mirroring the
+        // chat-completions route. So are late args for a call whose item is
+        // already done: its arguments were final in output_item.done.
+        const target =
+          (ev.id !== undefined ? this.callsById.get(ev.id) : undefined) ??
+          (this.open?.item.type === 'function_call'
+            ? { item: this.open.item, index: this.open.index }
+            : undefined);
+        if (!target || target.item.status === 'completed') return [];
+        target.item.arguments += ev.argsDelta;
+        return [this.event('response.function_call_arguments.delta', { item_id: target.item.id, output_index: target.index, delta: ev.argsDelta })];
+      }
+      case 'finish':
+        this.finishReason = ev.reason;
+        return [];
+      case 'usage': {
+        const input = ev.promptTokens ?? 0;
+        const output = ev.completionTokens ?? 0;
+        this.response.usage = {
+          input_tokens: input,
+          input_tokens_details: { cached_tokens: ev.cachedInputTokens ?? 0 },
+          output_tokens: output,
+          output_tokens_details: { reasoning_tokens: ev.reasoningTokens ?? 0 },
+          total_tokens: ev.totalTokens ?? input + output,
+        };
+        return [];
+      }
+    }
+  }
+
+  /**
+   * Close any open item and emit the terminal lifecycle event. A `length`
+   * or `content_filter` finish maps to `status: 'incomplete'` with the
+   * matching `incomplete_details.reason`, per the Responses spec.
+   */
+  finish(): ResponsesEvent[] {
+    const out = this.closeOpen();
+    if (this.finishReason === 'length' || this.finishReason === 'content_filter') {
+      this.response.status = 'incomplete';
+      this.response.incomplete_details = {
+        reason: this.finishReason === 'length' ? 'max_output_tokens' : 'content_filter',
+      };
+      out.push(this.event('response.incomplete', { response: this.snapshot() }));
+    } else {
+      this.response.status = 'completed';
+      out.push(this.event('response.completed', { response: this.snapshot() }));
+    }
+    return out;
+  }
+
+  /** Terminal event for a mid-stream failure. */
+  fail(code: string, message: string): ResponsesEvent[] {
+    const out = this.closeOpen();
+    this.response.status = 'failed';
+    this.response.error = { code, message };
+    out.push(this.event('response.failed', { response: this.snapshot() }));
+    return out;
+  }
+}
+
+/** Serialise one event in the `event:` + `data:` SSE framing the Responses API uses. */
+export function encodeResponsesEvent(ev: ResponsesEvent): string {
+  return `event: ${ev.type}\ndata: ${JSON.stringify(ev)}\n\n`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Sampling-parameter resolution for proxied chat requests.
+ *
+ * opencode / ai-sdk send the OpenAI sampling knobs (`temperature`, `top_p`,
+ * `stop`, `seed`, plus the widely-used non-standard `top_k`) on the request
+ * body, and users can pin them per model via
+ * `providerOptions.windsurf.{temperature, topP, topK, stop, seed}`. This
+ * module merges the two sources (providerOptions wins), validates types,
+ * clamps numeric ranges to what the cloud's CompletionConfiguration accepts,
+ * and rejects knobs we can't honour with a {@link SamplingParamError} —
+ * the proxy turns that into a 400 before any upstream call is made, so an
+ * eval run never silently falls back to the LS defaults.
+ */
+
+import type { ChatCompletionRequest } from './types.js';
+
+/** Resolved sampling knobs, ready for `CloudChatRequest.completionOpts`. */
+export interface SamplingOptions {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  stopPatterns?: string[];
+  seed?: number;
+}
+
+/** A sampling parameter we can't accept. Maps to HTTP 400 at the proxy. */
+export class SamplingParamError extends Error {
+  constructor(public readonly param: string, message: string) {
+    super(message);
+    this.name = 'SamplingParamError';
+  }
+}
+
+/** Range limits. Values outside are clamped rather than rejected. */
+const TEMPERATURE_RANGE = [0, 2] as const;
+const TOP_P_RANGE = [0, 1] as const;
+const TOP_K_RANGE = [1, 1000] as const;
+/** Upper bound on stop sequences — generous enough for Anthropic-style callers. */
+const MAX_STOP_SEQUENCES = 16;
+
+function clamp(n: number, [lo, hi]: readonly [number, number]): number {
+  return Math.min(hi, Math.max(lo, n));
+}
+
+function readNumber(param: string, v: unknown): number | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (typeof v !== 'number' || !Number.isFinite(v)) {
+    throw new SamplingParamError(param, `\`${param}\` must be a finite number (got ${JSON.stringify(v)}).`);
+  }
+  return v;
+}
+
+function readInteger(param: string, v: unknown): number | undefined {
+  const n = readNumber(param, v);
+  if (n !== undefined && !Number.isSafeInteger(n)) {
+    throw new SamplingParamError(param, `\`${param}\` must be an integer (got ${n}).`);
+  }
+  return n;
+}
+
+function readStop(param: string, v: unknown): string[] | undefined {
+  if (v === undefined || v === null) return undefined;
+  const list = typeof v === 'string' ? [v] : v;
+  if (!Array.isArray(list) || !list.every((s) => typeof s === 'string')) {
+    throw new SamplingParamError(param, `\`${param}\` must be a string or an array of strings.`);
+  }
+  if (list.some((s) => s.length === 0)) {
+    throw new SamplingParamError(param, `\`${param}\` entries must be non-empty strings.`);
+  }
+  if (list.length > MAX_STOP_SEQUENCES) {
+    throw new SamplingParamError(param, `\`${param}\` accepts at most ${MAX_STOP_SEQUENCES} sequences (got ${list.length}).`);
+  }
+  return list.length > 0 ? list : undefined;
+}
+
+function windsurfOptions(request: ChatCompletionRequest): Record<string, unknown> {
+  const raw = request.providerOptions?.['windsurf'];
+  return raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+}
+
+/**
+ * Merge request-level and `providerOptions.windsurf` sampling knobs into
+ * {@link SamplingOptions}. Throws {@link SamplingParamError} for malformed
+ * or unsupported parameters; out-of-range numbers are clamped.
+ */
+export function resolveSamplingOptions(request: ChatCompletionRequest): SamplingOptions {
+  // Knobs the cloud has no equivalent for. Silently dropping them is what
+  // made eval runs irreproducible in the first place, so refuse instead.
+  if (request.n !== undefined && request.n !== null && request.n !== 1) {
+    throw new SamplingParamError('n', '`n` > 1 is not supported — Windsurf returns a single choice per request.');
+  }
+  if (request.logprobs === true || (request.top_logprobs ?? 0) > 0) {
+    throw new SamplingParamError('logprobs', '`logprobs` / `top_logprobs` are not supported by the Windsurf cloud.');
+  }
+  for (const param of ['frequency_penalty', 'presence_penalty'] as const) {
+    const v = readNumber(param, request[param]);
+    if (v !== undefined && v !== 0) {
+      throw new SamplingParamError(param, `\`${param}\` is not supported by the Windsurf cloud (only 0 is accepted).`);
+    }
+  }
+
+  const ws = windsurfOptions(request);
+  const out: SamplingOptions = {};
+
+  const temperature =
+    readNumber('providerOptions.windsurf.temperature', ws['temperature']) ??
+    readNumber('temperature', request.temperature);
+  if (temperature !== undefined) out.temperature = clamp(temperature, TEMPERATURE_RANGE);
+
+  const topP =
+    readNumber('providerOptions.windsurf.topP', ws['topP'] ?? ws['top_p']) ??
+    readNumber('top_p', request.top_p);
+  if (topP !== undefined) out.topP = clamp(topP, TOP_P_RANGE);
+
+  const topK =
+    readInteger('providerOptions.windsurf.topK', ws['topK'] ?? ws['top_k']) ??
+    readInteger('top_k', request.top_k);
+  if (topK !== undefined) out.topK = clamp(topK, TOP_K_RANGE);
+
+  const stop =
+    readStop('providerOptions.windsurf.stop', ws['stop'] ?? ws['stopSequences']) ??
+    readStop('stop', request.stop);
+  if (stop) out.stopPatterns = stop;
+
+  const seed =
+    readInteger('providerOptions.windsurf.seed', ws['seed']) ??
+    readInteger('seed', request.seed);
+  if (seed !== undefined) {
+    // CompletionConfiguration.seed is an unsigned varint.
+    if (seed < 0) throw new SamplingParamError('seed', `\`seed\` must be a non-negative integer (got ${seed}).`);
+    out.seed = seed;
+  }
+
+  return out;
+}
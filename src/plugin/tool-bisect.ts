@@ -0,0 +1,246 @@
+/**
+ * Find the tool behind the cloud's "MCP configuration issue" rejection.
+ *
+ * The cloud answers a tool definition it dislikes with
+ * `failed_precondition: "Unable to process request due to an MCP
+ * configuration issue."` and no hint which of opencode's 40+ tools it
+ * means, so one bad MCP server used to break every request. When that
+ * error arrives before any output, {@link streamWithToolBisect}:
+ *
+ *   1. bisects the `tools` array with cheap probe requests (one-word prompt,
+ *      1 output token, aborted on the first event) until it has the
+ *      offending tool(s) — at most {@link MAX_PROBES} probes;
+ *   2. probes a sanitized copy of each culprit (see {@link sanitizeToolDef});
+ *   3. retries the real request with the sanitized copy, or without the
+ *      tool when even that is rejected.
+ *
+ * Verdicts are cached per tool-definition hash, so later requests swap or
+ * drop the tool up front ({@link applyToolVerdicts}) and carry an
+ * `X-Windsurf-Warning` header naming it. The request that found it gets
+ * the same warning, in-band if it is streamed (plugin/diagnostics.ts), and
+ * it is logged either way.
+ *
+ * If the bisect can't pin the failure on individual tools (the set still
+ * fails without them, or the probe budget runs out) nothing is cached and
+ * the original error is rethrown unchanged.
+ */
+
+import * as crypto from 'crypto';
+import type { CloudChatEvent, ToolDef } from '../cloud-direct/index.js';
+import { CloudChatError, collapseWhitespace, streamChatEvents } from '../cloud-direct/index.js';
+import type { WindsurfCredentials } from './auth.js';
+
+/** Upper bound on probe requests per bisect. */
+const MAX_PROBES = 24;
+const VERDICT_CACHE_MAX = 512;
+/** Description cap for a sanitized tool. */
+const SANITIZED_DESC_CHARS = 2000;
+/** Schema keywords a sanitized tool drops: metadata the validator may choke on. */
+const SANITIZED_SCHEMA_DROP = new Set(['$schema', '$id', '$comment', 'examples']);
+
+type ToolVerdict =
+  | { status: 'ok' }
+  | { status: 'rejected'; sanitized?: ToolDef };
+
+const verdicts = new Map<string, ToolVerdict>();
+
+/** True for the cloud's opaque tool-definition rejection. */
+export function isToolConfigError(err: unknown): boolean {
+  return err instanceof CloudChatError && err.code === 'failed_precondition' && /MCP configuration issue/i.test(err.message);
+}
+
+export function toolHash(tool: ToolDef): string {
+  return crypto.createHash('sha256')
+    .update(JSON.stringify([tool.name, tool.description ?? '', tool.parameters ?? {}]))
+    .digest('hex');
+}
+
+function remember(tool: ToolDef, verdict: ToolVerdict): void {
+  const key = toolHash(tool);
+  verdicts.delete(key);
+  if (verdicts.size >= VERDICT_CACHE_MAX) verdicts.delete(verdicts.keys().next().value!);
+  verdicts.set(key, verdict);
+}
+
+function sanitizeSchema(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sanitizeSchema);
+  if (!value || typeof value !== 'object') return value;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (SANITIZED_SCHEMA_DROP.has(k)) continue;
+    out[k] = k === 'description' && typeof v === 'string' ? v.slice(0, 1000) : sanitizeSchema(v);
+  }
+  return out;
+}
+
+/**
+ * A conservative copy of `tool`: printable-ASCII description (whitespace
+ * collapsed, capped) and a schema without metadata keywords. The name is
+ * kept — tool calls have to round-trip to opencode.
+ */
+export function sanitizeToolDef(tool: ToolDef): ToolDef {
+  const description = collapseWhitespace((tool.description ?? '').replace(/[^\x20-\x7e\n\t]/g, ''))
+    .slice(0, SANITIZED_DESC_CHARS);
+  return { name: tool.name, description, parameters: sanitizeSchema(tool.parameters ?? {}) };
+}
+
+function verdictWarning(name: string, sanitized: boolean): string {
+  return `tool "${name}" is rejected by the cloud (MCP configuration issue); ${sanitized ? 'sent a sanitized definition' : 'left it out of the request'}`;
+}
+
+/**
+ * Apply cached verdicts: rejected tools are replaced by their sanitized
+ * copy or dropped. Returns the tools to send and a warning per change.
+ */
+export function applyToolVerdicts(tools: ToolDef[]): { tools: ToolDef[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const out: ToolDef[] = [];
+  for (const tool of tools) {
+    const verdict = verdicts.get(toolHash(tool));
+    if (verdict?.status !== 'rejected') {
+      out.push(tool);
+      continue;
+    }
+    warnings.push(verdictWarning(tool.name, verdict.sanitized !== undefined));
+    if (verdict.sanitized) out.push(verdict.sanitized);
+  }
+  return { tools: out, warnings };
+}
+
+/** Probe: does the cloud accept a request carrying `tools`? */
+export type ToolProbe = (tools: ToolDef[]) => Promise<boolean>;
+
+/**
+ * A probe against `modelUid` on the caller's account: a one-word prompt,
+ * aborted as soon as the first event shows the tools were accepted. Errors
+ * other than the tool rejection propagate (and end the bisect).
+ */
+export function cloudToolProbe(credentials: WindsurfCredentials, modelUid: string, signal?: AbortSignal): ToolProbe {
+  return async (tools) => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      for await (const _ of streamChatEvents({
+        apiKey: credentials.apiKey,
+        apiServerUrl: credentials.apiServerUrl,
+        modelUid,
+        messages: [{ role: 'user', content: 'ok' }],
+        tools,
+        completionOpts: { maxOutputTokens: 1 },
+        conversationKey: 'windsurf-tool-probe',
+        signal: controller.signal,
+      })) {
+        return true;
+      }
+      return true;
+    } catch (err) {
+      if (isToolConfigError(err)) return false;
+      throw err;
+    } finally {
+      controller.abort();
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Culprits within `tools`, a set the cloud rejects. Undefined when the
+ * rejection can't be pinned on individual tools within the probe budget.
+ */
+async function findCulprits(tools: ToolDef[], probe: ToolProbe, budget: { left: number }): Promise<ToolDef[] | undefined> {
+  if (tools.length === 1) return tools;
+  const mid = Math.ceil(tools.length / 2);
+  const culprits: ToolDef[] = [];
+  let firstPassed = false;
+  for (const [i, half] of [tools.slice(0, mid), tools.slice(mid)].entries()) {
+    // The whole set fails, so when the first half passes the second half
+    // must be the one failing — no need to spend a probe confirming it.
+    if (!(i === 1 && firstPassed)) {
+      if (budget.left-- <= 0) return undefined;
+      if (await probe(half)) {
+        for (const t of half) remember(t, { status: 'ok' });
+        firstPassed = i === 0;
+        continue;
+      }
+    }
+    const found = await findCulprits(half, probe, budget);
+    if (!found) return undefined;
+    culprits.push(...found);
+  }
+  return culprits.length > 0 ? culprits : undefined;
+}
+
+/**
+ * Bisect `tools` (which the cloud just rejected) and record verdicts for
+ * the culprits. Tools already known to be fine are left out of the search.
+ * Returns the culprits' names, or undefined when none could be pinned down.
+ */
+export async function bisectRejectedTools(
+  tools: ToolDef[],
+  probe: ToolProbe,
+  log: (message: string) => void = () => { /* silent */ },
+): Promise<string[] | undefined> {
+  const budget = { left: MAX_PROBES };
+  const suspects = tools.filter((t) => verdicts.get(toolHash(t))?.status !== 'ok');
+  if (suspects.length === 0) return undefined;
+  // Known-good tools were dropped from the set, so confirm the rest still fails.
+  if (suspects.length < tools.length) {
+    budget.left--;
+    if (await probe(suspects)) return undefined;
+  }
+  const culprits = await findCulprits(suspects, probe, budget);
+  if (!culprits) {
+    log(`[windsurf-plugin] tool bisect: couldn't isolate the rejected tool among ${suspects.length} (${MAX_PROBES - budget.left} probes)`);
+    return undefined;
+  }
+  const replacements = new Map<ToolDef, ToolDef | undefined>();
+  for (const tool of culprits) {
+    const sanitized = sanitizeToolDef(tool);
+    const accepted = budget.left-- > 0 && await probe([sanitized]);
+    replacements.set(tool, accepted ? sanitized : undefined);
+  }
+  // Bisecting assumes single tools are to blame. If the failure really came
+  // from a combination, the "culprits" are innocent — check before caching.
+  const fixed = suspects.flatMap((t) => (replacements.has(t) ? [replacements.get(t)].filter((r): r is ToolDef => r !== undefined) : [t]));
+  budget.left--;
+  if (!(await probe(fixed))) {
+    log(`[windsurf-plugin] tool bisect: still rejected without ${culprits.map((t) => t.name).join(', ')}; giving up`);
+    return undefined;
+  }
+  for (const [tool, sanitized] of replacements) remember(tool, { status: 'rejected', sanitized });
+  log(`[windsurf-plugin] tool bisect: cloud rejects ${culprits.map((t) => t.name).join(', ')} (${MAX_PROBES - budget.left} probes)`);
+  return culprits.map((t) => t.name);
+}
+
+/**
+ * Run `open` with `tools`; on a pre-output tool rejection, bisect, then
+ * retry once with the culprits sanitized or dropped. `warn` receives one
+ * warning per culprit.
+ */
+export async function* streamWithToolBisect(
+  tools: ToolDef[],
+  open: (tools: ToolDef[]) => AsyncGenerator<CloudChatEvent>,
+  probe: ToolProbe,
+  warn: (warning: string) => void,
+  log: (message: string) => void = () => { /* silent */ },
+): AsyncGenerator<CloudChatEvent> {
+  let started = false;
+  try {
+    for await (const ev of open(tools)) {
+      started = true;
+      yield ev;
+    }
+    return;
+  } catch (err) {
+    if (started || tools.length === 0 || !isToolConfigError(err)) throw err;
+    const culprits = await bisectRejectedTools(tools, probe, log).catch((probeErr) => {
+      log(`[windsurf-plugin] tool bisect aborted: ${probeErr instanceof Error ? probeErr.message : String(probeErr)}`);
+      return undefined;
+    });
+    if (!culprits) throw err;
+  }
+  const retry = applyToolVerdicts(tools);
+  for (const w of retry.warnings) warn(w);
+  yield* open(retry.tools);
+}
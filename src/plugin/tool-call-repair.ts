@@ -0,0 +1,356 @@
+/**
+ * Buffered tool calls: repair and validate streamed arguments before
+ * opencode sees them.
+ *
+ * Tool-call arguments arrive as `tool_call_args` fragments and used to be
+ * forwarded as-is, so whatever the model wrote is what opencode parsed — a
+ * trailing comma, single quotes, or JSON cut off by a `length` finish made
+ * the tool execution fail with a parse error the model rarely recovers
+ * from. With `providerOptions.windsurf.bufferToolCalls` (or
+ * `WINDSURF_BUFFER_TOOL_CALLS=1`), {@link bufferToolCalls} instead holds
+ * each call until the stream finishes, then:
+ *
+ *   1. repairs the JSON ({@link repairJson}): code fences, single quotes,
+ *      unquoted keys, Python literals, trailing commas, raw control
+ *      characters in strings, double-encoded objects, and truncation
+ *      (open strings and brackets closed, a dangling key dropped);
+ *   2. checks it against the tool's parameter schema, coercing the
+ *      unambiguous mismatches (`"5"` for a number, `"true"` for a boolean,
+ *      a JSON string for an array or object);
+ *   3. emits the call whole — one `tool_call_start` and one
+ *      `tool_call_args`.
+ *
+ * Text and reasoning still stream as they arrive; only tool calls wait.
+ * Every fix is reported to `onRepair`, which the routes turn into an
+ * `X-Windsurf-Tool-Repair` header, sent in-band on a streamed response
+ * (plugin/diagnostics.ts). Schema problems that can't be coerced
+ * away are reported too, but the call is forwarded — opencode's own
+ * validation error tells the model more than a dropped call would.
+ */
+
+import type { CloudChatEvent, ToolDef } from '../cloud-direct/index.js';
+import { normalizeToolSchema } from '../cloud-direct/index.js';
+import { RequestParamError } from './proxy-errors.js';
+import type { ChatCompletionRequest } from './types.js';
+
+type Schema = Record<string, unknown>;
+
+/** Whether buffered tool calls are on for a request. A non-boolean setting is a 400. */
+export function resolveBufferToolCalls(request: ChatCompletionRequest): boolean {
+  const ws = request.providerOptions?.['windsurf'];
+  const fromOptions = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)['bufferToolCalls'] : undefined;
+  if (fromOptions !== undefined) {
+    if (typeof fromOptions !== 'boolean') {
+      throw new RequestParamError('bufferToolCalls', `bufferToolCalls must be a boolean (got ${JSON.stringify(fromOptions)})`);
+    }
+    return fromOptions;
+  }
+  const env = process.env.WINDSURF_BUFFER_TOOL_CALLS?.trim().toLowerCase();
+  return env === '1' || env === 'true' || env === 'on';
+}
+
+// ----------------------------------------------------------------------------
+// JSON repair
+// ----------------------------------------------------------------------------
+
+export interface RepairedJson {
+  value: unknown;
+  /** What was fixed, in the order found; empty when the text parsed as-is. */
+  repairs: string[];
+}
+
+const PY_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null', undefined: 'null' };
+const PARTIAL_LITERAL_RE = /(?:^|[^A-Za-z_$])(t|tr|tru|f|fa|fal|fals|n|nu|nul)$/;
+
+/** Read the string literal starting at `src[start]` (either quote) as a JSON string. */
+function readString(src: string, start: number, repairs: Set<string>): { text: string; end: number } {
+  const quote = src[start]!;
+  let text = '"';
+  let i = start + 1;
+  while (i < src.length) {
+    const c = src[i]!;
+    if (c === '\\') {
+      if (i + 1 >= src.length) break;
+      const next = src[i + 1]!;
+      // \' is only an escape inside single quotes; JSON has no such escape.
+      text += next === "'" ? "'" : `\\${next}`;
+      i += 2;
+      continue;
+    }
+    if (c === quote) return { text: `${text}"`, end: i + 1 };
+    if (c === '"') text += '\\"';
+    else if (c < ' ') {
+      repairs.add('control characters in strings');
+      text += JSON.stringify(c).slice(1, -1);
+    } else text += c;
+    i++;
+  }
+  repairs.add('truncated JSON');
+  return { text: `${text}"`, end: src.length };
+}
+
+/** Close whatever a truncated document left open. */
+function closeTruncated(out: string, stack: string[]): string {
+  let s = out.trimEnd();
+  const partial = PARTIAL_LITERAL_RE.exec(s);
+  if (partial) s = s.slice(0, s.length - partial[1]!.length) + ({ t: 'true', f: 'false', n: 'null' } as Record<string, string>)[partial[1]![0]!];
+  // A number cut off after its sign, point or exponent.
+  s = s.replace(/(\d)[-+.eE]+$/, '$1').replace(/-$/, '');
+  for (let depth = stack.length - 1; depth >= 0; depth--) {
+    s = s.trimEnd();
+    if (s.endsWith(',')) s = s.slice(0, -1);
+    if (stack[depth] === '{') {
+      if (s.endsWith(':')) s += 'null';
+      // A key with no colon yet: drop it.
+      else s = s.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1').replace(/,$/, '');
+      s += '}';
+    } else {
+      s += ']';
+    }
+  }
+  return s;
+}
+
+function repairText(src: string, repairs: Set<string>): string {
+  let out = '';
+  const stack: string[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i]!;
+    if (c === '"' || c === "'") {
+      if (c === "'") repairs.add('single quotes');
+      const str = readString(src, i, repairs);
+      out += str.text;
+      i = str.end;
+      continue;
+    }
+    if (c === '{' || c === '[') {
+      stack.push(c);
+      out += c;
+      i++;
+      continue;
+    }
+    if (c === '}' || c === ']') {
+      const trimmed = out.trimEnd();
+      if (trimmed.endsWith(',')) {
+        out = trimmed.slice(0, -1);
+        repairs.add('trailing commas');
+      }
+      if (stack[stack.length - 1] === (c === '}' ? '{' : '[')) {
+        stack.pop();
+        out += c;
+      } else {
+        repairs.add('unbalanced brackets');
+      }
+      i++;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(c)) {
+      const word = /^[A-Za-z_$][\w$]*/.exec(src.slice(i))![0];
+      i += word.length;
+      if (word === 'true' || word === 'false' || word === 'null') {
+        out += word;
+      } else if (Object.hasOwn(PY_LITERALS, word) && !/^\s*:/.test(src.slice(i))) {
+        out += PY_LITERALS[word];
+        repairs.add('non-JSON literals');
+      } else if (stack[stack.length - 1] === '{' && /[{,]\s*$/.test(out) && (/^\s*:/.test(src.slice(i)) || i >= src.length)) {
+        out += JSON.stringify(word);
+        repairs.add('unquoted keys');
+      } else {
+        out += word;
+      }
+      continue;
+    }
+    out += c;
+    i++;
+  }
+  if (stack.length > 0) repairs.add('truncated JSON');
+  return repairs.has('truncated JSON') ? closeTruncated(out, stack) : out;
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Parse tool-call arguments, repairing what a model commonly gets wrong.
+ * Undefined when the text isn't recognisably a JSON object even after repair.
+ */
+export function repairJson(text: string): RepairedJson | undefined {
+  const direct = tryParse(text);
+  if (direct.ok && direct.value !== null && typeof direct.value === 'object' && !Array.isArray(direct.value)) {
+    return { value: direct.value, repairs: [] };
+  }
+  const repairs = new Set<string>();
+  let src = text.trim();
+  if (src === '') return { value: {}, repairs: ['empty arguments'] };
+  // Double-encoded: a JSON string holding the object.
+  if (direct.ok && typeof direct.value === 'string') {
+    const inner = repairJson(direct.value);
+    return inner && { value: inner.value, repairs: ['double-encoded JSON', ...inner.repairs] };
+  }
+  const fenced = /^```[\w-]*\n?([\s\S]*?)(?:```)?$/.exec(src);
+  if (fenced) {
+    src = fenced[1]!.trim();
+    repairs.add('code fence');
+  }
+  if (!src.startsWith('{')) {
+    const at = src.indexOf('{');
+    if (at < 0) return undefined;
+    src = src.slice(at);
+    repairs.add('text around the object');
+  }
+  const repaired = tryParse(repairText(src, repairs));
+  if (!repaired.ok || repaired.value === null || typeof repaired.value !== 'object' || Array.isArray(repaired.value)) return undefined;
+  return { value: repaired.value, repairs: [...repairs] };
+}
+
+// ----------------------------------------------------------------------------
+// Schema check
+// ----------------------------------------------------------------------------
+
+function typeOf(v: unknown): string {
+  if (v === null) return 'null';
+  if (Array.isArray(v)) return 'array';
+  if (typeof v === 'number') return Number.isInteger(v) ? 'integer' : 'number';
+  return typeof v;
+}
+
+function typeMatches(v: unknown, type: string): boolean {
+  const actual = typeOf(v);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/** `v` converted to `type`, when the conversion is unambiguous. */
+function coerce(v: unknown, type: string): { ok: true; value: unknown } | { ok: false } {
+  if (typeof v === 'string') {
+    const t = v.trim();
+    if ((type === 'number' || type === 'integer') && t !== '' && Number.isFinite(Number(t))) {
+      const n = Number(t);
+      if (type === 'number' || Number.isInteger(n)) return { ok: true, value: n };
+    }
+    if (type === 'boolean' && (t === 'true' || t === 'false')) return { ok: true, value: t === 'true' };
+    if (type === 'array' || type === 'object') {
+      const parsed = tryParse(t);
+      if (parsed.ok && typeMatches(parsed.value, type)) return { ok: true, value: parsed.value };
+    }
+  }
+  if (type === 'string' && (typeof v === 'number' || typeof v === 'boolean')) return { ok: true, value: String(v) };
+  return { ok: false };
+}
+
+interface SchemaReport {
+  coerced: string[];
+  problems: string[];
+}
+
+/** `value` checked against `schema` (already normalized), with coercions applied. */
+function checkValue(value: unknown, schema: Schema, path: string, report: SchemaReport): unknown {
+  const types = Array.isArray(schema['type']) ? schema['type'] as string[] : typeof schema['type'] === 'string' ? [schema['type']] : [];
+  if (types.length > 0 && !types.some((t) => typeMatches(value, t))) {
+    const fixed = types.map((t) => ({ t, r: coerce(value, t) })).find((x) => x.r.ok);
+    if (fixed?.r.ok) {
+      report.coerced.push(`${path} ${typeOf(value)} to ${fixed.t}`);
+      value = fixed.r.value;
+    } else {
+      report.problems.push(`${path} should be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return value;
+    }
+  }
+  if (Array.isArray(schema['enum']) && !schema['enum'].some((e) => e === value)) {
+    report.problems.push(`${path} should be one of ${schema['enum'].map((e) => JSON.stringify(e)).join(', ')}`);
+  }
+  if (Array.isArray(value) && schema['items'] && typeof schema['items'] === 'object') {
+    return value.map((item, i) => checkValue(item, schema['items'] as Schema, `${path}[${i}]`, report));
+  }
+  if (typeOf(value) === 'object' && schema['properties'] && typeof schema['properties'] === 'object') {
+    const props = schema['properties'] as Record<string, Schema>;
+    const obj = { ...(value as Record<string, unknown>) };
+    for (const key of (schema['required'] as string[] | undefined) ?? []) {
+      if (!(key in obj)) report.problems.push(`${path}.${key} is required`);
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      if (props[key]) obj[key] = checkValue(v, props[key]!, `${path}.${key}`, report);
+      else if (schema['additionalProperties'] === false) report.problems.push(`${path}.${key} is not a known parameter`);
+    }
+    return obj;
+  }
+  return value;
+}
+
+// ----------------------------------------------------------------------------
+// Stream wrapper
+// ----------------------------------------------------------------------------
+
+export interface ToolCallRepair {
+  id: string;
+  name: string;
+  /** JSON fixes, coercions and remaining schema problems. */
+  fixes: string[];
+}
+
+/**
+ * Arguments for one finished call: repaired, checked against `tool`'s
+ * schema, re-serialized. Unrepairable text is forwarded unchanged.
+ */
+export function finalizeToolArguments(args: string, tool: ToolDef | undefined): { args: string; fixes: string[] } {
+  const parsed = repairJson(args);
+  if (!parsed) return { args, fixes: ['unparseable arguments (forwarded as-is)'] };
+  const fixes = [...parsed.repairs];
+  let value = parsed.value;
+  if (tool?.parameters) {
+    const report: SchemaReport = { coerced: [], problems: [] };
+    value = checkValue(value, normalizeToolSchema(tool.parameters, 'openai'), '$', report);
+    fixes.push(...report.coerced.map((c) => `coerced ${c}`), ...report.problems.map((p) => `schema: ${p}`));
+  }
+  return { args: fixes.length === 0 ? args : JSON.stringify(value), fixes };
+}
+
+/** One `X-Windsurf-Tool-Repair` value. */
+export function toolRepairHeader(r: ToolCallRepair): string {
+  return `${r.name} (${r.id}): ${r.fixes.join('; ')}`;
+}
+
+/**
+ * Pass `events` through, holding tool calls back until the stream finishes
+ * and emitting each one whole with repaired arguments. `tools` supplies the
+ * schemas (by the names opencode knows).
+ */
+export async function* bufferToolCalls(
+  events: AsyncIterable<CloudChatEvent>,
+  tools: ToolDef[],
+  onRepair: (repair: ToolCallRepair) => void,
+): AsyncGenerator<CloudChatEvent> {
+  const byName = new Map(tools.map((t) => [t.name, t]));
+  const calls: Array<{ id: string; name: string; args: string }> = [];
+  const byId = new Map<string, { id: string; name: string; args: string }>();
+
+  function* flush(): Generator<CloudChatEvent> {
+    for (const call of calls.splice(0)) {
+      const { args, fixes } = finalizeToolArguments(call.args, byName.get(call.name));
+      if (fixes.length > 0) onRepair({ id: call.id, name: call.name, fixes });
+      yield { kind: 'tool_call_start', id: call.id, name: call.name };
+      yield { kind: 'tool_call_args', id: call.id, argsDelta: args };
+    }
+  }
+
+  for await (const ev of events) {
+    if (ev.kind === 'tool_call_start') {
+      const call = { id: ev.id, name: ev.name, args: '' };
+      calls.push(call);
+      byId.set(ev.id, call);
+    } else if (ev.kind === 'tool_call_args') {
+      // Same routing as the unbuffered path: explicit id, else the latest call.
+      const call = (ev.id !== undefined ? byId.get(ev.id) : undefined) ?? calls[calls.length - 1];
+      if (call) call.args += ev.argsDelta;
+    } else {
+      if (ev.kind === 'finish') yield* flush();
+      yield ev;
+    }
+  }
+  yield* flush();
+}
@@ -0,0 +1,145 @@
+/**
+ * `tool_choice` and `parallel_tool_calls`, enforced proxy-side.
+ *
+ * GetChatMessage has no tool-choice field we know of (none shows up in the
+ * LS captures; see cloud-direct/chat.ts), so an agent that needs to force a
+ * tool or keep one turn tool-free can't say so upstream. The proxy gets the
+ * same effect by combining three things:
+ *
+ *   - the `tools` it sends: none for `"none"`, only the named tool for
+ *     `{type: "function", function: {name}}` ({@link toolsForChoice});
+ *   - an instruction appended to the history ({@link withToolChoiceInstruction});
+ *   - checking the model's output ({@link streamWithToolChoice}). When a
+ *     tool call is required, output is held until a matching call shows up.
+ *     If the model answers without one, its reply is discarded and the
+ *     request is retried once with a firmer instruction. When
+ *     `parallel_tool_calls` is false, calls after the first are dropped.
+ *
+ * Holding output means a forced-tool turn streams its text only once the
+ * call starts. If the retry also comes back without the call, it is passed
+ * through as it is, with a warning.
+ */
+
+import type { ChatHistoryItem, CloudChatEvent, ToolDef } from '../cloud-direct/index.js';
+import { RequestParamError } from './proxy-errors.js';
+import type { ChatCompletionRequest, ToolChoice } from './types.js';
+
+export interface ToolChoicePolicy {
+  choice: ToolChoice;
+  parallelToolCalls: boolean;
+}
+
+export const DEFAULT_TOOL_CHOICE: ToolChoicePolicy = { choice: 'auto', parallelToolCalls: true };
+
+/** Validate `tool_choice` / `parallel_tool_calls`. Bad values are a 400, like a bad sampling knob. */
+export function resolveToolChoice(request: ChatCompletionRequest): ToolChoicePolicy {
+  const raw = request.tool_choice;
+  const toolNames = new Set((request.tools ?? []).map((t) => t.function?.name).filter((n): n is string => typeof n === 'string'));
+
+  let choice: ToolChoice;
+  if (raw === undefined || raw === null || raw === 'auto') {
+    choice = 'auto';
+  } else if (raw === 'none' || raw === 'required') {
+    choice = raw;
+  } else if (typeof raw === 'object' && raw.type === 'function' && typeof raw.function?.name === 'string') {
+    choice = { name: raw.function.name };
+  } else {
+    throw new RequestParamError('tool_choice', `tool_choice must be "auto", "none", "required" or {"type": "function", "function": {"name": …}} (got ${JSON.stringify(raw)})`);
+  }
+  if ((choice === 'required' || typeof choice === 'object') && toolNames.size === 0) {
+    throw new RequestParamError('tool_choice', 'tool_choice requires a tool call, but the request has no tools');
+  }
+  if (typeof choice === 'object' && !toolNames.has(choice.name)) {
+    throw new RequestParamError('tool_choice', `tool_choice names "${choice.name}", which is not in tools`);
+  }
+
+  const parallel = request.parallel_tool_calls;
+  if (parallel !== undefined && parallel !== null && typeof parallel !== 'boolean') {
+    throw new RequestParamError('parallel_tool_calls', `parallel_tool_calls must be a boolean (got ${JSON.stringify(parallel)})`);
+  }
+  return { choice, parallelToolCalls: parallel !== false };
+}
+
+/** True when the policy needs a tool call in the reply. */
+export function requiresToolCall(policy: ToolChoicePolicy): boolean {
+  return policy.choice === 'required' || typeof policy.choice === 'object';
+}
+
+/** The tools to send under `policy`. */
+export function toolsForChoice(tools: ToolDef[], policy: ToolChoicePolicy): ToolDef[] {
+  if (policy.choice === 'none') return [];
+  const choice = policy.choice;
+  if (typeof choice === 'object') return tools.filter((t) => t.name === choice.name);
+  return tools;
+}
+
+function instructionFor(policy: ToolChoicePolicy, firm: boolean): string | undefined {
+  const lines: string[] = [];
+  if (policy.choice === 'none') lines.push('Do not call any tools in your next response; reply with text only.');
+  else if (policy.choice === 'required') lines.push('You must call at least one of the available tools in your next response. Do not reply with text only.');
+  else if (typeof policy.choice === 'object') lines.push(`You must call the "${policy.choice.name}" tool in your next response.`);
+  if (firm && lines.length > 0) lines.push('This is mandatory: a response without that tool call will be rejected.');
+  if (!policy.parallelToolCalls && policy.choice !== 'none') lines.push('Call at most one tool per response.');
+  return lines.length > 0 ? lines.join(' ') : undefined;
+}
+
+/**
+ * `messages` with the policy's instruction appended as a trailing system
+ * message (cloud-direct folds it into the final user turn). `firm` is the
+ * wording for the retry after a missing call.
+ */
+export function withToolChoiceInstruction(messages: ChatHistoryItem[], policy: ToolChoicePolicy, firm = false): ChatHistoryItem[] {
+  const instruction = instructionFor(policy, firm);
+  return instruction ? [...messages, { role: 'system', content: instruction }] : messages;
+}
+
+/**
+ * Run `open` under `policy`: hold output until a required call arrives,
+ * retry once (with `firm` set) when the reply has none, and drop extra calls
+ * when parallel calls are off. `warn` gets a warning for each override.
+ */
+export async function* streamWithToolChoice(
+  policy: ToolChoicePolicy,
+  open: (firm: boolean) => AsyncGenerator<CloudChatEvent>,
+  warn: (warning: string) => void,
+  log: (message: string) => void = () => { /* silent */ },
+): AsyncGenerator<CloudChatEvent> {
+  const wanted = typeof policy.choice === 'object' ? policy.choice.name : undefined;
+  for (let attempt = 0; ; attempt++) {
+    const held: CloudChatEvent[] = [];
+    let satisfied = !requiresToolCall(policy);
+    let firstCallId: string | undefined;
+    let dropping = false;
+    let dropped = 0;
+    for await (const ev of open(attempt > 0)) {
+      if (!policy.parallelToolCalls) {
+        if (ev.kind === 'tool_call_start') {
+          dropping = firstCallId !== undefined && ev.id !== firstCallId;
+          if (dropping) {
+            dropped++;
+            continue;
+          }
+          firstCallId = ev.id;
+        } else if (ev.kind === 'tool_call_args' && dropping && ev.id !== firstCallId) {
+          continue;
+        }
+      }
+      if (!satisfied && ev.kind === 'tool_call_start' && (wanted === undefined || ev.name === wanted)) {
+        satisfied = true;
+        yield* held;
+        held.length = 0;
+      }
+      if (satisfied) yield ev;
+      else held.push(ev);
+    }
+    if (dropped > 0) warn(`parallel_tool_calls is false; dropped ${dropped} tool call${dropped === 1 ? '' : 's'} after the first`);
+    if (satisfied) return;
+    if (attempt === 0) {
+      log(`[windsurf-plugin] tool_choice: reply had no ${wanted ? `"${wanted}"` : 'tool'} call; retrying with a firmer instruction`);
+      continue;
+    }
+    warn(`tool_choice requires a ${wanted ? `"${wanted}"` : 'tool'} call, but the model answered without one (after a retry)`);
+    yield* held;
+    return;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Prompt-based tool calling for models without native function calling.
+ *
+ * Some catalog models — R1 and its distills, the small legacy proto-enum
+ * models, some BYOK entries — ignore GetChatMessage's `tools` field (#10) and
+ * answer in prose, which stalls opencode's agent loop on its first tool
+ * call. For those models the proxy emulates tool calling in the prompt:
+ *
+ *   - {@link withEmulatedTools} renders the tool schemas into a system
+ *     message with a calling convention (one `<tool_call>` block holding
+ *     `{"name", "arguments"}` JSON per call), and rewrites the history's
+ *     native tool calls and results into that same text form, since the
+ *     model can't read them as structured fields;
+ *   - {@link parseEmulatedToolCalls} scans the streamed `text` events for
+ *     `<tool_call>` blocks and replaces each with synthetic
+ *     `tool_call_start` / `tool_call_args` events, so the routes can't tell
+ *     an emulated call from a native one. Text around the blocks still
+ *     streams; a block that doesn't parse, or names a tool that wasn't
+ *     offered, is passed through as text.
+ *
+ * Whether a model gets emulation is a capability flag: {@link EMULATED_TOOL_MODELS}
+ * by default, overridable per model with `providerOptions.windsurf.toolCalling`
+ * (`"native"` or `"emulated"`) or `WINDSURF_TOOL_CALLING`. The catalog
+ * doesn't say which models take `tools`, and a BYOK entry (`*_BYOK`,
+ * `*_OPEN_ROUTER_BYOK`) can be any model, so those stay native unless the
+ * option says otherwise.
+ */
+
+import * as crypto from 'crypto';
+import type { ChatHistoryItem, CloudChatEvent, ContentPart, ToolDef } from '../cloud-direct/index.js';
+import { RequestParamError } from './proxy-errors.js';
+import { repairJson } from './tool-call-repair.js';
+import type { ChatCompletionRequest } from './types.js';
+
+export type ToolCallingMode = 'native' | 'emulated';
+
+const TOOL_CALLING_MODES: ReadonlySet<string> = new Set<ToolCallingMode>(['native', 'emulated']);
+
+/** Cloud model UIDs without native function calling. Everything else is native. */
+const EMULATED_TOOL_MODELS: ReadonlySet<string> = new Set([
+  'MODEL_DEEPSEEK_R1',
+  'MODEL_DEEPSEEK_R1_FAST',
+  'MODEL_DEEPSEEK_R1_SLOW',
+  'MODEL_LLAMA_3_3_70B_INSTRUCT_R1',
+  'MODEL_QWEN_2_5_32B_INSTRUCT_R1',
+  'MODEL_MISTRAL_7B',
+]);
+
+const OPEN_TAG = '<tool_call>';
+const CLOSE_TAG = '</tool_call>';
+
+/** How `modelUid` gets tool calls. An unrecognised setting is a 400. */
+export function resolveToolCalling(request: ChatCompletionRequest, modelUid: string): ToolCallingMode {
+  const ws = request.providerOptions?.['windsurf'];
+  const fromOptions = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)['toolCalling'] : undefined;
+  const raw = fromOptions ?? (process.env.WINDSURF_TOOL_CALLING?.trim().toLowerCase() || undefined);
+  if (raw !== undefined) {
+    if (typeof raw !== 'string' || !TOOL_CALLING_MODES.has(raw)) {
+      throw new RequestParamError('toolCalling', `toolCalling must be one of ${[...TOOL_CALLING_MODES].join(', ')} (got ${JSON.stringify(raw)})`);
+    }
+    return raw as ToolCallingMode;
+  }
+  return EMULATED_TOOL_MODELS.has(modelUid) ? 'emulated' : 'native';
+}
+
+// ----------------------------------------------------------------------------
+// Prompt side
+// ----------------------------------------------------------------------------
+
+function renderCall(name: string, args: string): string {
+  let parsed: unknown = args;
+  try {
+    parsed = JSON.parse(args);
+  } catch {
+    /* keep the raw string */
+  }
+  return `${OPEN_TAG}\n${JSON.stringify({ name, arguments: parsed })}\n${CLOSE_TAG}`;
+}
+
+/** The system message describing `tools` and how to call them. */
+export function emulatedToolPrompt(tools: ToolDef[]): string {
+  const defs = tools.map((t) => [
+    `<tool name="${t.name}">`,
+    ...(t.description ? [t.description] : []),
+    `Parameters (JSON Schema): ${JSON.stringify(t.parameters ?? { type: 'object', properties: {} })}`,
+    '</tool>',
+  ].join('\n'));
+  return [
+    '<tools>',
+    'You can call the tools listed below. To call a tool, write a block in exactly this form, with the arguments as a JSON object that matches the tool\'s parameters:',
+    '',
+    OPEN_TAG,
+    '{"name": "tool_name", "arguments": {"param": "value"}}',
+    CLOSE_TAG,
+    '',
+    'Write one block per call; several blocks call several tools. After your tool calls, stop and wait: each result comes back in a <tool_result> block in the next message. Never write a <tool_result> yourself.',
+    '',
+    ...defs,
+    '</tools>',
+  ].join('\n');
+}
+
+function withText(content: string | ContentPart[], before: string, after: string): string | ContentPart[] {
+  if (typeof content === 'string') return `${before}${content}${after}`;
+  return [{ type: 'text', text: before }, ...content, { type: 'text', text: after }];
+}
+
+/**
+ * `messages` as an emulating model sees them: the tool prompt after the
+ * leading system messages (when there are tools), assistant tool calls as
+ * `<tool_call>` text, and tool results as user `<tool_result>` messages.
+ */
+export function withEmulatedTools(messages: ChatHistoryItem[], tools: ToolDef[]): ChatHistoryItem[] {
+  const callNames = new Map<string, string>();
+  const out: ChatHistoryItem[] = [];
+  for (const m of messages) {
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      for (const tc of m.tool_calls) callNames.set(tc.id, tc.name);
+      const calls = m.tool_calls.map((tc) => renderCall(tc.name, tc.arguments)).join('\n');
+      const { tool_calls: _calls, ...rest } = m;
+      out.push({ ...rest, content: withText(m.content, '', `${typeof m.content === 'string' && m.content ? '\n' : ''}${calls}`) });
+    } else if (m.role === 'tool') {
+      const id = m.tool_call_id ?? '';
+      const name = callNames.get(id);
+      const open = `<tool_result${name ? ` name="${name}"` : ''}${id ? ` id="${id}"` : ''}>\n`;
+      out.push({ role: 'user', content: withText(m.content, open, '\n</tool_result>') });
+    } else {
+      out.push(m);
+    }
+  }
+  if (tools.length === 0) return out;
+  let at = 0;
+  while (at < out.length && out[at]!.role === 'system') at++;
+  return [...out.slice(0, at), { role: 'system', content: emulatedToolPrompt(tools) }, ...out.slice(at)];
+}
+
+// ----------------------------------------------------------------------------
+// Response side
+// ----------------------------------------------------------------------------
+
+/** Length of the longest suffix of `text` that is a prefix of `tag`. */
+function partialTagLength(text: string, tag: string): number {
+  for (let n = Math.min(tag.length - 1, text.length); n > 0; n--) {
+    if (tag.startsWith(text.slice(text.length - n))) return n;
+  }
+  return 0;
+}
+
+/**
+ * One `<tool_call>` body as events, or undefined when it isn't a call to
+ * one of `toolNames`.
+ */
+function callEvents(body: string, toolNames: ReadonlySet<string>): CloudChatEvent[] | undefined {
+  const parsed = repairJson(body.trim());
+  const value = parsed?.value as Record<string, unknown> | undefined;
+  const name = value?.['name'];
+  if (typeof name !== 'string' || !toolNames.has(name)) return undefined;
+  let args = value!['arguments'] ?? value!['parameters'] ?? {};
+  if (typeof args === 'string') args = repairJson(args)?.value ?? args;
+  const id = `call_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+  return [
+    { kind: 'tool_call_start', id, name },
+    { kind: 'tool_call_args', id, argsDelta: typeof args === 'string' ? args : JSON.stringify(args) },
+  ];
+}
+
+/**
+ * Turn `<tool_call>` blocks in `events`' text into tool-call events for
+ * the offered `tools`. A `stop` finish after emitted calls becomes
+ * `tool_calls`, as a native call would report it.
+ */
+export async function* parseEmulatedToolCalls(
+  events: AsyncIterable<CloudChatEvent>,
+  tools: ToolDef[],
+  log: (message: string) => void = () => { /* silent */ },
+): AsyncGenerator<CloudChatEvent> {
+  const toolNames = new Set(tools.map((t) => t.name));
+  let buf = '';
+  let inCall = false;
+  let calls = 0;
+
+  function* text(t: string): Generator<CloudChatEvent> {
+    // Whitespace between or after calls is layout, not an answer.
+    if (t && !(calls > 0 && t.trim() === '')) yield { kind: 'text', text: t };
+  }
+
+  function* drain(final: boolean): Generator<CloudChatEvent> {
+    for (;;) {
+      if (!inCall) {
+        const at = buf.indexOf(OPEN_TAG);
+        if (at >= 0) {
+          yield* text(buf.slice(0, at));
+          buf = buf.slice(at + OPEN_TAG.length);
+          inCall = true;
+          continue;
+        }
+        // Hold back a tail that could be the start of the next tag.
+        const keep = final ? 0 : partialTagLength(buf, OPEN_TAG);
+        yield* text(buf.slice(0, buf.length - keep));
+        buf = buf.slice(buf.length - keep);
+        return;
+      }
+      const end = buf.indexOf(CLOSE_TAG);
+      if (end < 0 && !final) return;
+      const body = end < 0 ? buf : buf.slice(0, end);
+      buf = end < 0 ? '' : buf.slice(end + CLOSE_TAG.length);
+      inCall = false;
+      const evs = callEvents(body, toolNames);
+      if (evs) {
+        calls++;
+        yield* evs;
+      } else {
+        log(`[windsurf-plugin] emulated tool call didn't parse or names no offered tool; passing it through as text`);
+        yield* text(`${OPEN_TAG}${body}${end < 0 ? '' : CLOSE_TAG}`);
+      }
+    }
+  }
+
+  for await (const ev of events) {
+    if (ev.kind === 'text') {
+      buf += ev.text;
+      yield* drain(false);
+    } else if (ev.kind === 'finish') {
+      yield* drain(true);
+      yield calls > 0 && ev.reason === 'stop' ? { ...ev, reason: 'tool_calls' } : ev;
+    } else {
+      yield ev;
+    }
+  }
+  yield* drain(true);
+}
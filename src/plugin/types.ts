@@ -484,6 +484,64 @@ export interface OpenCodeRequest {
   system?: string;
 }
 
+/**
+ * OpenAI chat-completions request as the local proxy accepts it. Every
+ * proxy route (`/v1/chat/completions`, `/v1/responses`, …) normalises its
+ * body into this shape before it reaches the cloud-direct encoder, so
+ * request-level features only have to be implemented once.
+ */
+export interface ChatCompletionRequest {
+  model?: string;
+  messages: Array<{
+    role: string;
+    /**
+     * Plain text or OpenAI multimodal parts (`text`, `image_url`, …).
+     * Parts are re-validated by cloud-direct's `normalizeContent`.
+     */
+    content: string | Array<{ type: string; text?: string; [key: string]: unknown }>;
+    /** Present on `role:'tool'` messages — the call id this result answers. */
+    tool_call_id?: string;
+    /** Present on `role:'assistant'` messages — tools the assistant called. */
+    tool_calls?: Array<{
+      id?: string;
+      type?: string;
+      function?: { name?: string; arguments?: string };
+    }>;
+  }>;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  /** Non-standard but widely sent (vLLM, OpenRouter, the Messages route). */
+  top_k?: number;
+  stop?: string | string[];
+  seed?: number;
+  max_tokens?: number;
+  /** Accepted only at their no-op values — see `resolveSamplingOptions`. */
+  n?: number | null;
+  logprobs?: boolean;
+  top_logprobs?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  tools?: Array<{
+    type?: string;
+    function?: {
+      name?: string;
+      description?: string;
+      parameters?: Record<string, unknown>;
+    };
+  }>;
+  /**
+   * `'auto' | 'none' | 'required'` or `{ type: 'function', function: { name } }`.
+   * Enforced proxy-side — see plugin/tool-choice.ts.
+   */
+  tool_choice?: string | { type?: string; function?: { name?: string } };
+  parallel_tool_calls?: boolean;
+  providerOptions?: Record<string, unknown>;
+}
+
+/** A validated `tool_choice`: a mode, or the one tool that must be called. */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
 /** Transformed Windsurf request format */
 export interface WindsurfRequest {
   /** Request metadata */
@@ -497,7 +555,7 @@ export interface WindsurfRequest {
   /** Tool definitions */
   tools?: WindsurfToolDefinition[];
   /** Tool choice constraint */
-  toolChoice?: 'auto' | 'none' | { name: string };
+  toolChoice?: ToolChoice;
   /** Generation config */
   generationConfig?: {
     temperature?: number;
@@ -0,0 +1,175 @@
+/**
+ * Retry policy for transient GetChatMessage failures.
+ *
+ * A 5xx from the cloud, our own time-to-first-byte timeout, a dropped
+ * connection or an `unavailable` trailer used to surface as a single SSE
+ * error chunk, killing the agent turn over what is usually a blip. When such
+ * a failure happens BEFORE any event was yielded, nothing has reached the
+ * client, so re-sending the identical request is invisible to it. It isn't
+ * necessarily free: a TTFB timeout only means nothing arrived in time, and
+ * the cloud may already have started generating (and billing) the attempt
+ * we abandon. So retries are few — {@link DEFAULT_RETRY_POLICY} — with
+ * exponential backoff from {@link RATE_LIMIT_CONFIG}; once bytes have
+ * streamed, errors propagate as before.
+ *
+ * Retries sit under account rotation, which re-runs this whole loop per
+ * account. `deadlineMs` bounds the stack as a whole: the caller fixes one
+ * deadline for every account and attempt, each attempt's TTFB budget is cut
+ * to the time left, and no retry or failover starts past it.
+ *
+ * The policy is per model: reasoning variants (`-thinking`, `-high`,
+ * `-xhigh`, o3/o4, R1) can think for minutes before the first byte, so they
+ * get a longer TTFB budget instead of timing out and retrying from scratch.
+ * Callers can override any field via `providerOptions.windsurf.retry`, e.g.
+ * `{ "retry": { "ttfbTimeoutMs": 300000, "maxRetries": 2 } }`.
+ *
+ * Rate limits are NOT retried here — they're an account problem, handled by
+ * account-rotation.ts one layer up. That holds even when the cloud reports
+ * one as a 5xx: retrying it on the same account would only burn the budget
+ * before rotation gets a chance.
+ */
+
+import type { CloudChatEvent } from '../cloud-direct/index.js';
+import { CLOUD_STREAM_TTFB_MS, CloudChatError } from '../cloud-direct/index.js';
+import { RATE_LIMIT_CONFIG } from '../constants.js';
+import { isRateLimitError } from './account-rotation.js';
+import type { ChatCompletionRequest } from './types.js';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+  /** Time-to-first-byte budget per attempt. */
+  ttfbTimeoutMs: number;
+  /** Budget for the first byte across every retry and account failover. */
+  deadlineMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = {
+  maxRetries: 2,
+  initialBackoffMs: RATE_LIMIT_CONFIG.INITIAL_BACKOFF_MS,
+  maxBackoffMs: RATE_LIMIT_CONFIG.MAX_BACKOFF_MS,
+  backoffMultiplier: RATE_LIMIT_CONFIG.BACKOFF_MULTIPLIER,
+  ttfbTimeoutMs: CLOUD_STREAM_TTFB_MS,
+  deadlineMs: 150_000,
+};
+
+/** TTFB budget for models that reason before answering. */
+const REASONING_TTFB_MS = 180_000;
+/** Whole-stack budget for those models: room for one retry. */
+const REASONING_DEADLINE_MS = 420_000;
+
+/**
+ * Per-model adjustments, matched against both the canonical model id and
+ * the variant UID (the reasoning effort usually lives in the UID suffix).
+ * First match wins.
+ */
+const MODEL_RETRY_OVERRIDES: ReadonlyArray<{ pattern: RegExp; policy: Partial<RetryPolicy> }> = [
+  { pattern: /(^|-)(thinking|reasoning|high|xhigh)(-|$)/, policy: { ttfbTimeoutMs: REASONING_TTFB_MS, deadlineMs: REASONING_DEADLINE_MS } },
+  { pattern: /^(o[34](-|$)|deepseek-r1|kimi-k2-thinking)/, policy: { ttfbTimeoutMs: REASONING_TTFB_MS, deadlineMs: REASONING_DEADLINE_MS } },
+];
+
+/** Connect codes that mean "try again", not "this request is wrong". */
+const TRANSIENT_CODES = new Set(['unavailable', 'deadline_exceeded', 'truncated_stream']);
+
+/**
+ * True for failures worth re-sending unchanged: 5xx, TTFB timeout,
+ * `unavailable`, dropped stream. Never a rate limit, whatever its status.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (!(err instanceof CloudChatError)) return false;
+  if (isRateLimitError(err)) return false;
+  if (err.httpStatus !== undefined && err.httpStatus >= 500) return true;
+  return err.code !== undefined && TRANSIENT_CODES.has(err.code);
+}
+
+function readOverrides(request: ChatCompletionRequest): Partial<RetryPolicy> {
+  const ws = request.providerOptions?.['windsurf'];
+  const retry = ws && typeof ws === 'object' ? (ws as Record<string, unknown>)['retry'] : undefined;
+  if (!retry || typeof retry !== 'object') return {};
+  const out: Partial<RetryPolicy> = {};
+  for (const key of Object.keys(DEFAULT_RETRY_POLICY) as Array<keyof RetryPolicy>) {
+    const v = (retry as Record<string, unknown>)[key];
+    if (typeof v === 'number' && Number.isFinite(v) && v >= 0) out[key] = v;
+  }
+  return out;
+}
+
+/** Resolve the retry policy for a request: defaults, then the model table, then caller overrides. */
+export function resolveRetryPolicy(
+  modelId: string,
+  modelUid: string,
+  request: ChatCompletionRequest,
+): RetryPolicy {
+  const rule = MODEL_RETRY_OVERRIDES.find((r) => r.pattern.test(modelId) || r.pattern.test(modelUid));
+  const policy = { ...DEFAULT_RETRY_POLICY, ...rule?.policy, ...readOverrides(request) };
+  policy.maxRetries = Math.floor(policy.maxRetries);
+  return policy;
+}
+
+/** Backoff before retry number `attempt` (1-based). */
+export function backoffForAttempt(policy: RetryPolicy, attempt: number): number {
+  const raw = policy.initialBackoffMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  return Math.min(raw, policy.maxBackoffMs);
+}
+
+/** Sleep that rejects with the signal's reason as soon as it aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Error for a request whose retry deadline ran out before an attempt could start. */
+function deadlineError(policy: RetryPolicy): CloudChatError {
+  return new CloudChatError(`no response within the ${policy.deadlineMs}ms retry deadline`, 'deadline_exceeded');
+}
+
+/**
+ * Run `open` (one GetChatMessage attempt per call) under `policy`, retrying
+ * transient failures that happen before the first event. `open` receives
+ * the TTFB budget to pass through to streamChatEvents. `deadline` (epoch ms,
+ * usually `Date.now() + policy.deadlineMs`) is shared with any other
+ * account's run of this loop; past it nothing new is attempted.
+ */
+export async function* streamWithRetry(
+  policy: RetryPolicy,
+  open: (ttfbTimeoutMs: number) => AsyncGenerator<CloudChatEvent>,
+  signal?: AbortSignal,
+  log: (message: string) => void = () => { /* silent */ },
+  deadline = Infinity,
+): AsyncGenerator<CloudChatEvent> {
+  for (let attempt = 0; ; attempt++) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw deadlineError(policy);
+    let started = false;
+    try {
+      for await (const ev of open(Math.min(policy.ttfbTimeoutMs, remaining))) {
+        started = true;
+        yield ev;
+      }
+      return;
+    } catch (err) {
+      if (started || signal?.aborted || attempt >= policy.maxRetries || !isTransientError(err)) throw err;
+      const e = err as CloudChatError;
+      const delay = backoffForAttempt(policy, attempt + 1);
+      if (Date.now() + delay >= deadline) {
+        log(`[windsurf-plugin] GetChatMessage attempt ${attempt + 1} failed (${e.message}); retry deadline reached, giving up`);
+        throw err;
+      }
+      log(`[windsurf-plugin] GetChatMessage attempt ${attempt + 1}/${policy.maxRetries + 1} failed (${e.code ?? `HTTP ${e.httpStatus}`}${e.traceId ? `, trace ${e.traceId}` : ''}): ${e.message}; retrying in ${delay}ms`);
+      await sleep(delay, signal);
+    }
+  }
+}
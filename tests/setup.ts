@@ -0,0 +1,16 @@
+import { afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Preloaded before every test file (bunfig.toml). xdg-basedir reads the
+// environment once, on first import, and bun shares that module across test
+// files, so the scratch config and cache dirs have to be in place before any
+// of them loads — per-file overrides only work for whichever file runs first.
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'windsurf-test-'));
+process.env.XDG_CONFIG_HOME = path.join(scratch, 'config');
+process.env.XDG_CACHE_HOME = path.join(scratch, 'cache');
+
+afterAll(() => {
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
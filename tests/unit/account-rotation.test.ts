@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { CloudChatError } from '../../src/cloud-direct/index.js';
+import { backoffForHit, isRateLimitError, orderAccounts } from '../../src/plugin/account-rotation.js';
+import type { AccountStateFile, StoredAccount } from '../../src/oauth/types.js';
+
+const NOW = 1_800_000_000_000;
+
+function account(id: string): StoredAccount {
+  return {
+    id,
+    label: id,
+    addedAt: '2026-01-01T00:00:00.000Z',
+    apiKey: `key-${id}`,
+    name: id,
+    apiServerUrl: 'https://server.codeium.com',
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    oauthClientId: 'client',
+  };
+}
+
+const accounts = ['a', 'b', 'c'].map(account);
+const ids = (list: StoredAccount[]) => list.map((a) => a.id);
+
+function state(accountsState: AccountStateFile['accounts'] = {}, lastAccountId?: string): AccountStateFile {
+  return { version: 1, accounts: accountsState, lastAccountId };
+}
+
+function limitedUntil(resetAt: number) {
+  return { requestCount: 0, rateLimit: { isLimited: true, resetAt, consecutiveHits: 1, backoffMs: 1000 } };
+}
+
+describe('orderAccounts', () => {
+  test('sticky puts the active account first', () => {
+    expect(ids(orderAccounts('sticky', accounts, 'b', state(), NOW))).toEqual(['b', 'a', 'c']);
+  });
+
+  test('sticky with a stale active id keeps store order', () => {
+    expect(ids(orderAccounts('sticky', accounts, 'gone', state(), NOW))).toEqual(['a', 'b', 'c']);
+  });
+
+  test('round-robin starts after the account that served last', () => {
+    expect(ids(orderAccounts('round-robin', accounts, 'a', state({}, 'b'), NOW))).toEqual(['c', 'a', 'b']);
+    expect(ids(orderAccounts('round-robin', accounts, 'a', state({}, 'c'), NOW))).toEqual(['a', 'b', 'c']);
+    expect(ids(orderAccounts('round-robin', accounts, 'a', state(), NOW))).toEqual(['a', 'b', 'c']);
+  });
+
+  test('least-used sorts by request count, then by last use', () => {
+    const s = state({
+      a: { requestCount: 5 },
+      b: { requestCount: 2, lastUsedAt: NOW - 10 },
+      c: { requestCount: 2, lastUsedAt: NOW - 20 },
+    });
+    expect(ids(orderAccounts('least-used', accounts, 'a', s, NOW))).toEqual(['c', 'b', 'a']);
+  });
+
+  test('limited accounts go last, soonest reset first', () => {
+    const s = state({ a: limitedUntil(NOW + 5000), b: limitedUntil(NOW + 1000) });
+    expect(ids(orderAccounts('sticky', accounts, 'a', s, NOW))).toEqual(['c', 'b', 'a']);
+  });
+
+  test('an expired limit no longer demotes the account', () => {
+    const s = state({ a: limitedUntil(NOW - 1) });
+    expect(ids(orderAccounts('sticky', accounts, 'a', s, NOW))).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('rate-limit detection', () => {
+  test('recognises resource_exhausted and rate-limit messages', () => {
+    expect(isRateLimitError(new CloudChatError('out of credits', 'resource_exhausted'))).toBe(true);
+    expect(isRateLimitError(new CloudChatError('Rate limit exceeded', 'unknown', undefined, 500))).toBe(true);
+    expect(isRateLimitError(new CloudChatError('Too Many Requests', undefined, undefined, 429))).toBe(true);
+    expect(isRateLimitError(new CloudChatError('daily quota reached'))).toBe(true);
+  });
+
+  test('ignores other failures', () => {
+    expect(isRateLimitError(new CloudChatError('upstream connect error', 'unavailable', undefined, 503))).toBe(false);
+    expect(isRateLimitError(new Error('rate limit'))).toBe(false);
+  });
+
+  test('backs off exponentially per consecutive hit, capped at 60s', () => {
+    expect([1, 2, 3, 4].map(backoffForHit)).toEqual([1000, 2000, 4000, 8000]);
+    expect(backoffForHit(20)).toBe(60_000);
+  });
+});
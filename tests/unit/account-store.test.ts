@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as storage from '../../src/oauth/storage.js';
+import type { PersistedCredentials } from '../../src/oauth/types.js';
+
+// tests/setup.ts points XDG_CONFIG_HOME at a scratch dir. These tests delete
+// files, so refuse to run against anything else.
+const dir = storage.getCredentialsDir();
+if (!dir.startsWith(os.tmpdir())) throw new Error(`credentials dir ${dir} is not under the scratch dir`);
+
+function creds(apiKey: string, extra: Partial<PersistedCredentials> = {}): PersistedCredentials {
+  return {
+    apiKey,
+    name: `User ${apiKey}`,
+    apiServerUrl: 'https://server.codeium.com',
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    oauthClientId: 'client',
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('account store', () => {
+  test('an empty config dir is an empty store', () => {
+    expect(storage.loadAccounts()).toEqual({ version: 1, accounts: [] });
+    expect(storage.loadCredentials()).toBeNull();
+  });
+
+  test('migrates a legacy credentials.json on the first write', async () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'credentials.json'), JSON.stringify(creds('legacy')), { mode: 0o600 });
+
+    const before = storage.loadAccounts();
+    expect(before.accounts).toHaveLength(1);
+    expect(before.accounts[0]!.apiKey).toBe('legacy');
+    expect(before.accounts[0]!.label).toBe('User legacy');
+    expect(before.selectedAccountId).toBe(before.accounts[0]!.id);
+    // Reading alone writes nothing.
+    expect(fs.existsSync(storage.getCredentialsPath())).toBe(false);
+
+    await storage.addAccount(creds('second'));
+    const after = storage.loadAccounts();
+    expect(after.accounts.map((a) => a.apiKey)).toEqual(['legacy', 'second']);
+    expect(fs.existsSync(path.join(dir, 'credentials.json'))).toBe(false);
+    expect(fs.existsSync(path.join(dir, 'credentials.json.migrated'))).toBe(true);
+  });
+
+  test('rejects a store written by a newer version', () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(storage.getCredentialsPath(), JSON.stringify({ version: 99, accounts: [] }), { mode: 0o600 });
+    expect(() => storage.loadAccounts()).toThrow(/newer than this plugin understands/);
+  });
+
+  test('addAccount keeps labels unique and refreshes a known key in place', async () => {
+    const a = await storage.addAccount(creds('k1', { name: 'Jane' }));
+    const b = await storage.addAccount(creds('k2', { name: 'Jane' }));
+    expect([a.label, b.label]).toEqual(['Jane', 'Jane (2)']);
+
+    const again = await storage.addAccount(creds('k1', { name: 'Jane', issuedAt: '2026-02-02T00:00:00.000Z' }));
+    expect(again.id).toBe(a.id);
+    const store = storage.loadAccounts();
+    expect(store.accounts).toHaveLength(2);
+    expect(store.accounts[0]!.issuedAt).toBe('2026-02-02T00:00:00.000Z');
+    expect(store.selectedAccountId).toBe(a.id);
+  });
+
+  test('an opencode-synced key is added alongside CLI accounts and removed on opencode logout', async () => {
+    const personal = await storage.addAccount(creds('personal'), 'personal');
+    const team = await storage.addAccount(creds('team', { syncedViaOpencodeAuth: false }), 'team');
+
+    // What the plugin loader does when opencode holds a key no account has.
+    const synced = await storage.syncOpencodeAccount(creds('from-opencode', { syncedViaOpencodeAuth: true }), 'opencode');
+
+    let store = storage.loadAccounts();
+    expect(store.accounts.map((a) => [a.label, a.apiKey])).toEqual([
+      ['personal', 'personal'],
+      ['team', 'team'],
+      ['opencode', 'from-opencode'],
+    ]);
+    expect(store.accounts.find((a) => a.id === team.id)!.syncedViaOpencodeAuth).toBe(false);
+    expect(store.selectedAccountId).toBe(synced.id);
+
+    expect(await storage.removeOpencodeSyncedAccounts()).toBe(1);
+    store = storage.loadAccounts();
+    expect(store.accounts.map((a) => a.apiKey)).toEqual(['personal', 'team']);
+    expect(store.selectedAccountId).toBe(personal.id);
+  });
+
+  test('an opencode re-login replaces the key it revoked', async () => {
+    const personal = await storage.addAccount(creds('personal'), 'personal');
+    const first = await storage.syncOpencodeAccount(creds('opencode-1', { syncedViaOpencodeAuth: true }), 'opencode');
+    await storage.selectAccount(personal.id);
+
+    const second = await storage.syncOpencodeAccount(creds('opencode-2', { syncedViaOpencodeAuth: true }), 'opencode');
+    let store = storage.loadAccounts();
+    expect(store.accounts.map((a) => [a.label, a.apiKey])).toEqual([
+      ['personal', 'personal'],
+      ['opencode', 'opencode-2'],
+    ]);
+    expect(second.id).not.toBe(first.id);
+    expect(store.selectedAccountId).toBe(second.id);
+
+    // Syncing a key that's already stored refreshes it and keeps the selection.
+    await storage.selectAccount(personal.id);
+    const again = await storage.syncOpencodeAccount(creds('opencode-2', { syncedViaOpencodeAuth: true, name: 'Renamed' }), 'opencode');
+    store = storage.loadAccounts();
+    expect(again.id).toBe(second.id);
+    expect(store.accounts).toHaveLength(2);
+    expect(store.selectedAccountId).toBe(personal.id);
+  });
+
+  test('an opencode key already held by a CLI account stays CLI-managed', async () => {
+    await storage.syncOpencodeAccount(creds('old', { syncedViaOpencodeAuth: true }), 'opencode');
+    const team = await storage.addAccount(creds('team'), 'team');
+    await storage.syncOpencodeAccount(creds('team', { syncedViaOpencodeAuth: true }), 'opencode');
+    const store = storage.loadAccounts();
+    expect(store.accounts.map((a) => a.apiKey)).toEqual(['team']);
+    expect(store.accounts[0]!.syncedViaOpencodeAuth).toBeFalsy();
+    expect(store.selectedAccountId).toBe(team.id);
+  });
+
+  test('saveCredentials replaces the active account', async () => {
+    await storage.addAccount(creds('old'), 'work');
+    const saved = await storage.saveCredentials(creds('rotated'));
+    const store = storage.loadAccounts();
+    expect(store.accounts).toHaveLength(1);
+    expect(saved.label).toBe('work');
+    expect(store.accounts[0]!.apiKey).toBe('rotated');
+  });
+
+  test('findAccount resolves a position, an id or a label', async () => {
+    const a = await storage.addAccount(creds('k1'), 'personal');
+    const b = await storage.addAccount(creds('k2'), 'Team');
+    const store = storage.loadAccounts();
+    expect(storage.findAccount(store, '2')?.id).toBe(b.id);
+    expect(storage.findAccount(store, a.id)?.id).toBe(a.id);
+    expect(storage.findAccount(store, 'team')?.id).toBe(b.id);
+    expect(storage.findAccount(store, 'nobody')).toBeUndefined();
+    await expect(storage.selectAccount('nobody')).rejects.toBeInstanceOf(storage.AccountNotFoundError);
+  });
+});
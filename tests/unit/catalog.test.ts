@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+import { parseClientModelConfig, parseModelConfigsResponse } from '../../src/cloud-direct/catalog.js';
+import { encodeMessage, encodeString, encodeVarintField } from '../../src/cloud-direct/wire.js';
+
+function float32Field(fieldNum: number, v: number): Buffer {
+  const value = Buffer.alloc(4);
+  value.writeFloatLE(v, 0);
+  return Buffer.concat([Buffer.from([(fieldNum << 3) | 5]), value]);
+}
+
+/** A `ClientModelConfig` as the cloud sends it, byte for byte. */
+const OPUS = Buffer.from([
+  0x0a, 0x0b, ...Buffer.from('Claude Opus'),      // #1 label
+  0x12, 0x02, 0x08, 0x22,                          // #2 model_or_alias { #1 enum = 34 }
+  0x1d, 0x00, 0x00, 0x20, 0x42,                    // #3 credit_multiplier = 40.0f
+  0x28, 0x01,                                      // #5 supports_images
+  0x38, 0x01,                                      // #7 is_premium
+  0x68, 0x02,                                      // #13 pricing_type = 2
+  0x90, 0x01, 0x80, 0x89, 0x7a,                    // #18 max_tokens = 2_000_000
+  0xb2, 0x01, 0x0b, ...Buffer.from('claude-opus'), // #22 model_uid
+]);
+
+describe('parseClientModelConfig', () => {
+  test('decodes every mapped field from the wire bytes', () => {
+    expect(parseClientModelConfig(OPUS)).toEqual({
+      modelUid: 'claude-opus',
+      label: 'Claude Opus',
+      disabled: false,
+      maxTokens: 2_000_000,
+      supportsImages: true,
+      isPremium: true,
+      isBeta: false,
+      isRecommended: false,
+      modelEnum: 34,
+      creditMultiplier: 40,
+      pricingType: 2,
+    });
+  });
+
+  test('reads the boolean flags', () => {
+    const entry = parseClientModelConfig(Buffer.concat([
+      encodeString(22, 'swe-1-6'),
+      encodeVarintField(4, 1),
+      encodeVarintField(9, 1),
+      encodeVarintField(11, 1),
+    ]));
+    expect(entry).toMatchObject({ disabled: true, isBeta: true, isRecommended: true, supportsImages: false });
+  });
+
+  test('a fractional credit multiplier survives float32', () => {
+    const entry = parseClientModelConfig(Buffer.concat([encodeString(22, 'swe-1-6'), float32Field(3, 0.1)]));
+    expect(entry?.creditMultiplier).toBe(0.1);
+  });
+
+  test('unknown fields are skipped, including a nested submessage', () => {
+    // #30 { #1 "hello" } — bytes `\n\x05hello`, a submessage that looks like text.
+    const entry = parseClientModelConfig(Buffer.concat([
+      encodeString(22, 'gpt-5'),
+      encodeMessage(30, encodeString(1, 'hello')),
+      encodeVarintField(40, 7),
+    ]));
+    expect(entry).toEqual({
+      modelUid: 'gpt-5',
+      label: 'gpt-5',
+      disabled: false,
+      supportsImages: false,
+      isPremium: false,
+      isBeta: false,
+      isRecommended: false,
+    });
+  });
+
+  test('zero max_tokens and pricing_type mean unset', () => {
+    const entry = parseClientModelConfig(Buffer.concat([
+      encodeString(22, 'gpt-5'),
+      encodeVarintField(13, 0),
+      encodeVarintField(18, 0),
+    ]));
+    expect(entry?.maxTokens).toBeUndefined();
+    expect(entry?.pricingType).toBeUndefined();
+  });
+
+  test('a config without a model_uid is dropped', () => {
+    expect(parseClientModelConfig(encodeString(1, 'Orphan'))).toBeNull();
+  });
+});
+
+describe('parseModelConfigsResponse', () => {
+  test('collects each #1 config in order and ignores other fields', () => {
+    const body = Buffer.concat([
+      encodeMessage(1, OPUS),
+      encodeVarintField(2, 5),
+      encodeMessage(1, encodeString(1, 'no uid')),
+      encodeMessage(1, encodeString(22, 'swe-1-6')),
+    ]);
+    expect(parseModelConfigsResponse(body).map((e) => e.modelUid)).toEqual(['claude-opus', 'swe-1-6']);
+  });
+
+  test('a truncated body keeps the configs before the cut', () => {
+    const body = Buffer.concat([encodeMessage(1, OPUS), encodeMessage(1, encodeString(22, 'swe-1-6'))]);
+    expect(parseModelConfigsResponse(body.subarray(0, body.length - 3)).map((e) => e.modelUid)).toEqual(['claude-opus']);
+  });
+
+  test('an empty body is an empty catalog', () => {
+    expect(parseModelConfigsResponse(Buffer.alloc(0))).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { ChatHistoryItem, PromptTokenEstimate } from '../../src/cloud-direct/index.js';
+import { compactHistory, resolveCompaction, truncateHeadTail, type CompactionConfig } from '../../src/plugin/compaction.js';
+import { RequestParamError } from '../../src/plugin/proxy-errors.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+const history: ChatHistoryItem[] = [
+  { role: 'system', content: 'sys' },
+  { role: 'user', content: 'first question' },
+  { role: 'assistant', content: '', tool_calls: [{ id: 'c1', name: 'read', arguments: '{}' }] },
+  { role: 'tool', content: 'x'.repeat(1000), tool_call_id: 'c1' },
+  { role: 'assistant', content: 'first answer' },
+  { role: 'user', content: 'second question' },
+  { role: 'assistant', content: 'second answer' },
+  { role: 'user', content: 'third question' },
+  { role: 'assistant', content: '', tool_calls: [{ id: 'c2', name: 'read', arguments: '{}' }] },
+  // Not answered yet, so never truncated.
+  { role: 'tool', content: 'y'.repeat(1000), tool_call_id: 'c2' },
+];
+
+/** One token per character of string content, no framing. */
+function estimate(messages: ChatHistoryItem[]): PromptTokenEstimate {
+  const perMessage = messages.map((m) => (typeof m.content === 'string' ? m.content.length : 0));
+  return { total: perMessage.reduce((a, b) => a + b, 0), perMessage, tools: 0, tokenizer: 'chars' };
+}
+
+const size = estimate(history).total;
+
+function config(overrides: Partial<CompactionConfig>): CompactionConfig {
+  return {
+    strategies: ['truncate-tool-outputs', 'drop-oldest'],
+    threshold: 1,
+    keepRecentTurns: 2,
+    toolOutputMaxChars: 100,
+    summaryModel: 'swe-1.6',
+    ...overrides,
+  };
+}
+
+describe('resolveCompaction', () => {
+  afterEach(() => {
+    delete process.env.WINDSURF_COMPACTION;
+  });
+
+  const request = (windsurf?: Record<string, unknown>): ChatCompletionRequest =>
+    ({ messages: [], ...(windsurf ? { providerOptions: { windsurf } } : {}) });
+
+  test('off by default; true turns on the defaults', () => {
+    expect(resolveCompaction(request())).toBeUndefined();
+    expect(resolveCompaction(request({ compaction: true }))?.strategies).toEqual(['truncate-tool-outputs', 'drop-oldest']);
+  });
+
+  test('a name, a list or the environment pick the strategies', () => {
+    expect(resolveCompaction(request({ compaction: 'summarize' }))?.strategies).toEqual(['summarize']);
+    expect(resolveCompaction(request({ compaction: ['drop-oldest', 'summarize'] }))?.strategies).toEqual(['drop-oldest', 'summarize']);
+    process.env.WINDSURF_COMPACTION = ' summarize, drop-oldest ';
+    expect(resolveCompaction(request())?.strategies).toEqual(['summarize', 'drop-oldest']);
+    expect(resolveCompaction(request({ compaction: false }))).toBeUndefined();
+  });
+
+  test('an object overrides single settings', () => {
+    expect(resolveCompaction(request({ compaction: { strategy: 'summarize', threshold: 0.5, summaryModel: 'gpt-4o-mini' } }))).toEqual({
+      strategies: ['summarize'],
+      threshold: 0.5,
+      keepRecentTurns: 2,
+      toolOutputMaxChars: 8000,
+      summaryModel: 'gpt-4o-mini',
+    });
+  });
+
+  test('malformed settings are a 400', () => {
+    for (const compaction of ['squash', [], 3, { threshold: 1.5 }, { keepRecentTurns: 0 }, { toolOutputMaxChars: 'lots' }, { summaryModel: '' }]) {
+      expect(() => resolveCompaction(request({ compaction }))).toThrow(RequestParamError);
+    }
+  });
+});
+
+describe('truncateHeadTail', () => {
+  test('keeps the head and tail around a note', () => {
+    expect(truncateHeadTail('abcdefghij', 5)).toBe('abc\n[… 5 characters omitted …]\nij');
+    expect(truncateHeadTail('short', 5)).toBe('short');
+  });
+});
+
+describe('compactHistory', () => {
+  const neverSummarize = () => Promise.reject(new Error('unexpected summary'));
+
+  test('under the threshold nothing changes', async () => {
+    const out = await compactHistory(history, config({}), { contextTokens: size, estimate, summarize: neverSummarize });
+    expect(out).toEqual({ messages: history, applied: [], before: size, after: size });
+  });
+
+  test('truncate-tool-outputs cuts answered results only', async () => {
+    const out = await compactHistory(history, config({ strategies: ['truncate-tool-outputs'] }), { contextTokens: 2000, estimate, summarize: neverSummarize });
+    expect(out.applied).toEqual(['truncate-tool-outputs']);
+    expect(out.messages[3]!.content).toBe(`${'x'.repeat(60)}\n[… 900 characters omitted …]\n${'x'.repeat(40)}`);
+    expect(out.messages[9]).toBe(history[9]!);
+    expect(out.after).toBeLessThan(2000);
+  });
+
+  test('stops once the prompt fits', async () => {
+    const out = await compactHistory(history, config({}), { contextTokens: 2000, estimate, summarize: neverSummarize });
+    expect(out.applied).toEqual(['truncate-tool-outputs']);
+  });
+
+  test('drop-oldest removes whole units and leaves a note', async () => {
+    const out = await compactHistory(history, config({ strategies: ['drop-oldest'] }), { contextTokens: 1100, estimate, summarize: neverSummarize });
+    expect(out.applied).toEqual(['drop-oldest']);
+    expect(out.messages.map((m) => m.content).slice(0, 3)).toEqual(['sys', '[3 earlier messages omitted to fit the context window]', 'first answer']);
+  });
+
+  test('summarize folds the turns before the recent ones into a summary, once', async () => {
+    const transcripts: string[] = [];
+    const summarize = async (t: string) => {
+      transcripts.push(t);
+      return '  the gist  ';
+    };
+    const cfg = config({ strategies: ['summarize'], summaryModel: 'summary-test' });
+    const out = await compactHistory(history, cfg, { contextTokens: 2000, estimate, summarize });
+    expect(out.applied).toEqual(['summarize']);
+    expect(out.messages.slice(0, 3)).toEqual([
+      history[0]!,
+      {
+        role: 'user',
+        content: '<conversation_summary>\nSummary of 4 earlier messages, condensed to fit the context window:\nthe gist\n</conversation_summary>',
+      },
+      history[5]!,
+    ]);
+    expect(out.messages).toHaveLength(7);
+    expect(transcripts[0]).toStartWith('[user]\nfirst question\n\n[assistant]\n\n[tool call read] {}\n\n[tool]\nxxx');
+
+    // The same transcript again is served from the cache.
+    await compactHistory(history, cfg, { contextTokens: 2000, estimate, summarize });
+    expect(transcripts).toHaveLength(1);
+  });
+
+  test('a failing strategy is logged and skipped', async () => {
+    const logs: string[] = [];
+    const out = await compactHistory(history, config({ strategies: ['summarize', 'drop-oldest'], summaryModel: 'failing-test' }), {
+      contextTokens: 1100,
+      estimate,
+      summarize: () => Promise.reject(new Error('boom')),
+      log: (m) => logs.push(m),
+    });
+    expect(out.applied).toEqual(['drop-oldest']);
+    expect(logs).toEqual(['[windsurf-plugin] compaction: summarize failed, skipping: boom']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveConversation } from '../../src/plugin/conversation.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+const opening: ChatCompletionRequest['messages'] = [
+  { role: 'system', content: 'You are opencode.' },
+  { role: 'user', content: 'Fix the build.' },
+];
+
+function request(messages: ChatCompletionRequest['messages'], providerOptions?: Record<string, unknown>): ChatCompletionRequest {
+  return { messages, ...(providerOptions ? { providerOptions } : {}) };
+}
+
+describe('resolveConversation', () => {
+  test('a growing conversation keeps its prefix key', () => {
+    const first = resolveConversation(request(opening));
+    const later = resolveConversation(request([
+      ...opening,
+      { role: 'assistant', content: 'Done.' },
+      { role: 'user', content: 'Now run the tests.' },
+    ]));
+    expect(first.conversationKey).toMatch(/^prefix:[0-9a-f]{32}$/);
+    expect(later.conversationKey).toBe(first.conversationKey);
+    expect(first.cascadeId).toBeUndefined();
+  });
+
+  test('a different system prompt or first message is a different conversation', () => {
+    const base = resolveConversation(request(opening)).conversationKey;
+    const title = resolveConversation(request([{ role: 'system', content: 'Write a title.' }, opening[1]!])).conversationKey;
+    const other = resolveConversation(request([opening[0]!, { role: 'user', content: 'Add a feature.' }])).conversationKey;
+    expect(new Set([base, title, other]).size).toBe(3);
+  });
+
+  test('the header wins over the prefix', () => {
+    const a = resolveConversation(request(opening), 'session-a');
+    const b = resolveConversation(request(opening), ' session-b ');
+    expect(a.conversationKey).toBe('header:session-a');
+    expect(b.conversationKey).toBe('header:session-b');
+    expect(resolveConversation(request(opening), '   ').conversationKey).toMatch(/^prefix:/);
+  });
+
+  test('an overlong header is hashed', () => {
+    const key = resolveConversation(request(opening), 'x'.repeat(300)).conversationKey;
+    expect(key).toMatch(/^header:[0-9a-f]{32}$/);
+  });
+
+  test('a pinned cascadeId wins over everything', () => {
+    const pinned = resolveConversation(request(opening, { windsurf: { cascadeId: ' abc ' } }), 'session-a');
+    expect(pinned).toEqual({ cascadeId: 'abc', conversationKey: 'cascade:abc' });
+  });
+
+  test('an unusable cascadeId is ignored', () => {
+    expect(resolveConversation(request(opening, { windsurf: { cascadeId: '' } })).cascadeId).toBeUndefined();
+    expect(resolveConversation(request(opening, { windsurf: { cascadeId: 42 } })).cascadeId).toBeUndefined();
+    expect(resolveConversation(request(opening, { windsurf: { cascadeId: 'c'.repeat(300) } })).cascadeId).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test';
+import { appendDiagnosticHeaders, lateDiagnosticComments, type Diagnostics } from '../../src/plugin/diagnostics.js';
+
+function diagnostics(warnings: string[] = [], toolRepairs: string[] = []): Diagnostics {
+  return { warnings, toolRepairs };
+}
+
+describe('appendDiagnosticHeaders', () => {
+  test('one header per warning and repair', () => {
+    const headers = new Headers();
+    appendDiagnosticHeaders(headers, diagnostics(['max_tokens clamped', 'images stripped'], ['read (c1): trailing commas']));
+    expect(headers.get('X-Windsurf-Warning')).toBe('max_tokens clamped, images stripped');
+    expect(headers.get('X-Windsurf-Tool-Repair')).toBe('read (c1): trailing commas');
+  });
+
+  test('replaces what a header cannot carry', () => {
+    const headers = new Headers();
+    appendDiagnosticHeaders(headers, diagnostics(['tool “grep” sanitized\nagain']));
+    expect(headers.get('X-Windsurf-Warning')).toBe('tool ?grep? sanitized?again');
+  });
+});
+
+describe('lateDiagnosticComments', () => {
+  test('only what was added after the headers, once', () => {
+    const d = diagnostics(['max_tokens clamped']);
+    appendDiagnosticHeaders(new Headers(), d);
+    expect(lateDiagnosticComments(d)).toBe('');
+    d.warnings.push('tool bash is rejected by the cloud; sent sanitized');
+    expect(lateDiagnosticComments(d)).toBe(': X-Windsurf-Warning: tool bash is rejected by the cloud; sent sanitized\n\n');
+    expect(lateDiagnosticComments(d)).toBe('');
+  });
+
+  test('a newline in a warning cannot end the comment early', () => {
+    const d = diagnostics();
+    appendDiagnosticHeaders(new Headers(), d);
+    d.warnings.push('first\ndata: {"injected":true}');
+    const comments = lateDiagnosticComments(d);
+    expect(comments.trimEnd().split('\n')).toEqual([': X-Windsurf-Warning: first?data: {"injected":true}']);
+  });
+});
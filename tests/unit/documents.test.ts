@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'bun:test';
+import type { ChatHistoryItem, ContentPart } from '../../src/cloud-direct/index.js';
+import { decodeText, extractDocuments, fileAttachmentOf } from '../../src/cloud-direct/documents.js';
+
+const b64 = (text: string | Buffer) => Buffer.from(text).toString('base64');
+const ELF_HEADER = Buffer.from([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 3, 0, 0x3e, 0, 1, 0, 0, 0]);
+
+function fileMessage(...parts: unknown[]): ChatHistoryItem[] {
+  return [{ role: 'user', content: [{ type: 'text', text: 'See attached.' }, ...parts] as ContentPart[] }];
+}
+
+function contentOf(messages: ChatHistoryItem[]): ContentPart[] {
+  return messages[0]!.content as ContentPart[];
+}
+
+/** Two pages: one with text, one that only draws a 1×1 gray image (a "scan"). */
+function scannedPdf(): Buffer {
+  const stream = (dict: string, data: string) => `<< ${dict} /Length ${data.length} >>\nstream\n${data}\nendstream`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>',
+    '<< /Type /Page /Parent 2 0 R /Contents 5 0 R /Resources << /Font << /F1 7 0 R >> >> >>',
+    '<< /Type /Page /Parent 2 0 R /Contents 6 0 R /Resources << /XObject << /Im1 8 0 R >> >> >>',
+    stream('', 'BT /F1 12 Tf (The quarterly report, page one.) Tj ET'),
+    stream('', '/Im1 Do'),
+    '<< /Type /Font /Subtype /Type1 >>',
+    stream('/Type /XObject /Subtype /Image /Width 1 /Height 1 /BitsPerComponent 8 /ColorSpace /DeviceGray', '\x80'),
+  ];
+  return Buffer.from(`%PDF-1.4\n${objects.map((o, i) => `${i + 1} 0 obj\n${o}\nendobj\n`).join('')}%%EOF\n`, 'latin1');
+}
+
+describe('fileAttachmentOf', () => {
+  test('accepts the chat, Responses and flat shapes', () => {
+    expect(fileAttachmentOf({ type: 'file', file: { filename: 'a.txt', file_data: `data:text/plain;base64,${b64('hi')}` } }))
+      .toEqual({ filename: 'a.txt', mimeType: 'text/plain', data: Buffer.from('hi') });
+    expect(fileAttachmentOf({ type: 'input_file', filename: 'b.md', file_data: b64('# b') }))
+      .toEqual({ filename: 'b.md', mimeType: 'application/octet-stream', data: Buffer.from('# b') });
+    expect(fileAttachmentOf({ type: 'file', data: b64('x'), mediaType: 'Text/CSV' }))
+      .toEqual({ filename: 'attachment', mimeType: 'text/csv', data: Buffer.from('x') });
+  });
+
+  test('percent-encoded data URLs and sniffed PDFs', () => {
+    expect(fileAttachmentOf({ type: 'file', file: { file_data: 'data:text/plain,a%20b' } }))
+      .toMatchObject({ mimeType: 'text/plain', data: Buffer.from('a b') });
+    expect(fileAttachmentOf({ type: 'file', file: { file_data: b64('%PDF-1.4\n') } })).toMatchObject({ mimeType: 'application/pdf' });
+  });
+
+  test('file references without data are reported', () => {
+    expect(fileAttachmentOf({ type: 'file', file: { filename: 'c.pdf', file_id: 'file-123' } }))
+      .toEqual({ filename: 'c.pdf', error: 'only inline file data is supported (got file-123)' });
+    expect(fileAttachmentOf({ type: 'text', text: 'x' })).toBeUndefined();
+  });
+});
+
+describe('decodeText', () => {
+  test('detects BOMs, BOM-less UTF-16 and Windows-1252', () => {
+    expect(decodeText(Buffer.from([0xef, 0xbb, 0xbf, 0x68, 0x69]))).toEqual({ text: 'hi', encoding: 'utf-8' });
+    expect(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hé', 'utf16le')]))).toEqual({ text: 'hé', encoding: 'utf-16le' });
+    expect(decodeText(Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('hi', 'utf16le').swap16()]))).toEqual({ text: 'hi', encoding: 'utf-16be' });
+    expect(decodeText(Buffer.from('plain text here', 'utf16le'))).toEqual({ text: 'plain text here', encoding: 'utf-16le' });
+    expect(decodeText(Buffer.from('naïve ✓'))).toEqual({ text: 'naïve ✓', encoding: 'utf-8' });
+    expect(decodeText(Buffer.from([0x63, 0x61, 0x66, 0xe9]))).toEqual({ text: 'café', encoding: 'windows-1252' });
+  });
+
+  test('binary is not text', () => {
+    expect(decodeText(ELF_HEADER)).toBeUndefined();
+    expect(decodeText(Buffer.from(Array.from({ length: 64 }, (_, i) => (i % 8) + 1)))).toBeUndefined();
+  });
+});
+
+describe('extractDocuments', () => {
+  const opts = { tokenBudget: 10_000, allowImages: true };
+
+  test('messages without files are returned as-is', () => {
+    const messages: ChatHistoryItem[] = [{ role: 'user', content: 'hi' }];
+    expect(extractDocuments(messages, opts)).toBe(messages);
+  });
+
+  test('text files become a <document> block', () => {
+    const out = extractDocuments(fileMessage({ type: 'file', file: { filename: 'a "b".ts', file_data: b64('const x = 1;\n\n') } }), opts);
+    expect(contentOf(out)[1]).toEqual({
+      type: 'text',
+      text: '<document filename="a &quot;b&quot;.ts" media_type="text/plain">\nconst x = 1;\n</document>',
+    });
+  });
+
+  test('PDF pages are labelled; a scanned page gets its image', () => {
+    const out = contentOf(extractDocuments(fileMessage({ type: 'file', file: { filename: 'r.pdf', file_data: b64(scannedPdf()) } }), opts));
+    expect(out[1]).toEqual({
+      type: 'text',
+      text: '<document filename="r.pdf" media_type="application/pdf">\n--- page 1 of 2 ---\nThe quarterly report, page one.\n--- page 2 of 2 ---\n[page image attached]\n</document>',
+    });
+    expect(out[2]).toMatchObject({ type: 'image', mimeType: 'image/png', caption: 'r.pdf page 2' });
+  });
+
+  test('without image support a scanned page says so', () => {
+    const out = contentOf(extractDocuments(fileMessage({ type: 'file', file: { filename: 'r.pdf', file_data: b64(scannedPdf()) } }), { ...opts, allowImages: false }));
+    expect(out).toHaveLength(2);
+    expect((out[1] as { text: string }).text).toContain('--- page 2 of 2 ---\n[no extractable text; the page is probably a scanned image]');
+  });
+
+  test('images become image parts, or a note for text-only models', () => {
+    const gif = b64('GIF89a\x01\x00\x01\x00');
+    const part = { type: 'file', file: { filename: 'pic.gif', file_data: `data:image/gif;base64,${gif}` } };
+    expect(contentOf(extractDocuments(fileMessage(part), opts))[1]).toEqual({ type: 'image', mimeType: 'image/gif', base64Data: gif, caption: 'pic.gif' });
+    expect(contentOf(extractDocuments(fileMessage(part), { ...opts, allowImages: false }))[1])
+      .toEqual({ type: 'text', text: '[file pic.gif is an image, and this model does not accept images]' });
+  });
+
+  test('what cannot be shown is replaced by a note', () => {
+    const logs: string[] = [];
+    const out = contentOf(extractDocuments(fileMessage(
+      { type: 'file', file: { filename: 'app.bin', file_data: `data:application/octet-stream;base64,${b64(ELF_HEADER)}` } },
+      { type: 'file', file: { filename: 'ref.pdf', file_id: 'file-9' } },
+      { type: 'file', file: { filename: 'bad.pdf', file_data: `data:application/pdf;base64,${b64('not a pdf')}` } },
+    ), opts, (m) => logs.push(m)));
+    expect(out.slice(1)).toEqual([
+      { type: 'text', text: '[file app.bin is binary (application/octet-stream) and cannot be shown to the model]' },
+      { type: 'text', text: '[file ref.pdf was not included: only inline file data is supported (got file-9)]' },
+      { type: 'text', text: '[file bad.pdf could not be read as a PDF (not a PDF file)]' },
+    ]);
+    expect(logs).toHaveLength(3);
+  });
+
+  test('documents share the budget; the small one stays whole', () => {
+    const small = 'short note\n';
+    const large = Array.from({ length: 2000 }, (_, i) => `line ${i}`).join('\n');
+    const out = contentOf(extractDocuments(fileMessage(
+      { type: 'file', file: { filename: 'small.txt', file_data: b64(small) } },
+      { type: 'file', file: { filename: 'large.txt', file_data: b64(large) } },
+    ), { tokenBudget: 1000, allowImages: false }));
+    const [smallText, largeText] = out.slice(1).map((p) => (p as { text: string }).text);
+    expect(smallText).toContain('short note');
+    expect(largeText!.length).toBeLessThanOrEqual(4000 + 200);
+    expect(largeText).toMatch(/\[… truncated to fit the context budget: \d+ of 2000 lines shown, ~\d+ tokens omitted\]\n<\/document>$/);
+  });
+
+  test('a file attached in two turns takes one share of the budget', () => {
+    const large = Array.from({ length: 2000 }, (_, i) => `line ${i}`).join('\n');
+    const part = () => ({ type: 'file', file: { filename: 'again.txt', file_data: b64(large) } });
+    const messages: ChatHistoryItem[] = [
+      ...fileMessage(part()),
+      { role: 'assistant', content: 'Read it.' },
+      ...fileMessage(part()),
+    ];
+    const out = extractDocuments(messages, { tokenBudget: 1000, allowImages: false });
+    const first = (contentOf(out)[1] as { text: string }).text;
+    expect(first.length).toBeGreaterThan(3000);
+    expect((out[2]!.content as ContentPart[])[1]).toEqual({ type: 'text', text: first });
+  });
+});
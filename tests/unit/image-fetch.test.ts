@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+// tests/setup.ts keeps the download cache out of the real ~/.cache.
+import { RemoteImageError, fetchRemoteImage, inlineRemoteImages, isPrivateAddress, sniffImageMime } from '../../src/cloud-direct/image-fetch.js';
+
+async function refusal(url: string): Promise<string> {
+  try {
+    await fetchRemoteImage(url);
+  } catch (err) {
+    expect(err).toBeInstanceOf(RemoteImageError);
+    return (err as Error).message;
+  }
+  throw new Error(`${url} was fetched`);
+}
+
+describe('isPrivateAddress', () => {
+  test('blocks loopback, private, link-local and reserved IPv4', () => {
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1', '255.255.255.255', '198.51.100.7']) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  test('allows public IPv4', () => {
+    for (const ip of ['8.8.8.8', '1.1.1.1', '172.32.0.1', '100.128.0.1', '151.101.1.69']) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+
+  test('blocks non-public IPv6, including mapped private IPv4', () => {
+    for (const ip of ['::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1', '2001:db8::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1', '64:ff9b::192.168.0.1', '::ffff:7f00:1']) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  test('allows public IPv6 and mapped public IPv4', () => {
+    for (const ip of ['2606:4700:4700::1111', '2001:4860:4860::8888', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+
+  test('treats anything that is not an IP as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('fetchRemoteImage refusals', () => {
+  test('only https, without credentials', async () => {
+    expect(await refusal('http://example.com/a.png')).toMatch(/only https/);
+    expect(await refusal('https://user:pw@example.com/a.png')).toMatch(/credentials/);
+    expect(await refusal('not a url')).toBe('not a valid URL');
+  });
+
+  test('private IP literals are refused before connecting', async () => {
+    expect(await refusal('https://127.0.0.1/a.png')).toMatch(/not a public address/);
+    expect(await refusal('https://169.254.169.254/latest/meta-data')).toMatch(/not a public address/);
+    expect(await refusal('https://[::1]/a.png')).toMatch(/not a public address/);
+    expect(await refusal('https://[::ffff:10.0.0.1]/a.png')).toMatch(/not a public address/);
+  });
+
+  test('a hostname resolving to a private address is refused at lookup', async () => {
+    expect(await refusal('https://localhost/a.png')).toMatch(/non-public address/);
+  });
+});
+
+describe('inlineRemoteImages', () => {
+  test('a refused URL degrades to a text placeholder with the reason', async () => {
+    const logs: string[] = [];
+    const out = await inlineRemoteImages([
+      { role: 'user', content: [{ type: 'text', text: 'look' }, { type: 'image_url', image_url: { url: 'http://10.0.0.1/x.png' } }] },
+    ], undefined, (m) => logs.push(m));
+    expect(out[0]!.content).toEqual([
+      { type: 'text', text: 'look' },
+      { type: 'text', text: '[image url: http://10.0.0.1/x.png (not fetched: only https:// image URLs are fetched (got http:))]' },
+    ]);
+    expect(logs).toHaveLength(1);
+  });
+
+  test('messages without remote images are returned as-is', async () => {
+    const messages = [{ role: 'user' as const, content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] }];
+    expect(await inlineRemoteImages(messages)).toBe(messages);
+  });
+});
+
+describe('sniffImageMime', () => {
+  test('recognises the accepted formats by magic bytes', () => {
+    expect(sniffImageMime(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(sniffImageMime(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(sniffImageMime(Buffer.from('GIF89a', 'latin1'))).toBe('image/gif');
+    expect(sniffImageMime(Buffer.from('RIFF\0\0\0\0WEBP', 'latin1'))).toBe('image/webp');
+    expect(sniffImageMime(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeUndefined();
+  });
+});
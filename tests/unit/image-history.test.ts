@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import type { ChatHistoryItem } from '../../src/cloud-direct/index.js';
+import { dedupeHistoryImages } from '../../src/cloud-direct/image-history.js';
+
+const A = 'AAAAAAAA';
+const B = 'BBBBBBBBBBBB';
+
+const image = (base64Data: string, caption?: string) => ({ type: 'image' as const, mimeType: 'image/png', base64Data, ...(caption ? { caption } : {}) });
+const dataUrl = (base64Data: string) => ({ type: 'image_url' as const, image_url: { url: `data:image/png;base64,${base64Data}` } });
+const text = (t: string) => ({ type: 'text' as const, text: t });
+
+const EARLIER = text('[image: identical to one attached earlier in this conversation]');
+
+describe('dedupeHistoryImages', () => {
+  test('keeps the first copy and replaces later ones', () => {
+    const messages: ChatHistoryItem[] = [
+      { role: 'user', content: [text('look'), image(A)] },
+      { role: 'assistant', content: 'ok' },
+      { role: 'user', content: [dataUrl(A), image(B), image(A)] },
+    ];
+    const { messages: out, stats } = dedupeHistoryImages(messages);
+    expect(out[0]).toBe(messages[0]!);
+    expect(out[2]!.content).toEqual([EARLIER, image(B), EARLIER]);
+    expect(stats).toEqual({ sent: 2, duplicates: 2, aged: 0, bytesSaved: 2 * A.length });
+  });
+
+  test('returns the same array when every image is distinct', () => {
+    const messages: ChatHistoryItem[] = [
+      { role: 'user', content: [image(A)] },
+      { role: 'user', content: [image(B)] },
+    ];
+    const result = dedupeHistoryImages(messages);
+    expect(result.messages).toBe(messages);
+    expect(result.stats).toEqual({ sent: 2, duplicates: 0, aged: 0, bytesSaved: 0 });
+  });
+
+  test('recentTurns replaces images outside the window, keeping captions', () => {
+    const messages: ChatHistoryItem[] = [
+      { role: 'user', content: [image(A, 'login page')] },
+      { role: 'assistant', content: 'ok' },
+      { role: 'tool', content: [image(B)] },
+      { role: 'user', content: [text('again'), image(B)] },
+      { role: 'assistant', content: 'ok' },
+      { role: 'user', content: [image(A)] },
+    ];
+    const { messages: out, stats } = dedupeHistoryImages(messages, 2);
+    expect(out[0]!.content).toEqual([text('[image from an earlier turn omitted: login page]')]);
+    // The tool result belongs to the first turn, so it ages out with it.
+    expect(out[2]!.content).toEqual([text('[image from an earlier turn omitted]')]);
+    // The copies in the window are the first ones sent, so they stay.
+    expect(out[3]).toBe(messages[3]!);
+    expect(out[5]).toBe(messages[5]!);
+    expect(stats).toEqual({ sent: 2, duplicates: 0, aged: 2, bytesSaved: A.length + B.length });
+  });
+
+  test('the window counts user turns only', () => {
+    const messages: ChatHistoryItem[] = [
+      { role: 'user', content: [image(A)] },
+      { role: 'assistant', content: [image(B)] },
+    ];
+    expect(dedupeHistoryImages(messages, 1).stats.aged).toBe(0);
+  });
+
+  test('leaves plain text and remote image URLs alone', () => {
+    const messages: ChatHistoryItem[] = [
+      { role: 'user', content: 'hi' },
+      { role: 'user', content: [{ type: 'image_url', image_url: { url: 'https://example.com/a.png' } }] },
+      { role: 'user', content: [{ type: 'image_url', image_url: { url: 'https://example.com/a.png' } }] },
+    ];
+    expect(dedupeHistoryImages(messages).messages).toBe(messages);
+  });
+});
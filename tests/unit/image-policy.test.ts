@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  ImageNotSupportedError,
+  applyImagePolicy,
+  countImages,
+  resolveImageLimits,
+  resolveImagePolicy,
+  resolveRecentImageTurns,
+} from '../../src/plugin/image-policy.js';
+import { RequestParamError } from '../../src/plugin/proxy-errors.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+const request = (windsurf?: Record<string, unknown>): ChatCompletionRequest =>
+  ({ messages: [], ...(windsurf ? { providerOptions: { windsurf } } : {}) });
+
+const withImages: ChatCompletionRequest = {
+  messages: [
+    { role: 'system', content: 'rules' },
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: 'compare' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        { type: 'image_url', image_url: { url: 'https://example.com/b.png' } },
+      ],
+    },
+    { role: 'assistant', content: 'They differ.' },
+    { role: 'user', content: [{ type: 'image', image: 'data:image/jpeg;base64,BBBB' }, { type: 'text', text: 'and this?' }] },
+  ],
+};
+
+describe('resolveImagePolicy', () => {
+  afterEach(() => {
+    delete process.env.WINDSURF_IMAGE_POLICY;
+  });
+
+  test('reject by default; the option beats the environment', () => {
+    expect(resolveImagePolicy(request())).toBe('reject');
+    process.env.WINDSURF_IMAGE_POLICY = ' Strip ';
+    expect(resolveImagePolicy(request())).toBe('strip');
+    expect(resolveImagePolicy(request({ imagePolicy: 'allow' }))).toBe('allow');
+  });
+
+  test('an empty environment value is the default', () => {
+    process.env.WINDSURF_IMAGE_POLICY = '  ';
+    expect(resolveImagePolicy(request())).toBe('reject');
+  });
+
+  test.each([['drop'], [true], ['STRIP']])('%p is a 400', (value) => {
+    expect(() => resolveImagePolicy(request({ imagePolicy: value }))).toThrow(RequestParamError);
+  });
+});
+
+describe('countImages', () => {
+  test('counts image_url and image parts across messages', () => {
+    expect(countImages(withImages)).toBe(3);
+    expect(countImages({ messages: [{ role: 'user', content: 'no images' }] })).toBe(0);
+  });
+});
+
+describe('applyImagePolicy', () => {
+  test('a vision model, an unknown model or allow sends the request as is', () => {
+    expect(applyImagePolicy(withImages, 'gpt-4o', true, 'reject').request).toBe(withImages);
+    expect(applyImagePolicy(withImages, 'swe-1.6', undefined, 'reject').request).toBe(withImages);
+    expect(applyImagePolicy(withImages, 'swe-1.6', false, 'allow')).toEqual({ request: withImages });
+  });
+
+  test('reject names the model and the image count', () => {
+    let caught: unknown;
+    try {
+      applyImagePolicy(withImages, 'swe-1.6', false, 'reject');
+    } catch (err) {
+      caught = err;
+    }
+    expect(caught).toBeInstanceOf(ImageNotSupportedError);
+    expect(caught).toMatchObject({ modelId: 'swe-1.6', imageCount: 3 });
+    expect((caught as Error).message).toContain('3 images');
+  });
+
+  test('a text-only request passes even under reject', () => {
+    const textOnly: ChatCompletionRequest = { messages: [{ role: 'user', content: 'hi' }] };
+    expect(applyImagePolicy(textOnly, 'swe-1.6', false, 'reject')).toEqual({ request: textOnly });
+  });
+
+  test('strip replaces each image with a placeholder and warns', () => {
+    const { request: stripped, warning } = applyImagePolicy(withImages, 'swe-1.6', false, 'strip');
+    expect(warning).toBe('swe-1.6 does not accept images; stripped 3 images');
+    expect(countImages(stripped)).toBe(0);
+    expect(stripped.messages[1]!.content).toEqual([
+      { type: 'text', text: 'compare' },
+      { type: 'text', text: '[image omitted: this model does not accept images]' },
+      { type: 'text', text: '[image omitted: this model does not accept images]' },
+    ]);
+    expect(stripped.messages[0]).toBe(withImages.messages[0]!);
+    expect(countImages(withImages)).toBe(3);
+  });
+});
+
+describe('resolveImageLimits', () => {
+  afterEach(() => {
+    delete process.env.WINDSURF_IMAGE_MAX_DIMENSION;
+    delete process.env.WINDSURF_IMAGE_MAX_BYTES;
+    delete process.env.WINDSURF_IMAGE_RECENT_TURNS;
+  });
+
+  test('nothing set means the per-model defaults', () => {
+    expect(resolveImageLimits(request())).toEqual({});
+    expect(resolveRecentImageTurns(request())).toBeUndefined();
+  });
+
+  test('reads the options, falling back to the environment', () => {
+    process.env.WINDSURF_IMAGE_MAX_BYTES = ' 500000 ';
+    process.env.WINDSURF_IMAGE_RECENT_TURNS = '2';
+    expect(resolveImageLimits(request({ imageMaxDimension: 1024 }))).toEqual({ maxDimension: 1024, maxBytes: 500_000 });
+    expect(resolveRecentImageTurns(request())).toBe(2);
+    expect(resolveRecentImageTurns(request({ imageRecentTurns: 5 }))).toBe(5);
+  });
+
+  test.each([[0], [-1], [1.5], ['1024'], [Number.NaN]])('imageMaxDimension %p is a 400', (value) => {
+    expect(() => resolveImageLimits(request({ imageMaxDimension: value }))).toThrow(RequestParamError);
+  });
+
+  test('a non-numeric environment value is a 400', () => {
+    process.env.WINDSURF_IMAGE_MAX_DIMENSION = 'large';
+    expect(() => resolveImageLimits(request())).toThrow(/imageMaxDimension must be a positive integer \(got "large"\)/);
+  });
+});
@@ -0,0 +1,382 @@
+import { describe, expect, test } from 'bun:test';
+import * as zlib from 'zlib';
+import {
+  ImageDecodeError,
+  crc32,
+  decodeJpeg,
+  decodePng,
+  decodeWebp,
+  downscale,
+  encodeJpeg,
+  encodePng,
+  jpegOrientation,
+  preprocessImage,
+  type RgbaImage,
+} from '../../src/cloud-direct/image-preprocess.js';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function chunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(data, zlib.crc32(head.subarray(4))) >>> 0, 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+/** A PNG from raw (already filtered) scanline bytes. */
+function png(
+  ihdr: { width: number; height: number; bitDepth: number; colorType: number; interlace?: number },
+  raw: Buffer,
+  extra: Buffer[] = [],
+): Buffer {
+  const head = Buffer.alloc(13);
+  head.writeUInt32BE(ihdr.width, 0);
+  head.writeUInt32BE(ihdr.height, 4);
+  head[8] = ihdr.bitDepth;
+  head[9] = ihdr.colorType;
+  head[12] = ihdr.interlace ?? 0;
+  return Buffer.concat([SIGNATURE, chunk('IHDR', head), ...extra, chunk('IDAT', zlib.deflateSync(raw)), chunk('IEND', Buffer.alloc(0))]);
+}
+
+/** Unfiltered scanlines: a 0 filter byte before each row. */
+function rows(lines: number[][]): Buffer {
+  return Buffer.from(lines.flatMap((line) => [0, ...line]));
+}
+
+function solid(width: number, height: number, rgba: [number, number, number, number]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+}
+
+/** Deterministic noise, so encoders can't compress it away. */
+function noise(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  let seed = 12345;
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    data[i] = (i & 3) === 3 ? 255 : seed >>> 24;
+  }
+  return { width, height, data };
+}
+
+/**
+ * A lossless (VP8L) WebP of one solid color: no transforms, and five
+ * single-symbol prefix codes, so each pixel costs zero bits.
+ */
+function solidWebp(width: number, height: number, [r, g, b, a]: [number, number, number, number]): Buffer {
+  const bits: number[] = [];
+  const put = (value: number, n: number) => {
+    for (let i = 0; i < n; i++) bits.push((value >>> i) & 1);
+  };
+  put(width - 1, 14);
+  put(height - 1, 14);
+  put(a === 255 ? 0 : 1, 1); // alpha_is_used
+  put(0, 3); // version
+  put(0, 1); // no transform
+  put(0, 1); // no color cache
+  put(0, 1); // no meta prefix codes
+  for (const symbol of [g, r, b, a]) put(1 | (0 << 1) | (1 << 2) | (symbol << 3), 11); // simple, one 8-bit symbol
+  put(1 | (0 << 1) | (0 << 2), 4); // distance: simple, one 1-bit symbol (0)
+  const data = Buffer.alloc(1 + Math.ceil(bits.length / 8));
+  data[0] = 0x2f;
+  bits.forEach((bit, i) => { data[1 + (i >> 3)]! |= bit << (i & 7); });
+  const padded = data.length % 2 ? Buffer.concat([data, Buffer.alloc(1)]) : data;
+  const head = Buffer.alloc(20);
+  head.write('RIFF', 0, 'latin1');
+  head.writeUInt32LE(12 + padded.length, 4);
+  head.write('WEBPVP8L', 8, 'latin1');
+  head.writeUInt32LE(data.length, 16);
+  return Buffer.concat([head, padded]);
+}
+
+function pixel(img: RgbaImage, x: number, y: number): number[] {
+  const o = (y * img.width + x) * 4;
+  return [...img.data.subarray(o, o + 4)];
+}
+
+function near(actual: number[], expected: number[], tolerance = 12): void {
+  actual.forEach((v, i) => expect(Math.abs(v - expected[i]!)).toBeLessThanOrEqual(tolerance));
+}
+
+describe('PNG codec', () => {
+  test('round-trips RGBA with alpha', () => {
+    const img = noise(17, 9);
+    img.data[3] = 0;
+    const encoded = encodePng(img);
+    expect(encoded[25]).toBe(6); // color type RGBA
+    expect(decodePng(encoded)).toEqual(img);
+  });
+
+  test('writes RGB when every pixel is opaque', () => {
+    const img = noise(8, 8);
+    const encoded = encodePng(img);
+    expect(encoded[25]).toBe(2);
+    expect(decodePng(encoded)).toEqual(img);
+  });
+
+  test('decodes palette images with tRNS', () => {
+    const plte = chunk('PLTE', Buffer.from([255, 0, 0, 0, 255, 0, 0, 0, 255]));
+    const trns = chunk('tRNS', Buffer.from([0, 128]));
+    const img = decodePng(png({ width: 3, height: 1, bitDepth: 8, colorType: 3 }, rows([[0, 1, 2]]), [plte, trns]));
+    expect([pixel(img, 0, 0), pixel(img, 1, 0), pixel(img, 2, 0)]).toEqual([
+      [255, 0, 0, 0],
+      [0, 255, 0, 128],
+      [0, 0, 255, 255],
+    ]);
+  });
+
+  test('unpacks sub-byte palette indices', () => {
+    const plte = chunk('PLTE', Buffer.from([0, 0, 0, 10, 10, 10, 20, 20, 20, 30, 30, 30]));
+    // 2-bit indices 3, 2, 1, 0, 3 → 0b11100100, 0b11000000
+    const img = decodePng(png({ width: 5, height: 1, bitDepth: 2, colorType: 3 }, rows([[0b11100100, 0b11000000]]), [plte]));
+    expect([0, 1, 2, 3, 4].map((x) => pixel(img, x, 0)[0])).toEqual([30, 20, 10, 0, 30]);
+  });
+
+  test('applies a grayscale tRNS key and scales low bit depths', () => {
+    const trns = chunk('tRNS', Buffer.from([0, 1]));
+    // 1-bit gray: 0, 1, 0, 1
+    const img = decodePng(png({ width: 4, height: 1, bitDepth: 1, colorType: 0 }, rows([[0b01010000]]), [trns]));
+    expect([0, 1, 2, 3].map((x) => pixel(img, x, 0))).toEqual([
+      [0, 0, 0, 255],
+      [255, 255, 255, 0],
+      [0, 0, 0, 255],
+      [255, 255, 255, 0],
+    ]);
+  });
+
+  test('keeps the high byte of 16-bit samples', () => {
+    const img = decodePng(png({ width: 1, height: 1, bitDepth: 16, colorType: 2 }, rows([[0x12, 0x34, 0xab, 0xcd, 0xff, 0x00]])));
+    expect(pixel(img, 0, 0)).toEqual([0x12, 0xab, 0xff, 255]);
+  });
+
+  test('decodes Adam7-interlaced images', () => {
+    const width = 5;
+    const height = 5;
+    const gray = (x: number, y: number) => y * 50 + x * 10;
+    const passes = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]];
+    const lines: number[][] = [];
+    for (const [x0, y0, dx, dy] of passes) {
+      for (let y = y0!; y < height; y += dy!) {
+        const line: number[] = [];
+        for (let x = x0!; x < width; x += dx!) line.push(gray(x, y));
+        if (line.length > 0) lines.push(line);
+      }
+    }
+    const img = decodePng(png({ width, height, bitDepth: 8, colorType: 0, interlace: 1 }, rows(lines)));
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) expect(pixel(img, x, y)[0]).toBe(gray(x, y));
+    }
+  });
+
+  test('undoes every filter type', () => {
+    // Row 0 Sub, row 1 Up, row 2 Average, row 3 Paeth — all against a constant 7.
+    const raw = Buffer.from([
+      1, 7, 0, 0,
+      2, 0, 0, 0,
+      3, 4, 0, 0,
+      4, 0, 0, 0,
+    ]);
+    const img = decodePng(png({ width: 3, height: 4, bitDepth: 8, colorType: 0 }, raw));
+    for (let y = 0; y < 4; y++) expect([0, 1, 2].map((x) => pixel(img, x, y)[0])).toEqual([7, 7, 7]);
+  });
+
+  test('caps inflate output, so a zlib bomb fails fast', () => {
+    const head = Buffer.alloc(13);
+    head.writeUInt32BE(16, 0);
+    head.writeUInt32BE(16, 4);
+    head[8] = 8;
+    head[9] = 6;
+    const bomb = zlib.deflateSync(Buffer.alloc(8 * 1024 * 1024));
+    const file = Buffer.concat([SIGNATURE, chunk('IHDR', head), chunk('IDAT', bomb), chunk('IEND', Buffer.alloc(0))]);
+    expect(bomb.length).toBeLessThan(16 * 1024);
+    expect(() => decodePng(file)).toThrow(/IDAT inflate failed/);
+  });
+
+  test('refuses to decode past the pixel limit', () => {
+    expect(() => decodePng(png({ width: 20_000, height: 20_000, bitDepth: 8, colorType: 6 }, Buffer.alloc(0))))
+      .toThrow(/exceeds the decode limit/);
+  });
+
+  test('rejects malformed files', () => {
+    expect(() => decodePng(Buffer.from('not a png'))).toThrow(ImageDecodeError);
+    expect(() => decodePng(png({ width: 2, height: 2, bitDepth: 8, colorType: 0 }, rows([[1, 2]])))).toThrow(/truncated/);
+    expect(() => decodePng(png({ width: 1, height: 1, bitDepth: 8, colorType: 3 }, rows([[0]])))).toThrow(/without PLTE/);
+    expect(() => decodePng(png({ width: 1, height: 1, bitDepth: 3, colorType: 0 }, rows([[0]])))).toThrow(/bit depth/);
+  });
+});
+
+describe('JPEG codec', () => {
+  /** A JPEG with an EXIF block carrying `orientation`, spliced in after SOI. */
+  function withOrientation(jpeg: Buffer, orientation: number): Buffer {
+    const tiff = Buffer.from([
+      0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF, IFD0 at 8
+      0x00, 0x01, // one entry
+      0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+      0x00, 0x00, 0x00, 0x00, // no next IFD
+    ]);
+    const body = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+    const app1 = Buffer.concat([Buffer.from([0xff, 0xe1, 0, 0]), body]);
+    app1.writeUInt16BE(body.length + 2, 2);
+    return Buffer.concat([jpeg.subarray(0, 2), app1, jpeg.subarray(2)]);
+  }
+
+  /** 16×8: red on the left half, blue on the right. */
+  function halves(): RgbaImage {
+    const img = solid(16, 8, [255, 0, 0, 255]);
+    for (let y = 0; y < 8; y++) for (let x = 8; x < 16; x++) img.data.set([0, 0, 255, 255], (y * 16 + x) * 4);
+    return img;
+  }
+
+  test('round-trips pixels within JPEG error', () => {
+    const decoded = decodeJpeg(encodeJpeg(halves()));
+    expect([decoded.width, decoded.height]).toEqual([16, 8]);
+    near(pixel(decoded, 2, 4), [255, 0, 0, 255], 24);
+    near(pixel(decoded, 13, 4), [0, 0, 255, 255], 24);
+  });
+
+  test('reads the EXIF orientation', () => {
+    const jpeg = encodeJpeg(halves());
+    expect(jpegOrientation(jpeg)).toBe(1);
+    expect(jpegOrientation(withOrientation(jpeg, 6))).toBe(6);
+  });
+
+  test('bakes a 90° rotation into the pixels', () => {
+    const rotated = decodeJpeg(withOrientation(encodeJpeg(halves()), 6));
+    expect([rotated.width, rotated.height]).toEqual([8, 16]);
+    // Rotated clockwise: the left (red) half ends up on top.
+    near(pixel(rotated, 4, 2), [255, 0, 0, 255], 24);
+    near(pixel(rotated, 4, 13), [0, 0, 255, 255], 24);
+  });
+
+  test('rejects data without a frame header', () => {
+    expect(() => decodeJpeg(Buffer.from([0xff, 0xd8, 0xff, 0xd9]))).toThrow(ImageDecodeError);
+  });
+});
+
+describe('WebP decoder', () => {
+  test('decodes a lossless image', () => {
+    const img = decodeWebp(solidWebp(7, 5, [1, 2, 3, 255]));
+    expect([img.width, img.height]).toEqual([7, 5]);
+    expect(pixel(img, 6, 4)).toEqual([1, 2, 3, 255]);
+  });
+
+  test('refuses to decode past the pixel limit', () => {
+    expect(() => decodeWebp(solidWebp(16_384, 16_384, [0, 0, 0, 255]))).toThrow(/exceeds the decode limit/);
+  });
+
+  test('rejects data without a WebP header', () => {
+    expect(() => decodeWebp(Buffer.from('RIFF....WEBPJUNK'))).toThrow(ImageDecodeError);
+  });
+});
+
+describe('crc32', () => {
+  test('matches the standard check value and zlib', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    const data = Buffer.from('IHDR and then some');
+    expect(crc32(data.subarray(4), crc32(data.subarray(0, 4)))).toBe(zlib.crc32(data) >>> 0);
+  });
+});
+
+describe('downscale', () => {
+  test('averages each covered block', () => {
+    const img: RgbaImage = { width: 2, height: 2, data: new Uint8Array([0, 0, 0, 255, 100, 100, 100, 255, 200, 200, 200, 255, 100, 100, 100, 255]) };
+    expect(pixel(downscale(img, 1, 1), 0, 0)).toEqual([100, 100, 100, 255]);
+  });
+
+  test('transparent pixels do not darken the result', () => {
+    const img: RgbaImage = { width: 2, height: 1, data: new Uint8Array([0, 0, 0, 0, 200, 100, 50, 255]) };
+    expect(pixel(downscale(img, 1, 1), 0, 0)).toEqual([200, 100, 50, 128]);
+  });
+
+  test('handles ratios that straddle source rows', () => {
+    const out = downscale(solid(7, 5, [10, 20, 30, 255]), 3, 2);
+    expect([out.width, out.height]).toEqual([3, 2]);
+    for (let y = 0; y < 2; y++) for (let x = 0; x < 3; x++) expect(pixel(out, x, y)).toEqual([10, 20, 30, 255]);
+  });
+});
+
+describe('preprocessImage', () => {
+  const opts = { maxDimension: 64, maxBytes: 1024 * 1024 };
+  const b64 = (buf: Buffer) => buf.toString('base64');
+
+  test('downscales an oversized PNG', () => {
+    const result = preprocessImage({ mimeType: 'image/png', base64Data: b64(encodePng(noise(200, 100))) }, opts);
+    expect(result.part.type).toBe('image');
+    const out = decodePng(Buffer.from((result.part as { base64Data: string }).base64Data, 'base64'));
+    expect([out.width, out.height]).toEqual([64, 32]);
+    expect(result.note).toMatch(/^PNG 200x100 \d+ bytes -> 64x32/);
+  });
+
+  test('downscales an oversized JPEG and keeps it a JPEG', () => {
+    const result = preprocessImage({ mimeType: 'image/jpeg', base64Data: b64(encodeJpeg(noise(160, 120))) }, opts);
+    const part = result.part as { mimeType: string; base64Data: string };
+    expect(part.mimeType).toBe('image/jpeg');
+    const out = decodeJpeg(Buffer.from(part.base64Data, 'base64'));
+    expect([out.width, out.height]).toEqual([64, 48]);
+    expect(result.note).toMatch(/^JPEG 160x120/);
+  });
+
+  test('shrinks further to meet the byte budget', () => {
+    const source = encodePng(noise(600, 600));
+    const result = preprocessImage({ mimeType: 'image/png', base64Data: b64(source) }, { maxDimension: 4096, maxBytes: 200_000 });
+    expect(result.bytesBefore).toBeGreaterThan(200_000);
+    expect(result.bytesAfter).toBeLessThanOrEqual(200_000);
+    expect(result.note).toMatch(/^PNG 600x600 \d+ bytes -> \d+x\d+/);
+  });
+
+  test('leaves a small image alone, correcting a wrong label', () => {
+    const bytes = encodePng(noise(10, 10));
+    const result = preprocessImage({ mimeType: 'image/jpeg', base64Data: b64(bytes) }, opts);
+    expect(result.part).toEqual({ type: 'image', mimeType: 'image/png', base64Data: b64(bytes) });
+    expect(result.note).toBe('declared image/jpeg but bytes are image/png');
+  });
+
+  test('downscales an oversized opaque WebP to a JPEG', () => {
+    const result = preprocessImage({ mimeType: 'image/webp', base64Data: b64(solidWebp(200, 100, [30, 120, 210, 255])) }, opts);
+    const part = result.part as { mimeType: string; base64Data: string };
+    expect(part.mimeType).toBe('image/jpeg');
+    const out = decodeJpeg(Buffer.from(part.base64Data, 'base64'));
+    expect([out.width, out.height]).toEqual([64, 32]);
+    near(pixel(out, 10, 10), [30, 120, 210, 255]);
+    expect(result.note).toMatch(/^WebP 200x100 \d+ bytes -> JPEG 64x32/);
+  });
+
+  test('a WebP with transparency becomes a PNG', () => {
+    const result = preprocessImage({ mimeType: 'image/webp', base64Data: b64(solidWebp(100, 200, [200, 10, 10, 128])) }, opts);
+    const part = result.part as { mimeType: string; base64Data: string };
+    expect(part.mimeType).toBe('image/png');
+    const out = decodePng(Buffer.from(part.base64Data, 'base64'));
+    expect([out.width, out.height]).toEqual([32, 64]);
+    expect(pixel(out, 5, 5)).toEqual([200, 10, 10, 128]);
+  });
+
+  test('sends a WebP it cannot decode as-is with a note', () => {
+    // VP8L header only: 1000×1000, no image data.
+    const webp = Buffer.alloc(30);
+    webp.write('RIFF', 0, 'latin1');
+    webp.write('WEBPVP8L', 8, 'latin1');
+    webp.writeUInt32LE((999) | (999 << 14), 21);
+    const result = preprocessImage({ mimeType: 'image/webp', base64Data: b64(webp) }, opts);
+    expect(result.bytesAfter).toBe(result.bytesBefore);
+    expect(result.note).toMatch(/^WebP not re-encoded \(WebP decode failed.*\); sent as-is$/);
+  });
+
+  test('sends an oversized GIF as-is with a note', () => {
+    const gif = Buffer.alloc(16);
+    gif.write('GIF89a', 0, 'latin1');
+    gif.writeUInt16LE(500, 6);
+    gif.writeUInt16LE(300, 8);
+    const result = preprocessImage({ mimeType: 'image/gif', base64Data: b64(gif) }, opts);
+    expect(result.bytesAfter).toBe(result.bytesBefore);
+    expect(result.note).toMatch(/image\/gif 500x300.*sent as-is/);
+  });
+
+  test('replaces data that is not an image', () => {
+    const result = preprocessImage({ mimeType: 'image/png', base64Data: b64(Buffer.from('hello')) }, opts);
+    expect(result.part.type).toBe('text');
+    expect(result.bytesAfter).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, test } from 'bun:test';
+import type { CloudChatEvent } from '../../src/cloud-direct/index.js';
+import {
+  MessagesEventBuilder,
+  MessagesRequestError,
+  anthropicErrorBody,
+  encodeMessagesEvent,
+  messagesToChatCompletion,
+  type MessagesEvent,
+  type MessagesRequest,
+} from '../../src/plugin/messages-api.js';
+import { SamplingParamError, resolveSamplingOptions } from '../../src/plugin/sampling.js';
+
+function run(events: CloudChatEvent[]): { events: MessagesEvent[]; builder: MessagesEventBuilder } {
+  const builder = new MessagesEventBuilder('claude-sonnet-4.5');
+  const out = [...builder.start()];
+  for (const ev of events) out.push(...builder.push(ev));
+  out.push(...builder.finish());
+  return { events: out, builder };
+}
+
+describe('messagesToChatCompletion', () => {
+  test('joins system blocks and keeps string turns', () => {
+    const request = messagesToChatCompletion({
+      model: 'claude-sonnet-4.5',
+      system: [{ type: 'text', text: 'one' }, { type: 'text', text: 'two' }],
+      messages: [{ role: 'user', content: 'hi' }],
+      max_tokens: 100,
+    });
+    expect(request.messages).toEqual([
+      { role: 'system', content: 'one\n\ntwo' },
+      { role: 'user', content: 'hi' },
+    ]);
+    expect(request.max_tokens).toBe(100);
+  });
+
+  test('converts image and document blocks', () => {
+    const request = messagesToChatCompletion({
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'see' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'AAAA' } },
+          { type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } },
+          { type: 'document', title: 'notes', source: { type: 'text', data: 'hello' } },
+        ],
+      }],
+    });
+    expect(request.messages[0]!.content).toEqual([
+      { type: 'text', text: 'see' },
+      { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } },
+      { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+      { type: 'file', file: { filename: 'notes', file_data: `data:text/plain;base64,${Buffer.from('hello').toString('base64')}` } },
+    ]);
+  });
+
+  test('maps tool_use to tool_calls and tool_result to tool messages before the user text', () => {
+    const request = messagesToChatCompletion({
+      messages: [
+        { role: 'user', content: 'list files' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'hmm' },
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 't1', name: 'bash', input: { command: 'ls' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'and then?' },
+            { type: 'tool_result', tool_use_id: 't1', content: 'a.txt' },
+          ],
+        },
+      ],
+    });
+    expect(request.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Checking.' }],
+        tool_calls: [{ id: 't1', type: 'function', function: { name: 'bash', arguments: '{"command":"ls"}' } }],
+      },
+      { role: 'tool', tool_call_id: 't1', content: 'a.txt' },
+      { role: 'user', content: [{ type: 'text', text: 'and then?' }] },
+    ]);
+  });
+
+  test('marks failed tool results in-band', () => {
+    const request = messagesToChatCompletion({
+      messages: [{ role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'not found', is_error: true }] }],
+    });
+    expect(request.messages).toEqual([{ role: 'tool', tool_call_id: 't1', content: 'Error: not found' }]);
+  });
+
+  test('maps tools and tool_choice', () => {
+    const base: MessagesRequest = {
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: [{ name: 'bash', description: 'Run', input_schema: { type: 'object' } }],
+    };
+    expect(messagesToChatCompletion(base).tools).toEqual([
+      { type: 'function', function: { name: 'bash', description: 'Run', parameters: { type: 'object' } } },
+    ]);
+    expect(messagesToChatCompletion({ ...base, tool_choice: { type: 'any' } }).tool_choice).toBe('required');
+    expect(messagesToChatCompletion({ ...base, tool_choice: { type: 'none' } }).tool_choice).toBe('none');
+    const forced = messagesToChatCompletion({ ...base, tool_choice: { type: 'tool', name: 'bash', disable_parallel_tool_use: true } });
+    expect(forced.tool_choice).toEqual({ type: 'function', function: { name: 'bash' } });
+    expect(forced.parallel_tool_calls).toBe(false);
+    expect(() => messagesToChatCompletion({ ...base, tool_choice: { type: 'sometimes' } })).toThrow(MessagesRequestError);
+  });
+
+  test('forwards sampling knobs unchanged, so a mistyped one is a 400', () => {
+    const request = messagesToChatCompletion({
+      messages: [{ role: 'user', content: 'hi' }],
+      temperature: 'hot',
+      top_k: 40,
+      stop_sequences: ['END'],
+    } as unknown as MessagesRequest);
+    expect(request.temperature as unknown).toBe('hot');
+    expect(request.top_k).toBe(40);
+    expect(request.stop).toEqual(['END']);
+    expect(() => resolveSamplingOptions(request)).toThrow(SamplingParamError);
+  });
+
+  test('rejects malformed bodies', () => {
+    expect(() => messagesToChatCompletion({})).toThrow(MessagesRequestError);
+    expect(() => messagesToChatCompletion({ messages: [] })).toThrow(/no messages/);
+    expect(() => messagesToChatCompletion({ messages: [{ role: 'system', content: 'x' }] })).toThrow(/Unsupported message role/);
+    expect(() => messagesToChatCompletion({ messages: [{ role: 'assistant', content: [{ type: 'tool_use', name: 'bash' }] }] })).toThrow(/require `id`/);
+  });
+});
+
+describe('MessagesEventBuilder', () => {
+  test('emits one block per event kind and a final message_delta', () => {
+    const { events, builder } = run([
+      { kind: 'reasoning', text: 'think' },
+      { kind: 'text', text: 'Hi' },
+      { kind: 'finish', reason: 'stop' },
+      { kind: 'usage', promptTokens: 12, completionTokens: 2, cachedInputTokens: 4 },
+    ]);
+    expect(events.map((e) => e.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_stop',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]);
+    expect(builder.message.content).toEqual([
+      { type: 'thinking', thinking: 'think', signature: '' },
+      { type: 'text', text: 'Hi' },
+    ]);
+    expect(events.at(-2)).toEqual({
+      type: 'message_delta',
+      delta: { stop_reason: 'end_turn', stop_sequence: null },
+      usage: { input_tokens: 12, output_tokens: 2, cache_read_input_tokens: 4, cache_creation_input_tokens: 0 },
+    });
+  });
+
+  test('parses tool_use input for the final message and stops with tool_use', () => {
+    const { builder } = run([
+      { kind: 'tool_call_start', id: 't1', name: 'bash' },
+      { kind: 'tool_call_args', id: 't1', argsDelta: '{"command":' },
+      { kind: 'tool_call_args', id: 'other', argsDelta: 'ignored' },
+      { kind: 'tool_call_args', id: 't1', argsDelta: '"ls"}' },
+      { kind: 'finish', reason: 'stop' },
+    ]);
+    expect(builder.message.content).toEqual([{ type: 'tool_use', id: 't1', name: 'bash', input: { command: 'ls' } }]);
+    expect(builder.message.stop_reason).toBe('tool_use');
+  });
+
+  test('maps length and content_filter finishes', () => {
+    expect(run([{ kind: 'finish', reason: 'length' }]).builder.message.stop_reason).toBe('max_tokens');
+    expect(run([{ kind: 'finish', reason: 'content_filter' }]).builder.message.stop_reason).toBe('refusal');
+  });
+
+  test('fail closes the open block with an error event', () => {
+    const builder = new MessagesEventBuilder('claude-sonnet-4.5');
+    builder.push({ kind: 'text', text: 'partial' });
+    expect(builder.fail('boom')).toEqual([
+      { type: 'content_block_stop', index: 0 },
+      anthropicErrorBody('api_error', 'boom'),
+    ]);
+  });
+
+  test('encodes events as named SSE frames', () => {
+    expect(encodeMessagesEvent({ type: 'message_stop' })).toBe('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+  });
+});
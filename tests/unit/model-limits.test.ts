@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_CONTEXT_TOKENS,
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  clampMaxOutputTokens,
+  resolveModelLimits,
+} from '../../src/plugin/model-limits.js';
+
+describe('resolveModelLimits', () => {
+  test.each([
+    // [model id, model UID, context, output]
+    ['claude-3-opus', 'MODEL_CLAUDE_3_OPUS', 200_000, 4_096],
+    ['claude-3.5-sonnet', 'MODEL_CLAUDE_3_5_SONNET', 200_000, 8_192],
+    ['claude-4-opus', 'claude-4-opus', 200_000, 32_000],
+    ['claude-opus-4.7', 'claude-opus-4-7', 1_000_000, 128_000],
+    ['claude-sonnet-4.5', 'claude-sonnet-4-5', 200_000, 64_000],
+    ['gpt-5.4', 'gpt-5-4', 1_050_000, 128_000],
+    ['gpt-5-codex', 'gpt-5-codex', 400_000, 128_000],
+    ['gpt-4.1', 'MODEL_CHAT_GPT_4_1', 1_047_576, 32_768],
+    ['gpt-4', 'MODEL_CHAT_GPT_4', 8_192, 8_192],
+    ['o3', 'MODEL_O3', 200_000, 100_000],
+    ['gemini-2.0-flash', 'MODEL_GEMINI_2_0_FLASH', 1_048_576, 8_192],
+    ['gemini-2.5-pro', 'gemini-2-5-pro', 1_048_576, 65_536],
+    ['deepseek-r1', 'MODEL_DEEPSEEK_R1', 163_840, 163_840],
+    ['kimi-k2.5', 'kimi-k2-5', 262_144, 65_536],
+    ['qwen-3-coder', 'qwen-3-coder', 262_144, 65_536],
+    ['grok-code-fast-1', 'grok-code-fast-1', 256_000, 256_000],
+    ['swe-1.6', 'swe-1-6', 200_000, undefined],
+  ])('%s from the family table', (id, uid, context, output) => {
+    expect(resolveModelLimits(id, uid)).toEqual({ contextTokens: context, maxOutputTokens: output, source: 'table' });
+  });
+
+  test('the catalog value wins for the context, the table still caps output', () => {
+    expect(resolveModelLimits('claude-sonnet-4.5', 'claude-sonnet-4-5', 300_000))
+      .toEqual({ contextTokens: 300_000, maxOutputTokens: 64_000, source: 'catalog' });
+  });
+
+  test('the output cap never exceeds a smaller catalog context', () => {
+    expect(resolveModelLimits('gpt-5.4', 'gpt-5-4', 50_000).maxOutputTokens).toBe(50_000);
+  });
+
+  test('a zero catalog value is ignored', () => {
+    expect(resolveModelLimits('gpt-4o', 'MODEL_CHAT_GPT_4O', 0).source).toBe('table');
+  });
+
+  test('-1m variants get a million tokens of context', () => {
+    expect(resolveModelLimits('claude-sonnet-4.5', 'claude-sonnet-4-5-1m'))
+      .toEqual({ contextTokens: 1_000_000, maxOutputTokens: 64_000, source: 'table' });
+  });
+
+  test('unknown models fall back to the default, uncapped', () => {
+    expect(resolveModelLimits('mystery-model', 'MODEL_MYSTERY'))
+      .toEqual({ contextTokens: DEFAULT_CONTEXT_TOKENS, maxOutputTokens: undefined, source: 'default' });
+  });
+});
+
+describe('clampMaxOutputTokens', () => {
+  const capped = resolveModelLimits('gpt-4o', 'MODEL_CHAT_GPT_4O');
+  const uncapped = resolveModelLimits('swe-1.6', 'swe-1-6');
+
+  test('no request means the cap, or the default when there is none', () => {
+    expect(clampMaxOutputTokens(undefined, capped, 'gpt-4o')).toEqual({ maxOutputTokens: 16_384 });
+    expect(clampMaxOutputTokens(0, uncapped, 'swe-1.6')).toEqual({ maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS });
+  });
+
+  test('a request within the cap goes through', () => {
+    expect(clampMaxOutputTokens(1000, capped, 'gpt-4o')).toEqual({ maxOutputTokens: 1000 });
+    expect(clampMaxOutputTokens(500_000, uncapped, 'swe-1.6')).toEqual({ maxOutputTokens: 500_000 });
+  });
+
+  test('a request over the cap is clamped with a warning', () => {
+    expect(clampMaxOutputTokens(50_000, capped, 'gpt-4o')).toEqual({
+      maxOutputTokens: 16_384,
+      warning: "max_tokens=50000 exceeds gpt-4o's output limit; clamped to 16384",
+    });
+  });
+});
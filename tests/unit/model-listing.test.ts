@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test';
+import type { ModelCatalogEntry } from '../../src/cloud-direct/index.js';
+import { listModels, listModelsFromCatalog, type ListedModel } from '../../src/plugin/model-listing.js';
+
+function entry(modelUid: string, overrides: Partial<ModelCatalogEntry> = {}): ModelCatalogEntry {
+  return {
+    modelUid,
+    label: modelUid,
+    disabled: false,
+    supportsImages: false,
+    isPremium: false,
+    isBeta: false,
+    isRecommended: false,
+    ...overrides,
+  };
+}
+
+function byId(models: ListedModel[], id: string): ListedModel {
+  const model = models.find((m) => m.id === id);
+  if (!model) throw new Error(`${id} not listed`);
+  return model;
+}
+
+const catalog = new Map<string, ModelCatalogEntry>([
+  ['swe-1-6', entry('swe-1-6', { label: 'SWE-1.6', maxTokens: 100_000, isBeta: true })],
+  ['swe-1-6-fast', entry('swe-1-6-fast', { disabled: true })],
+  ['MODEL_PRIVATE_2', entry('MODEL_PRIVATE_2', { label: 'Claude Sonnet 4.5', supportsImages: true, isPremium: true })],
+]);
+
+describe('listModels', () => {
+  test('without a catalog every model is listed with no verdict', () => {
+    const models = listModels(null);
+    expect(models.length).toBeGreaterThan(0);
+    for (const model of models) {
+      expect(model).toMatchObject({ object: 'model', owned_by: 'windsurf', available: null, availability: 'unknown' });
+      expect(model.label).toBeUndefined();
+      for (const variant of model.variants ?? []) expect(variant.availability).toBe('unknown');
+    }
+  });
+
+  test('without a catalog the limits and flags come from the family table', () => {
+    const models = listModels(null);
+    expect(byId(models, 'gpt-4o')).toMatchObject({
+      model_uid: 'MODEL_CHAT_GPT_4O_2024_08_06',
+      context_length: 128_000,
+      max_output_tokens: 16_384,
+      supports_images: null,
+      is_premium: null,
+      is_beta: null,
+    });
+    expect(byId(models, 'swe-1.6')).toMatchObject({ context_length: 200_000, max_output_tokens: null });
+  });
+
+  test('the catalog decides availability per UID', () => {
+    const swe = byId(listModels(catalog), 'swe-1.6');
+    expect(swe).toMatchObject({ model_uid: 'swe-1-6', available: true, availability: 'available', label: 'SWE-1.6', is_beta: true });
+    expect(swe.variants?.find((v) => v.model_uid === 'swe-1-6-fast'))
+      .toMatchObject({ available: false, availability: 'disabled' });
+
+    const claude = byId(listModels(catalog), 'claude-sonnet-4.5');
+    expect(claude).toMatchObject({ available: true, supports_images: true, is_premium: true });
+    expect(claude.variants?.find((v) => v.model_uid === 'MODEL_PRIVATE_3'))
+      .toMatchObject({ available: false, availability: 'not_listed', supports_images: null });
+    expect(byId(listModels(catalog), 'gpt-4o').availability).toBe('not_listed');
+  });
+
+  test('a catalog context limit wins over the table, the output cap stays', () => {
+    expect(byId(listModels(catalog), 'swe-1.6').context_length).toBe(100_000);
+    expect(byId(listModels(catalog), 'claude-sonnet-4.5')).toMatchObject({ context_length: 200_000, max_output_tokens: 64_000 });
+  });
+
+  test('onlyAvailable drops unavailable models and variants', () => {
+    const models = listModels(catalog, true);
+    expect(models.every((m) => m.available || m.variants?.some((v) => v.available))).toBe(true);
+    expect(models.map((m) => m.id)).not.toContain('gpt-4o');
+    expect(byId(models, 'swe-1.6').variants?.map((v) => v.model_uid)).toEqual(['swe-1-6']);
+    expect(byId(models, 'claude-sonnet-4.5').variants?.map((v) => v.model_uid)).toEqual(['MODEL_PRIVATE_2']);
+  });
+});
+
+describe('listModelsFromCatalog', () => {
+  test('a loaded catalog is used and no warning is set', async () => {
+    const { data, warning } = await listModelsFromCatalog(async () => catalog, true);
+    expect(warning).toBeUndefined();
+    expect(data.map((m) => m.id)).toEqual(listModels(catalog, true).map((m) => m.id));
+  });
+
+  test('a failed fetch falls back to the static list, unfiltered, with a warning', async () => {
+    const logged: string[] = [];
+    const { data, warning } = await listModelsFromCatalog(
+      async () => { throw new Error('no credentials'); },
+      true,
+      (msg) => logged.push(msg),
+    );
+    expect(warning).toBe('model catalog unavailable; availability unknown');
+    expect(data).toHaveLength(listModels(null).length);
+    expect(data.every((m) => m.availability === 'unknown')).toBe(true);
+    expect(logged).toEqual(['[windsurf-plugin] /v1/models: catalog unavailable: no credentials']);
+  });
+
+  test('a missing catalog is treated like a failed fetch', async () => {
+    const { warning } = await listModelsFromCatalog(async () => null);
+    expect(warning).toBeDefined();
+  });
+});
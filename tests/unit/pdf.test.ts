@@ -0,0 +1,192 @@
+import { describe, expect, test } from 'bun:test';
+import * as zlib from 'zlib';
+import { decodePng } from '../../src/cloud-direct/image-preprocess.js';
+import { extractPdf, isPdf, PdfParseError } from '../../src/cloud-direct/pdf.js';
+
+/** An object body, a stream with its dictionary entries and (raw) data, or absent. */
+type Obj = string | { dict: string; data: Buffer | string } | undefined;
+
+/** A PDF with `objects` numbered from 1 (no xref — the reader doesn't need one). */
+function pdf(objects: Obj[], tail = ''): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n')];
+  objects.forEach((obj, i) => {
+    if (obj === undefined) return;
+    if (typeof obj === 'string') {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n${obj}\nendobj\n`, 'latin1'));
+    } else {
+      const data = typeof obj.data === 'string' ? Buffer.from(obj.data, 'latin1') : obj.data;
+      parts.push(Buffer.from(`${i + 1} 0 obj\n<< ${obj.dict} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream\nendobj\n'));
+    }
+  });
+  parts.push(Buffer.from(`${tail}%%EOF\n`, 'latin1'));
+  return Buffer.concat(parts);
+}
+
+const flate = (content: string) => ({ dict: '/Filter /FlateDecode', data: zlib.deflateSync(Buffer.from(content, 'latin1')) });
+
+function ascii85(data: Buffer): string {
+  let out = '';
+  for (let i = 0; i < data.length; i += 4) {
+    const chunk = Buffer.alloc(4);
+    data.copy(chunk, 0, i, i + 4);
+    let n = chunk.readUInt32BE(0);
+    const digits: string[] = [];
+    for (let d = 0; d < 5; d++) {
+      digits.unshift(String.fromCharCode(33 + (n % 85)));
+      n = Math.floor(n / 85);
+    }
+    out += digits.slice(0, Math.min(4, data.length - i) + 1).join('');
+  }
+  return `<~${out}~>`;
+}
+
+/** Catalog (1), page tree (2), one page per content stream (3…) and font /F1 after them. */
+function textPdf(contents: Obj[]): Buffer {
+  const n = contents.length;
+  const font = 3 + 2 * n;
+  const pages = contents.map((_, i) => `<< /Type /Page /Parent 2 0 R /Contents ${3 + n + i} 0 R >>`);
+  return pdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${3 + i} 0 R`).join(' ')}] /Count ${n} /Resources << /Font << /F1 ${font} 0 R >> >> >>`,
+    ...pages,
+    ...contents,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ]);
+}
+
+describe('extractPdf text', () => {
+  test('reads text operators, word gaps and line breaks', () => {
+    const doc = extractPdf(textPdf([flate('BT /F1 12 Tf 72 700 Td (Hello ) Tj [(wor) -20 (ld) -300 (again)] TJ T* (Line \\(two\\)) Tj ET')]));
+    expect(doc).toEqual({ pages: [{ text: 'Hello world again\nLine (two)', images: [] }], encrypted: false });
+  });
+
+  test('pages follow the page tree, not object order', () => {
+    const buf = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 /Resources << /Font << /F1 7 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      { dict: '', data: 'BT /F1 12 Tf (second) Tj ET' },
+      { dict: '', data: 'BT /F1 12 Tf (first) Tj ET' },
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ]);
+    expect(extractPdf(buf).pages.map((p) => p.text)).toEqual(['first', 'second']);
+  });
+
+  test('simple fonts decode as WinAnsi with /Differences overrides', () => {
+    const buf = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+      { dict: '', data: 'BT /F1 12 Tf (caf\\351 \\001 \\002) Tj ET' },
+      '<< /Type /Font /Subtype /Type1 /Encoding << /Differences [1 /bullet /uni2192] >> >>',
+    ]);
+    expect(extractPdf(buf).pages[0]!.text).toBe('café • →');
+  });
+
+  test('composite fonts decode through their ToUnicode CMap', () => {
+    const cmap = [
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar',
+      '1 beginbfrange <0010> <0012> <0041> endbfrange',
+      'endcmap',
+    ].join('\n');
+    const buf = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F2 5 0 R >> >> >>',
+      { dict: '', data: 'BT /F2 12 Tf <00010002> Tj 0 -14 Td <001000110012> Tj <0099> Tj ET' },
+      '<< /Type /Font /Subtype /Type0 /BaseFont /X /ToUnicode 6 0 R >>',
+      flate(cmap),
+    ]);
+    expect(extractPdf(buf).pages[0]!.text).toBe('Hi\nABC');
+  });
+
+  test('includes text from Form XObjects', () => {
+    const buf = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> /XObject << /Fm1 6 0 R >> >> >>',
+      { dict: '', data: 'BT /F1 12 Tf (body) Tj ET /Fm1 Do' },
+      '<< /Type /Font /Subtype /Type1 >>',
+      { dict: '/Type /XObject /Subtype /Form', data: 'BT /F1 9 Tf (footer) Tj ET' },
+    ]);
+    expect(extractPdf(buf).pages[0]!.text).toBe('body\nfooter');
+  });
+
+  test('reads objects packed into object streams', () => {
+    const page = '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >> ';
+    const font = '<< /Type /Font /Subtype /Type1 >>';
+    const header = `3 0 4 ${page.length}\n`;
+    const buf = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 4 0 R >> >> >>',
+      undefined, // 3 and 4 live in object 6
+      undefined,
+      { dict: '', data: 'BT /F1 12 Tf (packed) Tj ET' },
+      { dict: `/Type /ObjStm /N 2 /First ${header.length} /Filter /FlateDecode`, data: zlib.deflateSync(header + page + font) },
+    ]);
+    expect(extractPdf(buf).pages[0]!.text).toBe('packed');
+  });
+
+  test('later definitions win, as with incremental updates', () => {
+    const base = textPdf([{ dict: '', data: 'BT /F1 12 Tf (old) Tj ET' }]);
+    const content = 'BT /F1 12 Tf (new) Tj ET';
+    const update = Buffer.from(`4 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`, 'latin1');
+    expect(extractPdf(Buffer.concat([base, update])).pages[0]!.text).toBe('new');
+  });
+
+  test('decodes ASCIIHex and ASCII85 streams', () => {
+    const content = 'BT /F1 12 Tf (hex) Tj ET';
+    const hex = { dict: '/Filter /ASCIIHexDecode', data: `${Buffer.from(content).toString('hex')}>` };
+    const a85 = { dict: '/Filter /ASCII85Decode', data: ascii85(Buffer.from('BT /F1 12 Tf (a85) Tj ET')) };
+    expect(extractPdf(textPdf([hex])).pages[0]!.text).toBe('hex');
+    expect(extractPdf(textPdf([a85])).pages[0]!.text).toBe('a85');
+  });
+});
+
+describe('extractPdf images', () => {
+  const pixels = Buffer.from([255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255]);
+  function imagePdf(image: Obj): Buffer {
+    return pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /XObject << /Im1 5 0 R >> >> >>',
+      { dict: '', data: 'q 100 0 0 100 0 0 cm /Im1 Do Q' },
+      image,
+    ]);
+  }
+
+  test('only for the pages asked for', () => {
+    const buf = imagePdf({ dict: '/Type /XObject /Subtype /Image /Width 2 /Height 2 /BitsPerComponent 8 /ColorSpace /DeviceRGB /Filter /FlateDecode', data: zlib.deflateSync(pixels) });
+    expect(extractPdf(buf).pages[0]!.images).toEqual([]);
+    const [img] = extractPdf(buf, (text) => text === '').pages[0]!.images;
+    expect(img).toMatchObject({ mimeType: 'image/png', width: 2, height: 2 });
+    const decoded = decodePng(img!.data);
+    expect([...decoded.data.subarray(0, 8)]).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+  });
+
+  test('JPEG images are passed on as stored', () => {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xd9]);
+    const buf = imagePdf({ dict: '/Type /XObject /Subtype /Image /Width 8 /Height 8 /BitsPerComponent 8 /ColorSpace /DeviceRGB /Filter /DCTDecode', data: jpeg });
+    expect(extractPdf(buf, () => true).pages[0]!.images).toEqual([{ mimeType: 'image/jpeg', data: jpeg, width: 8, height: 8 }]);
+  });
+
+  test('formats it cannot convert are skipped', () => {
+    const buf = imagePdf({ dict: '/Type /XObject /Subtype /Image /Width 2 /Height 2 /BitsPerComponent 8 /ColorSpace /DeviceCMYK', data: Buffer.alloc(16) });
+    expect(extractPdf(buf, () => true).pages[0]!.images).toEqual([]);
+  });
+});
+
+describe('extractPdf refusals', () => {
+  test('encrypted files are reported, not mis-decoded', () => {
+    const buf = pdf(['<< /Type /Catalog /Pages 2 0 R >>', '<< /Filter /Standard /V 2 >>'], 'trailer\n<< /Root 1 0 R /Encrypt 2 0 R >>\n');
+    expect(extractPdf(buf)).toEqual({ pages: [], encrypted: true });
+  });
+
+  test('not a PDF', () => {
+    expect(isPdf(Buffer.from('hello'))).toBe(false);
+    expect(() => extractPdf(Buffer.from('hello'))).toThrow(PdfParseError);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { ChatHistoryItem, PromptTokenEstimate } from '../../src/cloud-direct/index.js';
+import {
+  ContextOverflowError,
+  budgetPrompt,
+  dropOldestMessages,
+  droppableUnits,
+  reservedOutputTokens,
+  resolveContextOverflowPolicy,
+} from '../../src/plugin/prompt-budget.js';
+import { RequestParamError } from '../../src/plugin/proxy-errors.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+const history: ChatHistoryItem[] = [
+  { role: 'system', content: 'sys' },
+  { role: 'user', content: 'a long first question, '.repeat(10) },
+  { role: 'assistant', content: '', tool_calls: [{ id: 'c1', name: 'read', arguments: '{}' }] },
+  { role: 'tool', content: 'file contents', tool_call_id: 'c1' },
+  { role: 'assistant', content: 'answer one' },
+  { role: 'user', content: 'second question' },
+  { role: 'assistant', content: 'working on it' },
+];
+
+/** One token per character of string content, no framing. */
+function estimate(messages: ChatHistoryItem[]): PromptTokenEstimate {
+  const perMessage = messages.map((m) => (typeof m.content === 'string' ? m.content.length : 0));
+  return { total: perMessage.reduce((a, b) => a + b, 0), perMessage, tools: 0, tokenizer: 'chars' };
+}
+
+describe('resolveContextOverflowPolicy', () => {
+  afterEach(() => {
+    delete process.env.WINDSURF_CONTEXT_OVERFLOW;
+  });
+
+  const request = (windsurf?: Record<string, unknown>): ChatCompletionRequest =>
+    ({ messages: [], ...(windsurf ? { providerOptions: { windsurf } } : {}) });
+
+  test('allow by default; the option beats the environment', () => {
+    expect(resolveContextOverflowPolicy(request())).toBe('allow');
+    process.env.WINDSURF_CONTEXT_OVERFLOW = ' Trim ';
+    expect(resolveContextOverflowPolicy(request())).toBe('trim');
+    expect(resolveContextOverflowPolicy(request({ contextOverflow: 'reject' }))).toBe('reject');
+  });
+
+  test('an unknown policy is a 400', () => {
+    expect(() => resolveContextOverflowPolicy(request({ contextOverflow: 'truncate' }))).toThrow(RequestParamError);
+  });
+});
+
+describe('droppableUnits', () => {
+  test('keeps system messages, the last user turn and the final message', () => {
+    // An assistant tool call travels with its result.
+    expect(droppableUnits(history)).toEqual([[1], [2, 3], [4]]);
+  });
+
+  test('nothing to drop in a one-turn conversation', () => {
+    expect(droppableUnits(history.slice(0, 2))).toEqual([]);
+  });
+});
+
+describe('dropOldestMessages', () => {
+  test('drops whole units, oldest first, and leaves a note', () => {
+    const out = dropOldestMessages(history, estimate(history).perMessage, 240);
+    expect(out.dropped).toBe(3);
+    expect(out.messages.map((m) => m.content)).toEqual([
+      'sys',
+      '[3 earlier messages omitted to fit the context window]',
+      'answer one',
+      'second question',
+      'working on it',
+    ]);
+  });
+});
+
+describe('reservedOutputTokens', () => {
+  test('holds back the output budget, at most half the window', () => {
+    expect(reservedOutputTokens(200_000, 32_000)).toBe(32_000);
+    expect(reservedOutputTokens(163_840, 163_840)).toBe(81_920);
+    expect(reservedOutputTokens(1000, 0)).toBe(0);
+  });
+});
+
+describe('budgetPrompt', () => {
+  const size = estimate(history).total;
+  const limits = (contextTokens: number, maxOutputTokens = 0) => ({ contextTokens, maxOutputTokens });
+
+  test('a prompt that fits goes through unchanged', () => {
+    expect(budgetPrompt(history, 'm', limits(size), 'reject', estimate)).toEqual({ messages: history, estimatedTokens: size });
+  });
+
+  test('reject throws with the estimate and the limit', () => {
+    try {
+      budgetPrompt(history, 'm', limits(40), 'reject', estimate);
+      throw new Error('did not throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ContextOverflowError);
+      expect(err).toMatchObject({ modelId: 'm', estimatedTokens: size, contextTokens: 40, reservedOutputTokens: 0 });
+    }
+  });
+
+  test('the output reservation counts against the window', () => {
+    expect(() => budgetPrompt(history, 'm', limits(size, 1), 'reject', estimate)).toThrow(/reserved for the reply/);
+    expect(budgetPrompt(history, 'm', limits(size + 10, 10), 'reject', estimate).messages).toBe(history);
+  });
+
+  test('allow sends it anyway', () => {
+    expect(budgetPrompt(history, 'm', limits(40), 'allow', estimate).messages).toBe(history);
+  });
+
+  test('trim drops the oldest messages and says so', () => {
+    const out = budgetPrompt(history, 'm', limits(size, 10), 'trim', estimate);
+    expect(out.messages[1]!.content).toBe('[1 earlier message omitted to fit the context window]');
+    expect(out.estimatedTokens).toBeLessThanOrEqual(size - 10);
+    expect(out.warning).toBe(`prompt exceeded m's ${size - 10}-token input budget (${size} context, 10 reserved for output; est. ${size}); dropped the 1 oldest message (now est. ${out.estimatedTokens})`);
+  });
+
+  test('trim still rejects when the kept messages alone are too big', () => {
+    expect(() => budgetPrompt(history, 'm', limits(20), 'trim', estimate)).toThrow(ContextOverflowError);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+// Retry-After comes from the rotation state on disk, which tests/setup.ts
+// keeps in a scratch dir rather than the real account-state.json.
+import { CloudAuthError, CloudChatError, ModelNotAvailableError } from '../../src/cloud-direct/index.js';
+import { WindsurfError, WindsurfErrorCode } from '../../src/plugin/auth.js';
+import { ImageNotSupportedError } from '../../src/plugin/image-policy.js';
+import { ContextOverflowError } from '../../src/plugin/prompt-budget.js';
+import { SamplingParamError } from '../../src/plugin/sampling.js';
+import { RequestParamError, anthropicErrorType, classifyProxyError, errorHeaders, openAIErrorBody } from '../../src/plugin/proxy-errors.js';
+
+function statusOf(err: unknown): [number, string] {
+  const info = classifyProxyError(err);
+  return [info.status, info.code];
+}
+
+describe('classifyProxyError', () => {
+  test('request problems are 400s naming the parameter', () => {
+    expect(classifyProxyError(new SamplingParamError('top_p', 'bad'))).toMatchObject({
+      status: 400, type: 'invalid_request_error', code: 'invalid_parameter', param: 'top_p',
+    });
+    expect(classifyProxyError(new RequestParamError('tool_choice', 'bad'))).toMatchObject({
+      status: 400, type: 'invalid_request_error', code: 'invalid_parameter', param: 'tool_choice',
+    });
+    expect(statusOf(new ImageNotSupportedError('gpt-3.5', 1))).toEqual([400, 'model_does_not_support_images']);
+    expect(statusOf(new ContextOverflowError('gpt-4.1', 200_000, 128_000))).toEqual([400, 'context_length_exceeded']);
+  });
+
+  test('maps Connect codes', () => {
+    expect(statusOf(new CloudChatError('bad', 'invalid_argument'))).toEqual([400, 'invalid_argument']);
+    expect(statusOf(new CloudChatError('who', 'unauthenticated'))).toEqual([401, 'unauthenticated']);
+    expect(statusOf(new CloudChatError('no', 'permission_denied'))).toEqual([403, 'permission_denied']);
+    expect(statusOf(new CloudChatError('gone', 'not_found'))).toEqual([404, 'not_found']);
+    expect(statusOf(new CloudChatError('down', 'unavailable'))).toEqual([503, 'unavailable']);
+    expect(statusOf(new CloudChatError('cut', 'truncated_stream'))).toEqual([502, 'truncated_stream']);
+    expect(statusOf(new CloudChatError('slow', 'deadline_exceeded'))).toEqual([504, 'deadline_exceeded']);
+  });
+
+  test('rate limits are 429s with Retry-After, whatever the upstream status', () => {
+    for (const err of [
+      new CloudChatError('out of credits', 'resource_exhausted'),
+      new CloudChatError('Rate limit exceeded', undefined, undefined, 500),
+    ]) {
+      const info = classifyProxyError(err);
+      expect(info).toMatchObject({ status: 429, type: 'rate_limit_error' });
+      expect(info.retryAfterSeconds).toBeGreaterThanOrEqual(1);
+      expect(errorHeaders(info)['Retry-After']).toBe(String(info.retryAfterSeconds));
+    }
+  });
+
+  test('falls back to the HTTP status without a known code', () => {
+    expect(statusOf(new CloudChatError('nope', undefined, undefined, 401))).toEqual([401, 'http_401']);
+    expect(statusOf(new CloudChatError('nope', undefined, undefined, 403))).toEqual([403, 'http_403']);
+    expect(statusOf(new CloudChatError('bad', undefined, undefined, 422))).toEqual([400, 'http_422']);
+    expect(statusOf(new CloudChatError('boom', undefined, undefined, 500))).toEqual([502, 'upstream_error']);
+    expect(statusOf(new CloudChatError('boom'))).toEqual([502, 'upstream_error']);
+  });
+
+  test('catalog, auth and local errors', () => {
+    expect(statusOf(new ModelNotAvailableError('uid', 'Model', 'disabled'))).toEqual([403, 'model_not_enabled']);
+    expect(statusOf(new ModelNotAvailableError('uid', 'Model', 'not_listed'))).toEqual([404, 'model_not_found']);
+    expect(statusOf(new CloudAuthError('expired', 401))).toEqual([401, 'invalid_api_key']);
+    expect(statusOf(new CloudAuthError('slow down', 429))).toEqual([429, 'resource_exhausted']);
+    expect(statusOf(new CloudAuthError('down', 500))).toEqual([502, 'auth_upstream_error']);
+    expect(statusOf(new WindsurfError('no key', WindsurfErrorCode.API_KEY_MISSING))).toEqual([401, 'api_key_missing']);
+    expect(statusOf(new WindsurfError('refused', WindsurfErrorCode.CONNECTION_FAILED))).toEqual([503, 'connection_failed']);
+    expect(statusOf(new Error('bug'))).toEqual([500, 'internal_error']);
+  });
+});
+
+describe('error envelopes', () => {
+  test('OpenAI body carries the param and trace id', () => {
+    const info = classifyProxyError(new CloudChatError('bad', 'invalid_argument', 'abc123'));
+    expect(openAIErrorBody(info)).toEqual({
+      error: { message: 'bad', type: 'invalid_request_error', param: null, code: 'invalid_argument', trace_id: 'abc123' },
+    });
+    expect(errorHeaders(info)).toEqual({ 'Content-Type': 'application/json', 'X-Windsurf-Trace-Id': 'abc123' });
+  });
+
+  test('Anthropic error types follow the status', () => {
+    const type = (err: unknown) => anthropicErrorType(classifyProxyError(err));
+    expect(type(new SamplingParamError('n', 'bad'))).toBe('invalid_request_error');
+    expect(type(new CloudChatError('x', 'resource_exhausted'))).toBe('rate_limit_error');
+    expect(type(new CloudChatError('x', 'unavailable'))).toBe('overloaded_error');
+    expect(type(new CloudChatError('x', 'deadline_exceeded'))).toBe('timeout_error');
+    expect(type(new Error('x'))).toBe('api_error');
+  });
+
+  test('gate statuses outside the taxonomy still get an Anthropic type', () => {
+    expect(anthropicErrorType({ status: 413 })).toBe('request_too_large');
+    expect(anthropicErrorType({ status: 415 })).toBe('invalid_request_error');
+    expect(anthropicErrorType({ status: 500 })).toBe('api_error');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, test } from 'bun:test';
+import type { CloudChatEvent } from '../../src/cloud-direct/index.js';
+import {
+  ResponsesEventBuilder,
+  ResponsesRequestError,
+  encodeResponsesEvent,
+  responsesToChatCompletion,
+  type ResponsesEvent,
+  type ResponsesRequest,
+} from '../../src/plugin/responses-api.js';
+import { SamplingParamError, resolveSamplingOptions } from '../../src/plugin/sampling.js';
+
+function run(events: CloudChatEvent[]): { events: ResponsesEvent[]; builder: ResponsesEventBuilder } {
+  const builder = new ResponsesEventBuilder('gpt-4.1');
+  const out = [...builder.start()];
+  for (const ev of events) out.push(...builder.push(ev));
+  out.push(...builder.finish());
+  return { events: out, builder };
+}
+
+describe('responsesToChatCompletion', () => {
+  test('a string input becomes one user message after the instructions', () => {
+    const request = responsesToChatCompletion({ model: 'gpt-4.1', instructions: 'Be brief.', input: 'hi', stream: true });
+    expect(request.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'hi' },
+    ]);
+    expect(request.stream).toBe(true);
+  });
+
+  test('maps developer to system and converts content parts', () => {
+    const request = responsesToChatCompletion({
+      input: [
+        { role: 'developer', content: 'rules' },
+        {
+          type: 'message',
+          role: 'user',
+          content: [
+            { type: 'input_text', text: 'look' },
+            { type: 'input_image', image_url: 'data:image/png;base64,AAAA' },
+            { type: 'input_audio', data: '...' },
+          ],
+        },
+      ],
+    });
+    expect(request.messages).toEqual([
+      { role: 'system', content: 'rules' },
+      { role: 'user', content: [{ type: 'text', text: 'look' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] },
+    ]);
+  });
+
+  test('pairs function_call items with the preceding assistant message and outputs with tool messages', () => {
+    const request = responsesToChatCompletion({
+      input: [
+        { role: 'user', content: 'list files' },
+        { role: 'assistant', content: 'Checking.' },
+        { type: 'function_call', call_id: 'c1', name: 'bash', arguments: '{"command":"ls"}' },
+        { type: 'function_call', call_id: 'c2', name: 'read', arguments: '{}' },
+        { type: 'function_call_output', call_id: 'c1', output: 'a.txt' },
+        { type: 'function_call_output', call_id: 'c2', output: [{ type: 'output_text', text: 'x' }, { type: 'output_text', text: 'y' }] },
+      ],
+    });
+    expect(request.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: 'Checking.',
+        tool_calls: [
+          { id: 'c1', type: 'function', function: { name: 'bash', arguments: '{"command":"ls"}' } },
+          { id: 'c2', type: 'function', function: { name: 'read', arguments: '{}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'c1', content: 'a.txt' },
+      { role: 'tool', tool_call_id: 'c2', content: 'x\ny' },
+    ]);
+  });
+
+  test('keeps only function tools and maps tool_choice', () => {
+    const request = responsesToChatCompletion({
+      input: 'hi',
+      tools: [
+        { type: 'function', name: 'bash', description: 'Run', parameters: { type: 'object' } },
+        { type: 'web_search' },
+      ],
+      tool_choice: { type: 'function', name: 'bash' },
+      parallel_tool_calls: false,
+    });
+    expect(request.tools).toEqual([{ type: 'function', function: { name: 'bash', description: 'Run', parameters: { type: 'object' } } }]);
+    expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'bash' } });
+    expect(request.parallel_tool_calls).toBe(false);
+  });
+
+  test('forwards sampling knobs unchanged, so a mistyped one is a 400', () => {
+    const request = responsesToChatCompletion({ input: 'hi', temperature: '0.2', top_p: 0.9 } as unknown as ResponsesRequest);
+    expect(request.temperature as unknown).toBe('0.2');
+    expect(request.top_p).toBe(0.9);
+    expect(() => resolveSamplingOptions(request)).toThrow(SamplingParamError);
+  });
+
+  test('rejects malformed bodies', () => {
+    expect(() => responsesToChatCompletion({})).toThrow(ResponsesRequestError);
+    expect(() => responsesToChatCompletion({ input: 42 } as unknown as ResponsesRequest)).toThrow(ResponsesRequestError);
+    expect(() => responsesToChatCompletion({ input: [{ role: 'tool', content: 'x' }] })).toThrow(/Unsupported message role/);
+    expect(() => responsesToChatCompletion({ input: [{ type: 'function_call', name: 'bash' }] })).toThrow(/call_id/);
+  });
+});
+
+describe('ResponsesEventBuilder', () => {
+  test('groups deltas into output items and completes', () => {
+    const { events, builder } = run([
+      { kind: 'reasoning', text: 'thinking' },
+      { kind: 'text', text: 'Hel' },
+      { kind: 'text', text: 'lo' },
+      { kind: 'finish', reason: 'stop' },
+      { kind: 'usage', promptTokens: 10, completionTokens: 3 },
+    ]);
+    expect(events.map((e) => e.type)).toEqual([
+      'response.created',
+      'response.in_progress',
+      'response.output_item.added',
+      'response.reasoning_summary_part.added',
+      'response.reasoning_summary_text.delta',
+      'response.reasoning_summary_text.done',
+      'response.reasoning_summary_part.done',
+      'response.output_item.done',
+      'response.output_item.added',
+      'response.content_part.added',
+      'response.output_text.delta',
+      'response.output_text.delta',
+      'response.output_text.done',
+      'response.content_part.done',
+      'response.output_item.done',
+      'response.completed',
+    ]);
+    expect(events.map((e) => e.sequence_number)).toEqual(events.map((_, i) => i));
+    const response = builder.response;
+    expect(response.status).toBe('completed');
+    expect(response.output[1]).toMatchObject({ type: 'message', content: [{ type: 'output_text', text: 'Hello' }] });
+    expect(response.usage).toMatchObject({ input_tokens: 10, output_tokens: 3, total_tokens: 13 });
+  });
+
+  test('collects function call arguments by call id', () => {
+    const { builder } = run([
+      { kind: 'tool_call_start', id: 'c1', name: 'bash' },
+      { kind: 'tool_call_args', id: 'c1', argsDelta: '{"command":' },
+      { kind: 'tool_call_args', id: 'c1', argsDelta: '"ls"}' },
+      { kind: 'finish', reason: 'tool_calls' },
+    ]);
+    expect(builder.response.output).toEqual([
+      expect.objectContaining({ type: 'function_call', call_id: 'c1', name: 'bash', arguments: '{"command":"ls"}', status: 'completed' }),
+    ]);
+  });
+
+  test('drops arguments for a call that never started', () => {
+    const { builder } = run([{ kind: 'tool_call_args', id: 'nobody', argsDelta: '{}' }, { kind: 'finish', reason: 'stop' }]);
+    expect(builder.response.output).toEqual([]);
+  });
+
+  test('drops late arguments for a call that is already done', () => {
+    const { events, builder } = run([
+      { kind: 'tool_call_start', id: 'c1', name: 'bash' },
+      { kind: 'tool_call_args', id: 'c1', argsDelta: '{}' },
+      { kind: 'tool_call_start', id: 'c2', name: 'read' },
+      { kind: 'tool_call_args', id: 'c1', argsDelta: 'late' },
+      { kind: 'finish', reason: 'tool_calls' },
+    ]);
+    const done = events.findIndex((e) => e.type === 'response.output_item.done' && e['output_index'] === 0);
+    const deltas = events.map((e, i) => [e, i] as const).filter(([e]) => e.type === 'response.function_call_arguments.delta' && e['output_index'] === 0);
+    expect(deltas.map(([, i]) => i < done)).toEqual([true]);
+    expect(builder.response.output[0]).toMatchObject({ call_id: 'c1', arguments: '{}' });
+  });
+
+  test('a length finish is incomplete', () => {
+    const { events, builder } = run([{ kind: 'text', text: 'cut' }, { kind: 'finish', reason: 'length' }]);
+    expect(events.at(-1)!.type).toBe('response.incomplete');
+    expect(builder.response.incomplete_details).toEqual({ reason: 'max_output_tokens' });
+  });
+
+  test('fail closes the open item and reports the error', () => {
+    const builder = new ResponsesEventBuilder('gpt-4.1');
+    builder.push({ kind: 'text', text: 'partial' });
+    const events = builder.fail('server_error', 'boom');
+    expect(events.map((e) => e.type)).toEqual([
+      'response.output_text.done',
+      'response.content_part.done',
+      'response.output_item.done',
+      'response.failed',
+    ]);
+    expect(builder.response.error).toEqual({ code: 'server_error', message: 'boom' });
+  });
+
+  test('encodes events as named SSE frames', () => {
+    expect(encodeResponsesEvent({ type: 'response.created', sequence_number: 0 }))
+      .toBe('event: response.created\ndata: {"type":"response.created","sequence_number":0}\n\n');
+  });
+});
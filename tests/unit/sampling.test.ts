@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test';
+import { SamplingParamError, resolveSamplingOptions } from '../../src/plugin/sampling.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+function resolve(fields: Record<string, unknown>) {
+  return resolveSamplingOptions({ messages: [], ...fields } as ChatCompletionRequest);
+}
+
+function paramOf(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof SamplingParamError) return err.param;
+    throw err;
+  }
+  return undefined;
+}
+
+describe('resolveSamplingOptions', () => {
+  test('an empty request sets nothing', () => {
+    expect(resolve({})).toEqual({});
+  });
+
+  test('maps the request knobs', () => {
+    expect(resolve({ temperature: 0.3, top_p: 0.8, top_k: 40, stop: '###', seed: 7 })).toEqual({
+      temperature: 0.3,
+      topP: 0.8,
+      topK: 40,
+      stopPatterns: ['###'],
+      seed: 7,
+    });
+  });
+
+  test('providerOptions.windsurf wins over the request body', () => {
+    const out = resolve({
+      temperature: 1,
+      top_p: 0.5,
+      stop: ['a'],
+      providerOptions: { windsurf: { temperature: 0.1, top_p: 0.9, topK: 5, stopSequences: ['b'], seed: 3 } },
+    });
+    expect(out).toEqual({ temperature: 0.1, topP: 0.9, topK: 5, stopPatterns: ['b'], seed: 3 });
+  });
+
+  test('clamps out-of-range numbers', () => {
+    expect(resolve({ temperature: 5, top_p: -1, top_k: 0 })).toEqual({ temperature: 2, topP: 0, topK: 1 });
+    expect(resolve({ temperature: -1, top_p: 3, top_k: 5000 })).toEqual({ temperature: 0, topP: 1, topK: 1000 });
+  });
+
+  test('null means unset', () => {
+    expect(resolve({ temperature: null, stop: null, seed: null })).toEqual({});
+  });
+
+  test('rejects mistyped values, naming the parameter', () => {
+    expect(paramOf(() => resolve({ temperature: '0.5' }))).toBe('temperature');
+    expect(paramOf(() => resolve({ top_p: Number.NaN }))).toBe('top_p');
+    expect(paramOf(() => resolve({ top_k: 2.5 }))).toBe('top_k');
+    expect(paramOf(() => resolve({ seed: -1 }))).toBe('seed');
+    expect(paramOf(() => resolve({ providerOptions: { windsurf: { topP: 'high' } } }))).toBe('providerOptions.windsurf.topP');
+  });
+
+  test('rejects malformed stop sequences', () => {
+    expect(paramOf(() => resolve({ stop: [1] }))).toBe('stop');
+    expect(paramOf(() => resolve({ stop: [''] }))).toBe('stop');
+    expect(paramOf(() => resolve({ stop: Array.from({ length: 17 }, (_, i) => `s${i}`) }))).toBe('stop');
+    expect(resolve({ stop: [] })).toEqual({});
+  });
+
+  test('refuses knobs the cloud cannot honour', () => {
+    expect(paramOf(() => resolve({ n: 2 }))).toBe('n');
+    expect(paramOf(() => resolve({ logprobs: true }))).toBe('logprobs');
+    expect(paramOf(() => resolve({ top_logprobs: 3 }))).toBe('logprobs');
+    expect(paramOf(() => resolve({ presence_penalty: 0.5 }))).toBe('presence_penalty');
+    expect(resolve({ n: 1, frequency_penalty: 0, logprobs: false })).toEqual({});
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { encodePng, estimatePromptTokens } from '../../src/cloud-direct/index.js';
+import {
+  MESSAGE_OVERHEAD_TOKENS,
+  TOOL_OVERHEAD_TOKENS,
+  UNKNOWN_IMAGE_TOKENS,
+  approximateBpeTokenizer,
+  imageTokens,
+  registerTokenizer,
+  tokenizerFor,
+} from '../../src/cloud-direct/tokenizer.js';
+
+const generic = tokenizerFor('swe-1.6');
+
+describe('tokenizerFor', () => {
+  test('picks the family from the model UID', () => {
+    expect(tokenizerFor('gpt-4o-mini').name).toBe('approx-o200k');
+    expect(tokenizerFor('MODEL_CHAT_GPT_4_1_2025_04_14').name).toBe('approx-generic');
+    expect(tokenizerFor('gpt-4.1').name).toBe('approx-o200k');
+    expect(tokenizerFor('o3-mini').name).toBe('approx-o200k');
+    expect(tokenizerFor('gpt-4-turbo').name).toBe('approx-cl100k');
+    expect(tokenizerFor('claude-sonnet-4-5').name).toBe('approx-claude');
+    expect(tokenizerFor('gemini-2.5-pro').name).toBe('approx-gemini');
+    expect(generic.name).toBe('approx-generic');
+  });
+
+  test('a registered tokenizer wins over the built-in family', () => {
+    registerTokenizer(/^claude-test-exact$/, { name: 'exact', count: (t) => t.length });
+    expect(tokenizerFor('claude-test-exact').count('abc')).toBe(3);
+    expect(tokenizerFor('claude-sonnet-4-5').name).toBe('approx-claude');
+  });
+});
+
+describe('approximate BPE', () => {
+  test('short words are a token each, long ones split', () => {
+    expect(generic.count('hello world')).toBe(2);
+    expect(generic.count('internationalization')).toBe(1 + Math.ceil((20 - 7) / 3.5));
+  });
+
+  test('digits group in threes', () => {
+    expect(generic.count('1234567')).toBe(3);
+  });
+
+  test('CJK costs about a token per character', () => {
+    expect(generic.count('你好世界')).toBe(4);
+    expect(tokenizerFor('claude-3-haiku').count('你好世界')).toBe(6);
+  });
+
+  test('indentation collapses', () => {
+    expect(generic.count(`${' '.repeat(32)}x`)).toBeLessThan(8);
+  });
+
+  test('code costs more than its length / 4 suggests', () => {
+    const code = 'if (a[i] !== b[i]) { return -1; }';
+    expect(generic.count(code)).toBeGreaterThan(code.length / 4);
+  });
+
+  test('profiles change the estimate', () => {
+    const word = 'abcdefghijklmnop';
+    const loose = approximateBpeTokenizer('loose', { wholeWordChars: 20, charsPerSubword: 4, tokensPerCjk: 1, charsPerNonAscii: 2, charsPerWhitespace: 8, charsPerPunct: 2 });
+    expect(loose.count(word)).toBe(1);
+    expect(generic.count(word)).toBe(4);
+  });
+});
+
+describe('imageTokens', () => {
+  test('scales with pixel area, capped', () => {
+    expect(imageTokens(750, 750)).toBe(750);
+    expect(imageTokens(1, 1)).toBe(1);
+    expect(imageTokens(4000, 4000)).toBe(1600);
+    expect(imageTokens(undefined, 100)).toBe(UNKNOWN_IMAGE_TOKENS);
+  });
+});
+
+describe('estimatePromptTokens', () => {
+  test('adds message framing, images and tool definitions', () => {
+    const png = encodePng({ width: 75, height: 100, data: new Uint8Array(75 * 100 * 4).fill(255) }).toString('base64');
+    const estimate = estimatePromptTokens({
+      modelUid: 'swe-1.6',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: [{ type: 'text', text: 'hello world' }, { type: 'image_url', image_url: { url: `data:image/png;base64,${png}` } }] },
+        { role: 'user', content: [{ type: 'image_url', image_url: { url: 'https://example.com/a.png' } }] },
+      ],
+      tools: [{ name: 'read', description: 'Read a file', parameters: { type: 'object', properties: {} } }],
+    });
+    expect(estimate.tokenizer).toBe('approx-generic');
+    expect(estimate.perMessage.slice(0, 2)).toEqual([
+      MESSAGE_OVERHEAD_TOKENS + generic.count('Be brief.'),
+      MESSAGE_OVERHEAD_TOKENS + generic.count('hello world') + imageTokens(75, 100),
+    ]);
+    // A remote URL is priced before it's fetched (plus its placeholder text).
+    expect(estimate.perMessage[2]).toBeGreaterThan(MESSAGE_OVERHEAD_TOKENS + UNKNOWN_IMAGE_TOKENS);
+    expect(estimate.tools).toBeGreaterThan(TOOL_OVERHEAD_TOKENS);
+    expect(estimate.total).toBe(estimate.perMessage.reduce((a, b) => a + b, 0) + estimate.tools);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, test } from 'bun:test';
+import type { CloudChatEvent, ToolDef } from '../../src/cloud-direct/index.js';
+import { CloudChatError } from '../../src/cloud-direct/index.js';
+import {
+  applyToolVerdicts,
+  bisectRejectedTools,
+  isToolConfigError,
+  sanitizeToolDef,
+  streamWithToolBisect,
+  type ToolProbe,
+} from '../../src/plugin/tool-bisect.js';
+
+// Verdicts are cached per definition hash for the life of the module, so
+// every test builds its own tools.
+let seq = 0;
+function toolSet(count: number): ToolDef[] {
+  const batch = ++seq;
+  return Array.from({ length: count }, (_, i) => ({
+    name: `tool_${batch}_${i}`,
+    description: `Tool ${i} of batch ${batch}.`,
+    parameters: { type: 'object', properties: {} },
+  }));
+}
+
+/** A probe rejecting any set `rejects` says no to, counting calls. */
+function fakeProbe(rejects: (tools: ToolDef[]) => boolean): ToolProbe & { calls: number } {
+  const probe = Object.assign(async (tools: ToolDef[]) => {
+    probe.calls++;
+    return !rejects(tools);
+  }, { calls: 0 });
+  return probe;
+}
+
+const hasName = (tools: ToolDef[], name: string) => tools.some((t) => t.name === name);
+const hasNonAscii = (tools: ToolDef[]) => tools.some((t) => /[^\x20-\x7e]/.test(t.description ?? ''));
+
+function mcpError(): CloudChatError {
+  return new CloudChatError('Unable to process request due to an MCP configuration issue.', 'failed_precondition');
+}
+
+describe('isToolConfigError', () => {
+  test('matches only the MCP failed_precondition', () => {
+    expect(isToolConfigError(mcpError())).toBe(true);
+    expect(isToolConfigError(new CloudChatError('quota', 'failed_precondition'))).toBe(false);
+    expect(isToolConfigError(new CloudChatError('MCP configuration issue', 'internal'))).toBe(false);
+    expect(isToolConfigError(new Error('MCP configuration issue'))).toBe(false);
+  });
+});
+
+describe('sanitizeToolDef', () => {
+  test('strips non-ASCII, collapses whitespace and drops schema metadata', () => {
+    const out = sanitizeToolDef({
+      name: 'fetch',
+      description: 'Fetch  a page — fast \u{1F680}',
+      parameters: { $schema: 'x', type: 'object', properties: { url: { type: 'string', examples: ['a'] } } },
+    });
+    expect(out.name).toBe('fetch');
+    expect(out.description).toBe('Fetch a page fast');
+    expect(out.parameters).toEqual({ type: 'object', properties: { url: { type: 'string' } } });
+  });
+});
+
+describe('bisectRejectedTools', () => {
+  test('finds a single culprit', async () => {
+    const tools = toolSet(10);
+    const bad = tools[6].name;
+    const probe = fakeProbe((set) => hasName(set, bad));
+    expect(await bisectRejectedTools(tools, probe)).toEqual([bad]);
+    // ~log2(10) bisect probes, the sanitized copy, the final check.
+    expect(probe.calls).toBeLessThanOrEqual(8);
+  });
+
+  test('finds two culprits in different halves', async () => {
+    const tools = toolSet(8);
+    const bad = [tools[1].name, tools[5].name];
+    const probe = fakeProbe((set) => bad.some((n) => hasName(set, n)));
+    expect(await bisectRejectedTools(tools, probe)).toEqual(bad);
+  });
+
+  test('gives up and caches nothing when only a combination is rejected', async () => {
+    const tools = toolSet(4);
+    const [a, b] = [tools[0].name, tools[2].name];
+    const logs: string[] = [];
+    const probe = fakeProbe((set) => hasName(set, a) && hasName(set, b));
+    expect(await bisectRejectedTools(tools, probe, (m) => logs.push(m))).toBeUndefined();
+    expect(logs.at(-1)).toContain('giving up');
+    expect(applyToolVerdicts(tools)).toEqual({ tools, warnings: [] });
+  });
+
+  test('gives up when the probe budget runs out', async () => {
+    const tools = toolSet(30);
+    const logs: string[] = [];
+    const probe = fakeProbe(() => true);
+    expect(await bisectRejectedTools(tools, probe, (m) => logs.push(m))).toBeUndefined();
+    expect(probe.calls).toBe(24);
+    expect(logs.at(-1)).toContain("couldn't isolate");
+    expect(applyToolVerdicts(tools).warnings).toEqual([]);
+  });
+
+  test('keeps the sanitized copy when the cloud accepts it', async () => {
+    const tools = toolSet(5);
+    tools[3] = { ...tools[3], description: 'Search the web \u{1F50E}' };
+    const probe = fakeProbe(hasNonAscii);
+    expect(await bisectRejectedTools(tools, probe)).toEqual([tools[3].name]);
+    const applied = applyToolVerdicts(tools);
+    expect(applied.tools).toHaveLength(5);
+    expect(applied.tools[3]).toEqual(sanitizeToolDef(tools[3]));
+    expect(applied.warnings).toEqual([`tool "${tools[3].name}" is rejected by the cloud (MCP configuration issue); sent a sanitized definition`]);
+  });
+
+  test('drops the tool when the sanitized copy is rejected too', async () => {
+    const tools = toolSet(5);
+    const bad = tools[1].name;
+    const probe = fakeProbe((set) => hasName(set, bad));
+    expect(await bisectRejectedTools(tools, probe)).toEqual([bad]);
+    const applied = applyToolVerdicts(tools);
+    expect(applied.tools.map((t) => t.name)).toEqual(tools.filter((t) => t.name !== bad).map((t) => t.name));
+    expect(applied.warnings).toEqual([`tool "${bad}" is rejected by the cloud (MCP configuration issue); left it out of the request`]);
+  });
+
+  test('leaves known-good tools out of a later search', async () => {
+    const tools = toolSet(6);
+    const first = tools[0].name;
+    await bisectRejectedTools(tools, fakeProbe((set) => hasName(set, first)));
+    // A new culprit joins; the tools cleared last time aren't probed again.
+    const added = toolSet(1)[0];
+    const probed: string[][] = [];
+    const probe = fakeProbe((set) => {
+      probed.push(set.map((t) => t.name));
+      return hasName(set, added.name);
+    });
+    expect(await bisectRejectedTools([...tools, added], probe)).toEqual([added.name]);
+    expect(probed[0]).not.toContain(tools[1].name);
+  });
+});
+
+describe('streamWithToolBisect', () => {
+  const done: CloudChatEvent = { kind: 'text', text: 'ok' };
+
+  async function drain(gen: AsyncGenerator<CloudChatEvent>): Promise<CloudChatEvent[]> {
+    const out: CloudChatEvent[] = [];
+    for await (const ev of gen) out.push(ev);
+    return out;
+  }
+
+  test('retries without the culprit, then applies the verdict up front next time', async () => {
+    const tools = toolSet(4);
+    const bad = tools[2].name;
+    const sent: string[][] = [];
+    async function* open(set: ToolDef[]): AsyncGenerator<CloudChatEvent> {
+      sent.push(set.map((t) => t.name));
+      if (hasName(set, bad)) throw mcpError();
+      yield done;
+    }
+    const warnings: string[] = [];
+    const probe = fakeProbe((set) => hasName(set, bad));
+    expect(await drain(streamWithToolBisect(tools, open, probe, (w) => warnings.push(w)))).toEqual([done]);
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).not.toContain(bad);
+    expect(warnings).toHaveLength(1);
+
+    // The next request never sends the rejected tool.
+    const next = applyToolVerdicts(tools);
+    expect(next.tools.map((t) => t.name)).not.toContain(bad);
+    expect(next.warnings).toEqual(warnings);
+    const calls = probe.calls;
+    expect(await drain(streamWithToolBisect(next.tools, open, probe, () => {}))).toEqual([done]);
+    expect(probe.calls).toBe(calls);
+  });
+
+  test('rethrows errors after output has started, and other errors', async () => {
+    const tools = toolSet(2);
+    const probe = fakeProbe(() => true);
+    async function* late(): AsyncGenerator<CloudChatEvent> {
+      yield done;
+      throw mcpError();
+    }
+    await expect(drain(streamWithToolBisect(tools, late, probe, () => {}))).rejects.toThrow(/MCP/);
+    async function* other(): AsyncGenerator<CloudChatEvent> {
+      throw new CloudChatError('nope', 'internal');
+    }
+    await expect(drain(streamWithToolBisect(tools, other, probe, () => {}))).rejects.toThrow('nope');
+    expect(probe.calls).toBe(0);
+  });
+
+  test('rethrows the original error when the culprit cannot be found', async () => {
+    const tools = toolSet(3);
+    const original = mcpError();
+    async function* open(): AsyncGenerator<CloudChatEvent> {
+      throw original;
+    }
+    const probe = fakeProbe(() => true);
+    await expect(drain(streamWithToolBisect(tools, open, probe, () => {}))).rejects.toBe(original);
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { CloudChatEvent, ToolDef } from '../../src/cloud-direct/index.js';
+import { appendDiagnosticHeaders, lateDiagnosticComments, type Diagnostics } from '../../src/plugin/diagnostics.js';
+import { RequestParamError } from '../../src/plugin/proxy-errors.js';
+import {
+  bufferToolCalls,
+  finalizeToolArguments,
+  repairJson,
+  resolveBufferToolCalls,
+  toolRepairHeader,
+  type ToolCallRepair,
+} from '../../src/plugin/tool-call-repair.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+const read: ToolDef = {
+  name: 'read',
+  description: 'Read a file',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string' },
+      limit: { type: 'integer' },
+      recursive: { type: 'boolean' },
+      globs: { type: 'array', items: { type: 'string' } },
+      mode: { type: 'string', enum: ['text', 'binary'] },
+    },
+    required: ['path'],
+    additionalProperties: false,
+  },
+};
+
+async function* from(events: CloudChatEvent[]): AsyncGenerator<CloudChatEvent> {
+  yield* events;
+}
+
+async function collect(events: AsyncIterable<CloudChatEvent>): Promise<CloudChatEvent[]> {
+  const out: CloudChatEvent[] = [];
+  for await (const ev of events) out.push(ev);
+  return out;
+}
+
+/** A reply with one `read` call whose arguments stream in two broken pieces. */
+function brokenCall(): CloudChatEvent[] {
+  return [
+    { kind: 'text', text: 'Reading it.' },
+    { kind: 'tool_call_start', id: 'call_1', name: 'read' },
+    { kind: 'tool_call_args', id: 'call_1', argsDelta: "{'path': 'a.ts'," },
+    { kind: 'tool_call_args', argsDelta: ' limit: "20",}' },
+    { kind: 'finish', reason: 'tool_calls' },
+  ];
+}
+
+describe('repairJson', () => {
+  test('valid objects pass through untouched', () => {
+    expect(repairJson('{"a":1}')).toEqual({ value: { a: 1 }, repairs: [] });
+  });
+
+  test('fixes what models commonly get wrong', () => {
+    expect(repairJson("{'a': 'b',}")).toEqual({ value: { a: 'b' }, repairs: ['single quotes', 'trailing commas'] });
+    expect(repairJson('{a: True, b: None}')).toEqual({ value: { a: true, b: null }, repairs: ['unquoted keys', 'non-JSON literals'] });
+    expect(repairJson('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 }, repairs: ['code fence'] });
+    expect(repairJson('Sure: {"a": 1}')).toEqual({ value: { a: 1 }, repairs: ['text around the object'] });
+    expect(repairJson('{"a": "line\nbreak"}')).toEqual({ value: { a: 'line\nbreak' }, repairs: ['control characters in strings'] });
+  });
+
+  test('closes JSON cut off by a length finish', () => {
+    expect(repairJson('{"a": [1, 2')?.value).toEqual({ a: [1, 2] });
+    expect(repairJson('{"a": "unfinis')?.value).toEqual({ a: 'unfinis' });
+    expect(repairJson('{"a": 1, "b"')?.value).toEqual({ a: 1 });
+    expect(repairJson('{"a": tr')?.repairs).toContain('truncated JSON');
+  });
+
+  test('unwraps double-encoded objects and treats empty as {}', () => {
+    expect(repairJson(JSON.stringify('{"a":1}'))).toEqual({ value: { a: 1 }, repairs: ['double-encoded JSON'] });
+    expect(repairJson('  ')).toEqual({ value: {}, repairs: ['empty arguments'] });
+  });
+
+  test('gives up on text with no object', () => {
+    expect(repairJson('no json here')).toBeUndefined();
+    expect(repairJson('[1, 2]')).toBeUndefined();
+  });
+});
+
+describe('finalizeToolArguments', () => {
+  test('leaves clean arguments byte-for-byte alone', () => {
+    const args = '{ "path": "a.ts" }';
+    expect(finalizeToolArguments(args, read)).toEqual({ args, fixes: [] });
+  });
+
+  test('coerces unambiguous type mismatches', () => {
+    const out = finalizeToolArguments('{"path": "a.ts", "limit": "20", "recursive": "true", "globs": "[\\"*.ts\\"]"}', read);
+    expect(JSON.parse(out.args)).toEqual({ path: 'a.ts', limit: 20, recursive: true, globs: ['*.ts'] });
+    expect(out.fixes).toEqual(['coerced $.limit string to integer', 'coerced $.recursive string to boolean', 'coerced $.globs string to array']);
+  });
+
+  test('reports schema problems but keeps the call', () => {
+    const out = finalizeToolArguments('{"limit": 2.5, "mode": "raw", "extra": 1}', read);
+    expect(out.fixes).toEqual([
+      'schema: $.path is required',
+      'schema: $.limit should be integer, got number',
+      'schema: $.mode should be one of "text", "binary"',
+      'schema: $.extra is not a known parameter',
+    ]);
+  });
+
+  test('forwards unrepairable text unchanged', () => {
+    expect(finalizeToolArguments('nope', read)).toEqual({ args: 'nope', fixes: ['unparseable arguments (forwarded as-is)'] });
+  });
+});
+
+describe('bufferToolCalls', () => {
+  test('holds calls until finish and emits each whole, repaired', async () => {
+    const repairs: ToolCallRepair[] = [];
+    const out = await collect(bufferToolCalls(from(brokenCall()), [read], (r) => repairs.push(r)));
+    expect(out).toEqual([
+      { kind: 'text', text: 'Reading it.' },
+      { kind: 'tool_call_start', id: 'call_1', name: 'read' },
+      { kind: 'tool_call_args', id: 'call_1', argsDelta: '{"path":"a.ts","limit":20}' },
+      { kind: 'finish', reason: 'tool_calls' },
+    ]);
+    expect(repairs).toEqual([{ id: 'call_1', name: 'read', fixes: ['single quotes', 'unquoted keys', 'trailing commas', 'coerced $.limit string to integer'] }]);
+    expect(toolRepairHeader(repairs[0]!)).toBe('read (call_1): single quotes; unquoted keys; trailing commas; coerced $.limit string to integer');
+  });
+
+  test('flushes calls from a stream that ends without a finish', async () => {
+    const out = await collect(bufferToolCalls(from(brokenCall().slice(0, 4)), [read], () => {}));
+    expect(out.map((e) => e.kind)).toEqual(['text', 'tool_call_start', 'tool_call_args']);
+  });
+});
+
+describe('reporting a repaired call', () => {
+  // What streamCloudEvents does: each repair becomes an X-Windsurf-Tool-Repair value.
+  async function run(d: Diagnostics): Promise<void> {
+    await collect(bufferToolCalls(from(brokenCall()), [read], (r) => d.toolRepairs.push(toolRepairHeader(r))));
+  }
+
+  test('non-streaming: headers are built after the stream, so they carry it', async () => {
+    const d: Diagnostics = { warnings: [], toolRepairs: [] };
+    await run(d);
+    const headers = new Headers();
+    appendDiagnosticHeaders(headers, d);
+    expect(headers.get('X-Windsurf-Tool-Repair')).toMatch(/^read \(call_1\): single quotes;/);
+    expect(lateDiagnosticComments(d)).toBe('');
+  });
+
+  test('streaming: headers went out first, so it arrives as an SSE comment', async () => {
+    const d: Diagnostics = { warnings: [], toolRepairs: [] };
+    const headers = new Headers();
+    appendDiagnosticHeaders(headers, d);
+    await run(d);
+    expect(headers.get('X-Windsurf-Tool-Repair')).toBeNull();
+    expect(lateDiagnosticComments(d)).toBe(
+      ': X-Windsurf-Tool-Repair: read (call_1): single quotes; unquoted keys; trailing commas; coerced $.limit string to integer\n\n',
+    );
+  });
+});
+
+describe('resolveBufferToolCalls', () => {
+  afterEach(() => {
+    delete process.env.WINDSURF_BUFFER_TOOL_CALLS;
+  });
+
+  const request = (windsurf?: Record<string, unknown>): ChatCompletionRequest =>
+    ({ messages: [], ...(windsurf ? { providerOptions: { windsurf } } : {}) });
+
+  test('off by default, on from the option or the environment', () => {
+    expect(resolveBufferToolCalls(request())).toBe(false);
+    expect(resolveBufferToolCalls(request({ bufferToolCalls: true }))).toBe(true);
+    process.env.WINDSURF_BUFFER_TOOL_CALLS = 'on';
+    expect(resolveBufferToolCalls(request())).toBe(true);
+    expect(resolveBufferToolCalls(request({ bufferToolCalls: false }))).toBe(false);
+  });
+
+  test('a non-boolean option is a 400', () => {
+    expect(() => resolveBufferToolCalls(request({ bufferToolCalls: 'yes' }))).toThrow(RequestParamError);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test';
+import type { ChatHistoryItem, CloudChatEvent, ToolDef } from '../../src/cloud-direct/index.js';
+import { RequestParamError } from '../../src/plugin/proxy-errors.js';
+import {
+  DEFAULT_TOOL_CHOICE,
+  requiresToolCall,
+  resolveToolChoice,
+  streamWithToolChoice,
+  toolsForChoice,
+  withToolChoiceInstruction,
+  type ToolChoicePolicy,
+} from '../../src/plugin/tool-choice.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+const tool = (name: string): ToolDef => ({ name, description: '', parameters: { type: 'object', properties: {} } });
+
+function request(fields: Partial<ChatCompletionRequest>): ChatCompletionRequest {
+  return {
+    messages: [],
+    tools: [{ type: 'function', function: { name: 'read' } }, { type: 'function', function: { name: 'write' } }],
+    ...fields,
+  };
+}
+
+async function* from(events: CloudChatEvent[]): AsyncGenerator<CloudChatEvent> {
+  yield* events;
+}
+
+async function collect(events: AsyncIterable<CloudChatEvent>): Promise<CloudChatEvent[]> {
+  const out: CloudChatEvent[] = [];
+  for await (const ev of events) out.push(ev);
+  return out;
+}
+
+const textReply: CloudChatEvent[] = [{ kind: 'text', text: 'No tools needed.' }, { kind: 'finish', reason: 'stop' }];
+
+function callReply(...names: string[]): CloudChatEvent[] {
+  return [
+    { kind: 'text', text: 'Let me look.' },
+    ...names.flatMap((name, i): CloudChatEvent[] => [
+      { kind: 'tool_call_start', id: `call_${i}`, name },
+      { kind: 'tool_call_args', id: `call_${i}`, argsDelta: '{}' },
+    ]),
+    { kind: 'finish', reason: 'tool_calls' },
+  ];
+}
+
+/** Runs `streamWithToolChoice` over canned replies, one per attempt. */
+async function run(policy: ToolChoicePolicy, replies: CloudChatEvent[][]) {
+  const attempts: boolean[] = [];
+  const warnings: string[] = [];
+  const logs: string[] = [];
+  const events = await collect(streamWithToolChoice(
+    policy,
+    (firm) => {
+      attempts.push(firm);
+      return from(replies[attempts.length - 1]!);
+    },
+    (w) => warnings.push(w),
+    (m) => logs.push(m),
+  ));
+  return { events, attempts, warnings, logs };
+}
+
+describe('resolveToolChoice', () => {
+  test('auto and parallel calls by default', () => {
+    expect(resolveToolChoice(request({}))).toEqual(DEFAULT_TOOL_CHOICE);
+  });
+
+  test('accepts the modes and a named function', () => {
+    expect(resolveToolChoice(request({ tool_choice: 'none' })).choice).toBe('none');
+    expect(resolveToolChoice(request({ tool_choice: 'required', parallel_tool_calls: false })))
+      .toEqual({ choice: 'required', parallelToolCalls: false });
+    expect(resolveToolChoice(request({ tool_choice: { type: 'function', function: { name: 'read' } } })).choice).toEqual({ name: 'read' });
+  });
+
+  test('bad values are a 400', () => {
+    for (const fields of [
+      { tool_choice: 'any' },
+      { tool_choice: { type: 'function' } },
+      { tool_choice: { type: 'function', function: { name: 'delete' } } },
+      { tool_choice: 'required', tools: [] },
+      { parallel_tool_calls: 'yes' as unknown as boolean },
+    ]) {
+      expect(() => resolveToolChoice(request(fields))).toThrow(RequestParamError);
+    }
+  });
+});
+
+describe('toolsForChoice and the instruction', () => {
+  const tools = [tool('read'), tool('write')];
+
+  test('none sends no tools, a named choice only that one', () => {
+    expect(toolsForChoice(tools, { choice: 'none', parallelToolCalls: true })).toEqual([]);
+    expect(toolsForChoice(tools, { choice: { name: 'write' }, parallelToolCalls: true })).toEqual([tools[1]!]);
+    expect(toolsForChoice(tools, { choice: 'required', parallelToolCalls: true })).toBe(tools);
+  });
+
+  test('auto with parallel calls adds nothing', () => {
+    const messages: ChatHistoryItem[] = [{ role: 'user', content: 'hi' }];
+    expect(withToolChoiceInstruction(messages, DEFAULT_TOOL_CHOICE)).toBe(messages);
+    expect(requiresToolCall(DEFAULT_TOOL_CHOICE)).toBe(false);
+  });
+
+  test('the instruction is a trailing system message, firmer on retry', () => {
+    const messages: ChatHistoryItem[] = [{ role: 'user', content: 'hi' }];
+    const policy: ToolChoicePolicy = { choice: { name: 'read' }, parallelToolCalls: false };
+    expect(withToolChoiceInstruction(messages, policy).at(-1)).toEqual({
+      role: 'system',
+      content: 'You must call the "read" tool in your next response. Call at most one tool per response.',
+    });
+    expect(withToolChoiceInstruction(messages, policy, true).at(-1)!.content)
+      .toBe('You must call the "read" tool in your next response. This is mandatory: a response without that tool call will be rejected. Call at most one tool per response.');
+  });
+});
+
+describe('streamWithToolChoice', () => {
+  const required: ToolChoicePolicy = { choice: 'required', parallelToolCalls: true };
+
+  test('auto passes everything straight through', async () => {
+    const out = await run(DEFAULT_TOOL_CHOICE, [textReply]);
+    expect(out.events).toEqual(textReply);
+    expect(out.attempts).toEqual([false]);
+  });
+
+  test('text before a required call is released with it', async () => {
+    const out = await run(required, [callReply('read')]);
+    expect(out.events).toEqual(callReply('read'));
+    expect(out.attempts).toEqual([false]);
+  });
+
+  test('a reply without the call is discarded and retried firmly', async () => {
+    const out = await run(required, [textReply, callReply('write')]);
+    expect(out.attempts).toEqual([false, true]);
+    expect(out.events).toEqual(callReply('write'));
+    expect(out.logs).toEqual(['[windsurf-plugin] tool_choice: reply had no tool call; retrying with a firmer instruction']);
+    expect(out.warnings).toEqual([]);
+  });
+
+  test('a call to a different tool does not count', async () => {
+    const out = await run({ choice: { name: 'read' }, parallelToolCalls: true }, [callReply('write'), callReply('read')]);
+    expect(out.attempts).toEqual([false, true]);
+    expect(out.events).toEqual(callReply('read'));
+  });
+
+  test('after a second miss the reply goes through with a warning', async () => {
+    const out = await run({ choice: { name: 'read' }, parallelToolCalls: true }, [textReply, textReply]);
+    expect(out.events).toEqual(textReply);
+    expect(out.warnings).toEqual(['tool_choice requires a "read" call, but the model answered without one (after a retry)']);
+  });
+
+  test('without parallel calls, calls after the first are dropped', async () => {
+    const out = await run({ choice: 'auto', parallelToolCalls: false }, [callReply('read', 'write', 'read')]);
+    expect(out.events).toEqual([...callReply('read').slice(0, 3), { kind: 'finish', reason: 'tool_calls' }]);
+    expect(out.warnings).toEqual(['parallel_tool_calls is false; dropped 2 tool calls after the first']);
+  });
+});
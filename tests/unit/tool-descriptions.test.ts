@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChatHistoryItem, ToolDef } from '../../src/cloud-direct/index.js';
+import { MAX_TOOL_DESC_LEN, collapseWhitespace, fitToolDescriptions, withToolManual } from '../../src/cloud-direct/tool-descriptions.js';
+
+/** opencode's `bash` tool description (src/tool/bash.txt, v1.0.152), verbatim. */
+const BASH = fs.readFileSync(path.join(import.meta.dir, 'fixtures', 'opencode-bash.txt'), 'utf8');
+
+const tool = (name: string, description: string): ToolDef => ({ name, description, parameters: { type: 'object' } });
+
+describe('fitToolDescriptions', () => {
+  test('tools under the limit come back as the same objects', () => {
+    const tools = [tool('read', 'Read a file.'), tool('edge', 'x'.repeat(MAX_TOOL_DESC_LEN))];
+    expect(fitToolDescriptions(tools)).toEqual({ tools, changes: [] });
+    expect(fitToolDescriptions(tools).tools).toBe(tools);
+  });
+
+  test('whitespace alone is collapsed when that is enough', () => {
+    const padded = Array.from({ length: 250 }, (_, i) => `rule ${i}:    keep   it short   \n\n\n`).join('');
+    const { tools, manual, changes } = fitToolDescriptions([tool('fmt', padded)]);
+    expect(tools[0]!.description).toBe(collapseWhitespace(padded));
+    expect(tools[0]!.description).toContain('rule 0: keep it short\n\nrule 1:');
+    expect(manual).toBeUndefined();
+    expect(changes).toEqual([{ name: 'fmt', action: 'collapsed', originalLength: padded.length, sentLength: tools[0]!.description!.length }]);
+  });
+
+  test('examples move to the manual when the rest then fits', () => {
+    const rules = 'Use this tool to search.\n'.repeat(100);
+    const example = '```sh\n' + 'grep -rn pattern src\n'.repeat(300) + '```';
+    const description = `${rules}\n${example}\n\n<example>\nsearch for TODOs\n</example>`;
+    const { tools, manual, changes } = fitToolDescriptions([tool('grep', description)]);
+    const sent = tools[0]!.description!;
+    expect(changes[0]!.action).toBe('examples-moved');
+    expect(sent.length).toBeLessThanOrEqual(MAX_TOOL_DESC_LEN);
+    expect(sent).toContain('[example 1: see the "grep" tool manual in the system prompt]');
+    expect(sent).toContain('[example 2: see the "grep" tool manual in the system prompt]');
+    expect(sent).not.toContain('grep -rn');
+    expect(manual).toContain('<tool_manual name="grep">\nExample 1:\n<example>\nsearch for TODOs\n</example>\n\nExample 2:\n```sh\ngrep -rn pattern src');
+  });
+
+  test("opencode's bash description is split, with the full text in the manual", () => {
+    expect(BASH.length).toBeGreaterThan(MAX_TOOL_DESC_LEN);
+    const other = tool('read', 'Read a file.');
+    const { tools, manual, changes } = fitToolDescriptions([other, tool('bash', BASH)]);
+    const sent = tools[1]!.description!;
+    expect(tools[0]).toBe(other);
+    expect(changes).toEqual([{ name: 'bash', action: 'split', originalLength: BASH.length, sentLength: sent.length }]);
+    expect(sent.length).toBeLessThan(2100);
+    expect(sent.startsWith('Executes a given bash command in a persistent shell session')).toBe(true);
+    expect(sent.endsWith('\n\nFull instructions: see the "bash" tool manual in the system prompt.')).toBe(true);
+    expect(manual).toStartWith('<tool_manuals>\nSome tool descriptions were too long');
+    expect(manual).toContain(`<tool_manual name="bash">\n${collapseWhitespace(BASH)}\n</tool_manual>\n</tool_manuals>`);
+  });
+
+  test('the manual is the same for the same tools', () => {
+    expect(fitToolDescriptions([tool('bash', BASH)]).manual).toBe(fitToolDescriptions([tool('bash', BASH)]).manual!);
+  });
+});
+
+describe('withToolManual', () => {
+  const messages: ChatHistoryItem[] = [
+    { role: 'system', content: 'You are opencode.' },
+    { role: 'system', content: 'Project rules.' },
+    { role: 'user', content: 'hi' },
+    { role: 'system', content: 'late system note' },
+  ];
+
+  test('inserts the manual after the leading system messages', () => {
+    expect(withToolManual(messages, 'MANUAL').map((m) => m.content)).toEqual([
+      'You are opencode.',
+      'Project rules.',
+      'MANUAL',
+      'hi',
+      'late system note',
+    ]);
+  });
+
+  test('goes first when there is no system message', () => {
+    expect(withToolManual(messages.slice(2), 'MANUAL')[0]).toEqual({ role: 'system', content: 'MANUAL' });
+  });
+
+  test('no manual leaves the messages alone', () => {
+    expect(withToolManual(messages, undefined)).toBe(messages);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { ChatHistoryItem, CloudChatEvent, ToolDef } from '../../src/cloud-direct/index.js';
+import { RequestParamError } from '../../src/plugin/proxy-errors.js';
+import { emulatedToolPrompt, parseEmulatedToolCalls, resolveToolCalling, withEmulatedTools } from '../../src/plugin/tool-emulation.js';
+import type { ChatCompletionRequest } from '../../src/plugin/types.js';
+
+const read: ToolDef = { name: 'read', description: 'Read a file', parameters: { type: 'object', properties: { path: { type: 'string' } } } };
+
+async function* from(events: CloudChatEvent[]): AsyncGenerator<CloudChatEvent> {
+  yield* events;
+}
+
+/** Parsed events with the generated call ids replaced by their order. */
+async function parse(events: CloudChatEvent[], log?: (m: string) => void): Promise<CloudChatEvent[]> {
+  const ids = new Map<string, string>();
+  const out: CloudChatEvent[] = [];
+  for await (const ev of parseEmulatedToolCalls(from(events), [read], log)) {
+    if ((ev.kind === 'tool_call_start' || ev.kind === 'tool_call_args') && ev.id) {
+      if (!ids.has(ev.id)) ids.set(ev.id, `id${ids.size}`);
+      out.push({ ...ev, id: ids.get(ev.id)! });
+    } else {
+      out.push(ev);
+    }
+  }
+  return out;
+}
+
+const chunks = (...texts: string[]): CloudChatEvent[] => texts.map((text) => ({ kind: 'text', text }));
+
+describe('resolveToolCalling', () => {
+  afterEach(() => {
+    delete process.env.WINDSURF_TOOL_CALLING;
+  });
+
+  const request = (windsurf?: Record<string, unknown>): ChatCompletionRequest =>
+    ({ messages: [], ...(windsurf ? { providerOptions: { windsurf } } : {}) });
+
+  test('models without function calling are emulated', () => {
+    expect(resolveToolCalling(request(), 'MODEL_DEEPSEEK_R1')).toBe('emulated');
+    expect(resolveToolCalling(request(), 'MODEL_QWEN_2_5_32B_INSTRUCT_R1')).toBe('emulated');
+    expect(resolveToolCalling(request(), 'MODEL_CHAT_GPT_4O')).toBe('native');
+  });
+
+  test('BYOK models are native unless the option says otherwise', () => {
+    expect(resolveToolCalling(request(), 'MODEL_CLAUDE_3_5_SONNET_BYOK')).toBe('native');
+    expect(resolveToolCalling(request({ toolCalling: 'emulated' }), 'MODEL_OPEN_ROUTER_BYOK')).toBe('emulated');
+  });
+
+  test('the option beats the environment, which beats the built-in list', () => {
+    process.env.WINDSURF_TOOL_CALLING = ' Emulated ';
+    expect(resolveToolCalling(request(), 'MODEL_CHAT_GPT_4O')).toBe('emulated');
+    expect(resolveToolCalling(request({ toolCalling: 'native' }), 'MODEL_DEEPSEEK_R1')).toBe('native');
+  });
+
+  test('an unknown mode is a 400', () => {
+    expect(() => resolveToolCalling(request({ toolCalling: 'prompt' }), 'MODEL_CHAT_GPT_4O')).toThrow(RequestParamError);
+  });
+});
+
+describe('withEmulatedTools', () => {
+  test('puts the tool prompt after the leading system messages', () => {
+    const out = withEmulatedTools([{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }], [read]);
+    expect(out.map((m) => m.role)).toEqual(['system', 'system', 'user']);
+    expect(out[1]!.content).toBe(emulatedToolPrompt([read]));
+    expect(out[1]!.content).toContain('<tool name="read">\nRead a file\nParameters (JSON Schema): {"type":"object","properties":{"path":{"type":"string"}}}\n</tool>');
+  });
+
+  test('rewrites native calls and results as text', () => {
+    const messages: ChatHistoryItem[] = [
+      { role: 'user', content: 'open it' },
+      { role: 'assistant', content: 'Opening.', tool_calls: [{ id: 'c1', name: 'read', arguments: '{"path":"a.ts"}' }] },
+      { role: 'tool', content: 'data', tool_call_id: 'c1' },
+    ];
+    expect(withEmulatedTools(messages, [])).toEqual([
+      messages[0]!,
+      { role: 'assistant', content: 'Opening.\n<tool_call>\n{"name":"read","arguments":{"path":"a.ts"}}\n</tool_call>' },
+      { role: 'user', content: '<tool_result name="read" id="c1">\ndata\n</tool_result>' },
+    ]);
+  });
+});
+
+describe('parseEmulatedToolCalls', () => {
+  test('plain text streams through', async () => {
+    const events = [...chunks('Hello ', 'there.'), { kind: 'finish', reason: 'stop' } as CloudChatEvent];
+    expect(await parse(events)).toEqual(events);
+  });
+
+  test('a call split across chunks becomes tool-call events', async () => {
+    const out = await parse([
+      ...chunks('Let me check.<tool', '_call>\n{"name": "read", "argu', 'ments": {"path": "a.ts"}}\n</tool_', 'call>\n'),
+      { kind: 'finish', reason: 'stop' },
+    ]);
+    expect(out).toEqual([
+      { kind: 'text', text: 'Let me check.' },
+      { kind: 'tool_call_start', id: 'id0', name: 'read' },
+      { kind: 'tool_call_args', id: 'id0', argsDelta: '{"path":"a.ts"}' },
+      { kind: 'finish', reason: 'tool_calls' },
+    ]);
+  });
+
+  test('several calls, repaired arguments, no stray whitespace', async () => {
+    const out = await parse(chunks(
+      '<tool_call>{"name": "read", "arguments": "{\'path\': \'a.ts\'}"}</tool_call>\n\n',
+      "<tool_call>{name: 'read', parameters: {path: 'b.ts'}}</tool_call>",
+    ));
+    expect(out).toEqual([
+      { kind: 'tool_call_start', id: 'id0', name: 'read' },
+      { kind: 'tool_call_args', id: 'id0', argsDelta: '{"path":"a.ts"}' },
+      { kind: 'tool_call_start', id: 'id1', name: 'read' },
+      { kind: 'tool_call_args', id: 'id1', argsDelta: '{"path":"b.ts"}' },
+    ]);
+  });
+
+  test('a block that does not parse stays text', async () => {
+    const logs: string[] = [];
+    const out = await parse([...chunks('<tool_call>not a call</tool_call> done'), { kind: 'finish', reason: 'stop' }], (m) => logs.push(m));
+    expect(out.map((e) => (e.kind === 'text' ? e.text : e.kind)).join('')).toBe('<tool_call>not a call</tool_call> donefinish');
+    expect(out.at(-1)).toEqual({ kind: 'finish', reason: 'stop' });
+    expect(logs).toHaveLength(1);
+  });
+
+  test('a call to a tool that was not offered stays text', async () => {
+    const logs: string[] = [];
+    const block = '<tool_call>{"name": "write", "arguments": {"path": "a.ts"}}</tool_call>';
+    const out = await parse([...chunks(block), { kind: 'finish', reason: 'stop' }], (m) => logs.push(m));
+    expect(out).toEqual([...chunks(block), { kind: 'finish', reason: 'stop' }]);
+    expect(logs).toHaveLength(1);
+  });
+
+  test('an unclosed call at the end is still parsed', async () => {
+    const out = await parse(chunks('<tool_call>{"name": "read", "arguments": {}}'));
+    expect(out).toEqual([
+      { kind: 'tool_call_start', id: 'id0', name: 'read' },
+      { kind: 'tool_call_args', id: 'id0', argsDelta: '{}' },
+    ]);
+  });
+
+  test('a held-back partial tag is released when it is not a tag', async () => {
+    expect(await parse(chunks('a <tool', 's> b'))).toEqual(chunks('a ', '<tools> b'));
+  });
+});
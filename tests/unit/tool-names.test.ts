@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import type { ChatHistoryItem, ToolDef } from '../../src/cloud-direct/index.js';
+import { MAX_TOOL_NAME_LEN, buildToolNameMap, sanitizeToolName, toCloudHistory } from '../../src/cloud-direct/tool-names.js';
+
+const tool = (name: string): ToolDef => ({ name, description: '', parameters: { type: 'object', properties: {} } });
+
+describe('sanitizeToolName', () => {
+  test('valid names pass through', () => {
+    expect(sanitizeToolName('read_file')).toBe('read_file');
+    expect(sanitizeToolName('a-b_C9')).toBe('a-b_C9');
+  });
+
+  test('invalid characters become underscores', () => {
+    expect(sanitizeToolName('github.create_issue')).toBe('github_create_issue');
+    expect(sanitizeToolName('')).toBe('tool');
+  });
+
+  test('long names are cut and hashed, deterministically', () => {
+    const long = `mcp__server__${'x'.repeat(80)}`;
+    const cloud = sanitizeToolName(long);
+    expect(cloud).toHaveLength(MAX_TOOL_NAME_LEN);
+    expect(cloud).toMatch(/^mcp__server__x+_[0-9a-f]{8}$/);
+    expect(sanitizeToolName(long)).toBe(cloud);
+    expect(sanitizeToolName(`${long}y`)).not.toBe(cloud);
+  });
+});
+
+describe('buildToolNameMap', () => {
+  test('maps rewritten names both ways and lists them', () => {
+    const names = buildToolNameMap([tool('read'), tool('github.create_issue')]);
+    expect(names.toCloud('read')).toBe('read');
+    expect(names.toCloud('github.create_issue')).toBe('github_create_issue');
+    expect(names.fromCloud('github_create_issue')).toBe('github.create_issue');
+    expect(names.renamed).toEqual([{ original: 'github.create_issue', cloud: 'github_create_issue' }]);
+  });
+
+  test('a valid name keeps itself when another sanitizes onto it', () => {
+    const names = buildToolNameMap([tool('a.b'), tool('a_b')]);
+    expect(names.toCloud('a_b')).toBe('a_b');
+    expect(names.toCloud('a.b')).toMatch(/^a_b_[0-9a-f]{8}$/);
+    expect(names.fromCloud(names.toCloud('a.b'))).toBe('a.b');
+    expect(names.fromCloud('a_b')).toBe('a_b');
+  });
+
+  test('names outside the tool list are sanitized but not mapped back', () => {
+    const names = buildToolNameMap([]);
+    expect(names.toCloud('old.tool')).toBe('old_tool');
+    expect(names.fromCloud('old_tool')).toBe('old_tool');
+  });
+});
+
+describe('toCloudHistory', () => {
+  test('translates tool-call names and ids, reusing unchanged messages', () => {
+    const names = buildToolNameMap([tool('fs.read')]);
+    const messages: ChatHistoryItem[] = [
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call:1', name: 'fs.read', arguments: '{}' }] },
+      { role: 'tool', content: 'data', tool_call_id: 'call:1' },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call_2', name: 'other', arguments: '{}' }] },
+      { role: 'tool', content: 'data', tool_call_id: 'call_2' },
+    ];
+    const out = toCloudHistory(messages, names);
+    expect(out[0]).toBe(messages[0]!);
+    expect(out[1]!.tool_calls).toEqual([{ id: 'call_1', name: 'fs_read', arguments: '{}' }]);
+    expect(out[2]).toEqual({ role: 'tool', content: 'data', tool_call_id: 'call_1' });
+    expect(out[3]).toBe(messages[3]!);
+    expect(out[4]).toBe(messages[4]!);
+  });
+});
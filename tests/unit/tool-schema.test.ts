@@ -0,0 +1,317 @@
+import { describe, expect, test } from 'bun:test';
+import { MAX_SCHEMA_CHARS, normalizeToolSchema, schemaFamilyFor, type SchemaFamily } from '../../src/cloud-direct/tool-schema.js';
+
+const DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+const SAFE_INT = { type: 'integer', minimum: -9007199254740991, maximum: 9007199254740991 };
+
+/** opencode's built-in tool parameters, as zod's `toJSONSchema` emits them. */
+const OPENCODE_TOOLS: Record<string, Record<string, unknown>> = {
+  bash: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      command: { type: 'string', description: 'The command to execute' },
+      timeout: { type: 'number', description: 'Optional timeout in milliseconds' },
+      description: { type: 'string', description: 'Clear, concise description of what this command does in 5-10 words.' },
+    },
+    required: ['command', 'description'],
+    additionalProperties: false,
+  },
+  read: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      filePath: { type: 'string', description: 'The path to the file to read' },
+      offset: { ...SAFE_INT, description: 'The line number to start reading from (0-based)' },
+      limit: { ...SAFE_INT, description: 'The number of lines to read (defaults to 2000)' },
+    },
+    required: ['filePath'],
+    additionalProperties: false,
+  },
+  edit: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      filePath: { type: 'string', description: 'The absolute path to the file to modify' },
+      oldString: { type: 'string', description: 'The text to replace' },
+      newString: { type: 'string', description: 'The text to replace it with (must be different from oldString)' },
+      replaceAll: { type: 'boolean', description: 'Replace all occurrences of oldString (default false)' },
+    },
+    required: ['filePath', 'oldString', 'newString'],
+    additionalProperties: false,
+  },
+  write: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      content: { type: 'string', description: 'The content to write to the file' },
+      filePath: { type: 'string', description: 'The absolute path to the file to write (must be absolute, not relative)' },
+    },
+    required: ['content', 'filePath'],
+    additionalProperties: false,
+  },
+  glob: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      pattern: { type: 'string', description: 'The glob pattern to match files against' },
+      path: { type: 'string', description: 'The directory to search in.' },
+    },
+    required: ['pattern'],
+    additionalProperties: false,
+  },
+  grep: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      pattern: { type: 'string', description: 'The regex pattern to search for in file contents' },
+      path: { type: 'string', description: 'The directory to search in. Defaults to the current working directory.' },
+      include: { type: 'string', description: 'File pattern to include in the search (e.g. "*.js", "*.{ts,tsx}")' },
+    },
+    required: ['pattern'],
+    additionalProperties: false,
+  },
+  list: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'The absolute path to the directory to list (must be absolute, not relative)' },
+      ignore: { type: 'array', items: { type: 'string' }, description: 'List of glob patterns to ignore' },
+    },
+    additionalProperties: false,
+  },
+  webfetch: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      url: { type: 'string', format: 'uri', description: 'The URL to fetch content from' },
+      format: { type: 'string', enum: ['text', 'markdown', 'html'], description: 'The format to return the content in (text, markdown, or html)' },
+      timeout: { type: 'number', description: 'Optional timeout in seconds (max 120)' },
+    },
+    required: ['url', 'format'],
+    additionalProperties: false,
+  },
+  todowrite: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      todos: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            content: { type: 'string', description: 'Brief description of the task' },
+            status: { type: 'string', description: 'Current status of the task: pending, in_progress, completed, cancelled' },
+            priority: { type: 'string', description: 'Priority level of the task: high, medium, low' },
+            id: { type: 'string', description: 'Unique identifier for the todo item' },
+          },
+          required: ['content', 'status', 'priority', 'id'],
+          additionalProperties: false,
+        },
+        description: 'The updated todo list',
+      },
+    },
+    required: ['todos'],
+    additionalProperties: false,
+  },
+  task: {
+    $schema: DRAFT,
+    type: 'object',
+    properties: {
+      description: { type: 'string', description: 'A short (3-5 words) description of the task' },
+      prompt: { type: 'string', description: 'The task for the agent to perform' },
+      subagent_type: { type: 'string', description: 'The type of specialized agent to use for this task' },
+    },
+    required: ['description', 'prompt', 'subagent_type'],
+    additionalProperties: false,
+  },
+};
+
+const FAMILIES: SchemaFamily[] = ['openai', 'anthropic', 'gemini', 'generic'];
+
+function walk(node: unknown, visit: (s: Record<string, unknown>) => void): void {
+  if (Array.isArray(node)) return node.forEach((n) => walk(n, visit));
+  if (!node || typeof node !== 'object') return;
+  visit(node as Record<string, unknown>);
+  for (const [k, v] of Object.entries(node)) {
+    if (k === 'properties' && v && typeof v === 'object') Object.values(v).forEach((p) => walk(p, visit));
+    else if (k !== 'enum' && k !== 'required') walk(v, visit);
+  }
+}
+
+function keywords(schema: unknown): Set<string> {
+  const out = new Set<string>();
+  walk(schema, (s) => Object.keys(s).forEach((k) => out.add(k)));
+  return out;
+}
+
+describe('schemaFamilyFor', () => {
+  test('maps model UIDs to schema dialects', () => {
+    expect(schemaFamilyFor('claude-4-5-sonnet-thinking')).toBe('anthropic');
+    expect(schemaFamilyFor('MODEL_GOOGLE_GEMINI_2_5_PRO')).toBe('gemini');
+    expect(schemaFamilyFor('gpt-5')).toBe('openai');
+    expect(schemaFamilyFor('o3-mini')).toBe('openai');
+    expect(schemaFamilyFor('swe-1-6')).toBe('generic');
+  });
+});
+
+describe('normalizeToolSchema: opencode built-in tools', () => {
+  for (const [name, schema] of Object.entries(OPENCODE_TOOLS)) {
+    for (const family of FAMILIES) {
+      test(`${name} for ${family} keeps its properties and required list`, () => {
+        const out = normalizeToolSchema(schema, family);
+        expect(out['type']).toBe('object');
+        expect(Object.keys(out['properties'] as object)).toEqual(Object.keys(schema['properties'] as object));
+        expect(out['required']).toEqual(schema['required']);
+        expect(keywords(out).has('$schema')).toBe(false);
+      });
+    }
+
+    test(`${name} is otherwise unchanged for non-Gemini families`, () => {
+      const { $schema: _schema, ...rest } = schema;
+      for (const family of ['openai', 'anthropic', 'generic'] as const) {
+        expect(normalizeToolSchema(schema, family)).toEqual(rest);
+      }
+    });
+
+    test(`${name} only uses Gemini-supported keywords for gemini`, () => {
+      const allowed = new Set(['type', 'format', 'description', 'nullable', 'enum', 'properties', 'required', 'items', 'minimum', 'maximum']);
+      for (const k of keywords(normalizeToolSchema(schema, 'gemini'))) expect(allowed.has(k)).toBe(true);
+    });
+  }
+
+  test('webfetch keeps the dropped url format as a description hint for gemini', () => {
+    const out = normalizeToolSchema(OPENCODE_TOOLS['webfetch'], 'gemini');
+    const url = (out['properties'] as Record<string, Record<string, unknown>>)['url']!;
+    expect(url['format']).toBeUndefined();
+    expect(url['description']).toBe('The URL to fetch content from (format: uri)');
+  });
+});
+
+describe('normalizeToolSchema: MCP-style schemas', () => {
+  test('inlines $defs refs, with siblings overriding the target', () => {
+    const out = normalizeToolSchema({
+      type: 'object',
+      properties: {
+        owner: { $ref: '#/$defs/User', description: 'Repository owner' },
+        reviewers: { type: 'array', items: { $ref: '#/definitions/User' } },
+      },
+      $defs: { User: { type: 'object', properties: { login: { type: 'string' } }, description: 'A user' } },
+      definitions: { User: { $ref: '#/$defs/User' } },
+    }, 'openai');
+    expect(out).toEqual({
+      type: 'object',
+      properties: {
+        owner: { type: 'object', properties: { login: { type: 'string' } }, description: 'Repository owner' },
+        reviewers: { type: 'array', items: { type: 'object', properties: { login: { type: 'string' } }, description: 'A user' } },
+      },
+    });
+  });
+
+  test('terminates on recursive refs', () => {
+    const out = normalizeToolSchema({
+      type: 'object',
+      properties: { tree: { $ref: '#/$defs/Node' } },
+      $defs: { Node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/Node' } } } } },
+    }, 'anthropic');
+    const tree = (out['properties'] as Record<string, Record<string, unknown>>)['tree']!;
+    expect(tree['properties']).toEqual({ children: { type: 'array', items: { type: 'object' } } });
+  });
+
+  test('stops inlining refs that fan out exponentially', () => {
+    // D0 → D1 twice, D1 → D2 twice, …: 2^40 nodes if inlined naively.
+    const $defs: Record<string, unknown> = { D40: { type: 'string' } };
+    for (let i = 0; i < 40; i++) {
+      $defs[`D${i}`] = { type: 'object', properties: { a: { $ref: `#/$defs/D${i + 1}` }, b: { $ref: `#/$defs/D${i + 1}` } } };
+    }
+    const started = Date.now();
+    const out = normalizeToolSchema({ type: 'object', properties: { root: { $ref: '#/$defs/D0' } }, $defs }, 'anthropic');
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(JSON.stringify(out).length).toBeLessThanOrEqual(MAX_SCHEMA_CHARS);
+    expect(JSON.stringify(out)).toContain('{}');
+    const root = (out['properties'] as Record<string, Record<string, unknown>>)['root']!;
+    expect(root['type']).toBe('object');
+  });
+
+  test('flattens nullable unions, const unions and bare-type unions', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        label: { anyOf: [{ type: 'string' }, { type: 'null' }], description: 'Optional label' },
+        state: { oneOf: [{ const: 'open' }, { const: 'closed' }] },
+        id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+      },
+    };
+    expect(normalizeToolSchema(schema, 'openai')['properties']).toEqual({
+      label: { type: 'string', description: 'Optional label' },
+      state: { type: 'string', enum: ['open', 'closed'] },
+      id: { type: ['string', 'integer'] },
+    });
+    expect(normalizeToolSchema(schema, 'gemini')['properties']).toEqual({
+      label: { type: 'string', description: 'Optional label', nullable: true },
+      state: { type: 'string', enum: ['open', 'closed'] },
+      id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+    });
+  });
+
+  test('turns other oneOf unions into anyOf and merges allOf objects', () => {
+    const out = normalizeToolSchema({
+      type: 'object',
+      properties: {
+        target: { oneOf: [{ type: 'object', properties: { path: { type: 'string' } } }, { type: 'array', items: { type: 'string' } }] },
+      },
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { properties: { b: { type: 'number' } } },
+      ],
+    }, 'anthropic');
+    expect(out).toEqual({
+      type: 'object',
+      properties: {
+        target: { anyOf: [{ type: 'object', properties: { path: { type: 'string' } } }, { type: 'array', items: { type: 'string' } }] },
+        a: { type: 'string' },
+        b: { type: 'number' },
+      },
+      required: ['a'],
+    });
+  });
+
+  test('drops draft-2020 keywords but not properties that share their names', () => {
+    const out = normalizeToolSchema({
+      type: 'object',
+      properties: {
+        if: { type: 'string' },
+        tags: { type: 'array', prefixItems: [{ type: 'string' }], unevaluatedItems: false },
+      },
+      dependentRequired: { if: ['tags'] },
+      unevaluatedProperties: false,
+    }, 'generic');
+    expect(out).toEqual({ type: 'object', properties: { if: { type: 'string' }, tags: { type: 'array' } } });
+  });
+
+  test('returns an empty object schema for missing or non-object input', () => {
+    expect(normalizeToolSchema(undefined, 'openai')).toEqual({ type: 'object', properties: {} });
+    expect(normalizeToolSchema({ type: 'string' }, 'gemini')).toEqual({ type: 'object', properties: {} });
+  });
+
+  test('caps oversized schemas', () => {
+    const properties: Record<string, unknown> = {};
+    for (let i = 0; i < 60; i++) {
+      properties[`field${i}`] = {
+        type: 'object',
+        description: 'x'.repeat(400),
+        properties: { inner: { type: 'object', description: 'y'.repeat(400), properties: { leaf: { type: 'string', description: 'z'.repeat(400) } } } },
+      };
+    }
+    const out = normalizeToolSchema({ type: 'object', properties }, 'openai');
+    expect(JSON.stringify(out).length).toBeLessThanOrEqual(MAX_SCHEMA_CHARS);
+    expect(Object.keys(out['properties'] as object)).toHaveLength(60);
+  });
+
+  test('returns the cached result for an identical schema', () => {
+    const a = normalizeToolSchema(JSON.parse(JSON.stringify(OPENCODE_TOOLS['bash'])), 'gemini');
+    const b = normalizeToolSchema(JSON.parse(JSON.stringify(OPENCODE_TOOLS['bash'])), 'gemini');
+    expect(a).toBe(b);
+    expect(normalizeToolSchema(OPENCODE_TOOLS['bash'], 'openai')).not.toBe(a);
+  });
+});
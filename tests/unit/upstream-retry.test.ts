@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import type { CloudChatEvent } from '../../src/cloud-direct/index.js';
+import { CLOUD_STREAM_TTFB_MS, CloudChatError } from '../../src/cloud-direct/index.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  backoffForAttempt,
+  isTransientError,
+  resolveRetryPolicy,
+  streamWithRetry,
+  type RetryPolicy,
+} from '../../src/plugin/upstream-retry.js';
+
+const FAST: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxRetries: 2, initialBackoffMs: 1, maxBackoffMs: 1 };
+
+async function collect(events: AsyncIterable<CloudChatEvent>): Promise<CloudChatEvent[]> {
+  const out: CloudChatEvent[] = [];
+  for await (const ev of events) out.push(ev);
+  return out;
+}
+
+describe('isTransientError', () => {
+  test('retries 5xx, timeouts and dropped streams', () => {
+    expect(isTransientError(new CloudChatError('bad gateway', undefined, undefined, 502))).toBe(true);
+    expect(isTransientError(new CloudChatError('no first byte', 'deadline_exceeded'))).toBe(true);
+    expect(isTransientError(new CloudChatError('stream ended early', 'truncated_stream'))).toBe(true);
+    expect(isTransientError(new CloudChatError('try later', 'unavailable'))).toBe(true);
+  });
+
+  test('leaves request errors alone', () => {
+    expect(isTransientError(new CloudChatError('bad request', 'invalid_argument', undefined, 400))).toBe(false);
+    expect(isTransientError(new Error('socket hang up'))).toBe(false);
+  });
+
+  test('leaves rate limits to account rotation, even as a 5xx', () => {
+    expect(isTransientError(new CloudChatError('Rate limit exceeded', undefined, undefined, 503))).toBe(false);
+    expect(isTransientError(new CloudChatError('out of credits', 'resource_exhausted', undefined, 500))).toBe(false);
+    expect(isTransientError(new CloudChatError('quota exhausted', 'unavailable'))).toBe(false);
+  });
+});
+
+describe('retry policy', () => {
+  test('backs off exponentially up to the cap', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialBackoffMs: 100, maxBackoffMs: 500, backoffMultiplier: 2 };
+    expect([1, 2, 3, 4].map((n) => backoffForAttempt(policy, n))).toEqual([100, 200, 400, 500]);
+  });
+
+  test('gives reasoning models a longer TTFB budget', () => {
+    expect(resolveRetryPolicy('gpt-4.1', 'gpt-4-1', {}).ttfbTimeoutMs).toBe(CLOUD_STREAM_TTFB_MS);
+    expect(resolveRetryPolicy('claude-opus-4.7', 'claude-opus-4-7-high', {}).ttfbTimeoutMs).toBeGreaterThan(CLOUD_STREAM_TTFB_MS);
+    expect(resolveRetryPolicy('deepseek-r1', 'deepseek-r1', {}).ttfbTimeoutMs).toBeGreaterThan(CLOUD_STREAM_TTFB_MS);
+  });
+
+  test('a few retries within a whole-stack deadline by default', () => {
+    expect(DEFAULT_RETRY_POLICY.maxRetries).toBe(2);
+    expect(resolveRetryPolicy('gpt-4.1', 'gpt-4-1', {}).deadlineMs).toBe(150_000);
+    expect(resolveRetryPolicy('o3', 'MODEL_O3', {}).deadlineMs).toBeGreaterThan(150_000);
+  });
+
+  test('caller overrides win, and bad values are ignored', () => {
+    const policy = resolveRetryPolicy('deepseek-r1', 'deepseek-r1', {
+      providerOptions: { windsurf: { retry: { ttfbTimeoutMs: 5000, maxRetries: 1.7, initialBackoffMs: -1 } } },
+    });
+    expect(policy.ttfbTimeoutMs).toBe(5000);
+    expect(policy.maxRetries).toBe(1);
+    expect(policy.initialBackoffMs).toBe(DEFAULT_RETRY_POLICY.initialBackoffMs);
+  });
+});
+
+describe('streamWithRetry', () => {
+  test('re-sends after a transient failure before the first event', async () => {
+    let attempts = 0;
+    const events = await collect(streamWithRetry(FAST, async function* () {
+      attempts++;
+      if (attempts < 3) throw new CloudChatError('unavailable', 'unavailable');
+      yield { kind: 'text', text: 'ok' };
+    }));
+    expect(attempts).toBe(3);
+    expect(events).toEqual([{ kind: 'text', text: 'ok' }]);
+  });
+
+  test('gives up after maxRetries', async () => {
+    let attempts = 0;
+    const run = collect(streamWithRetry(FAST, async function* () {
+      attempts++;
+      throw new CloudChatError('bad gateway', undefined, undefined, 502);
+    }));
+    await expect(run).rejects.toThrow('bad gateway');
+    expect(attempts).toBe(FAST.maxRetries + 1);
+  });
+
+  test('does not retry once output has streamed', async () => {
+    let attempts = 0;
+    const run = collect(streamWithRetry(FAST, async function* () {
+      attempts++;
+      yield { kind: 'text', text: 'partial' };
+      throw new CloudChatError('stream ended early', 'truncated_stream');
+    }));
+    await expect(run).rejects.toThrow('stream ended early');
+    expect(attempts).toBe(1);
+  });
+
+  test('cuts each attempt\'s TTFB budget to the time left before the deadline', async () => {
+    const budgets: number[] = [];
+    const events = await collect(streamWithRetry(FAST, async function* (ttfbTimeoutMs) {
+      budgets.push(ttfbTimeoutMs);
+      yield { kind: 'text', text: 'ok' };
+    }, undefined, undefined, Date.now() + 5000));
+    expect(events).toHaveLength(1);
+    expect(budgets[0]).toBeLessThanOrEqual(5000);
+    expect(budgets[0]).toBeGreaterThan(4000);
+  });
+
+  test('does not retry when the backoff would pass the deadline', async () => {
+    let attempts = 0;
+    const slow = { ...FAST, initialBackoffMs: 10_000, maxBackoffMs: 10_000 };
+    const run = collect(streamWithRetry(slow, async function* () {
+      attempts++;
+      throw new CloudChatError('try later', 'unavailable');
+    }, undefined, undefined, Date.now() + 1000));
+    await expect(run).rejects.toThrow('try later');
+    expect(attempts).toBe(1);
+  });
+
+  test('starts nothing once the deadline has passed', async () => {
+    let attempts = 0;
+    const run = collect(streamWithRetry(FAST, async function* () {
+      attempts++;
+      yield { kind: 'text', text: 'late' };
+    }, undefined, undefined, Date.now() - 1));
+    await expect(run).rejects.toMatchObject({ code: 'deadline_exceeded' });
+    expect(attempts).toBe(0);
+  });
+
+  test('does not retry a rate limit', async () => {
+    let attempts = 0;
+    const run = collect(streamWithRetry(FAST, async function* () {
+      attempts++;
+      throw new CloudChatError('Rate limit exceeded', undefined, undefined, 503);
+    }));
+    await expect(run).rejects.toThrow('Rate limit exceeded');
+    expect(attempts).toBe(1);
+  });
+});